@@ -0,0 +1,4 @@
+// Native modules the services import at module load
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -1,13 +1,17 @@
+// Fixed zone so DST edge cases are reproducible (last Sunday of March/October)
+process.env.TZ = 'Europe/Berlin';
+
 module.exports = {
   preset: 'jest-expo',
   setupFilesAfterEnv: ['<rootDir>/jest-setup.js'],
+  modulePathIgnorePatterns: ['<rootDir>/alarmkit-complete-backup/'],
   testMatch: ['**/__tests__/**/*.(ts|tsx|js)', '**/*.(test|spec).(ts|tsx|js)'],
   collectCoverageFrom: [
     'src/**/*.(ts|tsx)',
     '!src/**/*.d.ts',
     '!src/**/*.stories.*',
   ],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
   transformIgnorePatterns: [
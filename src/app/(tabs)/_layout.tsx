@@ -4,6 +4,8 @@ import { TouchableOpacity, View } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeNavigationBasic } from '../../hooks/use-safe-navigation';
 import { useAlarmStore } from '../../stores/alarm-store';
+import { useSleepSettingsStore } from '../../stores/sleep-settings-store';
+import { useSyncStore } from '../../stores/sync-store';
 import { notificationService } from '../../services/notifications/notification-service';
 import { useTheme } from '../../contexts/theme-context';
 import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
@@ -45,16 +47,23 @@ function CreateButton() {
 export default function TabLayout() {
   const { navigate } = useSafeNavigationBasic();
   const { loadAlarms } = useAlarmStore();
+  const { loadQuietHoursFromProfile, syncBedtimeReminders } =
+    useSleepSettingsStore();
+  const { syncNow } = useSyncStore();
   const { isDark } = useTheme();
   const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
 
   useEffect(() => {
-    // Initialize alarm store when app loads
-    loadAlarms();
+    // Initialize alarm store when app loads, pull alarms from other devices,
+    // then plan bedtime reminders
+    loadAlarms()
+      .then(syncNow)
+      .then(loadQuietHoursFromProfile)
+      .then(syncBedtimeReminders);
 
     // Setup alarm notification listeners
     notificationService.setupAlarmListeners();
-  }, [loadAlarms]);
+  }, [loadAlarms, syncNow, loadQuietHoursFromProfile, syncBedtimeReminders]);
 
   return (
     <Tabs
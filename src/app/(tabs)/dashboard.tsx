@@ -3,7 +3,7 @@ import {
   View,
   Text,
   SafeAreaView,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   Alert,
 } from 'react-native';
@@ -19,11 +19,50 @@ import {
 } from '../../components/ui/themed-view';
 import { useAlarmStore } from '../../stores/alarm-store';
 import { Alarm } from '../../stores/alarm-store';
+import { AlarmGroup } from '../../types/alarm';
 import AlarmKitOnboarding from '../../components/alarmkit/AlarmKitOnboarding';
+import { BedNowSuggestions } from '../../components/sleep/BedNowSuggestions';
+import { NapCountdownCard } from '../../components/sleep/NapCountdownCard';
+import { NotificationHorizonWarning } from '../../components/alarms/NotificationHorizonWarning';
+import { MissedAlarmBanner } from '../../components/alarms/MissedAlarmBanner';
+import {
+  describeRecurrence,
+  getNextOccurrence,
+  getRecurrenceRule,
+  isRepeating,
+} from '../../services/alarms/recurrence';
+import {
+  describeOccurrenceDay,
+  getUpcomingException,
+} from '../../services/alarms/occurrence-exceptions';
+import {
+  buildAlarmSections,
+  isAlarmEffectivelyActive,
+} from '../../services/alarms/alarm-groups';
+import type { BatchScheduleResult } from '../../services/alarms/alarm-service';
+import { getMissionInfo } from '../../services/missions/mission-registry';
+import { alarmTransferService } from '../../services/alarms/alarm-transfer-service';
 
 export default function AlarmsScreen() {
-  const { alarms, isLoading, loadAlarms, toggleAlarm, deleteAlarm } =
-    useAlarmStore();
+  const {
+    alarms,
+    isLoading,
+    loadAlarms,
+    toggleAlarm,
+    deleteAlarm,
+    skipNextOccurrence,
+    removeException,
+    groups,
+    createGroup,
+    renameGroup,
+    deleteGroup,
+    moveGroup,
+    setGroupCollapsed,
+    toggleGroup,
+    notificationCoverage,
+    missedAlarms,
+    dismissMissedAlarms,
+  } = useAlarmStore();
   const { isDark } = useTheme();
   const { navigate, canNavigate } = useSafeNavigation();
 
@@ -75,6 +114,18 @@ export default function AlarmsScreen() {
             style: 'destructive',
             onPress: () => handleDeleteAlarm(alarm.id),
           },
+          ...(isRepeating(alarm)
+            ? [
+                {
+                  text: '⏭️ Přeskočit další',
+                  onPress: () => {
+                    skipNextOccurrence(alarm.id).catch(error =>
+                      Alert.alert('Error', error.message)
+                    );
+                  },
+                },
+              ]
+            : []),
           {
             text: '👁️ Náhled budíku.',
             onPress: () =>
@@ -90,7 +141,7 @@ export default function AlarmsScreen() {
         { cancelable: true }
       );
     },
-    [handleDeleteAlarm]
+    [handleDeleteAlarm, skipNextOccurrence]
   );
 
   // Render delete action for swipe - floating button design
@@ -159,73 +210,127 @@ export default function AlarmsScreen() {
     });
   }, []);
 
+  // Report alarms that could not be (un)scheduled by a group switch
+  const reportBatchFailures = useCallback(
+    (result: BatchScheduleResult) => {
+      if (result.failed.length === 0) return;
+
+      const names = result.failed
+        .map(({ alarmId }) => {
+          const alarm = alarms.find(a => a.id === alarmId);
+          return alarm ? formatTime(alarm.time) : alarmId;
+        })
+        .join(', ');
+
+      Alert.alert(
+        'Some alarms were not updated',
+        `${result.succeeded.length} updated, ${result.failed.length} failed (${names}). They will be retried on next launch.`
+      );
+    },
+    [alarms, formatTime]
+  );
+
+  const handleToggleGroup = useCallback(
+    async (groupId: string) => {
+      try {
+        reportBatchFailures(await toggleGroup(groupId));
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to toggle group');
+      }
+    },
+    [toggleGroup, reportBatchFailures]
+  );
+
+  const handleCreateGroup = useCallback(() => {
+    Alert.prompt('New group', 'e.g. Weekdays, Weekend, Travel', name => {
+      if (name?.trim()) createGroup(name.trim());
+    });
+  }, [createGroup]);
+
+  // Backup menu - export/share all alarms or import an export file
+  const handleBackupMenu = useCallback(() => {
+    Alert.alert('Backup', 'Move your alarms to another phone or share them', [
+      {
+        text: 'Export & share',
+        onPress: () =>
+          alarmTransferService.shareExport(alarms, groups).catch(error => {
+            console.error('📤 Failed to export alarms:', error);
+            Alert.alert('Error', 'Failed to export alarms');
+          }),
+      },
+      { text: 'Import from file', onPress: () => navigate('/alarms/import') },
+      {
+        text: 'Import calendar (.ics)',
+        onPress: () => navigate('/alarms/import-calendar'),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [alarms, groups, navigate]);
+
+  // Group header menu - rename, reorder, delete
+  const handleGroupMenu = useCallback(
+    (group: AlarmGroup) => {
+      Alert.alert(
+        group.name,
+        '',
+        [
+          {
+            text: '✏️ Přejmenovat',
+            onPress: () =>
+              Alert.prompt(
+                'Rename group',
+                undefined,
+                name => {
+                  if (name?.trim()) renameGroup(group.id, name.trim());
+                },
+                'plain-text',
+                group.name
+              ),
+          },
+          {
+            text: '⬆️ Posunout nahoru',
+            onPress: () => moveGroup(group.id, -1),
+          },
+          { text: '⬇️ Posunout dolů', onPress: () => moveGroup(group.id, 1) },
+          {
+            text: '🗑️ Smazat skupinu',
+            style: 'destructive',
+            onPress: async () =>
+              reportBatchFailures(await deleteGroup(group.id)),
+          },
+          { text: 'Cancel', style: 'cancel' },
+        ],
+        { cancelable: true }
+      );
+    },
+    [renameGroup, moveGroup, deleteGroup, reportBatchFailures]
+  );
+
+  // Naps get their own countdown card instead of a list entry
+  const naps = alarms.filter(alarm => alarm.isNap);
+  const regularAlarms = alarms.filter(alarm => !alarm.isNap);
+
   // Get next alarm - finds the alarm that occurs next after current time
   const getNextAlarm = useCallback(() => {
-    const enabledAlarms = alarms.filter(alarm => alarm.isActive);
+    const enabledAlarms = alarms.filter(
+      alarm => !alarm.isNap && isAlarmEffectivelyActive(alarm, groups)
+    );
     if (enabledAlarms.length === 0) return null;
 
     const now = new Date();
-    const currentTime = now.getHours() * 60 + now.getMinutes(); // Current time in minutes
-    const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-
     let nextAlarm: Alarm | null = null;
-    let minTimeToNext = Infinity;
+    let nextTrigger = Infinity;
 
     enabledAlarms.forEach(alarm => {
-      const alarmTime = new Date(alarm.time);
-      const alarmMinutes = alarmTime.getHours() * 60 + alarmTime.getMinutes();
-
-      // If no repeat days, it's a one-time alarm
-      if (!alarm.repeatDays || alarm.repeatDays.length === 0) {
-        // One-time alarm - check if it's still today and after current time
-        if (alarmMinutes > currentTime) {
-          const timeToNext = alarmMinutes - currentTime;
-          if (timeToNext < minTimeToNext) {
-            minTimeToNext = timeToNext;
-            nextAlarm = alarm;
-          }
-        } else {
-          // One-time alarm has passed today - check if it's for tomorrow
-          // (treat one-time alarms as "next day" if they've passed today)
-          const timeToNext = 24 * 60 + alarmMinutes - currentTime;
-          if (timeToNext < minTimeToNext) {
-            minTimeToNext = timeToNext;
-            nextAlarm = alarm;
-          }
-        }
-        return;
-      }
-
-      // Repeating alarm - find next occurrence
-      for (let daysAhead = 0; daysAhead < 7; daysAhead++) {
-        const checkDay = (currentDay + daysAhead) % 7;
-        const isAlarmDay = alarm.repeatDays.includes(checkDay);
-
-        if (isAlarmDay) {
-          let timeToNext;
-          if (daysAhead === 0) {
-            // Today - only if alarm time is in the future
-            if (alarmMinutes > currentTime) {
-              timeToNext = alarmMinutes - currentTime;
-            } else {
-              continue; // Skip to next day
-            }
-          } else {
-            // Future day
-            timeToNext = daysAhead * 24 * 60 + alarmMinutes - currentTime;
-          }
-
-          if (timeToNext < minTimeToNext) {
-            minTimeToNext = timeToNext;
-            nextAlarm = alarm;
-          }
-          break; // Found next occurrence for this alarm
-        }
+      const occurrence = getNextOccurrence(alarm, now);
+      if (occurrence && occurrence.getTime() < nextTrigger) {
+        nextTrigger = occurrence.getTime();
+        nextAlarm = alarm;
       }
     });
 
     return nextAlarm;
-  }, [alarms]);
+  }, [alarms, groups]);
 
   const nextAlarm = getNextAlarm();
   const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
@@ -238,42 +343,10 @@ export default function AlarmsScreen() {
     const alarm = nextAlarm as Alarm;
 
     const now = new Date();
-    const currentTime =
-      now.getHours() * 60 + now.getMinutes() + now.getSeconds() / 60; // Include seconds for precision
-    const currentDay = now.getDay();
-
-    const alarmTime = new Date(alarm.time);
-    const alarmMinutes = alarmTime.getHours() * 60 + alarmTime.getMinutes();
-
-    let timeToNext = 0;
-
-    // One-time alarm
-    if (!alarm.repeatDays || alarm.repeatDays.length === 0) {
-      if (alarmMinutes > Math.floor(currentTime)) {
-        // Today, calculate precise time including seconds
-        timeToNext = alarmMinutes - currentTime;
-      } else {
-        // Tomorrow - one-time alarm has passed today
-        timeToNext = 24 * 60 + alarmMinutes - currentTime;
-      }
-    } else {
-      // Repeating alarm - find next occurrence
-      for (let daysAhead = 0; daysAhead < 7; daysAhead++) {
-        const checkDay = (currentDay + daysAhead) % 7;
-        const isAlarmDay = alarm.repeatDays.includes(checkDay);
-
-        if (isAlarmDay) {
-          if (daysAhead === 0 && alarmMinutes > Math.floor(currentTime)) {
-            timeToNext = alarmMinutes - currentTime;
-          } else if (daysAhead > 0) {
-            timeToNext = daysAhead * 24 * 60 + alarmMinutes - currentTime;
-          } else {
-            continue;
-          }
-          break;
-        }
-      }
-    }
+    const occurrence = getNextOccurrence(alarm, now);
+    const timeToNext = occurrence
+      ? (occurrence.getTime() - now.getTime()) / 60000
+      : 0;
 
     const totalSeconds = Math.floor(timeToNext * 60);
     const hours = Math.floor(totalSeconds / 3600);
@@ -289,11 +362,13 @@ export default function AlarmsScreen() {
     }
   }, [nextAlarm, currentTime]);
 
-  // Render week days row or "Jednorázový" - pro top left pozici
+  // Render week days row, recurrence summary or "Jednorázový" - pro top left pozici
   const renderWeekDays = useCallback(
-    (activedays: number[] = []) => {
-      // If no repeat days, show "Jednorázový"
-      if (!activedays || activedays.length === 0) {
+    (alarm: Alarm) => {
+      const rule = getRecurrenceRule(alarm);
+
+      // If no recurrence, show "Jednorázový"; other than plain weekly, show summary
+      if (!rule || rule.type !== 'weekly' || (rule.intervalWeeks ?? 1) > 1) {
         return (
           <View style={{ height: 24, justifyContent: 'center' }}>
             <ThemedText
@@ -304,12 +379,14 @@ export default function AlarmsScreen() {
                 fontWeight: '600',
               }}
             >
-              Jednorázový
+              {rule ? describeRecurrence(alarm) : 'Jednorázový'}
             </ThemedText>
           </View>
         );
       }
 
+      const activedays = rule.weekdays;
+
       const dayNames = ['Po', 'Út', 'St', 'Čt', 'Pá', 'So', 'Ne'];
       return (
         <View
@@ -357,6 +434,10 @@ export default function AlarmsScreen() {
   // Render individual alarm item
   const renderAlarmItem = useCallback(
     ({ item: alarm }: { item: Alarm }) => {
+      const upcomingException = getUpcomingException(alarm);
+      // Alarms of a disabled group keep their own switch but won't ring
+      const isEffectivelyActive = isAlarmEffectivelyActive(alarm, groups);
+
       return (
         <Swipeable
           key={alarm.id}
@@ -376,12 +457,18 @@ export default function AlarmsScreen() {
             style={{
               backgroundColor: theme.elevated,
               borderWidth: 1,
-              borderColor: alarm.isActive ? APP_COLORS.primary : theme.border,
+              borderColor: isEffectivelyActive
+                ? APP_COLORS.primary
+                : theme.border,
               borderRadius: 12,
               padding: 24,
               marginBottom: 12,
               minHeight: 140, // Ensure consistent height
-              opacity: canNavigate ? 1 : 0.7,
+              opacity: !canNavigate
+                ? 0.7
+                : alarm.isActive && !isEffectivelyActive
+                  ? 0.5
+                  : 1,
             }}
           >
             {/* Main layout container */}
@@ -397,7 +484,7 @@ export default function AlarmsScreen() {
               >
                 {/* Dny v týdnu - vlevo nahoře */}
                 <View style={{ flex: 1, alignItems: 'flex-start' }}>
-                  {renderWeekDays(alarm.repeatDays)}
+                  {renderWeekDays(alarm)}
                 </View>
 
                 {/* Toggle switch */}
@@ -528,9 +615,87 @@ export default function AlarmsScreen() {
                           opacity: 0.8,
                         }}
                       >
-                        Mise - počítání
+                        {alarm.mission
+                          ? `Mise - ${getMissionInfo(alarm.mission.type).name}`
+                          : 'Bez mise'}
                       </ThemedText>
                     </View>
+
+                    {/* Pending snooze */}
+                    {alarm.snoozeState &&
+                      alarm.snoozeState.snoozedUntil > new Date() && (
+                        <View
+                          style={{
+                            flexDirection: 'row',
+                            alignItems: 'center',
+                            marginTop: 4,
+                          }}
+                        >
+                          <Ionicons
+                            name="time-outline"
+                            size={14}
+                            color={APP_COLORS.accent}
+                          />
+                          <ThemedText
+                            style={{
+                              fontSize: 11,
+                              color: APP_COLORS.accent,
+                              marginLeft: 6,
+                            }}
+                          >
+                            Snoozed until{' '}
+                            {formatTime(alarm.snoozeState.snoozedUntil)}
+                          </ThemedText>
+                        </View>
+                      )}
+
+                    {/* Skipped / moved next occurrence */}
+                    {upcomingException && (
+                      <View
+                        style={{
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          marginTop: 4,
+                        }}
+                      >
+                        <Ionicons
+                          name={
+                            upcomingException.type === 'skip'
+                              ? 'play-skip-forward-outline'
+                              : 'swap-horizontal-outline'
+                          }
+                          size={14}
+                          color={APP_COLORS.accent}
+                        />
+                        <ThemedText
+                          style={{
+                            fontSize: 11,
+                            color: APP_COLORS.accent,
+                            marginLeft: 6,
+                          }}
+                        >
+                          {upcomingException.type === 'skip'
+                            ? `Skipped ${describeOccurrenceDay(upcomingException.date)}`
+                            : `Moved to ${upcomingException.time} ${describeOccurrenceDay(upcomingException.date)}`}
+                        </ThemedText>
+                        <TouchableOpacity
+                          onPress={() =>
+                            removeException(alarm.id, upcomingException.date)
+                          }
+                          style={{ marginLeft: 8 }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 11,
+                              fontWeight: '700',
+                              color: APP_COLORS.primary,
+                            }}
+                          >
+                            Undo
+                          </ThemedText>
+                        </TouchableOpacity>
+                      </View>
+                    )}
                   </View>
 
                   {/* Three dots menu - bottom right corner */}
@@ -559,18 +724,130 @@ export default function AlarmsScreen() {
       toggleAlarm,
       renderWeekDays,
       handleThreeDotsMenu,
+      removeException,
+      groups,
       navigate,
       canNavigate,
     ]
   );
 
+  // Render collapsible group header with group-level switch
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: { group: AlarmGroup | null; count: number } }) => {
+      const { group } = section;
+
+      if (!group) {
+        // Ungrouped alarms only get a header once groups exist
+        if (groups.length === 0) return null;
+        return (
+          <ThemedText
+            style={{
+              fontSize: 14,
+              fontWeight: '600',
+              opacity: 0.7,
+              marginBottom: 12,
+              marginTop: 8,
+            }}
+          >
+            Ostatní
+          </ThemedText>
+        );
+      }
+
+      return (
+        <View
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginBottom: 12,
+            marginTop: 8,
+          }}
+        >
+          <TouchableOpacity
+            activeOpacity={0.7}
+            style={{ flex: 1, flexDirection: 'row', alignItems: 'center' }}
+            onPress={() => setGroupCollapsed(group.id, !group.isCollapsed)}
+            onLongPress={() => handleGroupMenu(group)}
+          >
+            <Ionicons
+              name={group.isCollapsed ? 'chevron-forward' : 'chevron-down'}
+              size={18}
+              color={theme.text.secondary}
+            />
+            <ThemedText
+              style={{
+                fontSize: 16,
+                fontWeight: '700',
+                marginLeft: 6,
+                opacity: group.isEnabled ? 1 : 0.5,
+              }}
+            >
+              {group.name}
+            </ThemedText>
+            <ThemedText style={{ fontSize: 12, opacity: 0.5, marginLeft: 8 }}>
+              {section.count}
+            </ThemedText>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            activeOpacity={0.7}
+            style={{ padding: 4, marginRight: 8 }}
+            onPress={() => handleGroupMenu(group)}
+          >
+            <Ionicons
+              name="ellipsis-horizontal"
+              size={18}
+              color={theme.text.secondary}
+            />
+          </TouchableOpacity>
+
+          {/* Group toggle switch */}
+          <TouchableOpacity
+            style={{
+              width: 48,
+              height: 24,
+              borderRadius: 12,
+              backgroundColor: group.isEnabled
+                ? APP_COLORS.primary
+                : theme.border,
+              padding: 2,
+              justifyContent: 'center',
+            }}
+            activeOpacity={0.8}
+            onPress={() => handleToggleGroup(group.id)}
+          >
+            <View
+              style={{
+                width: 20,
+                height: 20,
+                borderRadius: 10,
+                backgroundColor: '#FFFFFF',
+                marginLeft: group.isEnabled ? 24 : 0,
+              }}
+            />
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [groups, theme, setGroupCollapsed, handleGroupMenu, handleToggleGroup]
+  );
+
+  const sections = buildAlarmSections(regularAlarms, groups).map(section => ({
+    key: section.key,
+    group: section.group,
+    count: section.alarms.length,
+    data: section.group?.isCollapsed ? [] : section.alarms,
+  }));
+
   return (
     <ThemedView style={{ flex: 1 }}>
       <SafeAreaView style={{ flex: 1 }}>
-        <FlatList
-          data={alarms}
+        <SectionList
+          sections={sections}
           keyExtractor={item => item.id}
           renderItem={renderAlarmItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
           contentContainerStyle={{ paddingHorizontal: 24 }}
           showsVerticalScrollIndicator={false}
           ListHeaderComponent={() => (
@@ -613,6 +890,23 @@ export default function AlarmsScreen() {
                 style={{ marginBottom: 16 }}
               /> */}
 
+              <MissedAlarmBanner
+                missedAlarms={missedAlarms}
+                onDismiss={dismissMissedAlarms}
+              />
+
+              <NotificationHorizonWarning coverage={notificationCoverage} />
+
+              {/* Running naps */}
+              {naps.map(nap => (
+                <NapCountdownCard
+                  key={nap.id}
+                  nap={nap}
+                  now={currentTime}
+                  onCancel={() => deleteAlarm(nap.id)}
+                />
+              ))}
+
               {/* Next Alarm Hero Card */}
               {nextAlarm ? (
                 (() => {
@@ -679,7 +973,7 @@ export default function AlarmsScreen() {
                           >
                             {/* Dny v týdnu - vlevo nahoře */}
                             <View style={{ flex: 1, alignItems: 'flex-start' }}>
-                              {renderWeekDays(alarm.repeatDays)}
+                              {renderWeekDays(alarm)}
                             </View>
 
                             {/* Active indicator */}
@@ -769,7 +1063,9 @@ export default function AlarmsScreen() {
                                       opacity: 0.8,
                                     }}
                                   >
-                                    Mise - počítání
+                                    {alarm.mission
+                                      ? `Mise - ${getMissionInfo(alarm.mission.type).name}`
+                                      : 'Bez mise'}
                                   </ThemedText>
                                 </View>
                               </View>
@@ -835,11 +1131,120 @@ export default function AlarmsScreen() {
                 </View>
               )}
 
+              {/* Sleep-cycle wake times for going to bed now */}
+              <BedNowSuggestions
+                onSelect={wakeTime =>
+                  navigate(
+                    `/alarms/create?time=${encodeURIComponent(wakeTime.toISOString())}`
+                  )
+                }
+              />
+
               {/* My Alarms Section Header */}
-              <View style={{ marginBottom: 24 }}>
+              <View
+                style={{
+                  marginBottom: 24,
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                }}
+              >
                 <ThemedText style={{ fontSize: 24, fontWeight: 'bold' }}>
                   My Alarms
                 </ThemedText>
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    flexWrap: 'wrap',
+                    flexShrink: 1,
+                    justifyContent: 'flex-end',
+                    alignItems: 'center',
+                    columnGap: 16,
+                    rowGap: 8,
+                    marginLeft: 16,
+                  }}
+                >
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={() => navigate('/alarms/statistics')}
+                    style={{ flexDirection: 'row', alignItems: 'center' }}
+                  >
+                    <Ionicons
+                      name="stats-chart-outline"
+                      size={18}
+                      color={APP_COLORS.accent}
+                    />
+                    <ThemedText
+                      style={{
+                        fontSize: 12,
+                        color: APP_COLORS.accent,
+                        marginLeft: 4,
+                      }}
+                    >
+                      Stats
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={() => navigate('/alarms/history')}
+                    style={{ flexDirection: 'row', alignItems: 'center' }}
+                  >
+                    <Ionicons
+                      name="list-outline"
+                      size={18}
+                      color={APP_COLORS.accent}
+                    />
+                    <ThemedText
+                      style={{
+                        fontSize: 12,
+                        color: APP_COLORS.accent,
+                        marginLeft: 4,
+                      }}
+                    >
+                      History
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={handleBackupMenu}
+                    style={{ flexDirection: 'row', alignItems: 'center' }}
+                  >
+                    <Ionicons
+                      name="share-outline"
+                      size={18}
+                      color={APP_COLORS.accent}
+                    />
+                    <ThemedText
+                      style={{
+                        fontSize: 12,
+                        color: APP_COLORS.accent,
+                        marginLeft: 4,
+                      }}
+                    >
+                      Backup
+                    </ThemedText>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    activeOpacity={0.7}
+                    onPress={handleCreateGroup}
+                    style={{ flexDirection: 'row', alignItems: 'center' }}
+                  >
+                    <Ionicons
+                      name="folder-open-outline"
+                      size={18}
+                      color={APP_COLORS.accent}
+                    />
+                    <ThemedText
+                      style={{
+                        fontSize: 12,
+                        color: APP_COLORS.accent,
+                        marginLeft: 4,
+                      }}
+                    >
+                      New group
+                    </ThemedText>
+                  </TouchableOpacity>
+                </View>
               </View>
             </>
           )}
@@ -10,6 +10,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { SimpleThemeToggle } from '../../components/ui/theme-switcher';
+import { BedtimeSettingsCard } from '../../components/sleep/BedtimeSettingsCard';
+import { SyncStatusCard } from '../../components/sync/SyncStatusCard';
+import { CalendarExportCard } from '../../components/calendar/CalendarExportCard';
 import {
   ThemedView,
   ThemedText,
@@ -133,6 +136,15 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          {/* Bedtime */}
+          <BedtimeSettingsCard />
+
+          {/* Cloud Sync */}
+          <SyncStatusCard />
+
+          {/* Calendar Export */}
+          <CalendarExportCard />
+
           {/* Smart Features */}
           <View className="bg-bg-elevated border border-border-visible rounded-xl p-6 mb-6">
             <Text className="text-caption text-neon-aqua font-semibold mb-4">
@@ -99,6 +99,16 @@ function RootLayoutNav() {
           name="alarms/spotify-selector"
           options={{ headerShown: false }}
         />
+        <Stack.Screen name="alarms/history" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="alarms/statistics"
+          options={{ headerShown: false }}
+        />
+        <Stack.Screen name="alarms/import" options={{ headerShown: false }} />
+        <Stack.Screen
+          name="alarms/import-calendar"
+          options={{ headerShown: false }}
+        />
       </Stack>
     </GestureHandlerRootView>
   );
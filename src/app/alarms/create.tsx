@@ -1,5 +1,11 @@
 import React, { useState } from 'react';
-import { View, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import {
+  View,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+  Switch,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -12,8 +18,62 @@ import {
   ThemedCard,
 } from '../../components/ui/themed-view';
 import { AudioPicker } from '../../components/audio/AudioPicker';
+import { VolumeRampEditor } from '../../components/audio/VolumeRampEditor';
+import { SleepCycleSuggestions } from '../../components/sleep/SleepCycleSuggestions';
+import { NapDurationPicker } from '../../components/sleep/NapDurationPicker';
+import { DEFAULT_NAP_MINUTES } from '../../services/alarms/naps';
 import { useAlarmStore } from '../../stores/alarm-store';
 import { AudioTrack } from '../../services/audio/types';
+import {
+  AlarmMissionConfig,
+  AlarmTimeMode,
+  AwakeCheckConfig,
+  EscalationConfig,
+  MissionType,
+  RecurrenceRule,
+  GentleWakeConfig,
+  SnoozePolicy,
+  VolumeRamp,
+} from '../../types/alarm';
+import {
+  DEFAULT_SNOOZE_POLICY,
+  SNOOZE_DURATION_OPTIONS,
+  buildShorteningIntervals,
+} from '../../services/alarms/snooze-policy';
+import {
+  describeRecurrence,
+  toDateKey,
+} from '../../services/alarms/recurrence';
+import { sortGroups } from '../../services/alarms/alarm-groups';
+import { DEFAULT_TIME_MODE } from '../../services/alarms/alarm-timezone';
+import { DEFAULT_VOLUME_RAMP } from '../../services/audio/volume-ramp';
+import {
+  DEFAULT_GENTLE_WAKE,
+  GENTLE_WAKE_MINUTES_OPTIONS,
+  getGentleWakeSounds,
+} from '../../services/alarms/gentle-wake';
+import {
+  DEFAULT_ESCALATION,
+  ESCALATION_MINUTES_OPTIONS,
+  describeEscalation,
+  getBackupSounds,
+} from '../../services/alarms/escalation';
+import {
+  AWAKE_CHECK_MINUTES_OPTIONS,
+  AWAKE_CHECK_RESPONSE_OPTIONS,
+  DEFAULT_AWAKE_CHECK,
+  describeAwakeCheck,
+} from '../../services/alarms/awake-check';
+import {
+  DEFAULT_MISSION_CONFIG,
+  MISSION_DIFFICULTIES,
+  MISSION_TYPES,
+  MOTION_MISSION_TYPES,
+  getMissionInfo,
+  getMotionMission,
+  isMotionMissionType,
+} from '../../services/missions/mission-registry';
+import { getMotionSettings } from '../../services/missions/motion-missions';
 import { useTheme } from '../../contexts/theme-context';
 import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
 
@@ -27,25 +87,92 @@ const DAYS_OF_WEEK = [
   { id: 6, name: 'Sat', fullName: 'Saturday' },
 ];
 
+type RepeatMode = 'weekly' | 'alternate' | 'interval' | 'monthly';
+
+const REPEAT_MODES: { id: RepeatMode; name: string }[] = [
+  { id: 'weekly', name: 'Weekly' },
+  { id: 'alternate', name: 'Every 2 wks' },
+  { id: 'interval', name: 'Every N days' },
+  { id: 'monthly', name: 'Monthly' },
+];
+
+const getInitialRepeatMode = (rule?: RecurrenceRule): RepeatMode => {
+  if (rule?.type === 'weekly' && (rule.intervalWeeks ?? 1) > 1) {
+    return 'alternate';
+  }
+  if (rule?.type === 'daily') return 'interval';
+  if (rule?.type === 'monthly') return 'monthly';
+  return 'weekly';
+};
+
 export default function CreateAlarmScreen() {
-  const { createAlarm, updateAlarm, alarms, isLoading } = useAlarmStore();
+  const { createAlarm, updateAlarm, startNap, alarms, groups, isLoading } =
+    useAlarmStore();
   const { isDark } = useTheme();
   const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
   const { replace, goBack, canNavigate } = useSafeNavigation();
 
   // Get editId from params to determine if we're editing
-  const { editId } = useLocalSearchParams<{ editId?: string }>();
+  // time (ISO) preselects the alarm time, e.g. from a sleep-cycle suggestion
+  const { editId, time } = useLocalSearchParams<{
+    editId?: string;
+    time?: string;
+  }>();
   const isEditing = !!editId;
   const editingAlarm = isEditing ? alarms.find(a => a.id === editId) : null;
 
-  const [alarmTime, setAlarmTime] = useState(editingAlarm?.time || new Date());
+  const [alarmTime, setAlarmTime] = useState(
+    editingAlarm?.time || (time ? new Date(time) : new Date())
+  );
+  const [showSleepCycles, setShowSleepCycles] = useState(false);
+  const [isNapMode, setIsNapMode] = useState(false);
+  const [napMinutes, setNapMinutes] = useState(DEFAULT_NAP_MINUTES);
+  const editingRule = editingAlarm?.recurrence;
   const [selectedDays, setSelectedDays] = useState<number[]>(
-    editingAlarm?.repeatDays || []
+    editingRule?.type === 'weekly'
+      ? editingRule.weekdays
+      : editingAlarm?.repeatDays || []
+  );
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(
+    getInitialRepeatMode(editingRule)
+  );
+  const [intervalDays, setIntervalDays] = useState(
+    editingRule?.type === 'daily' ? editingRule.intervalDays : 2
+  );
+  const [dayOfMonth, setDayOfMonth] = useState(
+    editingRule?.type === 'monthly' && editingRule.dayOfMonth
+      ? editingRule.dayOfMonth
+      : new Date().getDate()
   );
   const [selectedAudio, setSelectedAudio] = useState<AudioTrack | null>(
     editingAlarm?.audioTrack || null
   );
   const [showAudioPicker, setShowAudioPicker] = useState(false);
+  const [groupId, setGroupId] = useState<string | undefined>(
+    editingAlarm?.groupId
+  );
+  const [snoozePolicy, setSnoozePolicy] = useState<SnoozePolicy>(
+    editingAlarm?.snoozePolicy || DEFAULT_SNOOZE_POLICY
+  );
+  const shortenSnoozes = !!snoozePolicy.followUpMinutes?.length;
+  const [mission, setMission] = useState<AlarmMissionConfig | undefined>(
+    editingAlarm?.mission
+  );
+  const [volumeRamp, setVolumeRamp] = useState<VolumeRamp>(
+    editingAlarm?.volumeRamp || DEFAULT_VOLUME_RAMP
+  );
+  const [gentleWake, setGentleWake] = useState<GentleWakeConfig | undefined>(
+    editingAlarm?.gentleWake
+  );
+  const [escalation, setEscalation] = useState<EscalationConfig>(
+    editingAlarm?.escalation || DEFAULT_ESCALATION
+  );
+  const [awakeCheck, setAwakeCheck] = useState<AwakeCheckConfig | undefined>(
+    editingAlarm?.awakeCheck
+  );
+  const [timeMode, setTimeMode] = useState<AlarmTimeMode>(
+    editingAlarm?.timeMode || DEFAULT_TIME_MODE
+  );
 
   const handleTimeChange = (event: any, selectedTime?: Date) => {
     if (selectedTime) {
@@ -59,6 +186,124 @@ export default function CreateAlarmScreen() {
     );
   };
 
+  const updateSnoozePolicy = (updates: Partial<SnoozePolicy>) => {
+    setSnoozePolicy(prev => {
+      const next = { ...prev, ...updates };
+      // Keep shortening intervals in sync with duration and limit
+      if (prev.followUpMinutes?.length) {
+        next.followUpMinutes = buildShorteningIntervals(
+          next.durationMinutes,
+          next.maxSnoozes
+        );
+      }
+      return next;
+    });
+  };
+
+  const toggleShortenSnoozes = (enabled: boolean) => {
+    setSnoozePolicy(prev => ({
+      ...prev,
+      followUpMinutes: enabled
+        ? buildShorteningIntervals(prev.durationMinutes, prev.maxSnoozes)
+        : undefined,
+    }));
+  };
+
+  // Keep the original start date so edits don't shift alternating weeks / intervals
+  const getStartDate = () => editingRule?.startDate || toDateKey(new Date());
+
+  // Plain weekly repeats stay in repeatDays, other modes become a recurrence rule
+  const buildRepeatFields = (): {
+    repeatDays?: number[];
+    recurrence?: RecurrenceRule;
+  } => {
+    switch (repeatMode) {
+      case 'alternate':
+        return selectedDays.length > 0
+          ? {
+              recurrence: {
+                type: 'weekly',
+                weekdays: selectedDays,
+                intervalWeeks: 2,
+                startDate: getStartDate(),
+              },
+            }
+          : {};
+      case 'interval':
+        return {
+          recurrence: {
+            type: 'daily',
+            intervalDays,
+            startDate: getStartDate(),
+          },
+        };
+      case 'monthly':
+        return { recurrence: { type: 'monthly', dayOfMonth } };
+      default:
+        return {
+          repeatDays: selectedDays.length > 0 ? selectedDays : undefined,
+        };
+    }
+  };
+
+  const selectMissionType = (type?: MissionType) => {
+    setMission(prev =>
+      type
+        ? {
+            ...(prev || DEFAULT_MISSION_CONFIG),
+            type,
+            target: undefined, // Target and threshold are type specific
+            threshold: undefined,
+          }
+        : undefined
+    );
+  };
+
+  const renderMotionSettings = (config: AlarmMissionConfig) => {
+    if (!isMotionMissionType(config.type)) return null;
+    const motionMission = getMotionMission(config.type);
+    const settings = getMotionSettings(motionMission, config);
+    const range = motionMission.thresholdRange;
+
+    return (
+      <>
+        {renderStepper(
+          'Target',
+          `${settings.target} ${motionMission.unit}`,
+          delta =>
+            setMission({
+              ...config,
+              target: Math.min(
+                500,
+                Math.max(
+                  motionMission.targetStep,
+                  settings.target + delta * motionMission.targetStep
+                )
+              ),
+            })
+        )}
+        {range &&
+          renderStepper(
+            'Threshold',
+            `${settings.threshold.toFixed(2)} g`,
+            delta =>
+              setMission({
+                ...config,
+                threshold: Math.min(
+                  range.max,
+                  Math.max(
+                    range.min,
+                    Math.round(
+                      (settings.threshold + delta * range.step) * 100
+                    ) / 100
+                  )
+                ),
+              })
+          )}
+      </>
+    );
+  };
+
   const handleSaveAlarm = async () => {
     if (!selectedAudio) {
       Alert.alert(
@@ -69,12 +314,31 @@ export default function CreateAlarmScreen() {
     }
 
     try {
-      if (isEditing && editId) {
+      if (isNapMode) {
+        await startNap(napMinutes, {
+          audioTrack: selectedAudio,
+          snoozePolicy,
+          mission,
+          volumeRamp,
+          escalation,
+        });
+        await replace('/(tabs)/dashboard');
+      } else if (isEditing && editId) {
         // Update existing alarm - always enable it when updating
         await updateAlarm(editId, {
           time: alarmTime,
           audioTrack: selectedAudio,
-          repeatDays: selectedDays.length > 0 ? selectedDays : undefined,
+          repeatDays: undefined,
+          recurrence: undefined,
+          ...buildRepeatFields(),
+          snoozePolicy,
+          mission,
+          volumeRamp,
+          gentleWake,
+          escalation,
+          awakeCheck,
+          timeMode,
+          groupId,
           isActive: true, // Auto-enable alarm on update
         });
 
@@ -87,7 +351,15 @@ export default function CreateAlarmScreen() {
           time: alarmTime,
           isActive: true,
           audioTrack: selectedAudio,
-          repeatDays: selectedDays.length > 0 ? selectedDays : undefined,
+          ...buildRepeatFields(),
+          snoozePolicy,
+          mission,
+          volumeRamp,
+          gentleWake,
+          escalation,
+          awakeCheck,
+          timeMode,
+          groupId,
         });
 
         // Navigate directly to dashboard without showing alert
@@ -110,6 +382,9 @@ export default function CreateAlarmScreen() {
   };
 
   const getSelectedDaysText = () => {
+    if (repeatMode !== 'weekly') {
+      return describeRecurrence({ time: alarmTime, ...buildRepeatFields() });
+    }
     if (selectedDays.length === 0) return 'Once';
     if (selectedDays.length === 7) return 'Every day';
     if (
@@ -132,6 +407,49 @@ export default function CreateAlarmScreen() {
       .join(', ');
   };
 
+  const renderStepper = (
+    label: string,
+    value: string,
+    onStep: (delta: number) => void
+  ) => (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 16,
+      }}
+    >
+      <ThemedText style={{ fontSize: 14 }}>{label}</ThemedText>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <TouchableOpacity onPress={() => onStep(-1)} style={{ padding: 4 }}>
+          <Ionicons
+            name="remove-circle-outline"
+            size={24}
+            color={APP_COLORS.accent}
+          />
+        </TouchableOpacity>
+        <ThemedText
+          style={{
+            fontSize: 16,
+            fontWeight: '600',
+            minWidth: 64,
+            textAlign: 'center',
+          }}
+        >
+          {value}
+        </ThemedText>
+        <TouchableOpacity onPress={() => onStep(1)} style={{ padding: 4 }}>
+          <Ionicons
+            name="add-circle-outline"
+            size={24}
+            color={APP_COLORS.accent}
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
   return (
     <ThemedView style={{ flex: 1 }}>
       <SafeAreaView style={{ flex: 1 }}>
@@ -169,22 +487,63 @@ export default function CreateAlarmScreen() {
               <ThemedText
                 style={{ fontSize: 32, fontWeight: 'bold', lineHeight: 40 }}
               >
-                {isEditing ? 'Edit Alarm' : 'Create Alarm'}
+                {isEditing
+                  ? 'Edit Alarm'
+                  : isNapMode
+                    ? 'Take a Nap'
+                    : 'Create Alarm'}
               </ThemedText>
             </View>
           </View>
 
-          {/* Time Selection - Hero Card */}
-          <ThemedCard
-            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
-          >
-            <View
-              style={{
-                flexDirection: 'row',
-                alignItems: 'center',
-                justifyContent: 'space-between',
-                marginBottom: 8,
-              }}
+          {/* Alarm / Nap mode */}
+          {!isEditing && (
+            <View style={{ flexDirection: 'row', gap: 8, marginBottom: 24 }}>
+              {(['alarm', 'nap'] as const).map(mode => {
+                const isSelected = (mode === 'nap') === isNapMode;
+                return (
+                  <TouchableOpacity
+                    key={mode}
+                    onPress={() => setIsNapMode(mode === 'nap')}
+                    style={{
+                      flex: 1,
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      paddingVertical: 10,
+                      borderRadius: 8,
+                      backgroundColor: isSelected
+                        ? APP_COLORS.primary
+                        : theme.elevated,
+                      borderWidth: isSelected ? 0 : 1,
+                      borderColor: theme.border,
+                    }}
+                  >
+                    <Ionicons
+                      name={mode === 'nap' ? 'cafe-outline' : 'alarm-outline'}
+                      size={16}
+                      color={isSelected ? '#000000' : theme.text.secondary}
+                    />
+                    <ThemedText
+                      style={{
+                        fontSize: 14,
+                        fontWeight: '600',
+                        marginLeft: 6,
+                        color: isSelected ? '#000000' : theme.text.secondary,
+                      }}
+                    >
+                      {mode === 'nap' ? 'Nap' : 'Alarm'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          {isNapMode ? (
+            /* Nap Duration */
+            <ThemedCard
+              style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
             >
               <ThemedText
                 style={{
@@ -193,119 +552,296 @@ export default function CreateAlarmScreen() {
                   fontWeight: '600',
                 }}
               >
-                ⏰ ALARM TIME
+                😴 NAP LENGTH
               </ThemedText>
-              <View
-                style={{
-                  width: 12,
-                  height: 12,
-                  backgroundColor: APP_COLORS.primary,
-                  borderRadius: 6,
-                }}
+              <NapDurationPicker
+                minutes={napMinutes}
+                onChange={setNapMinutes}
               />
-            </View>
+            </ThemedCard>
+          ) : (
+            <>
+              {/* Time Selection - Hero Card */}
+              <ThemedCard
+                style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+              >
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: 8,
+                  }}
+                >
+                  <ThemedText
+                    style={{
+                      fontSize: 12,
+                      color: APP_COLORS.primary,
+                      fontWeight: '600',
+                    }}
+                  >
+                    ⏰ ALARM TIME
+                  </ThemedText>
+                  <View
+                    style={{
+                      width: 12,
+                      height: 12,
+                      backgroundColor: APP_COLORS.primary,
+                      borderRadius: 6,
+                    }}
+                  />
+                </View>
 
-            <View style={{ alignItems: 'center', paddingVertical: 16 }}>
-              <DateTimePicker
-                value={alarmTime}
-                mode="time"
-                is24Hour={false}
-                display="spinner"
-                onChange={handleTimeChange}
-                textColor="#FFFFFF"
-                style={{ width: '100%', height: 120 }}
-              />
+                <View style={{ alignItems: 'center', paddingVertical: 16 }}>
+                  <DateTimePicker
+                    value={alarmTime}
+                    mode="time"
+                    is24Hour={false}
+                    display="spinner"
+                    onChange={handleTimeChange}
+                    textColor="#FFFFFF"
+                    style={{ width: '100%', height: 120 }}
+                  />
 
-              <View
-                style={{
-                  flexDirection: 'row',
-                  alignItems: 'baseline',
-                  marginTop: 16,
-                }}
-              >
-                <ThemedText style={{ fontSize: 48, fontWeight: '800' }}>
-                  {formatTime(alarmTime)}
-                </ThemedText>
-              </View>
-            </View>
-          </ThemedCard>
+                  <View
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'baseline',
+                      marginTop: 16,
+                    }}
+                  >
+                    <ThemedText style={{ fontSize: 48, fontWeight: '800' }}>
+                      {formatTime(alarmTime)}
+                    </ThemedText>
+                  </View>
+                </View>
+              </ThemedCard>
 
-          {/* Repeat Days */}
-          <ThemedCard
-            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
-          >
-            <View
-              style={{
-                flexDirection: 'row',
-                alignItems: 'center',
-                justifyContent: 'space-between',
-                marginBottom: 16,
-              }}
-            >
-              <ThemedText
-                style={{
-                  fontSize: 12,
-                  color: APP_COLORS.primary,
-                  fontWeight: '600',
-                }}
+              {/* Sleep Cycles */}
+              <ThemedCard
+                style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
               >
-                🔄 REPEAT DAYS
-              </ThemedText>
-            </View>
-
-            <View
-              style={{
-                flexDirection: 'row',
-                justifyContent: 'space-between',
-                marginBottom: 16,
-              }}
-            >
-              {DAYS_OF_WEEK.map(day => (
                 <TouchableOpacity
-                  key={day.id}
-                  onPress={() => toggleDay(day.id)}
+                  onPress={() => setShowSleepCycles(!showSleepCycles)}
                   style={{
-                    width: 40,
-                    height: 40,
-                    borderRadius: 20,
-                    backgroundColor: selectedDays.includes(day.id)
-                      ? APP_COLORS.primary
-                      : theme.elevated,
-                    borderWidth: selectedDays.includes(day.id) ? 0 : 1,
-                    borderColor: theme.border,
+                    flexDirection: 'row',
                     alignItems: 'center',
-                    justifyContent: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: showSleepCycles ? 16 : 0,
                   }}
                 >
                   <ThemedText
                     style={{
                       fontSize: 12,
+                      color: APP_COLORS.primary,
                       fontWeight: '600',
-                      color: selectedDays.includes(day.id)
-                        ? '#000000'
-                        : theme.text.secondary,
                     }}
                   >
-                    {day.name}
+                    💤 SLEEP CYCLES
                   </ThemedText>
+                  <Ionicons
+                    name={showSleepCycles ? 'chevron-up' : 'chevron-down'}
+                    size={20}
+                    color={theme.text.secondary}
+                  />
                 </TouchableOpacity>
-              ))}
-            </View>
 
-            <View
-              style={{
-                backgroundColor: theme.elevated,
-                borderRadius: 8,
-                padding: 12,
-              }}
-            >
-              <ThemedText
-                style={{ fontSize: 14, textAlign: 'center', opacity: 0.7 }}
+                {showSleepCycles && (
+                  <SleepCycleSuggestions
+                    alarmTime={alarmTime}
+                    onSelectWakeTime={setAlarmTime}
+                  />
+                )}
+              </ThemedCard>
+
+              {/* Repeat Days */}
+              <ThemedCard
+                style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
               >
-                {getSelectedDaysText()}
-              </ThemedText>
-            </View>
-          </ThemedCard>
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: 16,
+                  }}
+                >
+                  <ThemedText
+                    style={{
+                      fontSize: 12,
+                      color: APP_COLORS.primary,
+                      fontWeight: '600',
+                    }}
+                  >
+                    🔄 REPEAT DAYS
+                  </ThemedText>
+                </View>
+
+                <View
+                  style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}
+                >
+                  {REPEAT_MODES.map(mode => {
+                    const isSelected = repeatMode === mode.id;
+                    return (
+                      <TouchableOpacity
+                        key={mode.id}
+                        onPress={() => setRepeatMode(mode.id)}
+                        style={{
+                          flex: 1,
+                          paddingVertical: 10,
+                          borderRadius: 8,
+                          alignItems: 'center',
+                          backgroundColor: isSelected
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: isSelected ? 0 : 1,
+                          borderColor: theme.border,
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 11,
+                            fontWeight: '600',
+                            color: isSelected
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {mode.name}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {repeatMode === 'interval' &&
+                  renderStepper('Repeat every', `${intervalDays} days`, delta =>
+                    setIntervalDays(prev =>
+                      Math.min(30, Math.max(2, prev + delta))
+                    )
+                  )}
+
+                {repeatMode === 'monthly' &&
+                  renderStepper('Day of month', `${dayOfMonth}.`, delta =>
+                    setDayOfMonth(prev =>
+                      Math.min(31, Math.max(1, prev + delta))
+                    )
+                  )}
+
+                {(repeatMode === 'weekly' || repeatMode === 'alternate') && (
+                  <View
+                    style={{
+                      flexDirection: 'row',
+                      justifyContent: 'space-between',
+                      marginBottom: 16,
+                    }}
+                  >
+                    {DAYS_OF_WEEK.map(day => (
+                      <TouchableOpacity
+                        key={day.id}
+                        onPress={() => toggleDay(day.id)}
+                        style={{
+                          width: 40,
+                          height: 40,
+                          borderRadius: 20,
+                          backgroundColor: selectedDays.includes(day.id)
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: selectedDays.includes(day.id) ? 0 : 1,
+                          borderColor: theme.border,
+                          alignItems: 'center',
+                          justifyContent: 'center',
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 12,
+                            fontWeight: '600',
+                            color: selectedDays.includes(day.id)
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {day.name}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <View
+                  style={{
+                    backgroundColor: theme.elevated,
+                    borderRadius: 8,
+                    padding: 12,
+                  }}
+                >
+                  <ThemedText
+                    style={{ fontSize: 14, textAlign: 'center', opacity: 0.7 }}
+                  >
+                    {getSelectedDaysText()}
+                  </ThemedText>
+                </View>
+              </ThemedCard>
+
+              {/* Group Selection */}
+              {groups.length > 0 && (
+                <ThemedCard
+                  style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+                >
+                  <ThemedText
+                    style={{
+                      fontSize: 12,
+                      color: APP_COLORS.primary,
+                      fontWeight: '600',
+                      marginBottom: 16,
+                    }}
+                  >
+                    📁 GROUP
+                  </ThemedText>
+
+                  <View
+                    style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}
+                  >
+                    {[
+                      { id: undefined, name: 'None' },
+                      ...sortGroups(groups),
+                    ].map(group => {
+                      const isSelected = groupId === group.id;
+                      return (
+                        <TouchableOpacity
+                          key={group.id ?? 'none'}
+                          onPress={() => setGroupId(group.id)}
+                          style={{
+                            paddingVertical: 10,
+                            paddingHorizontal: 16,
+                            borderRadius: 8,
+                            backgroundColor: isSelected
+                              ? APP_COLORS.primary
+                              : theme.elevated,
+                            borderWidth: isSelected ? 0 : 1,
+                            borderColor: theme.border,
+                          }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 14,
+                              fontWeight: '600',
+                              color: isSelected
+                                ? '#000000'
+                                : theme.text.secondary,
+                            }}
+                          >
+                            {group.name}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </ThemedCard>
+              )}
+            </>
+          )}
 
           {/* Audio Selection */}
           <ThemedCard
@@ -432,6 +968,795 @@ export default function CreateAlarmScreen() {
             )}
           </ThemedCard>
 
+          {/* Wake-up Mission */}
+          <ThemedCard
+            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+          >
+            <ThemedText
+              style={{
+                fontSize: 12,
+                color: APP_COLORS.primary,
+                fontWeight: '600',
+                marginBottom: 16,
+              }}
+            >
+              🧠 WAKE-UP MISSION
+            </ThemedText>
+
+            <View
+              style={{
+                flexDirection: 'row',
+                flexWrap: 'wrap',
+                gap: 8,
+                marginBottom: 16,
+              }}
+            >
+              {[undefined, ...MISSION_TYPES, ...MOTION_MISSION_TYPES].map(
+                type => {
+                  const isSelected = mission?.type === type;
+                  return (
+                    <TouchableOpacity
+                      key={type ?? 'none'}
+                      onPress={() => selectMissionType(type)}
+                      style={{
+                        width: '22%',
+                        flexGrow: 1,
+                        paddingVertical: 10,
+                        borderRadius: 8,
+                        alignItems: 'center',
+                        backgroundColor: isSelected
+                          ? APP_COLORS.primary
+                          : theme.elevated,
+                        borderWidth: isSelected ? 0 : 1,
+                        borderColor: theme.border,
+                      }}
+                    >
+                      <Ionicons
+                        name={
+                          type ? getMissionInfo(type).icon : 'close-outline'
+                        }
+                        size={18}
+                        color={isSelected ? '#000000' : theme.text.secondary}
+                      />
+                      <ThemedText
+                        style={{
+                          fontSize: 12,
+                          fontWeight: '600',
+                          marginTop: 4,
+                          color: isSelected ? '#000000' : theme.text.secondary,
+                        }}
+                      >
+                        {type ? getMissionInfo(type).name : 'None'}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  );
+                }
+              )}
+            </View>
+
+            {mission ? (
+              <>
+                <View
+                  style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}
+                >
+                  {MISSION_DIFFICULTIES.map(difficulty => {
+                    const isSelected = mission.difficulty === difficulty;
+                    return (
+                      <TouchableOpacity
+                        key={difficulty}
+                        onPress={() =>
+                          setMission({
+                            ...mission,
+                            difficulty,
+                            target: undefined, // Back to difficulty defaults
+                            threshold: undefined,
+                          })
+                        }
+                        style={{
+                          flex: 1,
+                          paddingVertical: 10,
+                          borderRadius: 8,
+                          alignItems: 'center',
+                          backgroundColor: isSelected
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: isSelected ? 0 : 1,
+                          borderColor: theme.border,
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 14,
+                            fontWeight: '600',
+                            textTransform: 'capitalize',
+                            color: isSelected
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {difficulty}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {isMotionMissionType(mission.type)
+                  ? renderMotionSettings(mission)
+                  : renderStepper('Rounds', `${mission.rounds}`, delta =>
+                      setMission({
+                        ...mission,
+                        rounds: Math.min(
+                          5,
+                          Math.max(1, mission.rounds + delta)
+                        ),
+                      })
+                    )}
+
+                <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                  {getMissionInfo(mission.type).description} to dismiss the
+                  alarm. Emergency stop is disabled.
+                </ThemedText>
+              </>
+            ) : (
+              <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                Slide to dismiss - no challenge required
+              </ThemedText>
+            )}
+          </ThemedCard>
+
+          {/* Wake Intensity */}
+          <ThemedCard
+            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+          >
+            <ThemedText
+              style={{
+                fontSize: 12,
+                color: APP_COLORS.primary,
+                fontWeight: '600',
+                marginBottom: 16,
+              }}
+            >
+              🔊 WAKE INTENSITY
+            </ThemedText>
+            <VolumeRampEditor
+              ramp={volumeRamp}
+              onChange={setVolumeRamp}
+              previewTrack={selectedAudio}
+            />
+          </ThemedCard>
+
+          {/* Gentle Wake - naps are too short for a pre-alarm phase */}
+          {!isNapMode && (
+            <ThemedCard
+              style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+            >
+              <View
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  marginBottom: gentleWake ? 16 : 0,
+                }}
+              >
+                <ThemedText
+                  style={{
+                    fontSize: 12,
+                    color: APP_COLORS.primary,
+                    fontWeight: '600',
+                  }}
+                >
+                  🌅 GENTLE WAKE
+                </ThemedText>
+                <Switch
+                  value={!!gentleWake}
+                  onValueChange={enabled =>
+                    setGentleWake(enabled ? DEFAULT_GENTLE_WAKE : undefined)
+                  }
+                  trackColor={{ false: theme.border, true: APP_COLORS.primary }}
+                />
+              </View>
+
+              {gentleWake && (
+                <>
+                  <View
+                    style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}
+                  >
+                    {GENTLE_WAKE_MINUTES_OPTIONS.map(minutes => {
+                      const isSelected = gentleWake.minutesBefore === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() =>
+                            setGentleWake({
+                              ...gentleWake,
+                              minutesBefore: minutes,
+                            })
+                          }
+                          style={{
+                            flex: 1,
+                            paddingVertical: 10,
+                            borderRadius: 8,
+                            alignItems: 'center',
+                            backgroundColor: isSelected
+                              ? APP_COLORS.primary
+                              : theme.elevated,
+                            borderWidth: isSelected ? 0 : 1,
+                            borderColor: theme.border,
+                          }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 13,
+                              fontWeight: '600',
+                              color: isSelected
+                                ? '#000000'
+                                : theme.text.secondary,
+                            }}
+                          >
+                            {minutes} min
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  <View
+                    style={{
+                      flexDirection: 'row',
+                      flexWrap: 'wrap',
+                      gap: 8,
+                      marginBottom: 16,
+                    }}
+                  >
+                    {getGentleWakeSounds().map(sound => {
+                      const isSelected = gentleWake.soundId === sound.id;
+                      return (
+                        <TouchableOpacity
+                          key={sound.id}
+                          onPress={() =>
+                            setGentleWake({ ...gentleWake, soundId: sound.id })
+                          }
+                          style={{
+                            width: '45%',
+                            flexGrow: 1,
+                            paddingVertical: 10,
+                            borderRadius: 8,
+                            alignItems: 'center',
+                            backgroundColor: isSelected
+                              ? APP_COLORS.primary
+                              : theme.elevated,
+                            borderWidth: isSelected ? 0 : 1,
+                            borderColor: theme.border,
+                          }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 13,
+                              fontWeight: '600',
+                              color: isSelected
+                                ? '#000000'
+                                : theme.text.secondary,
+                            }}
+                          >
+                            {sound.emoji} {sound.name}
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {renderStepper(
+                    'Volume',
+                    `${Math.round(gentleWake.volume * 100)}%`,
+                    delta =>
+                      setGentleWake({
+                        ...gentleWake,
+                        volume:
+                          Math.round(
+                            Math.min(
+                              0.4,
+                              Math.max(0.05, gentleWake.volume + delta * 0.05)
+                            ) * 100
+                          ) / 100,
+                      })
+                  )}
+
+                  <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                    Quiet sound {gentleWake.minutesBefore} minutes before the
+                    alarm. Turning it off early cancels the alarm too.
+                  </ThemedText>
+                </>
+              )}
+            </ThemedCard>
+          )}
+
+          {/* Escalation - for sleeping through the ring */}
+          <ThemedCard
+            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+          >
+            <View
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: 16,
+              }}
+            >
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  color: APP_COLORS.primary,
+                  fontWeight: '600',
+                }}
+              >
+                📈 ESCALATE IF NOT DISMISSED
+              </ThemedText>
+              <Switch
+                value={escalation.enabled}
+                onValueChange={enabled =>
+                  setEscalation({ ...escalation, enabled })
+                }
+                trackColor={{ false: theme.border, true: APP_COLORS.primary }}
+              />
+            </View>
+
+            {escalation.enabled && (
+              <>
+                <View
+                  style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}
+                >
+                  {ESCALATION_MINUTES_OPTIONS.map(minutes => {
+                    const isSelected = escalation.afterMinutes === minutes;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        onPress={() =>
+                          setEscalation({
+                            ...escalation,
+                            afterMinutes: minutes,
+                          })
+                        }
+                        style={{
+                          flex: 1,
+                          paddingVertical: 10,
+                          borderRadius: 8,
+                          alignItems: 'center',
+                          backgroundColor: isSelected
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: isSelected ? 0 : 1,
+                          borderColor: theme.border,
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: isSelected
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {minutes} min
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    flexWrap: 'wrap',
+                    gap: 8,
+                    marginBottom: 16,
+                  }}
+                >
+                  {getBackupSounds().map(sound => {
+                    const isSelected = escalation.backupSoundId === sound.id;
+                    return (
+                      <TouchableOpacity
+                        key={sound.id}
+                        onPress={() =>
+                          setEscalation({
+                            ...escalation,
+                            backupSoundId: sound.id,
+                          })
+                        }
+                        style={{
+                          width: '45%',
+                          flexGrow: 1,
+                          paddingVertical: 10,
+                          borderRadius: 8,
+                          alignItems: 'center',
+                          backgroundColor: isSelected
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: isSelected ? 0 : 1,
+                          borderColor: theme.border,
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 13,
+                            fontWeight: '600',
+                            color: isSelected
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {sound.emoji} {sound.name}
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: 16,
+                  }}
+                >
+                  <ThemedText style={{ fontSize: 14 }}>Vibration</ThemedText>
+                  <Switch
+                    value={escalation.vibrate}
+                    onValueChange={vibrate =>
+                      setEscalation({ ...escalation, vibrate })
+                    }
+                    trackColor={{
+                      false: theme.border,
+                      true: APP_COLORS.primary,
+                    }}
+                  />
+                </View>
+              </>
+            )}
+
+            <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+              {escalation.enabled
+                ? describeEscalation(escalation)
+                : 'The alarm keeps ringing as it started until you dismiss it.'}
+            </ThemedText>
+          </ThemedCard>
+
+          {/* Awake check - naps are followed by the user getting up anyway */}
+          {!isNapMode && (
+            <ThemedCard
+              style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+            >
+              <View
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  marginBottom: 16,
+                }}
+              >
+                <ThemedText
+                  style={{
+                    fontSize: 12,
+                    color: APP_COLORS.primary,
+                    fontWeight: '600',
+                  }}
+                >
+                  ☀️ ARE YOU AWAKE? CHECK
+                </ThemedText>
+                <Switch
+                  value={!!awakeCheck}
+                  onValueChange={enabled =>
+                    setAwakeCheck(enabled ? DEFAULT_AWAKE_CHECK : undefined)
+                  }
+                  trackColor={{ false: theme.border, true: APP_COLORS.primary }}
+                />
+              </View>
+
+              {awakeCheck && (
+                <>
+                  <ThemedText
+                    style={{ fontSize: 14, fontWeight: '600', marginBottom: 8 }}
+                  >
+                    After dismissal
+                  </ThemedText>
+                  <View
+                    style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}
+                  >
+                    {AWAKE_CHECK_MINUTES_OPTIONS.map(minutes => {
+                      const isSelected = awakeCheck.minutesAfter === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() =>
+                            setAwakeCheck({
+                              ...awakeCheck,
+                              minutesAfter: minutes,
+                            })
+                          }
+                          style={{
+                            flex: 1,
+                            paddingVertical: 10,
+                            borderRadius: 8,
+                            alignItems: 'center',
+                            backgroundColor: isSelected
+                              ? APP_COLORS.primary
+                              : theme.elevated,
+                            borderWidth: isSelected ? 0 : 1,
+                            borderColor: theme.border,
+                          }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 13,
+                              fontWeight: '600',
+                              color: isSelected
+                                ? '#000000'
+                                : theme.text.secondary,
+                            }}
+                          >
+                            {minutes} min
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  <ThemedText
+                    style={{ fontSize: 14, fontWeight: '600', marginBottom: 8 }}
+                  >
+                    Time to answer
+                  </ThemedText>
+                  <View
+                    style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}
+                  >
+                    {AWAKE_CHECK_RESPONSE_OPTIONS.map(minutes => {
+                      const isSelected = awakeCheck.responseMinutes === minutes;
+                      return (
+                        <TouchableOpacity
+                          key={minutes}
+                          onPress={() =>
+                            setAwakeCheck({
+                              ...awakeCheck,
+                              responseMinutes: minutes,
+                            })
+                          }
+                          style={{
+                            flex: 1,
+                            paddingVertical: 10,
+                            borderRadius: 8,
+                            alignItems: 'center',
+                            backgroundColor: isSelected
+                              ? APP_COLORS.primary
+                              : theme.elevated,
+                            borderWidth: isSelected ? 0 : 1,
+                            borderColor: theme.border,
+                          }}
+                        >
+                          <ThemedText
+                            style={{
+                              fontSize: 13,
+                              fontWeight: '600',
+                              color: isSelected
+                                ? '#000000'
+                                : theme.text.secondary,
+                            }}
+                          >
+                            {minutes} min
+                          </ThemedText>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                </>
+              )}
+
+              <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                {awakeCheck
+                  ? `${describeAwakeCheck(awakeCheck)}. Tap the notification to confirm, or the alarm rings again.`
+                  : 'Off - dismissing the alarm ends it.'}
+              </ThemedText>
+            </ThemedCard>
+          )}
+
+          {/* Timezone - naps always count down from now */}
+          {!isNapMode && (
+            <ThemedCard
+              style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+            >
+              <View
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  justifyContent: 'space-between',
+                  marginBottom: 16,
+                }}
+              >
+                <ThemedText
+                  style={{
+                    fontSize: 12,
+                    color: APP_COLORS.primary,
+                    fontWeight: '600',
+                  }}
+                >
+                  🌍 FIXED TIME ACROSS TIMEZONES
+                </ThemedText>
+                <Switch
+                  value={timeMode === 'absolute'}
+                  onValueChange={enabled =>
+                    setTimeMode(enabled ? 'absolute' : 'wall-clock')
+                  }
+                  trackColor={{ false: theme.border, true: APP_COLORS.primary }}
+                />
+              </View>
+              <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                {timeMode === 'absolute'
+                  ? 'Rings at the same moment wherever you are, e.g. to match a call at home.'
+                  : `Rings at ${alarmTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} local time, even after you travel.`}
+              </ThemedText>
+            </ThemedCard>
+          )}
+
+          {/* Snooze Settings */}
+          <ThemedCard
+            style={{ padding: 24, marginBottom: 32, borderRadius: 12 }}
+          >
+            <View
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: snoozePolicy.enabled ? 16 : 0,
+              }}
+            >
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  color: APP_COLORS.primary,
+                  fontWeight: '600',
+                }}
+              >
+                😴 SNOOZE
+              </ThemedText>
+              <Switch
+                value={snoozePolicy.enabled}
+                onValueChange={enabled => updateSnoozePolicy({ enabled })}
+                trackColor={{ false: theme.border, true: APP_COLORS.primary }}
+              />
+            </View>
+
+            {snoozePolicy.enabled && (
+              <>
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    gap: 8,
+                    marginBottom: 16,
+                  }}
+                >
+                  {SNOOZE_DURATION_OPTIONS.map(minutes => {
+                    const isSelected = snoozePolicy.durationMinutes === minutes;
+                    return (
+                      <TouchableOpacity
+                        key={minutes}
+                        onPress={() =>
+                          updateSnoozePolicy({ durationMinutes: minutes })
+                        }
+                        style={{
+                          flex: 1,
+                          paddingVertical: 10,
+                          borderRadius: 8,
+                          alignItems: 'center',
+                          backgroundColor: isSelected
+                            ? APP_COLORS.primary
+                            : theme.elevated,
+                          borderWidth: isSelected ? 0 : 1,
+                          borderColor: theme.border,
+                        }}
+                      >
+                        <ThemedText
+                          style={{
+                            fontSize: 14,
+                            fontWeight: '600',
+                            color: isSelected
+                              ? '#000000'
+                              : theme.text.secondary,
+                          }}
+                        >
+                          {minutes} min
+                        </ThemedText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    marginBottom: 16,
+                  }}
+                >
+                  <ThemedText style={{ fontSize: 14 }}>Max snoozes</ThemedText>
+                  <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                    <TouchableOpacity
+                      onPress={() =>
+                        updateSnoozePolicy({
+                          maxSnoozes: Math.max(1, snoozePolicy.maxSnoozes - 1),
+                        })
+                      }
+                      style={{ padding: 4 }}
+                    >
+                      <Ionicons
+                        name="remove-circle-outline"
+                        size={24}
+                        color={APP_COLORS.accent}
+                      />
+                    </TouchableOpacity>
+                    <ThemedText
+                      style={{
+                        fontSize: 16,
+                        fontWeight: '600',
+                        minWidth: 32,
+                        textAlign: 'center',
+                      }}
+                    >
+                      {snoozePolicy.maxSnoozes}
+                    </ThemedText>
+                    <TouchableOpacity
+                      onPress={() =>
+                        updateSnoozePolicy({
+                          maxSnoozes: Math.min(10, snoozePolicy.maxSnoozes + 1),
+                        })
+                      }
+                      style={{ padding: 4 }}
+                    >
+                      <Ionicons
+                        name="add-circle-outline"
+                        size={24}
+                        color={APP_COLORS.accent}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                  }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <ThemedText style={{ fontSize: 14 }}>
+                      Shorter each time
+                    </ThemedText>
+                    <ThemedText
+                      style={{ fontSize: 12, marginTop: 4, opacity: 0.7 }}
+                    >
+                      {shortenSnoozes
+                        ? [
+                            snoozePolicy.durationMinutes,
+                            ...(snoozePolicy.followUpMinutes || []),
+                          ].join(' → ') + ' min'
+                        : `${snoozePolicy.durationMinutes} min every time`}
+                    </ThemedText>
+                  </View>
+                  <Switch
+                    value={shortenSnoozes}
+                    onValueChange={toggleShortenSnoozes}
+                    trackColor={{
+                      false: theme.border,
+                      true: APP_COLORS.primary,
+                    }}
+                  />
+                </View>
+              </>
+            )}
+          </ThemedCard>
+
           {/* Save Button */}
           <TouchableOpacity
             onPress={handleSaveAlarm}
@@ -452,13 +1777,17 @@ export default function CreateAlarmScreen() {
                 color: '#000000',
               }}
             >
-              {isLoading
-                ? isEditing
-                  ? 'Updating Alarm...'
-                  : 'Creating Alarm...'
-                : isEditing
-                  ? 'Update Alarm'
-                  : 'Create Alarm'}
+              {isNapMode
+                ? isLoading
+                  ? 'Starting Nap...'
+                  : 'Start Nap'
+                : isLoading
+                  ? isEditing
+                    ? 'Updating Alarm...'
+                    : 'Creating Alarm...'
+                  : isEditing
+                    ? 'Update Alarm'
+                    : 'Create Alarm'}
             </ThemedText>
           </TouchableOpacity>
 
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  SectionList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeNavigation } from '../../hooks/use-safe-navigation';
+
+import {
+  ThemedView,
+  ThemedText,
+  ThemedCard,
+} from '../../components/ui/themed-view';
+import { AlarmHistoryEvent } from '../../types/alarm';
+import { alarmHistoryService } from '../../services/alarms/alarm-history-service';
+import {
+  ALARM_EVENT_INFO,
+  HISTORY_RETENTION_DAYS,
+  filterHistory,
+  getHistoryAlarms,
+  groupHistoryByDay,
+} from '../../services/alarms/alarm-history';
+import { describeOccurrenceDay } from '../../services/alarms/occurrence-exceptions';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+
+const EVENT_COLORS: Partial<Record<AlarmHistoryEvent['type'], string>> = {
+  dismissed: '#10B981',
+  snoozed: '#F59E0B',
+  missed: '#EF4444',
+};
+
+export default function AlarmHistoryScreen() {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const { goBack, canNavigate } = useSafeNavigation();
+  const params = useLocalSearchParams<{ alarmId?: string }>();
+
+  const [events, setEvents] = useState<AlarmHistoryEvent[]>([]);
+  const [alarmFilter, setAlarmFilter] = useState<string | undefined>(
+    params.alarmId
+  );
+  const [dayFilter, setDayFilter] = useState<string | undefined>();
+
+  useEffect(() => {
+    alarmHistoryService.getEvents().then(setEvents);
+    return alarmHistoryService.subscribe(setEvents);
+  }, []);
+
+  const historyAlarms = useMemo(() => getHistoryAlarms(events), [events]);
+  const days = useMemo(
+    () =>
+      groupHistoryByDay(filterHistory(events, { alarmId: alarmFilter })).map(
+        day => day.dateKey
+      ),
+    [events, alarmFilter]
+  );
+  const sections = useMemo(
+    () =>
+      groupHistoryByDay(
+        filterHistory(events, { alarmId: alarmFilter, dateKey: dayFilter })
+      ).map(day => ({ key: day.dateKey, data: day.events })),
+    [events, alarmFilter, dayFilter]
+  );
+
+  const handleClear = () => {
+    Alert.alert('Clear History', 'Remove all recorded alarm events?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => alarmHistoryService.clear(),
+      },
+    ]);
+  };
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+    });
+
+  const formatDetails = (event: AlarmHistoryEvent) => {
+    const parts: string[] = [];
+    if (event.source) parts.push(`via ${event.source.replace(/_/g, ' ')}`);
+    if (event.scheduledTime) {
+      parts.push(`for ${formatTime(event.scheduledTime)}`);
+    }
+    if (event.type === 'snoozed' && event.details?.minutes) {
+      parts.push(`${event.details.minutes} min`);
+    }
+    if (event.type === 'scheduled' && event.details?.strategy) {
+      parts.push(String(event.details.strategy));
+    }
+    return parts.join(' · ');
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={{
+        paddingVertical: 8,
+        paddingHorizontal: 14,
+        borderRadius: 16,
+        marginRight: 8,
+        backgroundColor: isSelected ? APP_COLORS.primary : theme.elevated,
+        borderWidth: isSelected ? 0 : 1,
+        borderColor: theme.border,
+      }}
+    >
+      <ThemedText
+        style={{
+          fontSize: 13,
+          fontWeight: '600',
+          color: isSelected ? '#000000' : theme.text.secondary,
+        }}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderEvent = ({ item }: { item: AlarmHistoryEvent }) => {
+    const info = ALARM_EVENT_INFO[item.type];
+    const color = EVENT_COLORS[item.type] || APP_COLORS.accent;
+
+    return (
+      <ThemedCard
+        style={{
+          padding: 16,
+          marginBottom: 8,
+          borderRadius: 12,
+          flexDirection: 'row',
+          alignItems: 'center',
+        }}
+      >
+        <Ionicons name={info.icon} size={22} color={color} />
+        <View style={{ flex: 1, marginLeft: 12 }}>
+          <ThemedText style={{ fontSize: 15, fontWeight: '600' }}>
+            {info.label}
+            {!alarmFilter && item.alarm ? ` - ${item.alarm.title}` : ''}
+          </ThemedText>
+          {!!formatDetails(item) && (
+            <ThemedText style={{ fontSize: 12, opacity: 0.6, marginTop: 2 }}>
+              {formatDetails(item)}
+            </ThemedText>
+          )}
+        </View>
+        <ThemedText style={{ fontSize: 13, opacity: 0.7 }}>
+          {formatTime(item.timestamp)}
+        </ThemedText>
+      </ThemedCard>
+    );
+  };
+
+  return (
+    <ThemedView style={{ flex: 1 }}>
+      <SafeAreaView style={{ flex: 1 }}>
+        {/* Header */}
+        <View
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            marginTop: 24,
+            marginBottom: 16,
+            paddingHorizontal: 24,
+          }}
+        >
+          <TouchableOpacity
+            onPress={() => goBack()}
+            disabled={!canNavigate}
+            style={{ opacity: canNavigate ? 1 : 0.7 }}
+          >
+            <Ionicons name="chevron-back" size={24} color={APP_COLORS.accent} />
+          </TouchableOpacity>
+          <ThemedText
+            style={{
+              flex: 1,
+              marginLeft: 16,
+              fontSize: 32,
+              fontWeight: 'bold',
+              lineHeight: 40,
+            }}
+          >
+            History
+          </ThemedText>
+          {events.length > 0 && (
+            <TouchableOpacity onPress={handleClear}>
+              <Ionicons
+                name="trash-outline"
+                size={22}
+                color={theme.text.secondary}
+              />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Filters */}
+        <View style={{ marginBottom: 16 }}>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ paddingHorizontal: 24, marginBottom: 8 }}
+          >
+            {renderChip('all', 'All alarms', !alarmFilter, () =>
+              setAlarmFilter(undefined)
+            )}
+            {historyAlarms.map(({ alarmId, title }) =>
+              renderChip(alarmId, title, alarmFilter === alarmId, () =>
+                setAlarmFilter(alarmId)
+              )
+            )}
+          </ScrollView>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={{ paddingHorizontal: 24 }}
+          >
+            {renderChip('all', 'All days', !dayFilter, () =>
+              setDayFilter(undefined)
+            )}
+            {days.map(dateKey =>
+              renderChip(
+                dateKey,
+                describeOccurrenceDay(dateKey),
+                dayFilter === dateKey,
+                () => setDayFilter(dateKey)
+              )
+            )}
+          </ScrollView>
+        </View>
+
+        <SectionList
+          sections={sections}
+          keyExtractor={item => item.id}
+          renderItem={renderEvent}
+          renderSectionHeader={({ section }) => (
+            <ThemedText
+              style={{
+                fontSize: 12,
+                fontWeight: '600',
+                color: APP_COLORS.primary,
+                marginTop: 8,
+                marginBottom: 8,
+                textTransform: 'uppercase',
+              }}
+            >
+              {describeOccurrenceDay(section.key)}
+            </ThemedText>
+          )}
+          stickySectionHeadersEnabled={false}
+          contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 32 }}
+          ListEmptyComponent={() => (
+            <ThemedCard
+              style={{ padding: 24, alignItems: 'center', borderRadius: 12 }}
+            >
+              <Ionicons
+                name="time-outline"
+                size={32}
+                color={theme.text.secondary}
+              />
+              <ThemedText
+                style={{ fontSize: 16, marginTop: 12, textAlign: 'center' }}
+              >
+                No alarm events yet
+              </ThemedText>
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  opacity: 0.6,
+                  marginTop: 4,
+                  textAlign: 'center',
+                }}
+              >
+                Events are kept for {HISTORY_RETENTION_DAYS} days
+              </ThemedText>
+            </ThemedCard>
+          )}
+        />
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
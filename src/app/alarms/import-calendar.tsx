@@ -0,0 +1,424 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeNavigation } from '../../hooks/use-safe-navigation';
+
+import {
+  ThemedView,
+  ThemedText,
+  ThemedCard,
+} from '../../components/ui/themed-view';
+import { EmptyState } from '../../components/ui/loading-states';
+import { useAlarmStore } from '../../stores/alarm-store';
+import { Alarm, AlarmGroup } from '../../types/alarm';
+import {
+  ExportedAudioTrack,
+  planAlarmImport,
+  toAlarmCreateData,
+} from '../../services/alarms/alarm-transfer';
+import { alarmTransferService } from '../../services/alarms/alarm-transfer-service';
+import { describeRecurrence } from '../../services/alarms/recurrence';
+import { IcsCalendar, parseIcs } from '../../services/calendar/ics-parser';
+import {
+  CALENDAR_OFFSET_OPTIONS,
+  CalendarImportCandidate,
+  DEFAULT_CALENDAR_OFFSET_MINUTES,
+  planCalendarImport,
+} from '../../services/calendar/ics-import';
+import { SoundLibrary } from '../../services/audio/SoundLibrary';
+import { formatSleepDuration } from '../../services/sleep/bedtime';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+
+const formatOffset = (minutes: number) =>
+  minutes === 0
+    ? 'At start'
+    : minutes < 60
+      ? `${minutes}m`
+      : formatSleepDuration(minutes);
+
+// Calendar alarms ring with the default sound, changeable per alarm afterwards
+function getDefaultTrack(): ExportedAudioTrack {
+  const sound = SoundLibrary.getAllSounds()[0];
+  return { id: sound.id, name: sound.name, type: 'predefined' };
+}
+
+// Events already set up as alarms (same title, time and repeat)
+function findDuplicateIds(
+  candidates: CalendarImportCandidate[],
+  alarms: Alarm[],
+  groups: AlarmGroup[]
+): Set<string> {
+  const importable = candidates.filter(candidate => candidate.alarm);
+  const planned = planAlarmImport(
+    importable.map(candidate => candidate.alarm!),
+    alarms,
+    groups
+  );
+  return new Set(
+    importable
+      .filter((_, index) => planned[index].duplicateOf)
+      .map(candidate => candidate.id)
+  );
+}
+
+export default function ImportCalendarScreen() {
+  const { goBack, canNavigate } = useSafeNavigation();
+  const { alarms, groups, importAlarms } = useAlarmStore();
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+
+  const [calendar, setCalendar] = useState<IcsCalendar | null>(null);
+  const [offsetMinutes, setOffsetMinutes] = useState(
+    DEFAULT_CALENDAR_OFFSET_MINUTES
+  );
+  // Events the user flipped away from the default (new events on, duplicates off)
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const candidates = useMemo(
+    () =>
+      calendar
+        ? planCalendarImport(calendar, offsetMinutes, getDefaultTrack())
+        : [],
+    [calendar, offsetMinutes]
+  );
+
+  const duplicateIds = useMemo(
+    () => findDuplicateIds(candidates, alarms, groups),
+    [candidates, alarms, groups]
+  );
+
+  const chooseFile = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const content = await alarmTransferService.pickTextFile();
+      if (content === null) return;
+
+      const parsed = parseIcs(content);
+      console.log('📅 Parsed calendar:', parsed.name, parsed.events.length);
+      setCalendar(parsed);
+      setToggled(new Set());
+    } catch (error: any) {
+      Alert.alert('Import failed', error.message || 'Could not read the file');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    chooseFile();
+  }, [chooseFile]);
+
+  const isSelected = (candidate: CalendarImportCandidate) =>
+    !!candidate.alarm &&
+    duplicateIds.has(candidate.id) === toggled.has(candidate.id);
+
+  const toggleCandidate = (id: string) => {
+    setToggled(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selectedCandidates = candidates.filter(isSelected);
+
+  const handleImport = async () => {
+    if (selectedCandidates.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const { track } =
+        await alarmTransferService.resolveTrack(getDefaultTrack());
+      const imported = await importAlarms(
+        selectedCandidates.map(candidate => ({
+          alarm: toAlarmCreateData(candidate.alarm!, track),
+          groupName: candidate.alarm!.group,
+        }))
+      );
+
+      Alert.alert(
+        'Alarms created',
+        `${imported} alarm${imported === 1 ? '' : 's'} created from your calendar.`,
+        [{ text: 'OK', onPress: () => goBack() }]
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderCandidate = (candidate: CalendarImportCandidate) => {
+    const { alarm, event } = candidate;
+    const isSelectable = !!alarm;
+    const isChecked = isSelected(candidate);
+
+    return (
+      <TouchableOpacity
+        key={candidate.id}
+        activeOpacity={0.7}
+        disabled={!isSelectable}
+        onPress={() => toggleCandidate(candidate.id)}
+      >
+        <ThemedCard
+          style={{
+            padding: 16,
+            borderRadius: 12,
+            marginBottom: 12,
+            flexDirection: 'row',
+            alignItems: 'flex-start',
+            opacity: isChecked ? 1 : 0.6,
+          }}
+        >
+          <Ionicons
+            name={
+              !isSelectable
+                ? 'remove-circle-outline'
+                : isChecked
+                  ? 'checkbox'
+                  : 'square-outline'
+            }
+            size={22}
+            color={isChecked ? APP_COLORS.primary : theme.text.secondary}
+            style={{ marginRight: 12, marginTop: 2 }}
+          />
+          <View style={{ flex: 1 }}>
+            <ThemedText
+              style={{ fontSize: 16, fontWeight: '600' }}
+              numberOfLines={1}
+            >
+              {event.summary || 'Calendar event'}
+            </ThemedText>
+            {alarm && candidate.firstRing ? (
+              <>
+                <ThemedText
+                  style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}
+                >
+                  {`⏰ ${alarm.time} · ${describeRecurrence({
+                    time: candidate.firstRing,
+                    repeatDays: alarm.repeatDays,
+                    recurrence: alarm.recurrence,
+                  })}`}
+                  {alarm.exceptions
+                    ? ` · ${alarm.exceptions.length} skipped`
+                    : ''}
+                </ThemedText>
+                <ThemedText
+                  style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}
+                >
+                  {`Next: ${candidate.firstRing.toLocaleDateString([], {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                  })}`}
+                </ThemedText>
+              </>
+            ) : (
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  color: theme.status.warning,
+                  marginTop: 2,
+                }}
+              >
+                {candidate.unsupportedReason}
+              </ThemedText>
+            )}
+            {candidate.timeZoneNote && (
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  color: theme.status.warning,
+                  marginTop: 2,
+                }}
+              >
+                {`🌍 ${candidate.timeZoneNote}`}
+              </ThemedText>
+            )}
+            {duplicateIds.has(candidate.id) && (
+              <ThemedText
+                style={{ fontSize: 12, color: APP_COLORS.accent, marginTop: 6 }}
+              >
+                Already set up on this phone
+              </ThemedText>
+            )}
+          </View>
+        </ThemedCard>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={{ paddingVertical: 48, alignItems: 'center' }}>
+          <ActivityIndicator color={APP_COLORS.primary} />
+        </View>
+      );
+    }
+
+    if (!calendar) {
+      return (
+        <EmptyState
+          title="Import a calendar"
+          message="Pick an .ics file to create alarms ahead of its events."
+          icon="calendar-outline"
+          actionLabel="Choose file"
+          onAction={chooseFile}
+        />
+      );
+    }
+
+    return (
+      <>
+        <ThemedCard style={{ padding: 16, borderRadius: 12, marginBottom: 16 }}>
+          <ThemedText
+            style={{
+              fontSize: 12,
+              fontWeight: '600',
+              color: APP_COLORS.primary,
+              marginBottom: 12,
+            }}
+          >
+            ⏰ RING BEFORE EACH EVENT
+          </ThemedText>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+            {CALENDAR_OFFSET_OPTIONS.map(minutes => {
+              const isSelected = offsetMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  onPress={() => setOffsetMinutes(minutes)}
+                  style={{
+                    paddingVertical: 8,
+                    paddingHorizontal: 14,
+                    borderRadius: 16,
+                    backgroundColor: isSelected
+                      ? APP_COLORS.primary
+                      : theme.elevated,
+                    borderWidth: isSelected ? 0 : 1,
+                    borderColor: theme.border,
+                  }}
+                >
+                  <ThemedText
+                    style={{
+                      fontSize: 13,
+                      fontWeight: '600',
+                      color: isSelected ? '#000000' : theme.text.secondary,
+                    }}
+                  >
+                    {formatOffset(minutes)}
+                  </ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ThemedCard>
+
+        {candidates.length === 0 ? (
+          <EmptyState
+            title="No upcoming events"
+            message="This calendar has no future events to create alarms for."
+            icon="calendar-outline"
+            actionLabel="Choose another file"
+            onAction={chooseFile}
+          />
+        ) : (
+          <>
+            {candidates.map(renderCandidate)}
+
+            <TouchableOpacity
+              onPress={handleImport}
+              disabled={selectedCandidates.length === 0 || isImporting}
+              style={{
+                backgroundColor: APP_COLORS.primary,
+                borderRadius: 12,
+                paddingVertical: 16,
+                alignItems: 'center',
+                opacity:
+                  selectedCandidates.length === 0 || isImporting ? 0.5 : 1,
+              }}
+            >
+              {isImporting ? (
+                <ActivityIndicator color="#000000" />
+              ) : (
+                <ThemedText
+                  style={{ fontSize: 16, fontWeight: '700', color: '#000000' }}
+                >
+                  {`Create ${selectedCandidates.length} alarm${selectedCandidates.length === 1 ? '' : 's'}`}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={{ flex: 1 }}>
+      <SafeAreaView style={{ flex: 1 }}>
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 32 }}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <View
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              marginTop: 24,
+              marginBottom: 32,
+            }}
+          >
+            <TouchableOpacity
+              onPress={() => goBack()}
+              disabled={!canNavigate}
+              style={{ opacity: canNavigate ? 1 : 0.7 }}
+            >
+              <Ionicons
+                name="chevron-back"
+                size={24}
+                color={APP_COLORS.accent}
+              />
+            </TouchableOpacity>
+            <ThemedText
+              style={{
+                marginLeft: 16,
+                fontSize: 32,
+                fontWeight: 'bold',
+                lineHeight: 40,
+                flex: 1,
+              }}
+              numberOfLines={1}
+            >
+              {calendar?.name || 'Calendar'}
+            </ThemedText>
+            {calendar && (
+              <TouchableOpacity onPress={chooseFile}>
+                <ThemedText style={{ fontSize: 14, color: APP_COLORS.accent }}>
+                  Other file
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {renderContent()}
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
@@ -0,0 +1,349 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeNavigation } from '../../hooks/use-safe-navigation';
+
+import {
+  ThemedView,
+  ThemedText,
+  ThemedCard,
+} from '../../components/ui/themed-view';
+import { EmptyState } from '../../components/ui/loading-states';
+import { useAlarmStore } from '../../stores/alarm-store';
+import {
+  AlarmImportItem,
+  planAlarmImport,
+  resolveImportedTime,
+  toAlarmCreateData,
+} from '../../services/alarms/alarm-transfer';
+import {
+  ResolvedTrack,
+  alarmTransferService,
+} from '../../services/alarms/alarm-transfer-service';
+import { describeRecurrence } from '../../services/alarms/recurrence';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+
+interface ImportPreview {
+  items: (AlarmImportItem & { sound: ResolvedTrack })[];
+  skipped: string[];
+}
+
+export default function ImportAlarmsScreen() {
+  const { goBack, canNavigate } = useSafeNavigation();
+  const { importAlarms } = useAlarmStore();
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const chooseFile = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const parsed = await alarmTransferService.pickImportFile();
+      if (!parsed) return;
+
+      const { alarms: current, groups: currentGroups } =
+        useAlarmStore.getState();
+      const planned = planAlarmImport(parsed.alarms, current, currentGroups);
+      const items = await Promise.all(
+        planned.map(async item => ({
+          ...item,
+          sound: await alarmTransferService.resolveTrack(item.alarm.audioTrack),
+        }))
+      );
+
+      setPreview({ items, skipped: parsed.skipped });
+      // Duplicates start unselected
+      setSelected(
+        new Set(
+          items
+            .map((item, index) => (item.duplicateOf ? -1 : index))
+            .filter(index => index >= 0)
+        )
+      );
+    } catch (error: any) {
+      Alert.alert('Import failed', error.message || 'Could not read the file');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    chooseFile();
+  }, [chooseFile]);
+
+  const toggleItem = (index: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview || selected.size === 0) return;
+
+    setIsImporting(true);
+    try {
+      const imports = preview.items
+        .filter((_, index) => selected.has(index))
+        .map(item => ({
+          alarm: toAlarmCreateData(item.alarm, item.sound.track),
+          groupName: item.alarm.group,
+        }));
+      const imported = await importAlarms(imports);
+
+      Alert.alert(
+        'Alarms imported',
+        `${imported} of ${imports.length} alarm${imports.length === 1 ? '' : 's'} imported and scheduled.`,
+        [{ text: 'OK', onPress: () => goBack() }]
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const fallbackCount = preview
+    ? preview.items.filter(
+        (item, index) => selected.has(index) && item.sound.isFallback
+      ).length
+    : 0;
+
+  const renderItem = (item: ImportPreview['items'][number], index: number) => {
+    const isSelected = selected.has(index);
+    const { alarm } = item;
+    const schedule = describeRecurrence({
+      time: resolveImportedTime(alarm),
+      repeatDays: alarm.repeatDays,
+      recurrence: alarm.recurrence,
+    });
+
+    return (
+      <TouchableOpacity
+        key={index}
+        activeOpacity={0.7}
+        onPress={() => toggleItem(index)}
+      >
+        <ThemedCard
+          style={{
+            padding: 16,
+            borderRadius: 12,
+            marginBottom: 12,
+            flexDirection: 'row',
+            alignItems: 'flex-start',
+            opacity: isSelected ? 1 : 0.6,
+          }}
+        >
+          <Ionicons
+            name={isSelected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={isSelected ? APP_COLORS.primary : theme.text.secondary}
+            style={{ marginRight: 12, marginTop: 2 }}
+          />
+          <View style={{ flex: 1 }}>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <ThemedText style={{ fontSize: 22, fontWeight: 'bold' }}>
+                {alarm.time}
+              </ThemedText>
+              <ThemedText
+                style={{ fontSize: 16, marginLeft: 8, flex: 1 }}
+                numberOfLines={1}
+              >
+                {alarm.title || 'Alarm'}
+              </ThemedText>
+            </View>
+            <ThemedText style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}>
+              {schedule}
+              {alarm.group ? ` · ${alarm.group}` : ''}
+              {alarm.isActive ? '' : ' · Off'}
+            </ThemedText>
+            <ThemedText style={{ fontSize: 12, opacity: 0.7, marginTop: 2 }}>
+              🎵 {item.sound.track.name}
+            </ThemedText>
+
+            {item.sound.isFallback && (
+              <ThemedText
+                style={{
+                  fontSize: 12,
+                  color: theme.status.warning,
+                  marginTop: 6,
+                }}
+              >
+                {`⚠️ "${alarm.audioTrack.name}" isn't on this device - it will ring with ${item.sound.track.name}`}
+              </ThemedText>
+            )}
+            {item.duplicateOf && (
+              <ThemedText
+                style={{ fontSize: 12, color: APP_COLORS.accent, marginTop: 6 }}
+              >
+                Already set up on this phone - importing adds a copy
+              </ThemedText>
+            )}
+          </View>
+        </ThemedCard>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={{ paddingVertical: 48, alignItems: 'center' }}>
+          <ActivityIndicator color={APP_COLORS.primary} />
+        </View>
+      );
+    }
+
+    if (!preview) {
+      return (
+        <EmptyState
+          title="Import alarms"
+          message="Pick a VibeWake alarm export to preview the alarms before adding them."
+          icon="download-outline"
+          actionLabel="Choose file"
+          onAction={chooseFile}
+        />
+      );
+    }
+
+    return (
+      <>
+        {preview.skipped.length > 0 && (
+          <ThemedCard
+            style={{ padding: 16, borderRadius: 12, marginBottom: 16 }}
+          >
+            <ThemedText
+              style={{
+                fontSize: 12,
+                fontWeight: '600',
+                color: theme.status.warning,
+                marginBottom: 8,
+              }}
+            >
+              {`⚠️ ${preview.skipped.length} ALARM${preview.skipped.length === 1 ? '' : 'S'} COULD NOT BE IMPORTED`}
+            </ThemedText>
+            {preview.skipped.map(reason => (
+              <ThemedText key={reason} style={{ fontSize: 12, opacity: 0.7 }}>
+                {reason}
+              </ThemedText>
+            ))}
+          </ThemedCard>
+        )}
+
+        {preview.items.length === 0 ? (
+          <EmptyState
+            title="Nothing to import"
+            message="This export doesn't contain any alarms that can be imported."
+            icon="alarm-outline"
+            actionLabel="Choose another file"
+            onAction={chooseFile}
+          />
+        ) : (
+          <>
+            {preview.items.map(renderItem)}
+
+            {fallbackCount > 0 && (
+              <ThemedText
+                style={{ fontSize: 12, opacity: 0.7, marginBottom: 16 }}
+              >
+                {fallbackCount} selected alarm{fallbackCount === 1 ? '' : 's'}{' '}
+                will use a built-in sound - you can change it after importing.
+              </ThemedText>
+            )}
+
+            <TouchableOpacity
+              onPress={handleImport}
+              disabled={selected.size === 0 || isImporting}
+              style={{
+                backgroundColor: APP_COLORS.primary,
+                borderRadius: 12,
+                paddingVertical: 16,
+                alignItems: 'center',
+                opacity: selected.size === 0 || isImporting ? 0.5 : 1,
+              }}
+            >
+              {isImporting ? (
+                <ActivityIndicator color="#000000" />
+              ) : (
+                <ThemedText
+                  style={{ fontSize: 16, fontWeight: '700', color: '#000000' }}
+                >
+                  Import {selected.size} alarm{selected.size === 1 ? '' : 's'}
+                </ThemedText>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={{ flex: 1 }}>
+      <SafeAreaView style={{ flex: 1 }}>
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 32 }}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <View
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              marginTop: 24,
+              marginBottom: 32,
+            }}
+          >
+            <TouchableOpacity
+              onPress={() => goBack()}
+              disabled={!canNavigate}
+              style={{ opacity: canNavigate ? 1 : 0.7 }}
+            >
+              <Ionicons
+                name="chevron-back"
+                size={24}
+                color={APP_COLORS.accent}
+              />
+            </TouchableOpacity>
+            <ThemedText
+              style={{
+                marginLeft: 16,
+                fontSize: 32,
+                fontWeight: 'bold',
+                lineHeight: 40,
+                flex: 1,
+              }}
+            >
+              Import
+            </ThemedText>
+            {preview && (
+              <TouchableOpacity onPress={chooseFile}>
+                <ThemedText style={{ fontSize: 14, color: APP_COLORS.accent }}>
+                  Other file
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {renderContent()}
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
@@ -7,6 +7,8 @@ import {
   StatusBar,
   Alert,
   BackHandler,
+  KeyboardAvoidingView,
+  Platform,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useFocusEffect } from 'expo-router';
@@ -21,11 +23,18 @@ import * as Haptics from 'expo-haptics';
 import { ThemedView, ThemedText } from '../../components/ui/themed-view';
 import { useAlarmStore } from '../../stores/alarm-store';
 import { alarmService } from '../../services/alarms/alarm-service';
+import { alarmHistoryService } from '../../services/alarms/alarm-history-service';
 import { useTheme } from '../../contexts/theme-context';
 import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
 import { SpotifyWebPlayer } from '../../components/spotify/SpotifyWebPlayer';
 import { SpotifyTrack } from '../../services/auth/spotify-auth';
 import { useAuthStore } from '../../stores/auth-store';
+import {
+  getRemainingSnoozes,
+  getSnoozeDurationMinutes,
+  getSnoozePolicy,
+} from '../../services/alarms/snooze-policy';
+import { MissionRunner } from '../../components/missions/MissionRunner';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const SLIDER_WIDTH = SCREEN_WIDTH * 0.8;
@@ -34,7 +43,7 @@ const SLIDE_THRESHOLD = SLIDER_WIDTH * 0.7;
 
 export default function AlarmRingingScreen() {
   const { alarmId } = useLocalSearchParams<{ alarmId: string }>();
-  const { alarms, deleteAlarm } = useAlarmStore();
+  const { alarms, snoozeAlarm, dismissAlarm } = useAlarmStore();
   const { isDark } = useTheme();
   const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
   const { spotifyToken } = useAuthStore();
@@ -52,12 +61,24 @@ export default function AlarmRingingScreen() {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isSliding, setIsSliding] = useState(false);
   const [tapCount, setTapCount] = useState(0);
+  const [isMissionActive, setIsMissionActive] = useState(false);
 
   const slideAnimation = useRef(new Animated.Value(0)).current;
   const pulseAnimation = useRef(new Animated.Value(1)).current;
   const backgroundPulse = useRef(new Animated.Value(0)).current;
 
   const alarm = alarms.find(a => a.id === alarmId);
+  // Re-evaluated every second with currentTime - flips at the hand-over
+  const gentleWake = alarmService.getGentleWake();
+  const isGentlePhase = gentleWake?.alarmId === alarmId;
+  const snoozePolicy = alarm ? getSnoozePolicy(alarm) : null;
+  const snoozeCount = alarm?.snoozeState?.count ?? 0;
+  const remainingSnoozes = snoozePolicy
+    ? getRemainingSnoozes(snoozePolicy, snoozeCount)
+    : 0;
+  const snoozeMinutes = snoozePolicy
+    ? getSnoozeDurationMinutes(snoozePolicy, snoozeCount)
+    : 0;
 
   // Prevent back navigation and duplicate screen mounting
   useFocusEffect(
@@ -83,6 +104,13 @@ export default function AlarmRingingScreen() {
     }, [alarmId])
   );
 
+  useEffect(() => {
+    alarmHistoryService.record('ringing_shown', alarmId, {
+      details: { gentleWake: isGentlePhase },
+    });
+    // Logged once per mount - later hand-overs keep the same screen
+  }, [alarmId]);
+
   useEffect(() => {
     // Hide status bar for immersive experience
     StatusBar.setHidden(true);
@@ -167,9 +195,15 @@ export default function AlarmRingingScreen() {
     const { translationX } = event.nativeEvent;
 
     if (translationX >= SLIDE_THRESHOLD) {
-      // Dismiss alarm
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-      handleDismissAlarm();
+      if (alarm?.mission) {
+        // Alarm stops only once the mission is solved
+        slideAnimation.setValue(0);
+        setIsSliding(false);
+        setIsMissionActive(true);
+      } else {
+        handleDismissAlarm();
+      }
     } else {
       // Animate back to start
       Animated.spring(slideAnimation, {
@@ -183,43 +217,24 @@ export default function AlarmRingingScreen() {
   const handleDismissAlarm = async () => {
     setShowSpotifyPlayer(false); // Close player on dismiss
     try {
-      await alarmService.stopRingingAlarm();
-
-      if (alarm && !alarm.repeatDays?.length) {
-        // Deactivate one-time alarms instead of deleting them
-        const { updateAlarm } = useAlarmStore.getState();
-        await updateAlarm(alarm.id, { isActive: false });
-      }
-
+      await dismissAlarm(alarmId);
       await replace('/(tabs)/dashboard');
     } catch (error) {
       console.error('Failed to dismiss alarm:', error);
     }
   };
 
-  const handleSnooze = () => {
+  const handleSnooze = async () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setShowSpotifyPlayer(false);
 
-    Alert.alert('Snooze Alarm', 'How long would you like to snooze?', [
-      { text: '5 minutes', onPress: () => snoozeAlarm(5) },
-      { text: '10 minutes', onPress: () => snoozeAlarm(10) },
-      { text: '15 minutes', onPress: () => snoozeAlarm(15) },
-      { text: 'Cancel', style: 'cancel' },
-    ]);
-  };
-
-  const snoozeAlarm = async (minutes: number) => {
-    await alarmService.stopRingingAlarm();
-
-    // For one-time alarms, also deactivate them after snooze
-    if (alarm && !alarm.repeatDays?.length) {
-      const { updateAlarm } = useAlarmStore.getState();
-      await updateAlarm(alarm.id, { isActive: false });
+    try {
+      await snoozeAlarm(alarmId);
+      await replace('/(tabs)/dashboard');
+    } catch (error: any) {
+      console.error('Failed to snooze alarm:', error);
+      Alert.alert('Snooze Failed', error.message || 'Could not snooze alarm');
     }
-
-    // Here you would implement snooze logic
-    console.log(`Snoozed for ${minutes} minutes`);
-    await replace('/(tabs)/dashboard');
   };
 
   const handleEmergencyStop = () => {
@@ -291,13 +306,18 @@ export default function AlarmRingingScreen() {
             paddingVertical: 16,
           }}
         >
-          <TouchableOpacity onPress={handleEmergencyStop}>
-            <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
-              {tapCount > 0
-                ? `Tap ${5 - tapCount} more times to stop`
-                : 'Emergency stop'}
-            </ThemedText>
-          </TouchableOpacity>
+          {/* No emergency stop when a mission guards the dismissal */}
+          {alarm.mission ? (
+            <View />
+          ) : (
+            <TouchableOpacity onPress={handleEmergencyStop}>
+              <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+                {tapCount > 0
+                  ? `Tap ${5 - tapCount} more times to stop`
+                  : 'Emergency stop'}
+              </ThemedText>
+            </TouchableOpacity>
+          )}
 
           <View
             style={{
@@ -310,272 +330,331 @@ export default function AlarmRingingScreen() {
             <ThemedText
               style={{ fontSize: 10, fontWeight: '600', color: '#FFFFFF' }}
             >
-              ALARM
+              {isGentlePhase ? 'GENTLE WAKE' : 'ALARM'}
             </ThemedText>
           </View>
         </View>
 
-        {/* Main Content */}
-        <View
-          style={{
-            flex: 1,
-            alignItems: 'center',
-            justifyContent: 'center',
-            paddingHorizontal: 24,
-          }}
-        >
-          {/* Alarm Icon */}
-          <View style={{ marginBottom: 40 }}>
-            <View
-              style={{
-                backgroundColor: APP_COLORS.primary,
-                borderRadius: 50,
-                padding: 32,
-                alignItems: 'center',
-                justifyContent: 'center',
-              }}
-            >
-              <Ionicons name="alarm" size={80} color="#FFFFFF" />
-            </View>
-          </View>
-
-          {/* Time Display */}
-          <View style={{ alignItems: 'center', marginBottom: 32 }}>
-            <ThemedText
-              style={{
-                fontSize: 72,
-                fontWeight: '800',
-                color: APP_COLORS.primary,
-                textAlign: 'center',
-              }}
-            >
-              {formatTime(currentTime)}
-            </ThemedText>
-
-            <ThemedText
-              style={{
-                fontSize: 18,
-                marginTop: 8,
-                textAlign: 'center',
-                opacity: 0.7,
-              }}
-            >
-              {formatDate(currentTime)}
-            </ThemedText>
-          </View>
-
-          {/* Alarm Info */}
-          <View
-            style={{
-              backgroundColor: isDark ? '#1F2937' : '#FFFFFF',
-              borderWidth: 1,
-              borderColor: isDark ? '#374151' : '#E5E7EB',
-              borderRadius: 12,
-              padding: 16,
-              marginBottom: 48,
-              width: '100%',
-            }}
+        {isMissionActive && alarm.mission ? (
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            style={{ flex: 1, justifyContent: 'center', paddingHorizontal: 24 }}
           >
+            <MissionRunner
+              config={alarm.mission}
+              onComplete={handleDismissAlarm}
+              onCancel={() => setIsMissionActive(false)}
+            />
+          </KeyboardAvoidingView>
+        ) : (
+          <>
+            {/* Main Content */}
             <View
               style={{
-                flexDirection: 'row',
+                flex: 1,
                 alignItems: 'center',
                 justifyContent: 'center',
+                paddingHorizontal: 24,
               }}
             >
-              <Ionicons
-                name="musical-notes"
-                size={20}
-                color={APP_COLORS.accent}
-              />
-              <ThemedText
-                style={{ fontSize: 16, fontWeight: '600', marginLeft: 8 }}
-              >
-                {alarm.audioTrack.name}
-              </ThemedText>
-            </View>
+              {/* Alarm Icon */}
+              <View style={{ marginBottom: 40 }}>
+                <View
+                  style={{
+                    backgroundColor: APP_COLORS.primary,
+                    borderRadius: 50,
+                    padding: 32,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <Ionicons
+                    name={isGentlePhase ? 'sunny' : 'alarm'}
+                    size={80}
+                    color="#FFFFFF"
+                  />
+                </View>
+              </View>
 
-            <ThemedText
-              style={{
-                fontSize: 12,
-                textAlign: 'center',
-                marginTop: 8,
-                opacity: 0.7,
-              }}
-            >
-              {alarm.title}
-            </ThemedText>
-          </View>
+              {/* Time Display */}
+              <View style={{ alignItems: 'center', marginBottom: 32 }}>
+                <ThemedText
+                  style={{
+                    fontSize: 72,
+                    fontWeight: '800',
+                    color: APP_COLORS.primary,
+                    textAlign: 'center',
+                  }}
+                >
+                  {formatTime(currentTime)}
+                </ThemedText>
 
-          {/* Action Buttons */}
-          <View style={{ flexDirection: 'row', gap: 16, marginBottom: 32 }}>
-            {/* Snooze Button */}
-            <TouchableOpacity
-              onPress={handleSnooze}
-              style={{
-                backgroundColor: theme.elevated,
-                borderWidth: 1,
-                borderColor: theme.border,
-                borderRadius: 24,
-                paddingVertical: 16,
-                paddingHorizontal: 24,
-                alignItems: 'center',
-                justifyContent: 'center',
-                flex: 1,
-              }}
-            >
-              <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                <Ionicons name="time" size={20} color={APP_COLORS.accent} />
                 <ThemedText
-                  style={{ fontSize: 14, fontWeight: '600', marginLeft: 6 }}
+                  style={{
+                    fontSize: 18,
+                    marginTop: 8,
+                    textAlign: 'center',
+                    opacity: 0.7,
+                  }}
                 >
-                  Snooze
+                  {formatDate(currentTime)}
                 </ThemedText>
               </View>
-            </TouchableOpacity>
 
-            {/* Spotify Player Button - only show for Spotify tracks */}
-            {alarm.audioTrack.type === 'spotify' && spotifyTrack && (
-              <TouchableOpacity
-                onPress={() => setShowSpotifyPlayer(true)}
+              {/* Alarm Info */}
+              <View
                 style={{
-                  backgroundColor: '#1DB954',
-                  borderRadius: 24,
-                  paddingVertical: 16,
-                  paddingHorizontal: 24,
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  flex: 1,
+                  backgroundColor: isDark ? '#1F2937' : '#FFFFFF',
+                  borderWidth: 1,
+                  borderColor: isDark ? '#374151' : '#E5E7EB',
+                  borderRadius: 12,
+                  padding: 16,
+                  marginBottom: 48,
+                  width: '100%',
                 }}
               >
-                <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-                  <Ionicons name="musical-note" size={20} color="#FFFFFF" />
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <Ionicons
+                    name="musical-notes"
+                    size={20}
+                    color={APP_COLORS.accent}
+                  />
                   <ThemedText
-                    style={{
-                      fontSize: 14,
-                      fontWeight: '600',
-                      marginLeft: 6,
-                      color: '#FFFFFF',
-                    }}
+                    style={{ fontSize: 16, fontWeight: '600', marginLeft: 8 }}
                   >
-                    Play Full Song
+                    {alarm.audioTrack.name}
                   </ThemedText>
                 </View>
-              </TouchableOpacity>
-            )}
-          </View>
-        </View>
 
-        {/* Slide to Dismiss */}
-        <View style={{ paddingHorizontal: 24, paddingBottom: 48 }}>
-          <View style={{ alignItems: 'center', marginBottom: 16 }}>
-            <ThemedText style={{ fontSize: 14, opacity: 0.7 }}>
-              Slide to dismiss alarm
-            </ThemedText>
-          </View>
+                <ThemedText
+                  style={{
+                    fontSize: 12,
+                    textAlign: 'center',
+                    marginTop: 8,
+                    opacity: 0.7,
+                  }}
+                >
+                  {alarm.title}
+                </ThemedText>
 
-          <View
-            style={{
-              height: THUMB_SIZE,
-              width: SLIDER_WIDTH,
-              marginHorizontal: (SCREEN_WIDTH - SLIDER_WIDTH) / 2,
-              backgroundColor: theme.elevated,
-              borderRadius: 35,
-              position: 'relative',
-            }}
-          >
-            {/* Slider Track */}
-            <View
-              style={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                right: 0,
-                bottom: 0,
-                borderRadius: 35,
-                borderWidth: 1,
-                borderColor: theme.border,
-              }}
-            />
+                {isGentlePhase && gentleWake && (
+                  <ThemedText
+                    style={{
+                      fontSize: 12,
+                      textAlign: 'center',
+                      marginTop: 4,
+                      color: APP_COLORS.accent,
+                    }}
+                  >
+                    Alarm rings at {formatTime(gentleWake.ringTime)}
+                  </ThemedText>
+                )}
+              </View>
 
-            {/* Progress Fill */}
-            <Animated.View
-              style={{
-                position: 'absolute',
-                left: 0,
-                top: 0,
-                bottom: 0,
-                backgroundColor: APP_COLORS.primary,
-                borderRadius: 35,
-                width: slideAnimation.interpolate({
-                  inputRange: [0, SLIDER_WIDTH - THUMB_SIZE],
-                  outputRange: [THUMB_SIZE, SLIDER_WIDTH],
-                  extrapolate: 'clamp',
-                }),
-              }}
-            />
+              {/* Action Buttons */}
+              <View style={{ flexDirection: 'row', gap: 16, marginBottom: 32 }}>
+                {/* Snooze Button - hidden when disabled, limit reached or before the ring */}
+                {remainingSnoozes > 0 && !isGentlePhase && (
+                  <TouchableOpacity
+                    onPress={handleSnooze}
+                    style={{
+                      backgroundColor: theme.elevated,
+                      borderWidth: 1,
+                      borderColor: theme.border,
+                      borderRadius: 24,
+                      paddingVertical: 16,
+                      paddingHorizontal: 24,
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      flex: 1,
+                    }}
+                  >
+                    <View
+                      style={{ flexDirection: 'row', alignItems: 'center' }}
+                    >
+                      <Ionicons
+                        name="time"
+                        size={20}
+                        color={APP_COLORS.accent}
+                      />
+                      <ThemedText
+                        style={{
+                          fontSize: 14,
+                          fontWeight: '600',
+                          marginLeft: 6,
+                        }}
+                      >
+                        Snooze {snoozeMinutes} min
+                      </ThemedText>
+                    </View>
+                    <ThemedText
+                      style={{ fontSize: 11, opacity: 0.6, marginTop: 4 }}
+                    >
+                      {remainingSnoozes} left
+                    </ThemedText>
+                  </TouchableOpacity>
+                )}
+
+                {/* Spotify Player Button - only show for Spotify tracks */}
+                {alarm.audioTrack.type === 'spotify' && spotifyTrack && (
+                  <TouchableOpacity
+                    onPress={() => setShowSpotifyPlayer(true)}
+                    style={{
+                      backgroundColor: '#1DB954',
+                      borderRadius: 24,
+                      paddingVertical: 16,
+                      paddingHorizontal: 24,
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      flex: 1,
+                    }}
+                  >
+                    <View
+                      style={{ flexDirection: 'row', alignItems: 'center' }}
+                    >
+                      <Ionicons name="musical-note" size={20} color="#FFFFFF" />
+                      <ThemedText
+                        style={{
+                          fontSize: 14,
+                          fontWeight: '600',
+                          marginLeft: 6,
+                          color: '#FFFFFF',
+                        }}
+                      >
+                        Play Full Song
+                      </ThemedText>
+                    </View>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
 
-            {/* Slider Thumb */}
-            <PanGestureHandler
-              onGestureEvent={handleSlideGesture}
-              onHandlerStateChange={({ nativeEvent }) => {
-                if (nativeEvent.state === 5) {
-                  // End state
-                  handleSlideEnd({
-                    nativeEvent,
-                  } as PanGestureHandlerGestureEvent);
-                }
-              }}
-            >
-              <Animated.View
+            {/* Slide to Dismiss */}
+            <View style={{ paddingHorizontal: 24, paddingBottom: 48 }}>
+              <View style={{ alignItems: 'center', marginBottom: 16 }}>
+                <ThemedText style={{ fontSize: 14, opacity: 0.7 }}>
+                  {alarm.mission
+                    ? 'Solve the mission to dismiss alarm'
+                    : isGentlePhase
+                      ? 'Awake already? Turn off the alarm'
+                      : 'Slide to dismiss alarm'}
+                </ThemedText>
+              </View>
+
+              <View
                 style={{
-                  position: 'absolute',
-                  backgroundColor: '#FFFFFF',
-                  width: THUMB_SIZE,
                   height: THUMB_SIZE,
+                  width: SLIDER_WIDTH,
+                  marginHorizontal: (SCREEN_WIDTH - SLIDER_WIDTH) / 2,
+                  backgroundColor: theme.elevated,
                   borderRadius: 35,
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                  shadowColor: '#000000',
-                  shadowOffset: { width: 0, height: 2 },
-                  shadowOpacity: 0.1,
-                  shadowRadius: 4,
-                  elevation: 3,
-                  left: slideAnimation,
+                  position: 'relative',
                 }}
               >
-                <Ionicons
-                  name="chevron-forward"
-                  size={24}
-                  color={isSliding ? APP_COLORS.primary : '#666666'}
+                {/* Slider Track */}
+                <View
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    borderRadius: 35,
+                    borderWidth: 1,
+                    borderColor: theme.border,
+                  }}
                 />
-              </Animated.View>
-            </PanGestureHandler>
 
-            {/* Slide Text */}
-            <View
-              style={{
-                position: 'absolute',
-                top: 0,
-                left: 0,
-                right: 0,
-                bottom: 0,
-                alignItems: 'center',
-                justifyContent: 'center',
-              }}
-            >
-              <ThemedText
-                style={{
-                  fontSize: 16,
-                  fontWeight: '600',
-                  opacity: isSliding ? 0 : 0.7,
-                }}
-              >
-                Slide to dismiss
-              </ThemedText>
+                {/* Progress Fill */}
+                <Animated.View
+                  style={{
+                    position: 'absolute',
+                    left: 0,
+                    top: 0,
+                    bottom: 0,
+                    backgroundColor: APP_COLORS.primary,
+                    borderRadius: 35,
+                    width: slideAnimation.interpolate({
+                      inputRange: [0, SLIDER_WIDTH - THUMB_SIZE],
+                      outputRange: [THUMB_SIZE, SLIDER_WIDTH],
+                      extrapolate: 'clamp',
+                    }),
+                  }}
+                />
+
+                {/* Slider Thumb */}
+                <PanGestureHandler
+                  onGestureEvent={handleSlideGesture}
+                  onHandlerStateChange={({ nativeEvent }) => {
+                    if (nativeEvent.state === 5) {
+                      // End state
+                      handleSlideEnd({
+                        nativeEvent,
+                      } as PanGestureHandlerGestureEvent);
+                    }
+                  }}
+                >
+                  <Animated.View
+                    style={{
+                      position: 'absolute',
+                      backgroundColor: '#FFFFFF',
+                      width: THUMB_SIZE,
+                      height: THUMB_SIZE,
+                      borderRadius: 35,
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      shadowColor: '#000000',
+                      shadowOffset: { width: 0, height: 2 },
+                      shadowOpacity: 0.1,
+                      shadowRadius: 4,
+                      elevation: 3,
+                      left: slideAnimation,
+                    }}
+                  >
+                    <Ionicons
+                      name="chevron-forward"
+                      size={24}
+                      color={isSliding ? APP_COLORS.primary : '#666666'}
+                    />
+                  </Animated.View>
+                </PanGestureHandler>
+
+                {/* Slide Text */}
+                <View
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    right: 0,
+                    bottom: 0,
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <ThemedText
+                    style={{
+                      fontSize: 16,
+                      fontWeight: '600',
+                      opacity: isSliding ? 0 : 0.7,
+                    }}
+                  >
+                    {alarm.mission
+                      ? 'Slide to start mission'
+                      : isGentlePhase
+                        ? 'Slide to turn off'
+                        : 'Slide to dismiss'}
+                  </ThemedText>
+                </View>
+              </View>
             </View>
-          </View>
-        </View>
+          </>
+        )}
       </SafeAreaView>
     </ThemedView>
   );
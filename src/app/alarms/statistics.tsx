@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeNavigation } from '../../hooks/use-safe-navigation';
+
+import {
+  ThemedView,
+  ThemedText,
+  ThemedCard,
+} from '../../components/ui/themed-view';
+import { EmptyState } from '../../components/ui/loading-states';
+import { StatsCardSkeleton } from '../../components/ui/loading-skeleton';
+import { BarChart } from '../../components/stats/BarChart';
+import { AlarmHistoryEvent } from '../../types/alarm';
+import { alarmHistoryService } from '../../services/alarms/alarm-history-service';
+import {
+  DayTypeStats,
+  ON_TIME_WINDOW_MINUTES,
+  buildWakeSessions,
+  calculateWakeStatistics,
+  formatMinutesOfDay,
+} from '../../services/alarms/wake-statistics';
+import { APP_COLORS } from '../../theme/colors';
+
+const formatMinutes = (minutes: number | null) =>
+  minutes === null ? '—' : `${minutes.toFixed(1)} min`;
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+export default function WakeStatisticsScreen() {
+  const { goBack, canNavigate } = useSafeNavigation();
+  const [events, setEvents] = useState<AlarmHistoryEvent[] | null>(null);
+
+  useEffect(() => {
+    alarmHistoryService.getEvents().then(setEvents);
+    return alarmHistoryService.subscribe(setEvents);
+  }, []);
+
+  const stats = useMemo(
+    () => (events ? calculateWakeStatistics(buildWakeSessions(events)) : null),
+    [events]
+  );
+
+  const renderSummaryTile = (label: string, value: string) => (
+    <ThemedCard style={{ flex: 1, padding: 16, borderRadius: 12 }}>
+      <ThemedText style={{ fontSize: 12, opacity: 0.6, marginBottom: 4 }}>
+        {label}
+      </ThemedText>
+      <ThemedText style={{ fontSize: 22, fontWeight: 'bold' }}>
+        {value}
+      </ThemedText>
+    </ThemedCard>
+  );
+
+  const renderSectionTitle = (title: string) => (
+    <ThemedText
+      style={{
+        fontSize: 12,
+        fontWeight: '600',
+        color: APP_COLORS.primary,
+        marginBottom: 12,
+      }}
+    >
+      {title}
+    </ThemedText>
+  );
+
+  const renderDayTypeRow = (
+    label: string,
+    weekday: string,
+    weekend: string
+  ) => (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+      }}
+    >
+      <ThemedText style={{ flex: 2, fontSize: 14, opacity: 0.7 }}>
+        {label}
+      </ThemedText>
+      <ThemedText style={{ flex: 1, fontSize: 14, fontWeight: '600' }}>
+        {weekday}
+      </ThemedText>
+      <ThemedText style={{ flex: 1, fontSize: 14, fontWeight: '600' }}>
+        {weekend}
+      </ThemedText>
+    </View>
+  );
+
+  const formatWake = (dayStats: DayTypeStats) =>
+    dayStats.averageWakeMinutes === null
+      ? '—'
+      : formatMinutesOfDay(dayStats.averageWakeMinutes);
+
+  const renderContent = () => {
+    if (!stats) {
+      return (
+        <View style={{ gap: 16 }}>
+          <StatsCardSkeleton />
+          <StatsCardSkeleton />
+        </View>
+      );
+    }
+
+    if (stats.sessionCount === 0) {
+      return (
+        <EmptyState
+          title="No wake-ups yet"
+          message="Statistics appear once your alarms have rung and been dismissed."
+          icon="bar-chart-outline"
+        />
+      );
+    }
+
+    return (
+      <>
+        <View style={{ flexDirection: 'row', gap: 12, marginBottom: 12 }}>
+          {renderSummaryTile(
+            'Average wake-up',
+            stats.averageWakeMinutes === null
+              ? '—'
+              : formatMinutesOfDay(stats.averageWakeMinutes)
+          )}
+          {renderSummaryTile(
+            'Snoozes / week',
+            stats.averageSnoozesPerWeek.toFixed(1)
+          )}
+        </View>
+        <View style={{ flexDirection: 'row', gap: 12, marginBottom: 8 }}>
+          {renderSummaryTile(
+            'Longest streak',
+            formatDays(stats.longestOnTimeStreak)
+          )}
+          {renderSummaryTile(
+            'Current streak',
+            formatDays(stats.currentOnTimeStreak)
+          )}
+        </View>
+        <ThemedText
+          style={{
+            fontSize: 12,
+            opacity: 0.6,
+            marginBottom: 24,
+          }}
+        >
+          On time = dismissed without snoozing within {ON_TIME_WINDOW_MINUTES}{' '}
+          min of the alarm
+        </ThemedText>
+
+        <ThemedCard style={{ padding: 16, borderRadius: 12, marginBottom: 16 }}>
+          {renderSectionTitle('😴 SNOOZES PER WEEK')}
+          <BarChart data={stats.snoozesPerWeek} color={APP_COLORS.primary} />
+        </ThemedCard>
+
+        <ThemedCard style={{ padding: 16, borderRadius: 12, marginBottom: 16 }}>
+          {renderSectionTitle('⏱️ TIME TO DISMISS (LAST 14 DAYS)')}
+          <BarChart
+            data={stats.dismissTrend}
+            formatValue={value => value.toFixed(1)}
+            labelEvery={2}
+          />
+        </ThemedCard>
+
+        <ThemedCard style={{ padding: 16, borderRadius: 12, marginBottom: 16 }}>
+          {renderSectionTitle('📅 WEEKDAYS VS WEEKENDS')}
+          {renderDayTypeRow('', 'Weekdays', 'Weekends')}
+          {renderDayTypeRow(
+            'Wake-ups',
+            `${stats.weekday.wakeCount}`,
+            `${stats.weekend.wakeCount}`
+          )}
+          {renderDayTypeRow(
+            'Average wake-up',
+            formatWake(stats.weekday),
+            formatWake(stats.weekend)
+          )}
+          {renderDayTypeRow(
+            'Snoozes per wake',
+            stats.weekday.averageSnoozes.toFixed(1),
+            stats.weekend.averageSnoozes.toFixed(1)
+          )}
+          {renderDayTypeRow(
+            'Time to dismiss',
+            formatMinutes(stats.weekday.averageDismissMinutes),
+            formatMinutes(stats.weekend.averageDismissMinutes)
+          )}
+        </ThemedCard>
+      </>
+    );
+  };
+
+  return (
+    <ThemedView style={{ flex: 1 }}>
+      <SafeAreaView style={{ flex: 1 }}>
+        <ScrollView
+          style={{ flex: 1 }}
+          contentContainerStyle={{ paddingHorizontal: 24, paddingBottom: 32 }}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Header */}
+          <View
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              marginTop: 24,
+              marginBottom: 32,
+            }}
+          >
+            <TouchableOpacity
+              onPress={() => goBack()}
+              disabled={!canNavigate}
+              style={{ opacity: canNavigate ? 1 : 0.7 }}
+            >
+              <Ionicons
+                name="chevron-back"
+                size={24}
+                color={APP_COLORS.accent}
+              />
+            </TouchableOpacity>
+            <ThemedText
+              style={{
+                marginLeft: 16,
+                fontSize: 32,
+                fontWeight: 'bold',
+                lineHeight: 40,
+              }}
+            >
+              Statistics
+            </ThemedText>
+          </View>
+
+          {renderContent()}
+        </ScrollView>
+      </SafeAreaView>
+    </ThemedView>
+  );
+}
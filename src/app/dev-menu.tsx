@@ -177,6 +177,11 @@ export default function DevMenu() {
       title: 'System',
       icon: 'settings' as const,
     },
+    {
+      route: 'dev/simulator' as const,
+      title: 'Simulator',
+      icon: 'play-forward' as const,
+    },
   ];
 
   return (
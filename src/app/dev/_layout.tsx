@@ -10,6 +10,7 @@ export default function DevLayout() {
       <Stack.Screen name="notifications" options={{ headerShown: false }} />
       <Stack.Screen name="loading" options={{ headerShown: false }} />
       <Stack.Screen name="system" options={{ headerShown: false }} />
+      <Stack.Screen name="simulator" options={{ headerShown: false }} />
     </Stack>
   );
 }
@@ -0,0 +1,286 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAlarmStore } from '../../stores/alarm-store';
+import {
+  SimulatedTrigger,
+  SimulationIssue,
+  SimulationResult,
+  fireSimulatedTrigger,
+  simulateAlarms,
+} from '../../services/alarms/alarm-simulator';
+import { useThemedStyles, useThemedText } from '../../theme/useThemedStyles';
+
+const DAY_OPTIONS = [1, 3, 7];
+
+const KIND_LABELS: Record<SimulatedTrigger['kind'], string> = {
+  alarm: '⏰ Ring',
+  'gentle-wake': '🌅 Gentle wake',
+  snooze: '😴 Snooze',
+  'awake-check': '☀️ Awake check',
+  'awake-check-missed': '🔁 Awake re-ring',
+};
+
+function describeIssue(
+  issue: SimulationIssue,
+  titleOf: (alarmId: string) => string
+): string {
+  switch (issue.type) {
+    case 'beyond-horizon':
+      return `Beyond notification horizon (${issue.coveredUntil.toLocaleString()})`;
+    case 'unplayable-track':
+      return 'Track is not playable - fallback sound will ring';
+    case 'overlap':
+      return `Overlaps with ${titleOf(issue.alarmId)}`;
+    case 'not-scheduled':
+      return 'Not scheduled with the OS';
+  }
+}
+
+export default function SimulatorScreen() {
+  const { screen, spacing, colors, card } = useThemedStyles();
+  const headingStyle = useThemedText('heading');
+  const sectionHeadingStyle = useThemedText('subheading');
+  const { alarms, groups, notificationCoverage } = useAlarmStore();
+
+  const [days, setDays] = useState(7);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const titleOf = (alarmId: string) =>
+    alarms.find(alarm => alarm.id === alarmId)?.title || 'Alarm';
+
+  const runSimulation = async () => {
+    setIsRunning(true);
+    try {
+      setResult(
+        await simulateAlarms(alarms, groups, {
+          days,
+          coverage: notificationCoverage,
+        })
+      );
+    } catch (error) {
+      console.error('❌ Simulation failed:', error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const issueCount =
+    result?.triggers.filter(trigger => trigger.issues.length > 0).length ?? 0;
+
+  return (
+    <SafeAreaView style={screen}>
+      {/* Header */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          paddingHorizontal: spacing.lg,
+          paddingVertical: spacing.md,
+          borderBottomWidth: 1,
+          borderBottomColor: colors.border,
+        }}
+      >
+        <TouchableOpacity
+          style={{ padding: spacing.sm, marginRight: spacing.sm }}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={[headingStyle, { fontSize: 20 }]}>Alarm Simulator</Text>
+      </View>
+
+      <ScrollView style={{ flex: 1, padding: spacing.lg }}>
+        {/* Controls */}
+        <View style={{ marginBottom: spacing['2xl'] }}>
+          <Text style={[sectionHeadingStyle, { marginBottom: spacing.md }]}>
+            ⏩ Time Travel
+          </Text>
+          <View
+            style={{
+              flexDirection: 'row',
+              gap: spacing.sm,
+              marginBottom: spacing.md,
+            }}
+          >
+            {DAY_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                onPress={() => setDays(option)}
+                style={{
+                  flex: 1,
+                  paddingVertical: spacing.sm,
+                  borderRadius: 12,
+                  alignItems: 'center',
+                  borderWidth: 1,
+                  borderColor:
+                    days === option ? colors.interactive.accent : colors.border,
+                  backgroundColor:
+                    days === option
+                      ? colors.interactive.accent + '1A'
+                      : 'transparent',
+                }}
+              >
+                <Text style={{ color: colors.text.primary, fontWeight: '600' }}>
+                  {option === 1 ? '1 day' : `${option} days`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity
+            onPress={runSimulation}
+            disabled={isRunning}
+            style={{
+              backgroundColor: colors.interactive.accent,
+              borderRadius: 16,
+              padding: spacing.md,
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'center',
+            }}
+          >
+            {isRunning ? (
+              <ActivityIndicator color="white" />
+            ) : (
+              <>
+                <Ionicons name="play-forward" size={20} color="white" />
+                <Text
+                  style={{
+                    color: 'white',
+                    fontWeight: '600',
+                    fontSize: 16,
+                    marginLeft: spacing.sm,
+                  }}
+                >
+                  Simulate {alarms.length} alarms
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Results */}
+        {result && (
+          <View style={{ marginBottom: spacing['2xl'] }}>
+            <Text style={[sectionHeadingStyle, { marginBottom: spacing.xs }]}>
+              🗓️ Triggers
+            </Text>
+            <Text
+              style={{
+                color: colors.text.secondary,
+                fontSize: 14,
+                marginBottom: spacing.md,
+              }}
+            >
+              {`${result.triggers.length} triggers until ${result.until.toLocaleString()} · ${issueCount} with gaps`}
+            </Text>
+
+            {result.triggers.length === 0 && (
+              <Text style={{ color: colors.text.secondary }}>
+                Nothing fires in this window.
+              </Text>
+            )}
+
+            {result.triggers.map(trigger => (
+              <View
+                key={trigger.id}
+                style={[
+                  card,
+                  trigger.issues.length > 0 && {
+                    borderWidth: 1,
+                    borderColor: colors.status.warning,
+                  },
+                ]}
+              >
+                <View
+                  style={{
+                    flexDirection: 'row',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                  }}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text
+                      style={{
+                        color: colors.text.primary,
+                        fontWeight: '600',
+                        fontSize: 16,
+                      }}
+                    >
+                      {trigger.title}
+                    </Text>
+                    <Text
+                      style={{ color: colors.text.secondary, fontSize: 13 }}
+                    >
+                      {`${trigger.fireAt.toLocaleString()} · ${KIND_LABELS[trigger.kind]}`}
+                    </Text>
+                    <Text
+                      style={{ color: colors.text.secondary, fontSize: 13 }}
+                    >
+                      {`Path: ${trigger.path} · Audio: ${trigger.audioTrack?.name ?? 'none'}`}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    onPress={() => fireSimulatedTrigger(trigger)}
+                    style={{
+                      paddingHorizontal: spacing.md,
+                      paddingVertical: spacing.sm,
+                      borderRadius: 12,
+                      backgroundColor: colors.interactive.accent + '1A',
+                    }}
+                  >
+                    <Text
+                      style={{
+                        color: colors.interactive.accent,
+                        fontWeight: '600',
+                      }}
+                    >
+                      Fire now
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+
+                {trigger.issues.map((issue, index) => (
+                  <View
+                    key={index}
+                    style={{
+                      flexDirection: 'row',
+                      alignItems: 'center',
+                      marginTop: spacing.sm,
+                    }}
+                  >
+                    <Ionicons
+                      name="warning"
+                      size={14}
+                      color={colors.status.warning}
+                    />
+                    <Text
+                      style={{
+                        color: colors.status.warning,
+                        fontSize: 13,
+                        marginLeft: spacing.xs,
+                        flex: 1,
+                      }}
+                    >
+                      {describeIssue(issue, titleOf)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, TouchableOpacity, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS } from '../../theme/colors';
+import { ThemedText, ThemedCard } from '../ui/themed-view';
+import {
+  MISSED_ALARM_CAUSE_INFO,
+  MissedAlarm,
+  MissedAlarmCause,
+} from '../../services/alarms/missed-alarms';
+
+export interface MissedAlarmBannerProps {
+  missedAlarms: MissedAlarm[];
+  onDismiss: () => void;
+}
+
+/**
+ * Lists alarms that passed without ringing, with the likely cause and how to fix it
+ */
+export function MissedAlarmBanner({
+  missedAlarms,
+  onDismiss,
+}: MissedAlarmBannerProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+
+  if (missedAlarms.length === 0) return null;
+
+  // One set of steps per cause, in order of first appearance
+  const causes = Array.from(
+    new Set<MissedAlarmCause>(missedAlarms.map(missed => missed.cause))
+  );
+
+  return (
+    <ThemedCard
+      style={{
+        padding: 16,
+        marginBottom: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: theme.status.error,
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'flex-start' }}>
+        <Ionicons
+          name="alert-circle-outline"
+          size={20}
+          color={theme.status.error}
+          style={{ marginRight: 12, marginTop: 2 }}
+        />
+        <View style={{ flex: 1 }}>
+          <ThemedText style={{ fontSize: 14, fontWeight: '600' }}>
+            {missedAlarms.length === 1
+              ? 'An alarm did not ring'
+              : `${missedAlarms.length} alarms did not ring`}
+          </ThemedText>
+          {missedAlarms.map(missed => (
+            <ThemedText
+              key={missed.id}
+              style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}
+            >
+              {`${missed.title} · ${missed.scheduledTime.toLocaleString([], {
+                weekday: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}`}
+            </ThemedText>
+          ))}
+        </View>
+        <TouchableOpacity onPress={onDismiss} style={{ padding: 4 }}>
+          <Ionicons name="close" size={18} color={theme.text.secondary} />
+        </TouchableOpacity>
+      </View>
+
+      {causes.map(cause => (
+        <View key={cause} style={{ marginTop: 12, marginLeft: 32 }}>
+          <ThemedText style={{ fontSize: 13, fontWeight: '600' }}>
+            {`Likely cause: ${MISSED_ALARM_CAUSE_INFO[cause].label}`}
+          </ThemedText>
+          {MISSED_ALARM_CAUSE_INFO[cause].steps.map(step => (
+            <ThemedText
+              key={step}
+              style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}
+            >
+              {`• ${step}`}
+            </ThemedText>
+          ))}
+          {cause === 'permissions-revoked' && (
+            <TouchableOpacity
+              onPress={() => Linking.openSettings()}
+              style={{ marginTop: 8, alignSelf: 'flex-start' }}
+            >
+              <ThemedText
+                style={{
+                  fontSize: 13,
+                  fontWeight: '600',
+                  color: theme.status.error,
+                }}
+              >
+                Open Settings
+              </ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+      ))}
+    </ThemedCard>
+  );
+}
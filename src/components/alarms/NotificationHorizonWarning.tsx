@@ -0,0 +1,59 @@
+import React from 'react';
+import { View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS } from '../../theme/colors';
+import { ThemedText, ThemedCard } from '../ui/themed-view';
+import type { NotificationCoverage } from '../../services/notifications/notification-budget-service';
+import { IOS_PENDING_NOTIFICATION_LIMIT } from '../../services/notifications/notification-budget';
+
+export interface NotificationHorizonWarningProps {
+  coverage: NotificationCoverage | null;
+}
+
+/**
+ * Warns when the notification limit leaves only a short stretch of alarms scheduled
+ */
+export function NotificationHorizonWarning({
+  coverage,
+}: NotificationHorizonWarningProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+
+  if (!coverage?.isShort || !coverage.coveredUntil) return null;
+
+  const until = coverage.coveredUntil.toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <ThemedCard
+      style={{
+        padding: 16,
+        marginBottom: 16,
+        borderRadius: 12,
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        borderWidth: 1,
+        borderColor: theme.status.warning,
+      }}
+    >
+      <Ionicons
+        name="warning-outline"
+        size={20}
+        color={theme.status.warning}
+        style={{ marginRight: 12, marginTop: 2 }}
+      />
+      <View style={{ flex: 1 }}>
+        <ThemedText style={{ fontSize: 14, fontWeight: '600' }}>
+          {`Alarms are scheduled only until ${until}`}
+        </ThemedText>
+        <ThemedText style={{ fontSize: 12, opacity: 0.7, marginTop: 4 }}>
+          {`iOS keeps ${IOS_PENDING_NOTIFICATION_LIMIT} alarm notifications at a time. Open VibeWake daily or turn off alarms you don't need so later ones still ring.`}
+        </ThemedText>
+      </View>
+    </ThemedCard>
+  );
+}
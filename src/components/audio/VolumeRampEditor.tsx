@@ -0,0 +1,293 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, TouchableOpacity, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import { VolumeRamp } from '../../types/alarm';
+import { AudioTrack } from '../../services/audio/types';
+import { AudioManager } from '../../services/audio/AudioManager';
+import {
+  RAMP_DURATION_OPTIONS,
+  VOLUME_CURVES,
+  describeVolumeRamp,
+  getRampVolume,
+} from '../../services/audio/volume-ramp';
+
+const CHART_BARS = 24;
+const PREVIEW_MAX_SECONDS = 10; // Long ramps are previewed time-compressed
+
+export interface VolumeRampEditorProps {
+  ramp: VolumeRamp;
+  onChange: (ramp: VolumeRamp) => void;
+  previewTrack: AudioTrack | null;
+}
+
+const formatDuration = (seconds: number) => {
+  if (seconds === 0) return 'Off';
+  return seconds >= 60 ? `${seconds / 60}m` : `${seconds}s`;
+};
+
+export function VolumeRampEditor({
+  ramp,
+  onChange,
+  previewTrack,
+}: VolumeRampEditorProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const previewTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopPreview = async () => {
+    if (previewTimeout.current) {
+      clearTimeout(previewTimeout.current);
+      previewTimeout.current = null;
+    }
+    setIsPreviewing(false);
+    try {
+      await AudioManager.stopAsync();
+    } catch (error) {
+      console.error('Failed to stop ramp preview:', error);
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      if (previewTimeout.current) clearTimeout(previewTimeout.current);
+      AudioManager.unloadAudio();
+    };
+  }, []);
+
+  const handlePreview = async () => {
+    if (isPreviewing) {
+      await stopPreview();
+      return;
+    }
+    if (!previewTrack) {
+      Alert.alert('No Audio', 'Select an alarm sound to preview the ramp.');
+      return;
+    }
+
+    const previewRamp = {
+      ...ramp,
+      durationSeconds: Math.min(ramp.durationSeconds, PREVIEW_MAX_SECONDS),
+    };
+
+    try {
+      setIsPreviewing(true);
+      await AudioManager.initialize();
+      await AudioManager.playWithVolumeRamp(previewTrack, previewRamp);
+      previewTimeout.current = setTimeout(
+        stopPreview,
+        (previewRamp.durationSeconds + 3) * 1000
+      );
+    } catch (error) {
+      console.error('Failed to preview volume ramp:', error);
+      Alert.alert('Error', 'Failed to play ramp preview');
+      setIsPreviewing(false);
+    }
+  };
+
+  const stepVolume = (key: 'startVolume' | 'targetVolume', delta: number) => {
+    const value = Math.round((ramp[key] + delta * 0.1) * 10) / 10;
+    const next = { ...ramp, [key]: Math.max(0, Math.min(1, value)) };
+    // Keep the ramp rising
+    if (next.startVolume > next.targetVolume) {
+      if (key === 'startVolume') next.targetVolume = next.startVolume;
+      else next.startVolume = next.targetVolume;
+    }
+    onChange(next);
+  };
+
+  const renderVolumeStepper = (
+    label: string,
+    key: 'startVolume' | 'targetVolume'
+  ) => (
+    <View
+      style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: 12,
+      }}
+    >
+      <ThemedText style={{ fontSize: 14 }}>{label}</ThemedText>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <TouchableOpacity
+          onPress={() => stepVolume(key, -1)}
+          style={{ padding: 4 }}
+        >
+          <Ionicons
+            name="remove-circle-outline"
+            size={24}
+            color={APP_COLORS.accent}
+          />
+        </TouchableOpacity>
+        <ThemedText
+          style={{
+            fontSize: 16,
+            fontWeight: '600',
+            minWidth: 64,
+            textAlign: 'center',
+          }}
+        >
+          {Math.round(ramp[key] * 100)}%
+        </ThemedText>
+        <TouchableOpacity
+          onPress={() => stepVolume(key, 1)}
+          style={{ padding: 4 }}
+        >
+          <Ionicons
+            name="add-circle-outline"
+            size={24}
+            color={APP_COLORS.accent}
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={{
+        flex: 1,
+        paddingVertical: 8,
+        borderRadius: 8,
+        alignItems: 'center',
+        backgroundColor: isSelected ? APP_COLORS.primary : theme.elevated,
+        borderWidth: isSelected ? 0 : 1,
+        borderColor: theme.border,
+      }}
+    >
+      <ThemedText
+        style={{
+          fontSize: 13,
+          fontWeight: '600',
+          textTransform: 'capitalize',
+          color: isSelected ? '#000000' : theme.text.secondary,
+        }}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const durationMs = ramp.durationSeconds * 1000;
+
+  return (
+    <View>
+      {/* Curve chart */}
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'flex-end',
+          height: 64,
+          gap: 2,
+          marginBottom: 8,
+        }}
+      >
+        {Array.from({ length: CHART_BARS }, (_, index) => {
+          const volume = getRampVolume(
+            ramp,
+            (durationMs * (index + 1)) / CHART_BARS
+          );
+          return (
+            <View
+              key={index}
+              style={{
+                flex: 1,
+                height: `${Math.max(2, volume * 100)}%`,
+                borderRadius: 2,
+                backgroundColor: APP_COLORS.accent,
+                opacity: 0.4 + volume * 0.6,
+              }}
+            />
+          );
+        })}
+      </View>
+      <ThemedText style={{ fontSize: 12, opacity: 0.7, marginBottom: 16 }}>
+        {describeVolumeRamp(ramp)}
+      </ThemedText>
+
+      {renderVolumeStepper('Start volume', 'startVolume')}
+      {renderVolumeStepper('Target volume', 'targetVolume')}
+
+      <ThemedText style={{ fontSize: 14, marginBottom: 8 }}>
+        Ramp duration
+      </ThemedText>
+      <View style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}>
+        {RAMP_DURATION_OPTIONS.map(seconds =>
+          renderChip(
+            `${seconds}`,
+            formatDuration(seconds),
+            ramp.durationSeconds === seconds,
+            () => onChange({ ...ramp, durationSeconds: seconds })
+          )
+        )}
+      </View>
+
+      {ramp.durationSeconds > 0 && (
+        <>
+          <ThemedText style={{ fontSize: 14, marginBottom: 8 }}>
+            Curve
+          </ThemedText>
+          <View style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}>
+            {VOLUME_CURVES.map(curve =>
+              renderChip(curve, curve, ramp.curve === curve, () =>
+                onChange({ ...ramp, curve })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      <TouchableOpacity
+        onPress={handlePreview}
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'center',
+          paddingVertical: 10,
+          borderRadius: 8,
+          borderWidth: 1,
+          borderColor: APP_COLORS.accent,
+        }}
+      >
+        <Ionicons
+          name={isPreviewing ? 'stop' : 'play'}
+          size={16}
+          color={APP_COLORS.accent}
+        />
+        <ThemedText
+          style={{
+            fontSize: 14,
+            fontWeight: '600',
+            color: APP_COLORS.accent,
+            marginLeft: 8,
+          }}
+        >
+          {isPreviewing ? 'Stop preview' : 'Preview ramp'}
+        </ThemedText>
+      </TouchableOpacity>
+      {ramp.durationSeconds > PREVIEW_MAX_SECONDS && (
+        <ThemedText
+          style={{
+            fontSize: 11,
+            opacity: 0.6,
+            marginTop: 6,
+            textAlign: 'center',
+          }}
+        >
+          Preview is sped up to {PREVIEW_MAX_SECONDS}s
+        </ThemedText>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAlarmStore } from '../../stores/alarm-store';
+import { alarmTransferService } from '../../services/alarms/alarm-transfer-service';
+import {
+  CALENDAR_EXPORT_WEEK_OPTIONS,
+  DEFAULT_CALENDAR_EXPORT_WEEKS,
+  getCalendarAlarms,
+} from '../../services/calendar/ics-writer';
+
+/**
+ * Share upcoming wake times as an .ics file for calendar apps
+ */
+export function CalendarExportCard() {
+  const { alarms, groups } = useAlarmStore();
+  const [weeks, setWeeks] = useState(DEFAULT_CALENDAR_EXPORT_WEEKS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const alarmCount = getCalendarAlarms(alarms, groups).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await alarmTransferService.shareCalendar(alarms, groups, weeks);
+    } catch (error) {
+      console.error('📅 Failed to export alarm calendar:', error);
+      Alert.alert('Error', 'Failed to export the alarm calendar');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <View className="bg-bg-elevated border border-border-visible rounded-xl p-6 mb-6">
+      <Text className="text-caption text-neon-aqua font-semibold mb-4">
+        📅 CALENDAR
+      </Text>
+
+      <View className="flex-row items-center py-2">
+        <Ionicons name="calendar" size={20} color="#66F0FF" />
+        <View className="ml-3 flex-1">
+          <Text className="text-body text-text-primary font-medium">
+            Wake times in your calendar
+          </Text>
+          <Text className="text-small text-text-secondary">
+            {alarmCount === 0
+              ? 'Turn on an alarm to export its wake times'
+              : `${alarmCount} active alarm${alarmCount === 1 ? '' : 's'} - export again after changes`}
+          </Text>
+        </View>
+      </View>
+
+      <View className="flex-row my-2" style={{ gap: 6 }}>
+        {CALENDAR_EXPORT_WEEK_OPTIONS.map(option => {
+          const isSelected = weeks === option;
+          return (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setWeeks(option)}
+              className={`flex-1 py-2 rounded-lg items-center ${
+                isSelected
+                  ? 'bg-neon-mint'
+                  : 'bg-bg-surface border border-border-visible'
+              }`}
+            >
+              <Text
+                className={`text-small font-semibold ${
+                  isSelected ? 'text-black' : 'text-text-secondary'
+                }`}
+              >
+                {option} weeks
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TouchableOpacity
+        onPress={handleExport}
+        disabled={isExporting || alarmCount === 0}
+        className={`mt-2 py-3 rounded-lg items-center bg-bg-surface border border-border-visible ${
+          alarmCount === 0 ? 'opacity-50' : ''
+        }`}
+      >
+        {isExporting ? (
+          <ActivityIndicator size="small" color="#66F0FF" />
+        ) : (
+          <Text className="text-body text-text-primary font-semibold">
+            Export .ics
+          </Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
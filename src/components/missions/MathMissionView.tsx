@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { View, TextInput, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import {
+  MathChallenge,
+  mathMission,
+} from '../../services/missions/math-mission';
+
+export interface MathMissionViewProps {
+  challenge: MathChallenge;
+  onSolved: () => void;
+  onFailed: () => void;
+}
+
+export function MathMissionView({
+  challenge,
+  onSolved,
+  onFailed,
+}: MathMissionViewProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const [answer, setAnswer] = useState('');
+
+  const handleSubmit = () => {
+    if (mathMission.validate(challenge, answer)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSolved();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setAnswer('');
+      onFailed();
+    }
+  };
+
+  return (
+    <View style={{ alignItems: 'center', width: '100%' }}>
+      <ThemedText
+        style={{
+          fontSize: 44,
+          fontWeight: '800',
+          color: APP_COLORS.primary,
+          marginBottom: 24,
+        }}
+      >
+        {challenge.expression} = ?
+      </ThemedText>
+
+      <TextInput
+        value={answer}
+        onChangeText={setAnswer}
+        onSubmitEditing={handleSubmit}
+        keyboardType="numbers-and-punctuation"
+        placeholder="Answer"
+        placeholderTextColor={theme.text.muted}
+        autoFocus
+        style={{
+          width: '100%',
+          backgroundColor: theme.elevated,
+          color: theme.text.primary,
+          borderWidth: 1,
+          borderColor: theme.border,
+          borderRadius: 12,
+          paddingHorizontal: 16,
+          paddingVertical: 14,
+          fontSize: 24,
+          textAlign: 'center',
+          marginBottom: 16,
+        }}
+      />
+
+      <TouchableOpacity
+        onPress={handleSubmit}
+        disabled={answer.trim() === ''}
+        style={{
+          width: '100%',
+          backgroundColor: APP_COLORS.primary,
+          borderRadius: 12,
+          paddingVertical: 16,
+          alignItems: 'center',
+          opacity: answer.trim() === '' ? 0.5 : 1,
+        }}
+      >
+        <ThemedText
+          style={{ fontSize: 16, fontWeight: '700', color: '#000000' }}
+        >
+          Submit
+        </ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import {
+  MemoryChallenge,
+  isMemoryPrefixCorrect,
+  memoryMission,
+} from '../../services/missions/memory-mission';
+
+const STEP_MS = 700; // How long each tile of the sequence is highlighted
+
+export interface MemoryMissionViewProps {
+  challenge: MemoryChallenge;
+  onSolved: () => void;
+  onFailed: () => void;
+}
+
+export function MemoryMissionView({
+  challenge,
+  onSolved,
+  onFailed,
+}: MemoryMissionViewProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [isShowing, setIsShowing] = useState(true);
+  const [answer, setAnswer] = useState<number[]>([]);
+
+  // Play the sequence once, then accept taps
+  useEffect(() => {
+    setIsShowing(true);
+    setAnswer([]);
+
+    const timers = challenge.sequence.flatMap((tile, index) => [
+      setTimeout(() => setHighlighted(tile), 500 + index * STEP_MS),
+      setTimeout(
+        () => setHighlighted(null),
+        500 + index * STEP_MS + STEP_MS * 0.7
+      ),
+    ]);
+    timers.push(
+      setTimeout(
+        () => setIsShowing(false),
+        500 + challenge.sequence.length * STEP_MS
+      )
+    );
+
+    return () => timers.forEach(clearTimeout);
+  }, [challenge]);
+
+  const handleTileTap = (tile: number) => {
+    if (isShowing) return;
+
+    const next = [...answer, tile];
+    if (!isMemoryPrefixCorrect(challenge, next)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      setAnswer([]);
+      onFailed();
+      return;
+    }
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAnswer(next);
+
+    if (memoryMission.validate(challenge, next)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSolved();
+    }
+  };
+
+  const tiles = Array.from(
+    { length: challenge.gridSize * challenge.gridSize },
+    (_, index) => index
+  );
+  const tileSize = challenge.gridSize === 3 ? 80 : 62;
+
+  return (
+    <View style={{ alignItems: 'center', width: '100%' }}>
+      <ThemedText style={{ fontSize: 14, opacity: 0.7, marginBottom: 24 }}>
+        {isShowing
+          ? 'Watch the sequence...'
+          : `Repeat it: ${answer.length}/${challenge.sequence.length}`}
+      </ThemedText>
+
+      <View
+        style={{
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          width: challenge.gridSize * (tileSize + 10),
+          gap: 10,
+        }}
+      >
+        {tiles.map(tile => (
+          <TouchableOpacity
+            key={tile}
+            activeOpacity={0.6}
+            onPress={() => handleTileTap(tile)}
+            disabled={isShowing}
+            style={{
+              width: tileSize,
+              height: tileSize,
+              borderRadius: 12,
+              backgroundColor:
+                highlighted === tile ? APP_COLORS.primary : theme.elevated,
+              borderWidth: 1,
+              borderColor: theme.border,
+            }}
+          />
+        ))}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import { AlarmMissionConfig, CognitiveMissionType } from '../../types/alarm';
+import {
+  getMission,
+  isMotionMissionType,
+} from '../../services/missions/mission-registry';
+import { MathMissionView } from './MathMissionView';
+import { MemoryMissionView } from './MemoryMissionView';
+import { TypingMissionView } from './TypingMissionView';
+import { MotionMissionView } from './MotionMissionView';
+
+export interface MissionRunnerProps {
+  config: AlarmMissionConfig;
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Runs the configured mission - motion missions fall back to math when the sensor is missing
+ */
+export function MissionRunner({
+  config,
+  onComplete,
+  onCancel,
+}: MissionRunnerProps) {
+  const [sensorUnavailable, setSensorUnavailable] = useState(false);
+
+  if (isMotionMissionType(config.type) && !sensorUnavailable) {
+    return (
+      <MotionMissionView
+        config={config}
+        onComplete={onComplete}
+        onUnavailable={() => setSensorUnavailable(true)}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  const type: CognitiveMissionType = isMotionMissionType(config.type)
+    ? 'math'
+    : config.type;
+
+  return (
+    <CognitiveMissionRunner
+      config={config}
+      type={type}
+      onComplete={onComplete}
+      onCancel={onCancel}
+    />
+  );
+}
+
+/**
+ * Runs the configured number of mission rounds; a failed round gets a fresh challenge
+ */
+function CognitiveMissionRunner({
+  config,
+  type,
+  onComplete,
+  onCancel,
+}: MissionRunnerProps & { type: CognitiveMissionType }) {
+  const mission = getMission(type);
+  const rounds = Math.max(1, config.rounds);
+  const [round, setRound] = useState(0);
+  const [attempt, setAttempt] = useState(0);
+  const [challenge, setChallenge] = useState(() =>
+    mission.generate(config.difficulty)
+  );
+  const [lastFailed, setLastFailed] = useState(false);
+
+  const handleSolved = () => {
+    setLastFailed(false);
+    if (round + 1 >= rounds) {
+      onComplete();
+      return;
+    }
+    setRound(prev => prev + 1);
+    setChallenge(mission.generate(config.difficulty));
+  };
+
+  const handleFailed = () => {
+    setLastFailed(true);
+    setAttempt(prev => prev + 1);
+    setChallenge(mission.generate(config.difficulty));
+  };
+
+  const renderChallenge = () => {
+    const key = `${round}_${attempt}`;
+    switch (type) {
+      case 'math':
+        return (
+          <MathMissionView
+            key={key}
+            challenge={challenge}
+            onSolved={handleSolved}
+            onFailed={handleFailed}
+          />
+        );
+      case 'memory':
+        return (
+          <MemoryMissionView
+            key={key}
+            challenge={challenge}
+            onSolved={handleSolved}
+            onFailed={handleFailed}
+          />
+        );
+      case 'typing':
+        return (
+          <TypingMissionView
+            key={key}
+            challenge={challenge}
+            onSolved={handleSolved}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <View style={{ width: '100%' }}>
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: 24,
+        }}
+      >
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <Ionicons name={mission.icon} size={20} color={APP_COLORS.accent} />
+          <ThemedText
+            style={{ fontSize: 16, fontWeight: '700', marginLeft: 8 }}
+          >
+            {mission.name}
+          </ThemedText>
+        </View>
+        <ThemedText style={{ fontSize: 14, opacity: 0.7 }}>
+          Round {round + 1}/{rounds}
+        </ThemedText>
+      </View>
+
+      {lastFailed && (
+        <ThemedText
+          style={{
+            fontSize: 13,
+            color: '#EF4444',
+            textAlign: 'center',
+            marginBottom: 12,
+          }}
+        >
+          Not quite - try this one
+        </ThemedText>
+      )}
+
+      {renderChallenge()}
+
+      {onCancel && (
+        <TouchableOpacity
+          onPress={onCancel}
+          style={{ alignItems: 'center', marginTop: 24, padding: 8 }}
+        >
+          <ThemedText style={{ fontSize: 14, opacity: 0.7 }}>
+            Back to alarm
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
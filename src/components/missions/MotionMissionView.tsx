@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import { AlarmMissionConfig, MotionMissionType } from '../../types/alarm';
+import { getMotionMission } from '../../services/missions/mission-registry';
+import { getMotionSettings } from '../../services/missions/motion-missions';
+import {
+  MotionSample,
+  MotionSource,
+  expoMotionSource,
+} from '../../services/missions/motion-source';
+
+export interface MotionMissionViewProps {
+  config: AlarmMissionConfig;
+  source?: MotionSource;
+  onComplete: () => void;
+  onUnavailable: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Tracks sensor progress until the configured shake/step/flip target is reached
+ */
+export function MotionMissionView({
+  config,
+  source = expoMotionSource,
+  onComplete,
+  onUnavailable,
+  onCancel,
+}: MotionMissionViewProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const mission = getMotionMission(config.type as MotionMissionType);
+  const settings = useMemo(
+    () => getMotionSettings(mission, config),
+    [mission, config]
+  );
+  const [isReady, setIsReady] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let isCancelled = false;
+    let isDone = false;
+    const tracker = mission.createTracker(settings);
+
+    const handleSample = (sample: MotionSample) => {
+      if (isDone) return;
+      const previous = tracker.getProgress();
+      const next = tracker.push(sample);
+      if (next === previous) return;
+
+      setProgress(next);
+      if (next >= settings.target) {
+        isDone = true;
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        onComplete();
+      } else {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      }
+    };
+
+    source.isAvailable(mission.sensor).then(available => {
+      if (isCancelled) return;
+      if (!available) {
+        console.warn(
+          `⚠️ ${mission.sensor} unavailable, falling back to math mission`
+        );
+        onUnavailable();
+        return;
+      }
+
+      unsubscribe =
+        mission.sensor === 'pedometer'
+          ? source.subscribePedometer(handleSample)
+          : source.subscribeAccelerometer(handleSample);
+      setIsReady(true);
+    });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe?.();
+    };
+    // Callbacks are intentionally excluded - resubscribing would reset progress
+  }, [mission, settings, source]);
+
+  const ratio = Math.min(1, progress / settings.target);
+
+  return (
+    <View style={{ width: '100%' }}>
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          marginBottom: 24,
+        }}
+      >
+        <Ionicons name={mission.icon} size={20} color={APP_COLORS.accent} />
+        <ThemedText style={{ fontSize: 16, fontWeight: '700', marginLeft: 8 }}>
+          {mission.name}
+        </ThemedText>
+      </View>
+
+      {isReady ? (
+        <View style={{ alignItems: 'center' }}>
+          <ThemedText
+            style={{
+              fontSize: 56,
+              fontWeight: '800',
+              color: APP_COLORS.primary,
+            }}
+          >
+            {Math.min(progress, settings.target)}/{settings.target}
+          </ThemedText>
+          <ThemedText style={{ fontSize: 14, opacity: 0.7, marginBottom: 20 }}>
+            {mission.description} ({settings.target} {mission.unit})
+          </ThemedText>
+
+          <View
+            style={{
+              width: '100%',
+              height: 12,
+              borderRadius: 6,
+              backgroundColor: theme.elevated,
+              overflow: 'hidden',
+            }}
+          >
+            <View
+              style={{
+                width: `${ratio * 100}%`,
+                height: '100%',
+                backgroundColor: APP_COLORS.accent,
+              }}
+            />
+          </View>
+        </View>
+      ) : (
+        <ActivityIndicator color={APP_COLORS.primary} />
+      )}
+
+      {onCancel && (
+        <TouchableOpacity
+          onPress={onCancel}
+          style={{ alignItems: 'center', marginTop: 24, padding: 8 }}
+        >
+          <ThemedText style={{ fontSize: 14, opacity: 0.7 }}>
+            Back to alarm
+          </ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { View, TextInput } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import {
+  TypingChallenge,
+  typingMission,
+} from '../../services/missions/typing-mission';
+
+export interface TypingMissionViewProps {
+  challenge: TypingChallenge;
+  onSolved: () => void;
+}
+
+export function TypingMissionView({
+  challenge,
+  onSolved,
+}: TypingMissionViewProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const [text, setText] = useState('');
+
+  const handleChange = (value: string) => {
+    setText(value);
+    if (typingMission.validate(challenge, value)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onSolved();
+    }
+  };
+
+  return (
+    <View style={{ width: '100%' }}>
+      <View
+        style={{
+          backgroundColor: theme.elevated,
+          borderRadius: 12,
+          padding: 16,
+          marginBottom: 16,
+        }}
+      >
+        <ThemedText
+          style={{
+            fontSize: 20,
+            fontWeight: '600',
+            textAlign: 'center',
+            color: APP_COLORS.primary,
+          }}
+        >
+          {challenge.phrase}
+        </ThemedText>
+      </View>
+
+      <TextInput
+        value={text}
+        onChangeText={handleChange}
+        placeholder="Type the phrase above"
+        placeholderTextColor={theme.text.muted}
+        autoFocus
+        autoCorrect={false}
+        autoCapitalize="none"
+        contextMenuHidden // No pasting the phrase
+        multiline
+        style={{
+          backgroundColor: theme.elevated,
+          color: theme.text.primary,
+          borderWidth: 1,
+          borderColor: theme.border,
+          borderRadius: 12,
+          paddingHorizontal: 16,
+          paddingVertical: 14,
+          fontSize: 18,
+          minHeight: 80,
+        }}
+      />
+
+      <ThemedText
+        style={{
+          fontSize: 12,
+          opacity: 0.6,
+          marginTop: 8,
+          textAlign: 'center',
+        }}
+      >
+        {challenge.caseSensitive
+          ? 'Capitals and punctuation count'
+          : 'Capitals do not matter'}
+      </ThemedText>
+    </View>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText, ThemedCard } from '../ui/themed-view';
+import { useSleepSettingsStore } from '../../stores/sleep-settings-store';
+import { suggestWakeTimes } from '../../services/sleep/sleep-cycles';
+
+export interface BedNowSuggestionsProps {
+  onSelect: (wakeTime: Date) => void;
+}
+
+/**
+ * "If you go to bed now, wake at…" strip for the dashboard
+ */
+export function BedNowSuggestions({ onSelect }: BedNowSuggestionsProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const fallAsleepMinutes = useSleepSettingsStore(
+    state => state.settings.fallAsleepMinutes
+  );
+
+  const suggestions = useMemo(
+    () => suggestWakeTimes(new Date(), { fallAsleepMinutes, minCycles: 4 }),
+    [fallAsleepMinutes]
+  );
+
+  return (
+    <ThemedCard style={{ padding: 16, marginBottom: 24, borderRadius: 12 }}>
+      <ThemedText
+        style={{
+          fontSize: 12,
+          color: APP_COLORS.primary,
+          fontWeight: '600',
+          marginBottom: 12,
+        }}
+      >
+        💤 IF YOU GO TO BED NOW, WAKE AT
+      </ThemedText>
+      <View style={{ flexDirection: 'row', gap: 8 }}>
+        {suggestions.map(suggestion => (
+          <TouchableOpacity
+            key={suggestion.cycles}
+            activeOpacity={0.7}
+            onPress={() => onSelect(suggestion.time)}
+            style={{
+              flex: 1,
+              paddingVertical: 10,
+              borderRadius: 8,
+              alignItems: 'center',
+              backgroundColor: theme.elevated,
+              borderWidth: 1,
+              borderColor: suggestion.isRecommended
+                ? APP_COLORS.accent
+                : theme.border,
+            }}
+          >
+            <ThemedText style={{ fontSize: 18, fontWeight: '700' }}>
+              {suggestion.time.toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit',
+                hour12: false,
+              })}
+            </ThemedText>
+            <ThemedText style={{ fontSize: 11, opacity: 0.7 }}>
+              {suggestion.cycles} cycles
+            </ThemedText>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ThemedCard>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, Switch } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAlarmStore } from '../../stores/alarm-store';
+import { useSleepSettingsStore } from '../../stores/sleep-settings-store';
+import {
+  SLEEP_GOAL_RANGE,
+  WIND_DOWN_OPTIONS,
+  formatSleepDuration,
+  getBedtimeReminders,
+} from '../../services/sleep/bedtime';
+
+const QUIET_HOURS_STEP_MINUTES = 30;
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+}
+
+function shiftTime(time: string, deltaMinutes: number): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  const total = (hours * 60 + minutes + deltaMinutes + 24 * 60) % (24 * 60);
+  return `${Math.floor(total / 60)
+    .toString()
+    .padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Sleep goal, wind-down and quiet hours for bedtime reminders
+ */
+export function BedtimeSettingsCard() {
+  const { alarms, groups } = useAlarmStore();
+  const { settings, updateSettings, updateQuietHours } =
+    useSleepSettingsStore();
+
+  const nextReminder = useMemo(
+    () => getBedtimeReminders(alarms, groups, settings)[0],
+    [alarms, groups, settings]
+  );
+
+  const renderStepper = (
+    value: string,
+    onDecrease: () => void,
+    onIncrease: () => void
+  ) => (
+    <View className="flex-row items-center">
+      <TouchableOpacity onPress={onDecrease} className="p-1">
+        <Ionicons name="remove-circle-outline" size={24} color="#66F0FF" />
+      </TouchableOpacity>
+      <Text className="text-body text-text-primary font-medium w-16 text-center">
+        {value}
+      </Text>
+      <TouchableOpacity onPress={onIncrease} className="p-1">
+        <Ionicons name="add-circle-outline" size={24} color="#66F0FF" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const stepSleepGoal = (direction: -1 | 1) => {
+    const value = settings.sleepGoalMinutes + direction * SLEEP_GOAL_RANGE.step;
+    updateSettings({
+      sleepGoalMinutes: Math.max(
+        SLEEP_GOAL_RANGE.min,
+        Math.min(SLEEP_GOAL_RANGE.max, value)
+      ),
+    });
+  };
+
+  return (
+    <View className="bg-bg-elevated border border-border-visible rounded-xl p-6 mb-6">
+      <Text className="text-caption text-neon-aqua font-semibold mb-4">
+        🌙 BEDTIME
+      </Text>
+
+      <View className="flex-row items-center justify-between py-2">
+        <View className="flex-row items-center flex-1">
+          <Ionicons name="moon" size={20} color="#66F0FF" />
+          <View className="ml-3 flex-1">
+            <Text className="text-body text-text-primary font-medium">
+              Bedtime Reminders
+            </Text>
+            <Text className="text-small text-text-secondary">
+              Nudge before each alarm so you get enough sleep
+            </Text>
+          </View>
+        </View>
+        <Switch
+          value={settings.bedtimeRemindersEnabled}
+          onValueChange={value =>
+            updateSettings({ bedtimeRemindersEnabled: value })
+          }
+          trackColor={{ false: '#1A2626', true: '#75FFB0' }}
+          thumbColor={settings.bedtimeRemindersEnabled ? '#FFFFFF' : '#A8B4B6'}
+        />
+      </View>
+
+      {settings.bedtimeRemindersEnabled && (
+        <>
+          <View className="flex-row items-center justify-between py-2">
+            <Text className="text-body text-text-primary">Sleep goal</Text>
+            {renderStepper(
+              formatSleepDuration(settings.sleepGoalMinutes),
+              () => stepSleepGoal(-1),
+              () => stepSleepGoal(1)
+            )}
+          </View>
+
+          <Text className="text-body text-text-primary py-2">
+            Remind me before bedtime
+          </Text>
+          <View className="flex-row mb-2" style={{ gap: 6 }}>
+            {WIND_DOWN_OPTIONS.map(minutes => {
+              const isSelected = settings.windDownMinutes === minutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  onPress={() => updateSettings({ windDownMinutes: minutes })}
+                  className={`flex-1 py-2 rounded-lg items-center ${
+                    isSelected
+                      ? 'bg-neon-mint'
+                      : 'bg-bg-surface border border-border-visible'
+                  }`}
+                >
+                  <Text
+                    className={`text-small font-semibold ${
+                      isSelected ? 'text-black' : 'text-text-secondary'
+                    }`}
+                  >
+                    {minutes === 0 ? 'At bedtime' : `${minutes}m`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text className="text-small text-text-secondary py-2">
+            {nextReminder
+              ? `Next reminder ${formatTime(nextReminder.remindAt)} - bed by ${formatTime(nextReminder.bedtime)} for ${nextReminder.alarmTitle || 'your alarm'} at ${formatTime(nextReminder.wakeTime)}`
+              : 'No upcoming reminders - turn on an alarm to get one'}
+          </Text>
+        </>
+      )}
+
+      <View className="flex-row items-center justify-between py-2 mt-2">
+        <View className="flex-row items-center flex-1">
+          <Ionicons name="notifications-off" size={20} color="#9BFF93" />
+          <View className="ml-3 flex-1">
+            <Text className="text-body text-text-primary font-medium">
+              Quiet Hours
+            </Text>
+            <Text className="text-small text-text-secondary">
+              No reminders in this window - alarms still ring
+            </Text>
+          </View>
+        </View>
+        <Switch
+          value={settings.quietHours.enabled}
+          onValueChange={value => updateQuietHours({ enabled: value })}
+          trackColor={{ false: '#1A2626', true: '#75FFB0' }}
+          thumbColor={settings.quietHours.enabled ? '#FFFFFF' : '#A8B4B6'}
+        />
+      </View>
+
+      {settings.quietHours.enabled && (
+        <>
+          <View className="flex-row items-center justify-between py-2">
+            <Text className="text-body text-text-primary">From</Text>
+            {renderStepper(
+              settings.quietHours.start,
+              () =>
+                updateQuietHours({
+                  start: shiftTime(
+                    settings.quietHours.start,
+                    -QUIET_HOURS_STEP_MINUTES
+                  ),
+                }),
+              () =>
+                updateQuietHours({
+                  start: shiftTime(
+                    settings.quietHours.start,
+                    QUIET_HOURS_STEP_MINUTES
+                  ),
+                })
+            )}
+          </View>
+          <View className="flex-row items-center justify-between py-2">
+            <Text className="text-body text-text-primary">Until</Text>
+            {renderStepper(
+              settings.quietHours.end,
+              () =>
+                updateQuietHours({
+                  end: shiftTime(
+                    settings.quietHours.end,
+                    -QUIET_HOURS_STEP_MINUTES
+                  ),
+                }),
+              () =>
+                updateQuietHours({
+                  end: shiftTime(
+                    settings.quietHours.end,
+                    QUIET_HOURS_STEP_MINUTES
+                  ),
+                })
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
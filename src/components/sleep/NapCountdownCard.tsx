@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText, ThemedCard } from '../ui/themed-view';
+import { Alarm } from '../../types/alarm';
+import { formatCountdown } from '../../services/alarms/naps';
+
+export interface NapCountdownCardProps {
+  nap: Alarm;
+  now: Date; // Parent ticks every second
+  onCancel: () => void;
+}
+
+/**
+ * Live countdown of a running nap
+ */
+export function NapCountdownCard({
+  nap,
+  now,
+  onCancel,
+}: NapCountdownCardProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const endTime = new Date(nap.time);
+  const remainingMs = endTime.getTime() - now.getTime();
+  const totalMs = (nap.napMinutes ?? 0) * 60 * 1000;
+  const progress =
+    totalMs > 0 ? Math.min(1, Math.max(0, 1 - remainingMs / totalMs)) : 1;
+
+  return (
+    <ThemedCard style={{ padding: 20, marginBottom: 16, borderRadius: 12 }}>
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+        }}
+      >
+        <View>
+          <ThemedText
+            style={{
+              fontSize: 12,
+              color: APP_COLORS.primary,
+              fontWeight: '600',
+            }}
+          >
+            😴 {nap.title.toUpperCase()}
+          </ThemedText>
+          <ThemedText style={{ fontSize: 40, fontWeight: '800', marginTop: 4 }}>
+            {formatCountdown(remainingMs)}
+          </ThemedText>
+          <ThemedText style={{ fontSize: 12, opacity: 0.7 }}>
+            {remainingMs > 0
+              ? `Rings at ${endTime.toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}`
+              : 'Nap is over'}
+          </ThemedText>
+        </View>
+        <TouchableOpacity
+          onPress={onCancel}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            paddingVertical: 8,
+            paddingHorizontal: 12,
+            borderRadius: 8,
+            borderWidth: 1,
+            borderColor: theme.border,
+          }}
+        >
+          <Ionicons name="close" size={16} color={theme.text.secondary} />
+          <ThemedText
+            style={{ fontSize: 13, marginLeft: 4, color: theme.text.secondary }}
+          >
+            {remainingMs > 0 ? 'Cancel' : 'Clear'}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      <View
+        style={{
+          height: 6,
+          borderRadius: 3,
+          marginTop: 16,
+          backgroundColor: theme.elevated,
+          overflow: 'hidden',
+        }}
+      >
+        <View
+          style={{
+            width: `${progress * 100}%`,
+            height: '100%',
+            backgroundColor: APP_COLORS.accent,
+          }}
+        />
+      </View>
+    </ThemedCard>
+  );
+}
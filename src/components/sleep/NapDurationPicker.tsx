@@ -0,0 +1,111 @@
+import React from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import {
+  NAP_PRESETS,
+  clampNapMinutes,
+  describeNap,
+  getNapEndTime,
+} from '../../services/alarms/naps';
+
+export interface NapDurationPickerProps {
+  minutes: number;
+  onChange: (minutes: number) => void;
+}
+
+/**
+ * Preset nap lengths plus a fine-grained custom stepper
+ */
+export function NapDurationPicker({
+  minutes,
+  onChange,
+}: NapDurationPickerProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const endTime = getNapEndTime(minutes);
+
+  const renderStepButton = (delta: number) => (
+    <TouchableOpacity
+      onPress={() => onChange(clampNapMinutes(minutes + delta))}
+      style={{ padding: 4 }}
+    >
+      <Ionicons
+        name={delta < 0 ? 'remove-circle-outline' : 'add-circle-outline'}
+        size={32}
+        color={APP_COLORS.accent}
+      />
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          justifyContent: 'center',
+          paddingVertical: 16,
+        }}
+      >
+        {renderStepButton(-1)}
+        <ThemedText
+          style={{
+            fontSize: 48,
+            fontWeight: '800',
+            minWidth: 180,
+            textAlign: 'center',
+          }}
+        >
+          {describeNap(minutes)}
+        </ThemedText>
+        {renderStepButton(1)}
+      </View>
+      <ThemedText
+        style={{
+          fontSize: 14,
+          opacity: 0.7,
+          textAlign: 'center',
+          marginBottom: 16,
+        }}
+      >
+        Rings at{' '}
+        {endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </ThemedText>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+        {NAP_PRESETS.map(preset => {
+          const isSelected = minutes === preset;
+          return (
+            <TouchableOpacity
+              key={preset}
+              onPress={() => onChange(preset)}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 14,
+                borderRadius: 16,
+                backgroundColor: isSelected
+                  ? APP_COLORS.primary
+                  : theme.elevated,
+                borderWidth: isSelected ? 0 : 1,
+                borderColor: theme.border,
+              }}
+            >
+              <ThemedText
+                style={{
+                  fontSize: 13,
+                  fontWeight: '600',
+                  color: isSelected ? '#000000' : theme.text.secondary,
+                }}
+              >
+                {describeNap(preset)}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { View, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import { useSleepSettingsStore } from '../../stores/sleep-settings-store';
+import {
+  FALL_ASLEEP_OPTIONS,
+  SleepCycleSuggestion,
+  nextTimeOfDay,
+  suggestBedtimes,
+  suggestWakeTimes,
+} from '../../services/sleep/sleep-cycles';
+import { formatSleepDuration } from '../../services/sleep/bedtime';
+
+type CycleMode = 'wake' | 'bed';
+
+export interface SleepCycleSuggestionsProps {
+  alarmTime: Date;
+  onSelectWakeTime: (time: Date) => void;
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  });
+
+/**
+ * Wake times for going to bed now, or bedtimes for the chosen alarm time
+ */
+export function SleepCycleSuggestions({
+  alarmTime,
+  onSelectWakeTime,
+}: SleepCycleSuggestionsProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const { settings, updateSettings } = useSleepSettingsStore();
+  const [mode, setMode] = useState<CycleMode>('wake');
+
+  const suggestions = useMemo(() => {
+    const options = { fallAsleepMinutes: settings.fallAsleepMinutes };
+    return mode === 'wake'
+      ? suggestWakeTimes(new Date(), options)
+      : suggestBedtimes(nextTimeOfDay(alarmTime), options);
+  }, [mode, alarmTime, settings.fallAsleepMinutes]);
+
+  const renderChip = (
+    key: string,
+    label: string,
+    isSelected: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={{
+        flex: 1,
+        paddingVertical: 8,
+        borderRadius: 8,
+        alignItems: 'center',
+        backgroundColor: isSelected ? APP_COLORS.primary : theme.elevated,
+        borderWidth: isSelected ? 0 : 1,
+        borderColor: theme.border,
+      }}
+    >
+      <ThemedText
+        style={{
+          fontSize: 13,
+          fontWeight: '600',
+          color: isSelected ? '#000000' : theme.text.secondary,
+        }}
+      >
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+
+  const renderSuggestion = (suggestion: SleepCycleSuggestion) => {
+    const content = (
+      <>
+        <ThemedText style={{ fontSize: 20, fontWeight: '700' }}>
+          {formatTime(suggestion.time)}
+        </ThemedText>
+        <ThemedText style={{ fontSize: 11, opacity: 0.7, marginTop: 2 }}>
+          {suggestion.cycles} cycles ·{' '}
+          {formatSleepDuration(suggestion.sleepMinutes)}
+        </ThemedText>
+      </>
+    );
+    const style = {
+      width: '48%' as const,
+      padding: 12,
+      borderRadius: 8,
+      alignItems: 'center' as const,
+      backgroundColor: theme.elevated,
+      borderWidth: 1,
+      borderColor: suggestion.isRecommended ? APP_COLORS.accent : theme.border,
+    };
+
+    // Only wake times can become the alarm time
+    return mode === 'wake' ? (
+      <TouchableOpacity
+        key={suggestion.cycles}
+        onPress={() => onSelectWakeTime(suggestion.time)}
+        style={style}
+      >
+        {content}
+      </TouchableOpacity>
+    ) : (
+      <View key={suggestion.cycles} style={style}>
+        {content}
+      </View>
+    );
+  };
+
+  return (
+    <View>
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 16 }}>
+        {renderChip('wake', 'Bed now → wake at', mode === 'wake', () =>
+          setMode('wake')
+        )}
+        {renderChip('bed', 'Wake at alarm → bed', mode === 'bed', () =>
+          setMode('bed')
+        )}
+      </View>
+
+      <ThemedText style={{ fontSize: 14, marginBottom: 8 }}>
+        Time to fall asleep
+      </ThemedText>
+      <View style={{ flexDirection: 'row', gap: 6, marginBottom: 16 }}>
+        {FALL_ASLEEP_OPTIONS.map(minutes =>
+          renderChip(
+            `${minutes}`,
+            `${minutes}m`,
+            settings.fallAsleepMinutes === minutes,
+            () => updateSettings({ fallAsleepMinutes: minutes })
+          )
+        )}
+      </View>
+
+      <View
+        style={{
+          flexDirection: 'row',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+          rowGap: 8,
+        }}
+      >
+        {suggestions.map(renderSuggestion)}
+      </View>
+      <ThemedText
+        style={{
+          fontSize: 11,
+          opacity: 0.6,
+          marginTop: 8,
+          textAlign: 'center',
+        }}
+      >
+        {mode === 'wake'
+          ? 'Tap a time to use it for this alarm · highlighted = 5-6 cycles'
+          : `Go to bed at one of these to wake at ${formatTime(alarmTime)} between cycles`}
+      </ThemedText>
+    </View>
+  );
+}
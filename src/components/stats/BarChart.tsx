@@ -0,0 +1,81 @@
+import React from 'react';
+import { View } from 'react-native';
+import { useTheme } from '../../contexts/theme-context';
+import { THEME_COLORS, APP_COLORS } from '../../theme/colors';
+import { ThemedText } from '../ui/themed-view';
+import { ChartPoint } from '../../services/alarms/wake-statistics';
+
+export interface BarChartProps {
+  data: ChartPoint[];
+  height?: number;
+  color?: string;
+  formatValue?: (value: number) => string;
+  labelEvery?: number; // Show every n-th label when bars are dense
+}
+
+/**
+ * Plain view-based bar chart, no chart library needed
+ */
+export function BarChart({
+  data,
+  height = 120,
+  color = APP_COLORS.accent,
+  formatValue = value => `${Math.round(value)}`,
+  labelEvery = 1,
+}: BarChartProps) {
+  const { isDark } = useTheme();
+  const theme = isDark ? THEME_COLORS.dark : THEME_COLORS.light;
+  const max = Math.max(...data.map(point => point.value), 0);
+  const showValues = data.length <= 8;
+
+  return (
+    <View>
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'flex-end',
+          height,
+          gap: 4,
+          borderBottomWidth: 1,
+          borderBottomColor: theme.border,
+        }}
+      >
+        {data.map((point, index) => {
+          const ratio = max > 0 ? point.value / max : 0;
+          return (
+            <View
+              key={`${point.label}-${index}`}
+              style={{ flex: 1, alignItems: 'center' }}
+            >
+              {showValues && point.value > 0 && (
+                <ThemedText style={{ fontSize: 10, opacity: 0.7 }}>
+                  {formatValue(point.value)}
+                </ThemedText>
+              )}
+              <View
+                style={{
+                  width: '100%',
+                  height: Math.max(2, ratio * (height - 16)),
+                  borderTopLeftRadius: 3,
+                  borderTopRightRadius: 3,
+                  backgroundColor: point.value > 0 ? color : theme.elevated,
+                }}
+              />
+            </View>
+          );
+        })}
+      </View>
+      <View style={{ flexDirection: 'row', gap: 4, marginTop: 4 }}>
+        {data.map((point, index) => (
+          <ThemedText
+            key={`${point.label}-${index}`}
+            numberOfLines={1}
+            style={{ flex: 1, fontSize: 10, opacity: 0.6, textAlign: 'center' }}
+          >
+            {index % labelEvery === 0 ? point.label : ''}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
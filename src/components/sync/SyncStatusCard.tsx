@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../stores/auth-store';
+import { useSyncStore } from '../../stores/sync-store';
+
+function describeLastSync(lastSyncedAt: string | null): string {
+  if (!lastSyncedAt) return 'Not synced yet';
+
+  const minutes = Math.floor(
+    (Date.now() - new Date(lastSyncedAt).getTime()) / 60000
+  );
+  if (minutes < 1) return 'Synced just now';
+  if (minutes < 60) return `Synced ${minutes}m ago`;
+  return `Synced ${new Date(lastSyncedAt).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })}`;
+}
+
+/**
+ * Cloud sync status of alarms with a manual sync button
+ */
+export function SyncStatusCard() {
+  const { user } = useAuthStore();
+  const { isSyncing, lastSyncedAt, pendingCount, error, syncNow } =
+    useSyncStore();
+
+  if (!user) return null;
+
+  const status = error
+    ? `Offline - ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting`
+    : pendingCount > 0
+      ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`
+      : describeLastSync(lastSyncedAt);
+
+  return (
+    <View className="bg-bg-elevated border border-border-visible rounded-xl p-6 mb-6">
+      <Text className="text-caption text-neon-aqua font-semibold mb-4">
+        ☁️ SYNC
+      </Text>
+
+      <View className="flex-row items-center justify-between py-2">
+        <View className="flex-row items-center flex-1">
+          <Ionicons
+            name={error ? 'cloud-offline' : 'cloud-done'}
+            size={20}
+            color={error ? '#FFD700' : '#66F0FF'}
+          />
+          <View className="ml-3 flex-1">
+            <Text className="text-body text-text-primary font-medium">
+              Alarms on all devices
+            </Text>
+            <Text className="text-small text-text-secondary">{status}</Text>
+          </View>
+        </View>
+        <TouchableOpacity
+          onPress={syncNow}
+          disabled={isSyncing}
+          className="px-4 py-2 rounded-lg bg-bg-surface border border-border-visible"
+        >
+          {isSyncing ? (
+            <ActivityIndicator size="small" color="#66F0FF" />
+          ) : (
+            <Text className="text-small text-text-primary font-semibold">
+              Sync now
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -200,6 +200,7 @@ class AlarmKitMigrationManagementService implements AlarmMigrationService {
           isActive: alarm.isActive,
           audioTrack: alarm.audioTrack,
           repeatDays: alarm.repeatDays,
+          recurrence: alarm.recurrence,
         };
 
         const notificationId =
@@ -2,6 +2,12 @@ import { Platform } from 'react-native';
 import { alarmKitAuthService } from './alarmkit-auth-service';
 import type { Alarm } from '../../types/alarm';
 import type { AudioTrack } from '../audio/types';
+import {
+  getNextOccurrence,
+  getRecurrenceRule,
+  isSimpleWeeklyRule,
+} from '../alarms/recurrence';
+import { alarmHistoryService } from '../alarms/alarm-history-service';
 
 // AlarmKit types - fallback definitions when module is not available
 export type NativeAlarm = {
@@ -19,6 +25,23 @@ export type AlarmKitEventListener = (event: {
   timestamp: number;
 }) => void;
 
+export type AlarmKitAppEventListener = (
+  eventType: 'alarm_triggered' | 'alarm_stopped' | 'alarm_snoozed',
+  alarmId: string
+) => void;
+
+// A snooze gets its own native alarm, next to the recurring one
+export const NATIVE_SNOOZE_SUFFIX = '_snooze';
+
+/**
+ * App alarm a native alarm ID belongs to - snoozes map back to their alarm
+ */
+export function toAppAlarmId(nativeAlarmId: string): string {
+  return nativeAlarmId.endsWith(NATIVE_SNOOZE_SUFFIX)
+    ? nativeAlarmId.slice(0, -NATIVE_SNOOZE_SUFFIX.length)
+    : nativeAlarmId;
+}
+
 // Dynamic import fallback for AlarmKit module
 let ExpoAlarmkit: any = null;
 try {
@@ -45,6 +68,7 @@ class AlarmKitManagementService implements AlarmKitService {
     listener: AlarmKitEventListener;
     subscription: any;
   }> = [];
+  private appListeners = new Set<AlarmKitAppEventListener>();
 
   static getInstance(): AlarmKitManagementService {
     if (!AlarmKitManagementService.instance) {
@@ -102,12 +126,21 @@ class AlarmKitManagementService implements AlarmKitService {
    * Convert our Alarm type to AlarmKit NativeAlarm format
    */
   private convertToNativeAlarm(alarm: Alarm): NativeAlarm {
+    // AlarmKit only repeats by weekday and can't skip or move a day - other
+    // rules and alarms with exceptions are scheduled one occurrence at a time
+    const rule = getRecurrenceRule(alarm);
+    const repeatsNatively =
+      rule?.type === 'weekly' &&
+      isSimpleWeeklyRule(rule) &&
+      !alarm.exceptions?.length;
+    const nextDate = getNextOccurrence(alarm) ?? alarm.time;
+
     const alarmData = {
       id: alarm.id,
       title: alarm.title || 'Alarm',
-      date: alarm.time.getTime(), // Convert Date to timestamp (milliseconds)
+      date: nextDate.getTime(), // Convert Date to timestamp (milliseconds)
       soundName: this.getSoundNameFromAudioTrack(alarm.audioTrack),
-      repeatDays: alarm.repeatDays,
+      repeatDays: repeatsNatively ? rule.weekdays : undefined,
       isActive: alarm.isActive,
     };
 
@@ -115,7 +148,7 @@ class AlarmKitManagementService implements AlarmKitService {
       id: alarmData.id,
       title: alarmData.title,
       timestamp: alarmData.date,
-      scheduledDate: alarm.time.toISOString(),
+      scheduledDate: nextDate.toISOString(),
       soundName: alarmData.soundName,
       isActive: alarmData.isActive,
     });
@@ -264,6 +297,9 @@ class AlarmKitManagementService implements AlarmKitService {
     // Emit custom event that our app can listen to
     // This integrates with our existing alarm handling system
     this.emitAlarmEvent('alarm_triggered', alarmId);
+    alarmHistoryService.record('triggered', toAppAlarmId(alarmId), {
+      source: 'alarmkit',
+    });
   }
 
   /**
@@ -272,6 +308,9 @@ class AlarmKitManagementService implements AlarmKitService {
   private handleAlarmStopped(alarmId: string): void {
     console.log(`⏹️ Native alarm stopped: ${alarmId}`);
     this.emitAlarmEvent('alarm_stopped', alarmId);
+    alarmHistoryService.record('dismissed', toAppAlarmId(alarmId), {
+      source: 'alarmkit',
+    });
   }
 
   /**
@@ -280,18 +319,37 @@ class AlarmKitManagementService implements AlarmKitService {
   private handleAlarmSnoozed(alarmId: string): void {
     console.log(`😴 Native alarm snoozed: ${alarmId}`);
     this.emitAlarmEvent('alarm_snoozed', alarmId);
+    alarmHistoryService.record('snoozed', toAppAlarmId(alarmId), {
+      source: 'alarmkit',
+    });
+  }
+
+  /**
+   * Subscribe to native alarm events, returns the unsubscribe function
+   */
+  onAlarmEvent(listener: AlarmKitAppEventListener): () => void {
+    this.appListeners.add(listener);
+    return () => {
+      this.appListeners.delete(listener);
+    };
   }
 
   /**
    * Emit custom alarm events for our app to handle
    */
-  private emitAlarmEvent(eventType: string, alarmId: string): void {
-    // This could be integrated with our existing event system
-    // For now, just log the event
+  private emitAlarmEvent(
+    eventType: Parameters<AlarmKitAppEventListener>[0],
+    alarmId: string
+  ): void {
     console.log(`📡 Emitting alarm event: ${eventType} for alarm ${alarmId}`);
 
-    // In a full implementation, this would dispatch to our alarm service
-    // or use React Native's EventEmitter to notify the app
+    for (const listener of this.appListeners) {
+      try {
+        listener(eventType, alarmId);
+      } catch (error) {
+        console.error('❌ AlarmKit event listener failed:', error);
+      }
+    }
   }
 
   /**
@@ -0,0 +1,313 @@
+import type { RecurrenceRule } from '../../../types/alarm';
+import {
+  RecurringAlarm,
+  describeRecurrence,
+  getNextOccurrence,
+  isPastOneTime,
+  nextOccurrences,
+  occurrencesUntil,
+  toDateKey,
+  withUpcomingTime,
+} from '../recurrence';
+
+// Runs in Europe/Berlin (jest.config.js) - DST starts 2025-03-30, ends 2025-10-26
+
+function alarmAt(
+  time: Date,
+  recurrence?: RecurrenceRule,
+  extra: Partial<RecurringAlarm> = {}
+): RecurringAlarm {
+  return { time, recurrence, ...extra };
+}
+
+function wallClock(date: Date): string {
+  return `${toDateKey(date)}T${date.toTimeString().slice(0, 5)}`;
+}
+
+function local(dates: Date[]): string[] {
+  return dates.map(wallClock);
+}
+
+describe('nextOccurrences', () => {
+  describe('intervals', () => {
+    it('repeats weekly rules every N weeks from the anchor week', () => {
+      // Monday 2025-01-06 anchors the rule
+      const alarm = alarmAt(new Date(2025, 0, 6, 7, 0), {
+        type: 'weekly',
+        weekdays: [1, 3],
+        intervalWeeks: 2,
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 5), 4))).toEqual([
+        '2025-01-06T07:00',
+        '2025-01-08T07:00',
+        '2025-01-20T07:00',
+        '2025-01-22T07:00',
+      ]);
+    });
+
+    it('repeats daily rules every N days and skips the occurrence already passed', () => {
+      const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+        type: 'daily',
+        intervalDays: 3,
+      });
+
+      expect(
+        local(nextOccurrences(alarm, new Date(2025, 0, 1, 8, 0), 3))
+      ).toEqual(['2025-01-04T07:00', '2025-01-07T07:00', '2025-01-10T07:00']);
+    });
+
+    it('treats legacy repeatDays as a weekly rule', () => {
+      const alarm = alarmAt(new Date(2025, 0, 6, 6, 30), undefined, {
+        repeatDays: [6, 0],
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 6), 2))).toEqual([
+        '2025-01-11T06:30',
+        '2025-01-12T06:30',
+      ]);
+    });
+  });
+
+  describe('monthly', () => {
+    it('clamps the day of month to short months', () => {
+      const alarm = alarmAt(new Date(2025, 0, 31, 7, 0), {
+        type: 'monthly',
+        dayOfMonth: 31,
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 30), 4))).toEqual([
+        '2025-01-31T07:00',
+        '2025-02-28T07:00',
+        '2025-03-31T07:00',
+        '2025-04-30T07:00',
+      ]);
+    });
+
+    it('finds the nth weekday of each month', () => {
+      // Second Tuesday
+      const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+        type: 'monthly',
+        weekday: 2,
+        weekOfMonth: 2,
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 1), 3))).toEqual([
+        '2025-01-14T07:00',
+        '2025-02-11T07:00',
+        '2025-03-11T07:00',
+      ]);
+    });
+
+    it('finds the last weekday of each month', () => {
+      // Last Friday
+      const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+        type: 'monthly',
+        weekday: 5,
+        weekOfMonth: -1,
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 1), 3))).toEqual([
+        '2025-01-31T07:00',
+        '2025-02-28T07:00',
+        '2025-03-28T07:00',
+      ]);
+    });
+  });
+
+  describe('bounds', () => {
+    it('counts occurrences from the start date, not from the search start', () => {
+      const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+        type: 'daily',
+        intervalDays: 1,
+        count: 3,
+        startDate: '2025-01-01',
+      });
+
+      expect(
+        local(nextOccurrences(alarm, new Date(2025, 0, 2, 12, 0), 10))
+      ).toEqual(['2025-01-03T07:00']);
+      expect(getNextOccurrence(alarm, new Date(2025, 0, 3, 12, 0))).toBeNull();
+    });
+
+    it('lets skipped occurrences use up the count', () => {
+      const alarm = alarmAt(
+        new Date(2025, 0, 1, 7, 0),
+        { type: 'daily', intervalDays: 1, count: 3 },
+        { exceptions: [{ date: '2025-01-02', type: 'skip' }] }
+      );
+
+      expect(local(nextOccurrences(alarm, new Date(2024, 11, 31), 10))).toEqual(
+        ['2025-01-01T07:00', '2025-01-03T07:00']
+      );
+    });
+
+    it('stops after the inclusive end date', () => {
+      const alarm = alarmAt(new Date(2025, 0, 6, 7, 0), {
+        type: 'weekly',
+        weekdays: [1],
+        endDate: '2025-01-13',
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 1), 10))).toEqual([
+        '2025-01-06T07:00',
+        '2025-01-13T07:00',
+      ]);
+    });
+
+    it('waits for the start date', () => {
+      const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+        type: 'daily',
+        intervalDays: 2,
+        startDate: '2025-02-01',
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 1), 2))).toEqual([
+        '2025-02-01T07:00',
+        '2025-02-03T07:00',
+      ]);
+    });
+  });
+
+  describe('exceptions', () => {
+    it('moves a single occurrence to another time', () => {
+      const alarm = alarmAt(
+        new Date(2025, 0, 6, 7, 0),
+        { type: 'weekly', weekdays: [1, 3] },
+        { exceptions: [{ date: '2025-01-08', type: 'move', time: '09:30' }] }
+      );
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 0, 6, 8), 2))).toEqual(
+        ['2025-01-08T09:30', '2025-01-13T07:00']
+      );
+    });
+  });
+
+  describe('DST', () => {
+    it('keeps the local time across the spring and autumn changes', () => {
+      const alarm = alarmAt(new Date(2025, 2, 29, 7, 0), {
+        type: 'daily',
+        intervalDays: 1,
+      });
+
+      const spring = nextOccurrences(alarm, new Date(2025, 2, 29), 2);
+      expect(spring.map(date => date.toISOString())).toEqual([
+        '2025-03-29T06:00:00.000Z',
+        '2025-03-30T05:00:00.000Z',
+      ]);
+
+      const autumn = nextOccurrences(alarm, new Date(2025, 9, 25), 2);
+      expect(autumn.map(date => date.toISOString())).toEqual([
+        '2025-10-25T05:00:00.000Z',
+        '2025-10-26T06:00:00.000Z',
+      ]);
+    });
+
+    it('rings a time skipped by the spring change when the gap ends', () => {
+      const alarm = alarmAt(new Date(2025, 2, 29, 2, 30), {
+        type: 'daily',
+        intervalDays: 1,
+      });
+
+      const [skipped] = nextOccurrences(alarm, new Date(2025, 2, 30), 1);
+      expect(skipped.toISOString()).toBe('2025-03-30T01:00:00.000Z');
+      expect(wallClock(skipped)).toBe('2025-03-30T03:00');
+    });
+
+    it('rings a time repeated by the autumn change only at its first instant', () => {
+      const alarm = alarmAt(new Date(2025, 9, 25, 2, 30), {
+        type: 'daily',
+        intervalDays: 1,
+      });
+
+      const occurrences = nextOccurrences(alarm, new Date(2025, 9, 26), 2);
+      expect(occurrences.map(date => date.toISOString())).toEqual([
+        '2025-10-26T00:30:00.000Z',
+        '2025-10-27T01:30:00.000Z',
+      ]);
+    });
+
+    it('counts alternating weeks by calendar days across a DST change', () => {
+      const alarm = alarmAt(new Date(2025, 2, 24, 7, 0), {
+        type: 'weekly',
+        weekdays: [1],
+        intervalWeeks: 2,
+      });
+
+      expect(local(nextOccurrences(alarm, new Date(2025, 2, 23), 3))).toEqual([
+        '2025-03-24T07:00',
+        '2025-04-07T07:00',
+        '2025-04-21T07:00',
+      ]);
+    });
+  });
+});
+
+describe('occurrencesUntil', () => {
+  it('returns the occurrences of the (from, until] window only', () => {
+    const alarm = alarmAt(new Date(2025, 0, 1, 7, 0), {
+      type: 'daily',
+      intervalDays: 1,
+    });
+
+    expect(
+      local(
+        occurrencesUntil(
+          alarm,
+          new Date(2025, 0, 1, 7, 0),
+          new Date(2025, 0, 3, 7, 0)
+        )
+      )
+    ).toEqual(['2025-01-02T07:00', '2025-01-03T07:00']);
+  });
+});
+
+describe('withUpcomingTime', () => {
+  const now = new Date(2025, 0, 6, 22, 0);
+
+  it('moves a one-time alarm whose time passed to its next wall-clock match', () => {
+    const alarm = withUpcomingTime(alarmAt(new Date(2025, 0, 6, 7, 0)), now);
+
+    expect(wallClock(alarm.time)).toBe('2025-01-07T07:00');
+    expect(alarm.wallClockTime).toBe('2025-01-07T07:00');
+    expect(isPastOneTime(alarm, now)).toBe(false);
+  });
+
+  it('leaves upcoming and repeating alarms alone', () => {
+    const upcoming = alarmAt(new Date(2025, 0, 7, 7, 0));
+    const weekly = alarmAt(new Date(2025, 0, 6, 7, 0), {
+      type: 'weekly',
+      weekdays: [1],
+    });
+
+    expect(withUpcomingTime(upcoming, now)).toBe(upcoming);
+    expect(withUpcomingTime(weekly, now)).toBe(weekly);
+    expect(isPastOneTime(weekly, now)).toBe(false);
+  });
+});
+
+describe('describeRecurrence', () => {
+  it.each<[RecurrenceRule | undefined, string]>([
+    [undefined, 'Once'],
+    [{ type: 'weekly', weekdays: [1, 2, 3, 4, 5] }, 'Mon-Fri'],
+    [
+      { type: 'weekly', weekdays: [1, 2], intervalWeeks: 2 },
+      'Every 2 weeks: Mon, Tue',
+    ],
+    [{ type: 'daily', intervalDays: 3 }, 'Every 3 days'],
+    [{ type: 'monthly', dayOfMonth: 15 }, 'Monthly on the 15th'],
+    [
+      { type: 'monthly', weekday: 5, weekOfMonth: -1 },
+      'Monthly on the last Fri',
+    ],
+    [{ type: 'daily', intervalDays: 1, count: 5 }, 'Every day (5×)'],
+    [
+      { type: 'weekly', weekdays: [0, 6], endDate: '2025-06-30' },
+      'Weekend until 2025-06-30',
+    ],
+  ])('describes %j as %s', (recurrence, expected) => {
+    expect(describeRecurrence(alarmAt(new Date(2025, 0, 1), recurrence))).toBe(
+      expected
+    );
+  });
+});
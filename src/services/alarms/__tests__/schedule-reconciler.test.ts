@@ -0,0 +1,164 @@
+import type { Alarm } from '../../../types/alarm';
+import { ScheduleSnapshot, planReconciliation } from '../schedule-reconciler';
+
+// Planning is pure - keep the OS-facing services (and their native modules) out
+jest.mock('../../notifications/notification-service', () => ({}));
+jest.mock('../../notifications/notification-budget-service', () => ({}));
+jest.mock('../../alarmkit/alarmkit-service', () => ({}));
+jest.mock('../../background/background-alarm-service', () => ({}));
+jest.mock('../alarm-service', () => ({}));
+
+const NOW = new Date(2025, 0, 6, 12, 0);
+const LONG_AGO = NOW.getTime() - 60 * 60 * 1000;
+
+function makeAlarm(overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id: 'alarm_1',
+    title: 'Alarm',
+    time: new Date(2025, 0, 7, 7, 0),
+    isActive: true,
+    audioTrack: {
+      id: 'gentle',
+      name: 'Gentle',
+      uri: 'gentle.mp3',
+      type: 'predefined',
+    },
+    createdAt: new Date(2025, 0, 1),
+    updatedAt: new Date(2025, 0, 1),
+    ...overrides,
+  };
+}
+
+function snapshotOf(
+  overrides: Partial<ScheduleSnapshot> = {}
+): ScheduleSnapshot {
+  return {
+    notifications: [],
+    nativeAlarms: [],
+    silentLoopActive: false,
+    ...overrides,
+  };
+}
+
+describe('planReconciliation', () => {
+  it('schedules an active alarm the OS has nothing for', () => {
+    const plan = planReconciliation([makeAlarm()], [], snapshotOf(), NOW);
+
+    expect(plan.schedule).toEqual(['alarm_1']);
+    expect(plan.expire).toEqual([]);
+  });
+
+  it('keeps what the OS has for an alarm and records the IDs', () => {
+    const plan = planReconciliation(
+      [makeAlarm({ notificationIds: ['old'] })],
+      [],
+      snapshotOf({
+        notifications: [
+          { identifier: 'n1', alarmId: 'alarm_1', isSnooze: false },
+        ],
+      }),
+      NOW
+    );
+
+    expect(plan.schedule).toEqual([]);
+    expect(plan.keep).toEqual({
+      alarm_1: { notificationIds: ['n1'], isNativeAlarm: false },
+    });
+  });
+
+  it('cancels orphans once they are older than the grace period', () => {
+    const plan = planReconciliation(
+      [],
+      [],
+      snapshotOf({
+        notifications: [
+          {
+            identifier: 'old',
+            alarmId: 'gone',
+            isSnooze: false,
+            createdAt: LONG_AGO,
+          },
+          {
+            identifier: 'fresh',
+            alarmId: 'gone',
+            isSnooze: false,
+            createdAt: NOW.getTime() - 1000,
+          },
+        ],
+        nativeAlarms: [{ id: 'native_gone', firstSeenAt: LONG_AGO }],
+      }),
+      NOW
+    );
+
+    expect(plan.cancelNotifications).toEqual(['old']);
+    expect(plan.cancelNativeAlarms).toEqual(['native_gone']);
+  });
+
+  describe('one-time alarms past their time', () => {
+    const rang = makeAlarm({
+      time: new Date(2025, 0, 6, 7, 0),
+      nativeAlarmId: 'native_1',
+      isNativeAlarm: true,
+    });
+
+    it('expires them instead of rolling them over to the next day', () => {
+      const plan = planReconciliation([rang], [], snapshotOf(), NOW);
+
+      expect(plan.expire).toEqual(['alarm_1']);
+      expect(plan.schedule).toEqual([]);
+      expect(plan.clear).toEqual(['alarm_1']);
+    });
+
+    it('cancels what is left of their schedule', () => {
+      const plan = planReconciliation(
+        [rang],
+        [],
+        snapshotOf({
+          nativeAlarms: [{ id: 'native_1', firstSeenAt: LONG_AGO }],
+        }),
+        NOW
+      );
+
+      expect(plan.cancelNativeAlarms).toEqual(['native_1']);
+      expect(plan.keep).toEqual({});
+    });
+
+    it('leaves them alone while ringing or snoozed', () => {
+      const snoozed = makeAlarm({
+        id: 'alarm_2',
+        time: new Date(2025, 0, 6, 11, 50),
+        snoozeState: { count: 1, snoozedUntil: new Date(2025, 0, 6, 12, 5) },
+      });
+
+      const plan = planReconciliation(
+        [rang, snoozed],
+        [],
+        snapshotOf({ ringingAlarmId: 'alarm_1' }),
+        NOW
+      );
+
+      expect(plan.expire).toEqual([]);
+      expect(plan.schedule).toEqual([]);
+    });
+
+    it('gives a ring that is just due time to arrive', () => {
+      const due = makeAlarm({ time: new Date(NOW.getTime() - 10 * 1000) });
+
+      const plan = planReconciliation([due], [], snapshotOf(), NOW);
+
+      expect(plan.expire).toEqual([]);
+    });
+
+    it('keeps repeating alarms scheduled', () => {
+      const weekly = makeAlarm({
+        time: new Date(2025, 0, 6, 7, 0),
+        repeatDays: [1],
+      });
+
+      const plan = planReconciliation([weekly], [], snapshotOf(), NOW);
+
+      expect(plan.expire).toEqual([]);
+      expect(plan.schedule).toEqual(['alarm_1']);
+    });
+  });
+});
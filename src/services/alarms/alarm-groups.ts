@@ -0,0 +1,80 @@
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+
+/**
+ * Dashboard section - alarms of one group, or ungrouped alarms when group is null
+ */
+export interface AlarmSection {
+  key: string;
+  group: AlarmGroup | null;
+  alarms: Alarm[];
+}
+
+export function sortGroups(groups: AlarmGroup[]): AlarmGroup[] {
+  return [...groups].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Ungrouped alarms and alarms of unknown groups count as enabled
+ */
+export function isGroupEnabled(
+  groupId: string | undefined,
+  groups: AlarmGroup[]
+): boolean {
+  if (!groupId) return true;
+  return groups.find(group => group.id === groupId)?.isEnabled ?? true;
+}
+
+/**
+ * Whether the alarm should be scheduled (alarm and its group both enabled)
+ */
+export function isAlarmEffectivelyActive(
+  alarm: Pick<Alarm, 'isActive' | 'groupId'>,
+  groups: AlarmGroup[]
+): boolean {
+  return alarm.isActive && isGroupEnabled(alarm.groupId, groups);
+}
+
+/**
+ * Move a group one position up (-1) or down (+1) and renumber orders
+ */
+export function reorderGroup(
+  groups: AlarmGroup[],
+  groupId: string,
+  direction: -1 | 1
+): AlarmGroup[] {
+  const sorted = sortGroups(groups);
+  const index = sorted.findIndex(group => group.id === groupId);
+  const target = index + direction;
+
+  if (index === -1 || target < 0 || target >= sorted.length) {
+    return sorted;
+  }
+
+  [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+  return sorted.map((group, order) => ({ ...group, order }));
+}
+
+/**
+ * Group alarms by their group in display order, ungrouped alarms last
+ */
+export function buildAlarmSections(
+  alarms: Alarm[],
+  groups: AlarmGroup[]
+): AlarmSection[] {
+  const knownIds = new Set(groups.map(group => group.id));
+
+  const sections: AlarmSection[] = sortGroups(groups).map(group => ({
+    key: group.id,
+    group,
+    alarms: alarms.filter(alarm => alarm.groupId === group.id),
+  }));
+
+  const ungrouped = alarms.filter(
+    alarm => !alarm.groupId || !knownIds.has(alarm.groupId)
+  );
+  if (ungrouped.length > 0) {
+    sections.push({ key: 'ungrouped', group: null, alarms: ungrouped });
+  }
+
+  return sections;
+}
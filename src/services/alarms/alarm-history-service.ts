@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Alarm,
+  AlarmEventType,
+  AlarmHistoryEvent,
+  AlarmTriggerSource,
+} from '../../types/alarm';
+import {
+  createAlarmSnapshot,
+  deserializeHistory,
+  pruneHistory,
+  serializeHistory,
+} from './alarm-history';
+
+export interface AlarmEventInput {
+  scheduledTime?: Date;
+  source?: AlarmTriggerSource;
+  details?: Record<string, string | number | boolean>;
+}
+
+type HistoryListener = (events: AlarmHistoryEvent[]) => void;
+
+/**
+ * Append-only local log of what happened to alarms
+ */
+export class AlarmHistoryService {
+  private static instance: AlarmHistoryService;
+  private readonly STORAGE_KEY = 'alarm_history';
+  private events: AlarmHistoryEvent[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<HistoryListener>();
+  private alarmLookup: ((alarmId: string) => Alarm | undefined) | null = null;
+
+  static getInstance(): AlarmHistoryService {
+    if (!AlarmHistoryService.instance) {
+      AlarmHistoryService.instance = new AlarmHistoryService();
+    }
+    return AlarmHistoryService.instance;
+  }
+
+  /**
+   * Register how alarm IDs resolve to alarms for snapshots
+   * The alarm store registers itself here to avoid a circular import
+   */
+  setAlarmLookup(lookup: (alarmId: string) => Alarm | undefined): void {
+    this.alarmLookup = lookup;
+  }
+
+  /**
+   * All events, oldest first
+   */
+  async getEvents(): Promise<AlarmHistoryEvent[]> {
+    if (this.events) return this.events;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      this.events = stored ? pruneHistory(deserializeHistory(stored)) : [];
+    } catch (error) {
+      console.warn('⚠️ Failed to load alarm history, starting empty:', error);
+      this.events = [];
+    }
+    return this.events;
+  }
+
+  /**
+   * Append an event - never throws, history must not break alarm handling
+   */
+  async record(
+    type: AlarmEventType,
+    alarmOrId: Alarm | string,
+    input: AlarmEventInput = {}
+  ): Promise<void> {
+    const alarm =
+      typeof alarmOrId === 'string' ? this.alarmLookup?.(alarmOrId) : alarmOrId;
+    const alarmId = typeof alarmOrId === 'string' ? alarmOrId : alarmOrId.id;
+
+    const event: AlarmHistoryEvent = {
+      id: `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      alarmId: alarm?.id ?? alarmId,
+      timestamp: new Date(),
+      ...input,
+      alarm: alarm ? createAlarmSnapshot(alarm) : undefined,
+    };
+
+    await this.update(events => [...events, event]);
+    console.log(`📝 Alarm event recorded: ${type} ${event.alarmId}`);
+  }
+
+  /**
+   * Remove all events
+   */
+  async clear(): Promise<void> {
+    await this.update(() => []);
+    console.log('🧹 Alarm history cleared');
+  }
+
+  /**
+   * Listen for changes, returns an unsubscribe function
+   */
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private update(
+    change: (events: AlarmHistoryEvent[]) => AlarmHistoryEvent[]
+  ): Promise<void> {
+    // Serialise writes so concurrent events are not lost
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        const events = pruneHistory(change(await this.getEvents()));
+        this.events = events;
+        await AsyncStorage.setItem(this.STORAGE_KEY, serializeHistory(events));
+        this.listeners.forEach(listener => listener(events));
+      } catch (error) {
+        console.error('❌ Failed to write alarm history:', error);
+      }
+    });
+    return this.writeQueue;
+  }
+}
+
+// Export singleton instance
+export const alarmHistoryService = AlarmHistoryService.getInstance();
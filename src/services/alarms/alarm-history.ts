@@ -0,0 +1,229 @@
+import type { Ionicons } from '@expo/vector-icons';
+import type {
+  Alarm,
+  AlarmEventType,
+  AlarmHistoryEvent,
+  AlarmSnapshot,
+  AlarmTriggerSource,
+  MissionType,
+  RecurrenceRule,
+} from '../../types/alarm';
+import { toDateKey } from './recurrence';
+
+// The log is append-only but bounded by age and size
+export const HISTORY_RETENTION_DAYS = 60;
+export const MAX_HISTORY_EVENTS = 1000;
+
+export const ALARM_EVENT_INFO: Record<
+  AlarmEventType,
+  { label: string; icon: keyof typeof Ionicons.glyphMap }
+> = {
+  scheduled: { label: 'Scheduled', icon: 'calendar-outline' },
+  triggered: { label: 'Triggered', icon: 'notifications-outline' },
+  ringing_shown: { label: 'Ringing screen', icon: 'phone-portrait-outline' },
+  snoozed: { label: 'Snoozed', icon: 'time-outline' },
+  dismissed: { label: 'Dismissed', icon: 'checkmark-circle-outline' },
+  missed: { label: 'Missed', icon: 'alert-circle-outline' },
+  escalated: { label: 'Escalated', icon: 'trending-up-outline' },
+};
+
+export interface HistoryFilter {
+  alarmId?: string;
+  dateKey?: string; // YYYY-MM-DD of the event timestamp
+}
+
+export interface HistoryDay {
+  dateKey: string;
+  events: AlarmHistoryEvent[];
+}
+
+/**
+ * Copy of the alarm fields worth keeping with an event
+ */
+export function createAlarmSnapshot(alarm: Alarm): AlarmSnapshot {
+  return {
+    id: alarm.id,
+    title: alarm.title,
+    time: new Date(alarm.time),
+    isActive: alarm.isActive,
+    repeatDays: alarm.repeatDays,
+    recurrence: alarm.recurrence,
+    audioTrackName: alarm.audioTrack?.name,
+    groupId: alarm.groupId,
+    missionType: alarm.mission?.type,
+  };
+}
+
+/**
+ * Drop events past retention and keep only the newest MAX_HISTORY_EVENTS
+ */
+export function pruneHistory(
+  events: AlarmHistoryEvent[],
+  now: Date = new Date()
+): AlarmHistoryEvent[] {
+  const cutoff = now.getTime() - HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const recent = events.filter(event => event.timestamp.getTime() >= cutoff);
+  return recent.slice(-MAX_HISTORY_EVENTS);
+}
+
+export function filterHistory(
+  events: AlarmHistoryEvent[],
+  filter: HistoryFilter
+): AlarmHistoryEvent[] {
+  return events.filter(
+    event =>
+      (!filter.alarmId || event.alarmId === filter.alarmId) &&
+      (!filter.dateKey || toDateKey(event.timestamp) === filter.dateKey)
+  );
+}
+
+/**
+ * Events grouped per day, newest day and newest event first
+ */
+export function groupHistoryByDay(events: AlarmHistoryEvent[]): HistoryDay[] {
+  const days = new Map<string, AlarmHistoryEvent[]>();
+
+  [...events]
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .forEach(event => {
+      const dateKey = toDateKey(event.timestamp);
+      days.set(dateKey, [...(days.get(dateKey) || []), event]);
+    });
+
+  return Array.from(days, ([dateKey, dayEvents]) => ({
+    dateKey,
+    events: dayEvents,
+  }));
+}
+
+/**
+ * Alarms present in the log, with their latest known title
+ */
+export function getHistoryAlarms(
+  events: AlarmHistoryEvent[]
+): { alarmId: string; title: string }[] {
+  const titles = new Map<string, string>();
+  events.forEach(event => {
+    titles.set(event.alarmId, event.alarm?.title || 'Alarm');
+  });
+  return Array.from(titles, ([alarmId, title]) => ({ alarmId, title }));
+}
+
+/**
+ * JSON-safe form of the log (dates as ISO strings) and back
+ */
+export function serializeHistory(events: AlarmHistoryEvent[]): string {
+  return JSON.stringify(events);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toDate(value: unknown): Date | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function isEventType(value: unknown): value is AlarmEventType {
+  return typeof value === 'string' && value in ALARM_EVENT_INFO;
+}
+
+function toDetails(value: unknown): AlarmHistoryEvent['details'] {
+  if (!isRecord(value)) return undefined;
+  const details: NonNullable<AlarmHistoryEvent['details']> = {};
+  Object.entries(value).forEach(([key, detail]) => {
+    if (
+      typeof detail === 'string' ||
+      typeof detail === 'number' ||
+      typeof detail === 'boolean'
+    ) {
+      details[key] = detail;
+    }
+  });
+  return details;
+}
+
+function toSnapshot(value: unknown): AlarmSnapshot | undefined {
+  if (!isRecord(value)) return undefined;
+  const time = toDate(value.time);
+  if (
+    !time ||
+    typeof value.id !== 'string' ||
+    typeof value.title !== 'string' ||
+    typeof value.isActive !== 'boolean' ||
+    typeof value.audioTrackName !== 'string'
+  ) {
+    return undefined;
+  }
+
+  const { repeatDays, recurrence, groupId, missionType } = value;
+  return {
+    id: value.id,
+    title: value.title,
+    time,
+    isActive: value.isActive,
+    audioTrackName: value.audioTrackName,
+    repeatDays:
+      Array.isArray(repeatDays) &&
+      repeatDays.every(day => Number.isInteger(day))
+        ? repeatDays
+        : undefined,
+    // Display only - the rule was valid when the snapshot was taken
+    recurrence:
+      isRecord(recurrence) && typeof recurrence.type === 'string'
+        ? (recurrence as unknown as RecurrenceRule)
+        : undefined,
+    groupId: typeof groupId === 'string' ? groupId : undefined,
+    missionType:
+      typeof missionType === 'string'
+        ? (missionType as MissionType)
+        : undefined,
+  };
+}
+
+/**
+ * Entry as stored, null when it is not a history event
+ */
+function toHistoryEvent(value: unknown): AlarmHistoryEvent | null {
+  if (!isRecord(value)) return null;
+  const timestamp = toDate(value.timestamp);
+  if (
+    !timestamp ||
+    typeof value.id !== 'string' ||
+    typeof value.alarmId !== 'string' ||
+    !isEventType(value.type)
+  ) {
+    return null;
+  }
+
+  return {
+    id: value.id,
+    type: value.type,
+    alarmId: value.alarmId,
+    timestamp,
+    scheduledTime: toDate(value.scheduledTime) ?? undefined,
+    source:
+      typeof value.source === 'string'
+        ? (value.source as AlarmTriggerSource)
+        : undefined,
+    details: toDetails(value.details),
+    alarm: toSnapshot(value.alarm),
+  };
+}
+
+export function deserializeHistory(json: string): AlarmHistoryEvent[] {
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) return [];
+
+  const events = parsed
+    .map(toHistoryEvent)
+    .filter((event): event is AlarmHistoryEvent => event !== null);
+  if (events.length < parsed.length) {
+    console.warn(
+      `⚠️ Dropped ${parsed.length - events.length} invalid alarm history entries`
+    );
+  }
+  return events;
+}
@@ -1,23 +1,103 @@
-import { Platform, AppState } from 'react-native';
+import { Platform, AppState, Vibration } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AudioTrack } from '../audio/types';
-import { Alarm, AlarmNotification } from '../../types/alarm';
-import { notificationService } from '../notifications/notification-service';
+import {
+  Alarm,
+  AlarmGroup,
+  AlarmNotification,
+  AlarmSnoozeState,
+  GentleWakeConfig,
+  VolumeRamp,
+} from '../../types/alarm';
+import {
+  isRingingAlarmData,
+  notificationService,
+} from '../notifications/notification-service';
 import { AudioManager } from '../audio/AudioManager';
 import { audioService } from '../audio/audio-service';
+import { getVolumeRamp } from '../audio/volume-ramp';
+import { SoundLibrary } from '../audio/SoundLibrary';
+import { DEFAULT_GENTLE_WAKE } from './gentle-wake';
+import {
+  DEFAULT_ESCALATION,
+  ESCALATED_VOLUME_RAMP,
+  EscalationRung,
+  getEscalation,
+  getEscalationLadder,
+} from './escalation';
+import { getAwakeCheckTimes } from './awake-check';
+import { AlarmEventInput, alarmHistoryService } from './alarm-history-service';
 import { backgroundAlarmService } from '../background/background-alarm-service';
 import { createAudioPlayer, AudioPlayer } from 'expo-audio';
 import { safeReplace } from '../../utils/navigation-utils';
 import { alarmKitService } from '../alarmkit/alarmkit-service';
 import { alarmKitAuthService } from '../alarmkit/alarmkit-auth-service';
+import {
+  canSnooze,
+  getSnoozeDurationMinutes,
+  getSnoozePolicy,
+} from './snooze-policy';
+import { getNextOccurrence, isRepeating, toDateKey } from './recurrence';
+import { upsertException } from './occurrence-exceptions';
+import {
+  DELIVERY_GRACE_MS,
+  MissedAlarm,
+  findMissedAlarms,
+} from './missed-alarms';
+import type {
+  AlarmSchedulerBackend,
+  SchedulerBackendId,
+  SchedulerTriggerEvent,
+} from './schedulers/types';
+import {
+  NotificationSchedulerBackend,
+  notificationSchedulerBackend,
+  toAlarmNotification,
+} from './schedulers/notification-backend';
+import { backgroundAudioSchedulerBackend } from './schedulers/background-audio-backend';
+import { alarmKitSchedulerBackend } from './schedulers/alarmkit-backend';
+import { memorySchedulerBackend } from './schedulers/memory-backend';
 
 // Alarm interface is now imported from types/alarm.ts
 
+// Long buzzes with short pauses, repeated until the ring stops
+const ESCALATION_VIBRATION_PATTERN = [0, 1000, 500];
+
+// How far back the missed-alarm check looks on its first run and after long gaps
+const FIRST_MISSED_CHECK_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+const MAX_MISSED_CHECK_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
 export interface AlarmRingingState {
   alarmId: string;
   soundObject: AudioPlayer | null;
   isRinging: boolean;
 }
 
+export interface GentleWakeState {
+  alarmId: string;
+  audioTrack: AudioTrack; // Main alarm track, played at hand-over
+  ringTime: Date;
+  useBackgroundAudio: boolean;
+  player: AudioPlayer;
+  handoverTimer: ReturnType<typeof setTimeout>;
+}
+
+export interface EscalationState {
+  alarmId: string;
+  audioTrack: AudioTrack;
+  useBackgroundAudio: boolean;
+  timers: ReturnType<typeof setTimeout>[];
+  notificationIds: string[]; // Re-fired notifications, cleared on stop
+  isVibrating: boolean;
+}
+
+export interface AwakeCheckState {
+  alarmId: string;
+  checkAt: Date;
+  deadline: Date; // The alarm rings again unless acknowledged by then
+  notificationIds: string[]; // Check and re-ring, cancelled on acknowledgement
+}
+
 export interface AlarmDetectionResult {
   isRinging: boolean;
   alarmId?: string;
@@ -25,14 +105,34 @@ export interface AlarmDetectionResult {
   source: 'internal_state' | 'scheduled_notifications' | 'not_found';
 }
 
+export interface BatchScheduleResult {
+  succeeded: string[];
+  failed: { alarmId: string; error: string }[];
+}
+
 export class AlarmService {
   private static instance: AlarmService;
   private currentRingingAlarm: AlarmRingingState | null = null;
+  private gentleWake: GentleWakeState | null = null;
+  private escalation: EscalationState | null = null;
+  private awakeCheck: AwakeCheckState | null = null;
   private isNavigatingToRingingScreen: boolean = false;
   private isOnRingingScreen: boolean = false;
   private alarmKitAvailable: boolean = false;
-  private backgroundAlarmEnabled: boolean = true; // Enable silent loop background alarms
-  private useHybridMode: boolean = true; // Use both background audio and notifications
+  // In order of preference - web has no native modules, so alarms run on a virtual clock
+  private schedulerBackends: AlarmSchedulerBackend[] =
+    Platform.OS === 'web'
+      ? [memorySchedulerBackend]
+      : [
+          backgroundAudioSchedulerBackend,
+          alarmKitSchedulerBackend,
+          notificationSchedulerBackend,
+        ];
+  private backendSubscriptions: (() => void)[] = [];
+  private alarmLookup: ((alarmId: string) => Alarm | undefined) | null = null;
+  private readonly launchedAt = new Date();
+  private readonly MISSED_CHECK_STORAGE_KEY = 'missed_alarm_check';
+  private readonly AWAKE_CHECK_STORAGE_KEY = 'awake_check';
 
   static getInstance(): AlarmService {
     if (!AlarmService.instance) {
@@ -42,8 +142,68 @@ export class AlarmService {
   }
 
   constructor() {
-    this.setupNotificationListeners();
+    this.subscribeToBackends();
     this.setupAppStateListener();
+
+    if (Platform.OS === 'web') {
+      memorySchedulerBackend.startRealTime();
+    }
+  }
+
+  /**
+   * Replace the scheduler backends, e.g. with an in-memory one for simulation
+   * Alarms scheduled on the previous backends are not moved over
+   */
+  setSchedulerBackends(backends: AlarmSchedulerBackend[]): void {
+    if (backends.length === 0) {
+      throw new Error('At least one scheduler backend is required');
+    }
+    this.schedulerBackends = backends;
+    this.subscribeToBackends();
+  }
+
+  getSchedulerBackends(): AlarmSchedulerBackend[] {
+    return [...this.schedulerBackends];
+  }
+
+  /**
+   * Whether alarms run on the virtual clock instead of OS schedules
+   */
+  usesMemoryScheduler(): boolean {
+    return this.schedulerBackends.every(backend => backend.id === 'memory');
+  }
+
+  /**
+   * Backend an alarm (or snooze) was scheduled with, judged by its flags
+   * Falls back to the last backend - the one that works everywhere
+   */
+  getBackendFor(
+    alarm: Pick<Alarm, 'isNativeAlarm' | 'backgroundAudioEnabled'>
+  ): AlarmSchedulerBackend {
+    const id: SchedulerBackendId = alarm.isNativeAlarm
+      ? 'alarmkit'
+      : alarm.backgroundAudioEnabled
+        ? 'background-audio'
+        : 'notifications';
+    return (
+      this.schedulerBackends.find(backend => backend.id === id) ??
+      this.schedulerBackends[this.schedulerBackends.length - 1]
+    );
+  }
+
+  /**
+   * Register how ringing alarms are resolved to their full configuration
+   * The alarm store registers itself here to avoid a circular import
+   */
+  setAlarmLookup(lookup: (alarmId: string) => Alarm | undefined): void {
+    this.alarmLookup = lookup;
+  }
+
+  /**
+   * Volume ramp of a ringing alarm, default ramp when the alarm is unknown
+   */
+  private getVolumeRampForAlarm(alarmId: string): VolumeRamp {
+    return getVolumeRamp(this.alarmLookup?.(alarmId) ?? {});
   }
 
   /**
@@ -87,7 +247,7 @@ export class AlarmService {
       await audioService.configureAudio();
 
       // Initialize background alarm service for silent loop support
-      if (this.backgroundAlarmEnabled) {
+      if (backgroundAudioSchedulerBackend.isEnabled()) {
         try {
           await backgroundAlarmService.initialize({
             enableSilentLoop: true,
@@ -100,7 +260,7 @@ export class AlarmService {
             '⚠️ Failed to initialize background alarms, using notifications only:',
             backgroundError
           );
-          this.backgroundAlarmEnabled = false;
+          backgroundAudioSchedulerBackend.setEnabled(false);
         }
       }
 
@@ -137,149 +297,175 @@ export class AlarmService {
   }
 
   /**
-   * Schedule alarm with hybrid background audio + notification approach
+   * Schedule alarm on the first available backend, falling back down the list
    */
   async scheduleAlarm(alarm: Alarm): Promise<void> {
-    try {
-      console.log(`🔔 Scheduling alarm with hybrid approach: ${alarm.id}`);
+    console.log(`🔔 Scheduling alarm: ${alarm.id}`);
+    let lastError: unknown = new Error('No scheduler backend available');
+
+    for (const backend of this.schedulerBackends) {
+      if (!(await backend.isAvailable())) continue;
+
+      try {
+        console.log(`📋 Using ${backend.id} for alarm ${alarm.id}`);
+        const handle = await backend.schedule(alarm);
 
-      // Strategy selection based on availability and configuration
-      let primaryStrategy: 'background-audio' | 'alarmkit' | 'notifications' =
-        'notifications';
+        alarm.notificationIds = handle.notificationIds;
+        alarm.nativeAlarmId = handle.nativeAlarmId;
+        alarm.isNativeAlarm = backend.id === 'alarmkit';
+        alarm.backgroundAudioEnabled = backend.id === 'background-audio';
 
-      if (this.backgroundAlarmEnabled && Platform.OS === 'ios') {
-        primaryStrategy = 'background-audio';
-      } else if (await this.shouldUseAlarmKit()) {
-        primaryStrategy = 'alarmkit';
+        console.log(`✅ Alarm scheduled with ${backend.id}: ${alarm.id}`);
+        await this.recordScheduled(alarm, backend.id);
+        return;
+      } catch (error) {
+        console.warn(
+          `⚠️ ${backend.id} scheduling failed for ${alarm.id}, trying next backend:`,
+          error
+        );
+        lastError = error;
       }
+    }
 
-      console.log(
-        `📋 Using primary strategy: ${primaryStrategy} for alarm ${alarm.id}`
-      );
+    console.error(`❌ Failed to schedule alarm ${alarm.id}:`, lastError);
+    throw lastError;
+  }
 
-      // Primary strategy: Background Audio with Silent Loop (iOS only)
-      if (primaryStrategy === 'background-audio') {
-        try {
-          console.log(`🔇 Scheduling background audio alarm: ${alarm.id}`);
+  private async recordScheduled(alarm: Alarm, strategy: string): Promise<void> {
+    await alarmHistoryService.record('scheduled', alarm, {
+      scheduledTime: getNextOccurrence(alarm) ?? undefined,
+      details: { strategy },
+    });
+  }
 
-          // For background audio, we still need notifications as triggers
-          // But we'll use silent loop to keep audio session alive
-          await this.scheduleWithBackgroundAudio(alarm);
+  /**
+   * Build notification payload for an alarm
+   */
+  toAlarmNotification(
+    alarm: Alarm,
+    useBackgroundAudio: boolean
+  ): AlarmNotification {
+    return toAlarmNotification(alarm, useBackgroundAudio);
+  }
 
-          alarm.isNativeAlarm = false;
-          alarm.backgroundAudioEnabled = true;
+  /**
+   * Schedule several alarms in one pass, collecting failures instead of aborting
+   */
+  async scheduleAlarms(alarms: Alarm[]): Promise<BatchScheduleResult> {
+    const result: BatchScheduleResult = { succeeded: [], failed: [] };
 
-          console.log(`✅ Background audio alarm scheduled: ${alarm.id}`);
-          return;
-        } catch (backgroundError) {
-          console.warn(
-            `⚠️ Background audio scheduling failed for ${alarm.id}, trying AlarmKit:`,
-            backgroundError
-          );
-          // Fall through to AlarmKit
-        }
+    for (const alarm of alarms) {
+      try {
+        await this.scheduleAlarm(alarm);
+        result.succeeded.push(alarm.id);
+      } catch (error) {
+        result.failed.push({
+          alarmId: alarm.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
 
-      // Fallback 1: Try AlarmKit if available and authorized
-      if (
-        primaryStrategy === 'alarmkit' ||
-        (primaryStrategy === 'background-audio' &&
-          (await this.shouldUseAlarmKit()))
-      ) {
-        try {
-          console.log(`🚀 Scheduling alarm with AlarmKit: ${alarm.id}`);
-          const nativeAlarmId =
-            await alarmKitService.scheduleNativeAlarm(alarm);
+    console.log(
+      `📋 Batch scheduled ${result.succeeded.length}/${alarms.length} alarms`
+    );
+    return result;
+  }
 
-          // Store AlarmKit ID for tracking
-          alarm.nativeAlarmId = nativeAlarmId;
-          alarm.isNativeAlarm = true;
-          alarm.backgroundAudioEnabled = false;
+  /**
+   * Cancel several alarms in one pass, collecting failures instead of aborting
+   */
+  async cancelAlarms(alarms: Alarm[]): Promise<BatchScheduleResult> {
+    const result: BatchScheduleResult = { succeeded: [], failed: [] };
 
-          console.log(
-            `✅ Native alarm scheduled: ${alarm.id} -> ${nativeAlarmId}`
-          );
-          return;
-        } catch (alarmKitError) {
-          console.warn(
-            `⚠️ AlarmKit scheduling failed for ${alarm.id}, falling back to notifications:`,
-            alarmKitError
-          );
-          // Fall through to notification scheduling
-        }
+    for (const alarm of alarms) {
+      try {
+        await this.cancelAlarm(alarm);
+        result.succeeded.push(alarm.id);
+      } catch (error) {
+        result.failed.push({
+          alarmId: alarm.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
       }
+    }
 
-      // Fallback 2: Standard expo-notifications
-      console.log(`📱 Scheduling alarm with notifications: ${alarm.id}`);
-      await this.scheduleWithNotifications(alarm);
-
-      alarm.isNativeAlarm = false;
-      alarm.backgroundAudioEnabled = false;
+    console.log(
+      `📋 Batch cancelled ${result.succeeded.length}/${alarms.length} alarms`
+    );
+    return result;
+  }
 
-      console.log(`✅ Notification alarm scheduled: ${alarm.id}`);
-    } catch (error) {
-      console.error(`❌ Failed to schedule alarm ${alarm.id}:`, error);
-      throw error;
-    }
+  /**
+   * Move an alarm's schedule to its current time, e.g. after a timezone change
+   * Unlike cancel + schedule, a ringing alarm and a pending snooze are left alone
+   */
+  async rescheduleAlarm(alarm: Alarm): Promise<void> {
+    const backend = this.getBackendFor(alarm);
+    await backend.cancel({
+      notificationIds: alarm.notificationIds,
+      nativeAlarmId: alarm.nativeAlarmId,
+    });
+    alarm.notificationIds = undefined;
+    alarm.nativeAlarmId = undefined;
+    await this.scheduleAlarm(alarm);
   }
 
   /**
-   * Schedule alarm with background audio support (silent loop method)
+   * Re-apply a single occurrence after its exception changed
+   * Only notifications of that day are replaced; other backends reschedule the alarm whole
    */
-  private async scheduleWithBackgroundAudio(alarm: Alarm): Promise<void> {
-    // Create notification data with background audio flag
-    const alarmNotification: AlarmNotification = {
-      id: alarm.id,
-      title: alarm.title || 'Alarm',
-      time: alarm.time,
-      isActive: alarm.isActive,
-      audioTrack: alarm.audioTrack,
-      repeatDays: alarm.repeatDays,
-      useBackgroundAudio: true, // Flag for background audio handling
-    };
+  async rescheduleOccurrence(alarm: Alarm, dateKey: string): Promise<void> {
+    if (!alarm.isActive) return;
 
-    // Schedule the notification (this will trigger the background audio system)
-    const notificationId =
-      await notificationService.scheduleAlarm(alarmNotification);
-    alarm.notificationIds = notificationId.split(',');
+    try {
+      const backend = this.getBackendFor(alarm);
+      if (!(backend instanceof NotificationSchedulerBackend)) {
+        await backend.cancel({
+          notificationIds: alarm.notificationIds,
+          nativeAlarmId: alarm.nativeAlarmId,
+        });
+        await this.scheduleAlarm(alarm);
+        return;
+      }
 
-    // Pre-start silent loop if app is in foreground and alarm is soon
-    if (AppState.currentState === 'active') {
-      const timeUntilAlarm = alarm.time.getTime() - Date.now();
-      const preStartWindow = 10 * 60 * 1000; // 10 minutes before
+      const cancelledIds = await notificationService.cancelOccurrence(
+        alarm.id,
+        dateKey
+      );
+      const notificationIds = (alarm.notificationIds || []).filter(
+        id => !cancelledIds.includes(id)
+      );
 
-      if (timeUntilAlarm <= preStartWindow && timeUntilAlarm > 0) {
-        console.log(
-          `🔇 Pre-starting silent loop for imminent alarm: ${alarm.id}`
+      // Fill gaps in the horizon - the changed day, or the next date of a sparse rule
+      const alarmNotification = this.toAlarmNotification(
+        alarm,
+        !!alarm.backgroundAudioEnabled
+      );
+      const scheduledDates = (
+        await notificationService.getScheduledOccurrences(alarm.id)
+      ).map(occurrence => occurrence.dateKey);
+      const missing = notificationService
+        .getOccurrencesToSchedule(alarmNotification)
+        .filter(occurrence => !scheduledDates.includes(toDateKey(occurrence)));
+
+      for (const occurrence of missing) {
+        const identifiers = await notificationService.scheduleOccurrence(
+          alarmNotification,
+          occurrence
         );
-        try {
-          await backgroundAlarmService.startSilentLoop();
-          console.log('✅ Silent loop pre-started for alarm reliability');
-        } catch (error) {
-          console.warn('⚠️ Failed to pre-start silent loop:', error);
-          // Continue without pre-start - alarm will still work
-        }
+        notificationIds.push(...identifiers.split(','));
       }
-    }
-  }
-
-  /**
-   * Schedule alarm with standard notifications
-   */
-  private async scheduleWithNotifications(alarm: Alarm): Promise<void> {
-    const alarmNotification: AlarmNotification = {
-      id: alarm.id,
-      title: alarm.title || 'Alarm',
-      time: alarm.time,
-      isActive: alarm.isActive,
-      audioTrack: alarm.audioTrack,
-      repeatDays: alarm.repeatDays,
-      useBackgroundAudio: false,
-    };
 
-    const notificationId =
-      await notificationService.scheduleAlarm(alarmNotification);
-    alarm.notificationIds = notificationId.split(',');
+      alarm.notificationIds = notificationIds;
+      console.log(`✅ Occurrence ${dateKey} rescheduled for alarm ${alarm.id}`);
+    } catch (error) {
+      console.error(
+        `❌ Failed to reschedule occurrence ${dateKey} of ${alarm.id}:`,
+        error
+      );
+      throw error;
+    }
   }
 
   /**
@@ -287,36 +473,34 @@ export class AlarmService {
    */
   async cancelAlarm(alarm: Alarm): Promise<void> {
     try {
-      // Cancel native alarm if it exists
-      if (alarm.isNativeAlarm && alarm.nativeAlarmId) {
-        try {
-          console.log(
-            `🗑️ Cancelling native alarm: ${alarm.id} -> ${alarm.nativeAlarmId}`
-          );
-          await alarmKitService.cancelNativeAlarm(alarm.nativeAlarmId);
-          console.log(`✅ Native alarm cancelled: ${alarm.id}`);
-        } catch (alarmKitError) {
-          console.warn(
-            `⚠️ Failed to cancel native alarm ${alarm.id}:`,
-            alarmKitError
-          );
-        }
+      const backend = this.getBackendFor(alarm);
+      try {
+        console.log(`🗑️ Cancelling ${backend.id} alarm: ${alarm.id}`);
+        await backend.cancel({
+          notificationIds: alarm.notificationIds,
+          nativeAlarmId: alarm.nativeAlarmId,
+        });
+      } catch (backendError) {
+        // Leftovers are cleaned up by the next schedule reconcile
+        console.warn(
+          `⚠️ Failed to cancel ${backend.id} alarm ${alarm.id}:`,
+          backendError
+        );
       }
 
-      // Cancel notification alarms
-      if (alarm.notificationIds) {
-        // Cancel all related notifications
-        for (const notificationId of alarm.notificationIds) {
-          await notificationService.cancelAlarm(notificationId);
-        }
-        console.log(`✅ Notification alarm cancelled: ${alarm.id}`);
-      }
+      // Cancel pending snooze re-ring
+      await this.cancelSnooze(alarm);
 
       // If this alarm is currently ringing, stop it
       if (this.currentRingingAlarm?.alarmId === alarm.id) {
         await this.stopRingingAlarm();
       }
 
+      // Its notifications are gone already - just silence the gentle phase
+      if (this.gentleWake?.alarmId === alarm.id) {
+        await this.stopGentleWake();
+      }
+
       console.log(`✅ Alarm cancelled: ${alarm.id}`);
     } catch (error) {
       console.error(`❌ Failed to cancel alarm ${alarm.id}:`, error);
@@ -362,13 +546,24 @@ export class AlarmService {
         `🎵 Starting alarm: ${alarmId} (background: ${useBackgroundAudio})`
       );
 
+      const volumeRamp = this.getVolumeRampForAlarm(alarmId);
+
+      // Hand-over from the gentle phase (silent loop keeps the session alive)
+      if (this.gentleWake) {
+        await this.stopGentleWake();
+      }
+
       // If using background audio system and silent loop is available
       if (
         useBackgroundAudio &&
-        this.backgroundAlarmEnabled &&
+        backgroundAudioSchedulerBackend.isEnabled() &&
         Platform.OS === 'ios'
       ) {
-        await this.startRingingAlarmWithBackgroundAudio(alarmId, audioTrack);
+        await this.startRingingAlarmWithBackgroundAudio(
+          alarmId,
+          audioTrack,
+          volumeRamp
+        );
         return;
       }
 
@@ -377,6 +572,7 @@ export class AlarmService {
       const result = await AudioManager.playAlarmAudio({
         preferredTrack: audioTrack,
         fallbackSoundId: 'alarm-classic',
+        volumeRamp,
         onSpotifyPlayerNeeded: track => {
           console.log('🎵 Spotify player needed for:', track.name);
         },
@@ -405,7 +601,16 @@ export class AlarmService {
       }
     } catch (error) {
       console.error(`❌ Failed to start ringing alarm ${alarmId}:`, error);
-      await this.startRingingAlarmFallback(alarmId, audioTrack);
+      await this.startRingingAlarmFallback(
+        alarmId,
+        audioTrack,
+        this.getVolumeRampForAlarm(alarmId)
+      );
+    } finally {
+      // Foreground or background, the ring escalates until it is stopped
+      if (this.currentRingingAlarm?.alarmId === alarmId) {
+        this.startEscalation(alarmId, audioTrack, useBackgroundAudio);
+      }
     }
   }
 
@@ -414,7 +619,8 @@ export class AlarmService {
    */
   private async startRingingAlarmWithBackgroundAudio(
     alarmId: string,
-    audioTrack: AudioTrack
+    audioTrack: AudioTrack,
+    volumeRamp: VolumeRamp
   ): Promise<void> {
     try {
       console.log(`🔇 Starting background audio alarm: ${alarmId}`);
@@ -423,26 +629,32 @@ export class AlarmService {
       let alarmPlayer: AudioPlayer;
       if (audioTrack.uri) {
         alarmPlayer = await audioService.loadAlarmAudio(audioTrack.uri, {
-          volume: 1.0,
+          volume: volumeRamp.startVolume,
           shouldLoop: true,
         });
       } else {
         // Create fallback audio player with default uri
         alarmPlayer = createAudioPlayer({ uri: 'default' });
-        alarmPlayer.volume = 1.0;
+        alarmPlayer.volume = volumeRamp.startVolume;
       }
 
       // If silent loop is active, switch to alarm sound
       if (backgroundAlarmService.isSilentLoopActive()) {
         console.log('🔄 Switching from silent loop to alarm sound');
-        await backgroundAlarmService.switchToAlarmSound(alarmPlayer);
+        await backgroundAlarmService.switchToAlarmSound(
+          alarmPlayer,
+          volumeRamp
+        );
       } else {
         // Start silent loop first, then switch to alarm
         console.log('🔇 Starting silent loop then alarm sound');
         await backgroundAlarmService.startSilentLoop();
         // Small delay to ensure silent loop is established
         await new Promise(resolve => setTimeout(resolve, 500));
-        await backgroundAlarmService.switchToAlarmSound(alarmPlayer);
+        await backgroundAlarmService.switchToAlarmSound(
+          alarmPlayer,
+          volumeRamp
+        );
       }
 
       this.currentRingingAlarm = {
@@ -455,7 +667,7 @@ export class AlarmService {
     } catch (error) {
       console.error(`❌ Failed to start background audio alarm:`, error);
       // Fallback to standard approach
-      await this.startRingingAlarmFallback(alarmId, audioTrack);
+      await this.startRingingAlarmFallback(alarmId, audioTrack, volumeRamp);
     }
   }
 
@@ -464,7 +676,8 @@ export class AlarmService {
    */
   private async startRingingAlarmFallback(
     alarmId: string,
-    audioTrack: AudioTrack
+    audioTrack: AudioTrack,
+    volumeRamp: VolumeRamp
   ): Promise<void> {
     try {
       console.log('🔄 Attempting fallback to legacy audio system');
@@ -475,10 +688,9 @@ export class AlarmService {
         soundObject = await audioService.loadAudio(audioTrack.uri);
       } else {
         soundObject = createAudioPlayer({ uri: 'default' });
-        soundObject.volume = 1.0;
       }
 
-      await audioService.playAlarmSound(soundObject);
+      await audioService.playAlarmSoundWithFadeIn(soundObject, volumeRamp);
       this.currentRingingAlarm = { alarmId, soundObject, isRinging: true };
 
       console.log(`✅ Alarm started with legacy fallback: ${alarmId}`);
@@ -495,6 +707,8 @@ export class AlarmService {
    * Stop currently ringing alarm
    */
   async stopRingingAlarm(): Promise<void> {
+    this.stopEscalation();
+
     try {
       if (!this.currentRingingAlarm) {
         console.log('⚠️ No alarm currently ringing');
@@ -538,10 +752,426 @@ export class AlarmService {
     }
   }
 
+  /**
+   * Arm the alarm's escalation ladder for the ring that just started
+   */
+  private startEscalation(
+    alarmId: string,
+    audioTrack: AudioTrack,
+    useBackgroundAudio: boolean
+  ): void {
+    this.stopEscalation();
+
+    const config = getEscalation(this.alarmLookup?.(alarmId) ?? {});
+    const ladder = getEscalationLadder(config);
+    if (ladder.length === 0) return;
+
+    const escalation: EscalationState = {
+      alarmId,
+      audioTrack,
+      useBackgroundAudio,
+      timers: [],
+      notificationIds: [],
+      isVibrating: false,
+    };
+    escalation.timers = ladder.map(rung =>
+      setTimeout(
+        () => this.runEscalationStep(escalation, rung, config.backupSoundId),
+        rung.afterMs
+      )
+    );
+    this.escalation = escalation;
+
+    console.log(
+      `📈 Escalation armed for ${alarmId}: every ${config.afterMinutes} min`
+    );
+  }
+
+  /**
+   * Run one step of the ladder and record it in the alarm history
+   */
+  private async runEscalationStep(
+    escalation: EscalationState,
+    rung: EscalationRung,
+    backupSoundId: string
+  ): Promise<void> {
+    const ringing = this.currentRingingAlarm;
+    // Stopped or replaced by another ring in the meantime
+    if (this.escalation !== escalation || !ringing) return;
+
+    const { alarmId } = escalation;
+    let succeeded = true;
+    try {
+      switch (rung.step) {
+        case 'volume':
+          await this.raiseRingingVolume(ringing);
+          break;
+        case 'backup-sound':
+          await this.switchToBackupSound(ringing, backupSoundId);
+          break;
+        case 'renotify': {
+          const title = this.alarmLookup?.(alarmId)?.title || 'Alarm';
+          escalation.notificationIds.push(
+            await notificationService.presentAlarmReminder(
+              alarmId,
+              title,
+              escalation.audioTrack,
+              escalation.useBackgroundAudio
+            )
+          );
+          break;
+        }
+        case 'vibrate':
+          Vibration.vibrate(ESCALATION_VIBRATION_PATTERN, true);
+          escalation.isVibrating = true;
+          break;
+      }
+      console.log(
+        `📈 Alarm escalated: ${alarmId} ${rung.step} (level ${rung.level})`
+      );
+    } catch (error) {
+      succeeded = false;
+      console.error(`❌ Escalation step ${rung.step} failed:`, error);
+    }
+
+    await alarmHistoryService.record('escalated', alarmId, {
+      details: { step: rung.step, level: rung.level, succeeded },
+    });
+  }
+
+  /**
+   * Jump the ringing sound to full volume, ending its ramp
+   */
+  private async raiseRingingVolume(ringing: AlarmRingingState): Promise<void> {
+    if (ringing.soundObject) {
+      audioService.stopRamp();
+      ringing.soundObject.volume = 1;
+    } else {
+      await AudioManager.setVolumeAsync(1);
+    }
+  }
+
+  /**
+   * Replace the ringing sound with the loud backup sound at full volume
+   */
+  private async switchToBackupSound(
+    ringing: AlarmRingingState,
+    soundId: string
+  ): Promise<void> {
+    const sound =
+      SoundLibrary.getSoundById(soundId) ||
+      SoundLibrary.getSoundById(DEFAULT_ESCALATION.backupSoundId);
+    if (!sound) {
+      throw new Error(`Unknown backup sound: ${soundId}`);
+    }
+    const track = await SoundLibrary.convertToAudioTrack(sound);
+
+    if (ringing.soundObject) {
+      // Start the backup before stopping the old sound so the audio session stays alive
+      const player = await audioService.loadAlarmAudio(track.uri, {
+        volume: 1,
+        shouldLoop: true,
+      });
+      player.loop = true;
+      await player.play();
+      await audioService.stopAlarmSound(ringing.soundObject);
+      ringing.soundObject = player;
+      return;
+    }
+
+    const result = await AudioManager.playAlarmAudio({
+      preferredTrack: track,
+      fallbackSoundId: 'alarm-classic',
+      volumeRamp: ESCALATED_VOLUME_RAMP,
+    });
+    if (!result.success) {
+      throw new Error('Failed to play backup sound');
+    }
+    await AudioManager.setIsLoopingAsync(true);
+  }
+
+  /**
+   * Cancel pending steps and undo what the ladder left behind
+   */
+  private stopEscalation(): void {
+    const escalation = this.escalation;
+    if (!escalation) return;
+
+    this.escalation = null;
+    escalation.timers.forEach(timer => clearTimeout(timer));
+    if (escalation.isVibrating) {
+      Vibration.cancel();
+    }
+    if (escalation.notificationIds.length > 0) {
+      notificationService.dismissPresented(escalation.notificationIds);
+    }
+  }
+
+  /**
+   * Schedule the alarm's "Are you awake?" check after a dismissal
+   * Runs on scheduled notifications so it survives backgrounding; replaces a pending check
+   */
+  async startAwakeCheck(alarm: Alarm): Promise<AwakeCheckState | null> {
+    if (!alarm.awakeCheck) return null;
+    await this.clearAwakeCheck();
+
+    const { checkAt, deadline } = getAwakeCheckTimes(alarm.awakeCheck);
+    try {
+      const notificationIds = await notificationService.scheduleAwakeCheck(
+        this.toAlarmNotification(alarm, !!alarm.backgroundAudioEnabled),
+        checkAt,
+        deadline
+      );
+      const check: AwakeCheckState = {
+        alarmId: alarm.id,
+        checkAt,
+        deadline,
+        notificationIds,
+      };
+      this.awakeCheck = check;
+      await AsyncStorage.setItem(
+        this.AWAKE_CHECK_STORAGE_KEY,
+        JSON.stringify(check)
+      );
+
+      console.log(
+        `☀️ Awake check for ${alarm.id} at ${checkAt.toISOString()}, re-rings at ${deadline.toISOString()}`
+      );
+      return check;
+    } catch (error) {
+      console.error(
+        `❌ Failed to schedule awake check for ${alarm.id}:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Pending awake check, also after the app was restarted
+   */
+  async getAwakeCheck(): Promise<AwakeCheckState | null> {
+    if (this.awakeCheck) return this.awakeCheck;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.AWAKE_CHECK_STORAGE_KEY);
+      if (!stored) return null;
+      const check = JSON.parse(stored);
+      this.awakeCheck = {
+        ...check,
+        checkAt: new Date(check.checkAt),
+        deadline: new Date(check.deadline),
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to load awake check:', error);
+    }
+    return this.awakeCheck;
+  }
+
+  /**
+   * The user answered the check - the alarm won't ring again
+   */
+  async acknowledgeAwakeCheck(alarmId: string): Promise<boolean> {
+    const check = await this.getAwakeCheck();
+    if (check?.alarmId !== alarmId) return false;
+
+    await this.clearAwakeCheck();
+    console.log('☀️ Awake check acknowledged:', alarmId);
+    return true;
+  }
+
+  /**
+   * Drop a pending check without ringing, e.g. when its alarm is deleted
+   */
+  async cancelAwakeCheck(alarmId: string): Promise<void> {
+    const check = await this.getAwakeCheck();
+    if (check?.alarmId === alarmId) {
+      await this.clearAwakeCheck();
+    }
+  }
+
+  private async clearAwakeCheck(): Promise<void> {
+    const check = await this.getAwakeCheck();
+    this.awakeCheck = null;
+    if (!check) return;
+
+    try {
+      await AsyncStorage.removeItem(this.AWAKE_CHECK_STORAGE_KEY);
+      for (const identifier of check.notificationIds) {
+        await notificationService.cancelAlarm(identifier);
+      }
+      // Already delivered ones stay in the notification center otherwise
+      await notificationService.dismissPresented(check.notificationIds);
+    } catch (error) {
+      console.warn('⚠️ Failed to clear awake check:', error);
+    }
+  }
+
+  /**
+   * Start the quiet pre-alarm phase; the main alarm takes over at ringTime
+   */
+  async startGentleWake(
+    alarmId: string,
+    audioTrack: AudioTrack,
+    ringTime: Date,
+    config: GentleWakeConfig = DEFAULT_GENTLE_WAKE,
+    useBackgroundAudio: boolean = false
+  ): Promise<void> {
+    if (
+      this.gentleWake?.alarmId === alarmId ||
+      this.currentRingingAlarm?.alarmId === alarmId
+    ) {
+      console.log('⚠️ Gentle wake already running, ignoring:', alarmId);
+      return;
+    }
+
+    const msUntilRing = ringTime.getTime() - Date.now();
+    if (msUntilRing <= 0) {
+      // Delivered late - go straight to the real alarm
+      await this.handleAlarmTrigger(alarmId, audioTrack, useBackgroundAudio, {
+        source: 'gentle_wake',
+        scheduledTime: ringTime,
+      });
+      return;
+    }
+
+    try {
+      await this.stopGentleWake();
+      console.log(`🌅 Starting gentle wake for ${alarmId}`);
+
+      // Keep the audio session alive so the hand-over works in the background
+      if (
+        useBackgroundAudio &&
+        backgroundAudioSchedulerBackend.isEnabled() &&
+        Platform.OS === 'ios' &&
+        !backgroundAlarmService.isSilentLoopActive()
+      ) {
+        await backgroundAlarmService.startSilentLoop();
+      }
+
+      await audioService.configureAudio();
+      const sound =
+        SoundLibrary.getSoundById(config.soundId) ||
+        SoundLibrary.getSoundById(DEFAULT_GENTLE_WAKE.soundId);
+      const track = sound
+        ? await SoundLibrary.convertToAudioTrack(sound)
+        : null;
+      const player = createAudioPlayer({ uri: track?.uri || 'default' });
+      player.volume = Math.max(0, Math.min(1, config.volume));
+      player.loop = true;
+      await player.play();
+
+      this.gentleWake = {
+        alarmId,
+        audioTrack,
+        ringTime,
+        useBackgroundAudio,
+        player,
+        handoverTimer: setTimeout(() => {
+          this.handleAlarmTrigger(alarmId, audioTrack, useBackgroundAudio, {
+            source: 'gentle_wake',
+            scheduledTime: ringTime,
+          });
+        }, msUntilRing),
+      };
+
+      console.log(
+        `✅ Gentle wake playing, alarm rings at ${ringTime.toISOString()}`
+      );
+    } catch (error) {
+      // The main notification still rings on time
+      console.error(`❌ Failed to start gentle wake for ${alarmId}:`, error);
+    }
+  }
+
+  /**
+   * Gentle wake phase currently playing, if any
+   */
+  getGentleWake(): Pick<GentleWakeState, 'alarmId' | 'ringTime'> | null {
+    return this.gentleWake
+      ? { alarmId: this.gentleWake.alarmId, ringTime: this.gentleWake.ringTime }
+      : null;
+  }
+
+  /**
+   * Stop the gentle wake sound; the main alarm still rings unless the alarm was dismissed
+   */
+  async stopGentleWake(dismissedAlarm?: Alarm): Promise<void> {
+    const gentleWake = this.gentleWake;
+    if (!gentleWake) return;
+
+    this.gentleWake = null;
+    clearTimeout(gentleWake.handoverTimer);
+
+    try {
+      gentleWake.player.pause();
+      gentleWake.player.remove();
+    } catch (error) {
+      console.warn('⚠️ Failed to stop gentle wake sound:', error);
+    }
+
+    if (dismissedAlarm?.id === gentleWake.alarmId) {
+      try {
+        await this.cancelMainRing(dismissedAlarm, gentleWake.ringTime);
+        console.log(
+          `✅ Gentle wake dismissed, main ring cancelled: ${gentleWake.alarmId}`
+        );
+      } catch (error) {
+        console.error(
+          '❌ Failed to cancel main ring after gentle wake:',
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Cancel the ring a dismissed gentle wake leads up to, on the alarm's own backend
+   * Notifications drop only that day; other backends reschedule with the day skipped
+   */
+  private async cancelMainRing(alarm: Alarm, ringTime: Date): Promise<void> {
+    const dateKey = toDateKey(ringTime);
+    const backend = this.getBackendFor(alarm);
+
+    if (backend instanceof NotificationSchedulerBackend) {
+      const cancelledIds = await notificationService.cancelOccurrence(
+        alarm.id,
+        dateKey
+      );
+      alarm.notificationIds = alarm.notificationIds?.filter(
+        id => !cancelledIds.includes(id)
+      );
+      return;
+    }
+
+    await backend.cancel({
+      notificationIds: alarm.notificationIds,
+      nativeAlarmId: alarm.nativeAlarmId,
+    });
+    alarm.notificationIds = undefined;
+    alarm.nativeAlarmId = undefined;
+    if (!isRepeating(alarm)) return;
+
+    const skipped: Alarm = {
+      ...alarm,
+      exceptions: upsertException(alarm.exceptions, {
+        date: dateKey,
+        type: 'skip',
+      }),
+    };
+    await this.scheduleAlarm(skipped);
+    alarm.notificationIds = skipped.notificationIds;
+    alarm.nativeAlarmId = skipped.nativeAlarmId;
+    alarm.isNativeAlarm = skipped.isNativeAlarm;
+    alarm.backgroundAudioEnabled = skipped.backgroundAudioEnabled;
+  }
+
   /**
    * Force stop all audio and clear alarm state (emergency cleanup)
    */
   async forceStopAllAlarms(): Promise<void> {
+    this.stopEscalation();
+
     try {
       console.log('🛑 Force stopping all alarms');
 
@@ -585,47 +1215,116 @@ export class AlarmService {
   }
 
   /**
-   * Snooze currently ringing alarm
+   * Snooze alarm according to its snooze policy
+   * The re-ring keeps the alarm's audio track, label and reliability path
    */
-  async snoozeAlarm(snoozeMinutes: number = 5): Promise<void> {
+  async snoozeAlarm(alarm: Alarm): Promise<AlarmSnoozeState> {
     try {
-      if (!this.currentRingingAlarm) {
-        throw new Error('No alarm currently ringing to snooze');
-      }
+      const policy = getSnoozePolicy(alarm);
+      const snoozeCount = alarm.snoozeState?.count ?? 0;
 
-      const { alarmId } = this.currentRingingAlarm;
+      if (!canSnooze(policy, snoozeCount)) {
+        throw new Error('Snooze is not available for this alarm');
+      }
 
       // Stop current ringing
-      await this.stopRingingAlarm();
+      if (this.currentRingingAlarm) {
+        await this.stopRingingAlarm();
+      }
+
+      // Replace any pending snooze of the same alarm
+      await this.cancelSnooze(alarm);
 
       // Calculate snooze time
-      const snoozeTime = new Date();
-      snoozeTime.setMinutes(snoozeTime.getMinutes() + snoozeMinutes);
+      const snoozeMinutes = getSnoozeDurationMinutes(policy, snoozeCount);
+      const snoozeTime = new Date(Date.now() + snoozeMinutes * 60 * 1000);
 
-      // Create temporary snooze alarm
-      const snoozeAlarmNotification: AlarmNotification = {
-        id: `${alarmId}_snooze_${Date.now()}`,
-        title: 'Snoozed Alarm',
+      const snoozeState: AlarmSnoozeState = {
+        count: snoozeCount + 1,
+        snoozedUntil: snoozeTime,
+      };
+
+      // One-shot copy of the alarm at snooze time
+      const snoozedAlarm: Alarm = {
+        ...alarm,
         time: snoozeTime,
-        isActive: true,
-        audioTrack: {
-          id: 'default',
-          name: 'Default',
-          uri: '',
-          type: 'predefined',
-        }, // Will use default sound
+        wallClockTime: undefined,
+        repeatDays: undefined,
+        recurrence: undefined,
+        gentleWake: undefined,
       };
 
-      // Schedule snooze notification
-      await notificationService.scheduleAlarm(snoozeAlarmNotification);
+      // Re-ring on the alarm's own backend, the fallback backend otherwise
+      const ownBackend = this.getBackendFor(alarm);
+      const fallbackBackend =
+        this.schedulerBackends[this.schedulerBackends.length - 1];
+      const candidates =
+        ownBackend === fallbackBackend
+          ? [ownBackend]
+          : [ownBackend, fallbackBackend];
+
+      let snoozedWith: AlarmSchedulerBackend | null = null;
+      for (const backend of candidates) {
+        if (!(await backend.isAvailable())) continue;
+        try {
+          // alarmId stays the parent alarm ID
+          const handle = await backend.schedule(snoozedAlarm, {
+            isSnooze: true,
+          });
+          snoozeState.notificationIds = handle.notificationIds;
+          snoozeState.nativeAlarmId = handle.nativeAlarmId;
+          snoozedWith = backend;
+          break;
+        } catch (backendError) {
+          console.warn(
+            `⚠️ ${backend.id} snooze failed for ${alarm.id}, trying fallback:`,
+            backendError
+          );
+        }
+      }
+
+      if (!snoozedWith) {
+        throw new Error('Failed to schedule snooze re-ring');
+      }
 
-      console.log(`✅ Alarm snoozed for ${snoozeMinutes} minutes: ${alarmId}`);
+      console.log(
+        `✅ Alarm snoozed with ${snoozedWith.id} for ${snoozeMinutes} minutes: ${alarm.id} (snooze ${snoozeState.count})`
+      );
+      await alarmHistoryService.record('snoozed', alarm, {
+        details: {
+          count: snoozeState.count,
+          minutes: snoozeMinutes,
+          snoozedUntil: snoozeTime.toISOString(),
+        },
+      });
+      return snoozeState;
     } catch (error) {
       console.error('❌ Failed to snooze alarm:', error);
       throw error;
     }
   }
 
+  /**
+   * Cancel pending snooze re-ring of an alarm
+   */
+  async cancelSnooze(alarm: Alarm): Promise<void> {
+    const snoozeState = alarm.snoozeState;
+    if (!snoozeState) {
+      return;
+    }
+
+    try {
+      // Snoozes with a native ID went through AlarmKit, the rest through notifications
+      await this.getBackendFor({
+        isNativeAlarm: !!snoozeState.nativeAlarmId,
+      }).cancel(snoozeState);
+
+      console.log(`✅ Snooze cancelled: ${alarm.id}`);
+    } catch (error) {
+      console.warn(`⚠️ Failed to cancel snooze for ${alarm.id}:`, error);
+    }
+  }
+
   /**
    * Get current ringing alarm state
    */
@@ -640,6 +1339,63 @@ export class AlarmService {
     return this.currentRingingAlarm?.isRinging || false;
   }
 
+  /**
+   * Compare occurrences due since the last check against the history log and
+   * record the ones that never rang as missed - run on launch and foreground
+   */
+  async detectMissedAlarms(
+    alarms: Alarm[],
+    groups: AlarmGroup[]
+  ): Promise<MissedAlarm[]> {
+    try {
+      const now = Date.now();
+      const stored = await AsyncStorage.getItem(this.MISSED_CHECK_STORAGE_KEY);
+      const lastCheck = stored
+        ? Number(stored)
+        : now - FIRST_MISSED_CHECK_LOOKBACK_MS;
+      const from = new Date(
+        Math.max(lastCheck, now - MAX_MISSED_CHECK_LOOKBACK_MS)
+      );
+      const until = new Date(now - DELIVERY_GRACE_MS);
+      if (from >= until) return [];
+
+      const [events, permissions, delivered] = await Promise.all([
+        alarmHistoryService.getEvents(),
+        notificationService.getPermissionStatus(),
+        notificationService.getPresentedAlarms().catch(error => {
+          console.warn('⚠️ Failed to read presented notifications:', error);
+          return [];
+        }),
+      ]);
+      const missed = findMissedAlarms(alarms, groups, events, {
+        from,
+        until,
+        permissionsGranted: permissions.granted,
+        launchedAt: this.launchedAt,
+        delivered,
+      });
+
+      for (const occurrence of missed) {
+        await alarmHistoryService.record('missed', occurrence.alarmId, {
+          scheduledTime: occurrence.scheduledTime,
+          details: { cause: occurrence.cause },
+        });
+      }
+      await AsyncStorage.setItem(
+        this.MISSED_CHECK_STORAGE_KEY,
+        String(until.getTime())
+      );
+
+      if (missed.length > 0) {
+        console.warn('⚠️ Missed alarms detected:', missed.length);
+      }
+      return missed;
+    } catch (error) {
+      console.error('❌ Failed to check for missed alarms:', error);
+      return [];
+    }
+  }
+
   /**
    * Robustly check if alarm should be ringing using multiple detection sources
    * This method doesn't rely solely on internal state and can detect when
@@ -675,6 +1431,8 @@ export class AlarmService {
       // (accounting for notification delivery delays, background processing, and user behavior)
       const recentlyTriggeredNotifications = scheduledNotifications.filter(
         notification => {
+          // Gentle wake is quiet, and awake-check re-rings are due at their deadline
+          if (!isRingingAlarmData(notification.content?.data)) return false;
           try {
             // Extract notification time from different trigger types
             let notificationTime: Date | null = null;
@@ -1026,105 +1784,121 @@ export class AlarmService {
   }
 
   /**
-   * Setup notification listeners for alarm events
+   * Route triggers of every scheduler backend into the ringing flow
    */
-  private setupNotificationListeners(): void {
-    console.log('🔧 Setting up notification listeners for alarm events...');
+  private subscribeToBackends(): void {
+    console.log('🔧 Subscribing to scheduler backend triggers...');
+    this.backendSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.backendSubscriptions = this.schedulerBackends.map(backend =>
+      backend.onTrigger(event => this.handleSchedulerTrigger(event))
+    );
+  }
 
-    // Listen for notification responses (when user taps notification)
-    // This handles: user taps notification when app is backgrounded/killed
-    notificationService.addNotificationResponseReceivedListener(response => {
-      const data = response.notification.request.content.data;
-      const alarmId = data?.alarmId;
-      const audioTrack = data?.audioTrack;
+  /**
+   * Handle a fired or tapped trigger of any backend
+   * IMPORTANT: On iOS, received notifications only reach JS reliably in the foreground
+   * Background local notifications rarely trigger JS callbacks - rely on tap/response handling
+   * The dev simulator fires its occurrences through here as well
+   */
+  handleSchedulerTrigger(event: SchedulerTriggerEvent): void {
+    const { alarmId, audioTrack, data, useBackgroundAudio } = event;
+    const currentAppState = AppState.currentState;
 
-      console.log(
-        '📱 Notification response received (user tapped notification):',
-        {
-          alarmId,
-          hasAudioTrack: !!audioTrack,
-          notificationData: data,
-          currentRingingAlarm: this.currentRingingAlarm?.alarmId,
-        }
-      );
+    console.log(`📨 Alarm trigger from ${event.source}:`, {
+      alarmId,
+      kind: event.kind,
+      hasAudioTrack: !!audioTrack,
+      isUserAction: event.isUserAction,
+      currentAppState,
+      currentRingingAlarm: this.currentRingingAlarm?.alarmId,
+    });
 
-      if (alarmId && audioTrack) {
-        const useBackgroundAudio = data?.useBackgroundAudio === true;
-        console.log('🔔 Alarm notification tapped (user action):', alarmId);
-        this.handleAlarmTrigger(
-          String(alarmId),
-          audioTrack as any,
-          useBackgroundAudio
-        );
-      } else {
-        console.warn(
-          '⚠️ Invalid notification response data - missing alarmId or audioTrack'
-        );
+    // AlarmKit rings by itself and records its own history
+    if (event.source === 'alarmkit') {
+      return;
+    }
+
+    // Tapping the check is the answer - it never rings by itself
+    if (event.kind === 'awake-check') {
+      if (event.isUserAction && alarmId) {
+        this.acknowledgeAwakeCheck(alarmId);
       }
-    });
+      return;
+    }
 
-    // Listen for notifications received
-    // IMPORTANT: On iOS, this only works reliably in foreground
-    // Background local notifications rarely trigger JS callbacks - rely on tap/response handling
-    notificationService.addNotificationReceivedListener(notification => {
-      const data = notification.request.content.data;
-      const alarmId = data?.alarmId;
-      const audioTrack = data?.audioTrack;
-      const { AppState } = require('react-native');
-      const currentAppState = AppState.currentState;
-
-      console.log('📨 Notification received:', {
+    if (!alarmId || !audioTrack) {
+      console.warn('⚠️ Invalid trigger data - missing alarmId or audioTrack:', {
         alarmId,
-        hasAudioTrack: !!audioTrack,
-        currentAppState,
-        notificationData: data,
-        currentRingingAlarm: this.currentRingingAlarm?.alarmId,
-        notificationIdentifier: notification.request.identifier,
+        audioTrack,
+        source: event.source,
       });
+      return;
+    }
 
-      if (alarmId && audioTrack) {
-        const useBackgroundAudio = data?.useBackgroundAudio === true;
-
-        if (currentAppState === 'active') {
-          console.log('🔔 Alarm triggered in FOREGROUND:', alarmId);
-          this.handleAlarmTrigger(
-            String(alarmId),
-            audioTrack as any,
-            useBackgroundAudio
-          );
-        } else {
-          console.log(
-            '🔔 Notification received in BACKGROUND - NOTE: iOS may not reliably deliver this callback:',
-            alarmId
-          );
-          console.log('⚠️ Background trigger context (may not work on iOS):', {
-            appState: currentAppState,
-            alarmId,
-            useBackgroundAudio,
-            currentlyRinging: this.currentRingingAlarm?.alarmId,
-            warning:
-              'Background JS callbacks unreliable on iOS for local notifications',
-          });
-          // Attempt background trigger, but expect this to fail on iOS in most cases
-          this.handleBackgroundAlarmTrigger(
-            String(alarmId),
-            audioTrack as any,
-            useBackgroundAudio
-          );
-        }
-      } else {
-        console.warn(
-          '⚠️ Invalid notification data - missing alarmId or audioTrack:',
-          {
-            alarmId,
-            audioTrack,
-            notificationId: notification.request.identifier,
-          }
-        );
+    if (event.kind === 'gentle-wake') {
+      console.log('🌅 Gentle wake triggered:', alarmId);
+      const started = this.handleGentleWakeTrigger(data);
+      if (event.isUserAction) {
+        started.then(() => this.navigateToRingingScreen(alarmId));
       }
-    });
+      return;
+    }
+
+    // Unanswered awake check - ring again like the alarm itself
+    if (event.kind === 'awake-check-missed') {
+      console.log('☀️ Awake check not acknowledged, ringing again:', alarmId);
+      this.clearAwakeCheck();
+    }
+
+    const trigger: AlarmEventInput = {
+      source:
+        event.kind === 'awake-check-missed' ? 'awake_check' : event.source,
+      ...this.getTriggerTime(data),
+    };
+
+    // Taps open the app, and the virtual clock only runs while the app does
+    if (
+      event.isUserAction ||
+      event.source === 'simulated' ||
+      currentAppState === 'active'
+    ) {
+      console.log('🔔 Alarm triggered in FOREGROUND:', alarmId);
+      this.handleAlarmTrigger(alarmId, audioTrack, useBackgroundAudio, trigger);
+    } else {
+      console.log(
+        '🔔 Trigger received in BACKGROUND - NOTE: iOS may not reliably deliver this callback:',
+        alarmId
+      );
+      // Attempt background trigger, but expect this to fail on iOS in most cases
+      this.handleBackgroundAlarmTrigger(
+        alarmId,
+        audioTrack,
+        useBackgroundAudio,
+        trigger
+      );
+    }
+  }
 
-    console.log('✅ Notification listeners setup completed');
+  /**
+   * Occurrence time carried by an alarm notification payload
+   */
+  private getTriggerTime(data: Record<string, any>): { scheduledTime?: Date } {
+    return data?.scheduledTime
+      ? { scheduledTime: new Date(data.scheduledTime) }
+      : {};
+  }
+
+  /**
+   * Start the gentle wake phase from a notification payload
+   */
+  async handleGentleWakeTrigger(data: Record<string, any>): Promise<void> {
+    await this.startGentleWake(
+      String(data.alarmId),
+      data.audioTrack as AudioTrack,
+      new Date(data.scheduledTime),
+      data.gentleWake,
+      data.useBackgroundAudio === true
+    );
   }
 
   /**
@@ -1133,7 +1907,8 @@ export class AlarmService {
   private async handleAlarmTrigger(
     alarmId: string,
     audioTrack: AudioTrack,
-    useBackgroundAudio: boolean = false
+    useBackgroundAudio: boolean = false,
+    trigger: AlarmEventInput = { source: 'notification' }
   ): Promise<void> {
     console.log('🎯 Handling alarm trigger (foreground/notification tap):', {
       alarmId,
@@ -1168,6 +1943,8 @@ export class AlarmService {
         await this.stopRingingAlarm();
       }
 
+      await alarmHistoryService.record('triggered', alarmId, trigger);
+
       console.log('🚀 Starting alarm ringing and navigation sequence...');
 
       // Start ringing the alarm with background audio support
@@ -1198,7 +1975,8 @@ export class AlarmService {
   private async handleBackgroundAlarmTrigger(
     alarmId: string,
     audioTrack: AudioTrack,
-    useBackgroundAudio: boolean = false
+    useBackgroundAudio: boolean = false,
+    trigger: AlarmEventInput = { source: 'notification' }
   ): Promise<void> {
     try {
       console.log(
@@ -1225,10 +2003,12 @@ export class AlarmService {
         await this.stopRingingAlarm();
       }
 
+      await alarmHistoryService.record('triggered', alarmId, trigger);
+
       // Use enhanced background audio if enabled AND if silent loop is already running
       if (
         useBackgroundAudio &&
-        this.backgroundAlarmEnabled &&
+        backgroundAudioSchedulerBackend.isEnabled() &&
         Platform.OS === 'ios'
       ) {
         console.log(
@@ -1301,6 +2081,9 @@ export class AlarmService {
         '⚠️ Set alarm state without audio - navigation will work, but no sound'
       );
     }
+
+    // Without reliable audio the ladder matters most
+    this.startEscalation(alarmId, audioTrack, false);
   }
 
   /**
@@ -0,0 +1,209 @@
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+import type { AudioTrack } from '../audio/types';
+import { AudioManager } from '../audio/AudioManager';
+import type { NotificationCoverage } from '../notifications/notification-budget-service';
+import { alarmService } from './alarm-service';
+import { isAlarmEffectivelyActive } from './alarm-groups';
+import {
+  MemorySchedulerBackend,
+  VirtualClock,
+} from './schedulers/memory-backend';
+import type {
+  SchedulerBackendId,
+  SchedulerTriggerEvent,
+  SchedulerTriggerKind,
+} from './schedulers/types';
+
+// How long a ring keeps the phone busy when judging overlaps
+const RING_WINDOW_MS = 5 * 60 * 1000;
+
+export type SimulationIssue =
+  | { type: 'beyond-horizon'; coveredUntil: Date }
+  | { type: 'unplayable-track' }
+  | { type: 'overlap'; alarmId: string }
+  | { type: 'not-scheduled' };
+
+export interface SimulatedTrigger {
+  id: string;
+  alarmId: string;
+  title: string;
+  kind: SchedulerTriggerKind;
+  fireAt: Date;
+  ringTime: Date; // Main ring the trigger belongs to
+  path: SchedulerBackendId; // Backend the real alarm is scheduled with
+  audioTrack?: AudioTrack;
+  issues: SimulationIssue[];
+  event: SchedulerTriggerEvent;
+}
+
+export interface SimulationResult {
+  from: Date;
+  until: Date;
+  triggers: SimulatedTrigger[];
+}
+
+export interface SimulationOptions {
+  from?: Date;
+  days: number;
+  coverage?: NotificationCoverage | null;
+}
+
+/**
+ * Whether the ringing flow can play the track without falling back
+ */
+export function isTrackPlayable(track: AudioTrack | undefined): boolean {
+  if (!track?.uri || track.uri.trim() === '') return false;
+  return AudioManager.canPlayReliably(track);
+}
+
+/**
+ * Run the alarms on a virtual clock and collect every trigger that fires
+ * Alarms are copied - the store and the OS schedules are left alone
+ */
+export async function simulateAlarms(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  { from = new Date(), days, coverage }: SimulationOptions
+): Promise<SimulationResult> {
+  const until = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+  const clock = new VirtualClock(from);
+  const backend = new MemorySchedulerBackend(clock);
+  const alarmsById = new Map(alarms.map(alarm => [alarm.id, alarm]));
+
+  const fired: { event: SchedulerTriggerEvent; fireAt: Date }[] = [];
+  backend.onTrigger(event => fired.push({ event, fireAt: clock.now() }));
+
+  for (const alarm of alarms) {
+    if (!isAlarmEffectivelyActive(alarm, groups)) continue;
+
+    try {
+      await backend.schedule({ ...alarm });
+      // A pending snooze rings on top of the regular schedule
+      const snoozedUntil = alarm.snoozeState?.snoozedUntil;
+      if (snoozedUntil && new Date(snoozedUntil) > from) {
+        await backend.schedule(
+          {
+            ...alarm,
+            time: new Date(snoozedUntil),
+            wallClockTime: undefined,
+            repeatDays: undefined,
+            recurrence: undefined,
+            gentleWake: undefined,
+          },
+          { isSnooze: true }
+        );
+      }
+    } catch (error) {
+      console.warn('⚠️ Alarm has nothing to simulate:', alarm.id, error);
+    }
+  }
+
+  // Step from trigger to trigger, so each fires at its own virtual time
+  let [next] = await backend.list();
+  while (next && next.fireAt <= until) {
+    clock.set(next.fireAt);
+    [next] = await backend.list();
+  }
+
+  const triggers = fired.map(({ event, fireAt }): SimulatedTrigger => {
+    const alarm = alarmsById.get(event.alarmId);
+    const ringTime =
+      event.kind === 'gentle-wake' && alarm?.gentleWake
+        ? new Date(fireAt.getTime() + alarm.gentleWake.minutesBefore * 60000)
+        : fireAt;
+
+    return {
+      id: `${event.alarmId}:${event.kind}:${fireAt.getTime()}`,
+      alarmId: event.alarmId,
+      title: alarm?.title || 'Alarm',
+      kind: event.kind,
+      fireAt,
+      ringTime,
+      path: alarm ? alarmService.getBackendFor(alarm).id : backend.id,
+      audioTrack: event.audioTrack,
+      issues: alarm ? getAlarmIssues(alarm, ringTime, coverage) : [],
+      event,
+    };
+  });
+
+  flagOverlaps(triggers, alarmsById);
+  return { from, until, triggers };
+}
+
+/**
+ * Fire a simulated trigger now through the real ringing flow
+ * Times are shifted so the trigger looks like it is due right now
+ */
+export function fireSimulatedTrigger(trigger: SimulatedTrigger): void {
+  const scheduledTime = new Date(
+    Date.now() + trigger.ringTime.getTime() - trigger.fireAt.getTime()
+  );
+  alarmService.handleSchedulerTrigger({
+    ...trigger.event,
+    scheduledTime,
+    data: {
+      ...trigger.event.data,
+      scheduledTime: scheduledTime.toISOString(),
+      triggerTimestamp: scheduledTime.getTime(),
+    },
+  });
+}
+
+function getAlarmIssues(
+  alarm: Alarm,
+  ringTime: Date,
+  coverage: NotificationCoverage | null | undefined
+): SimulationIssue[] {
+  const issues: SimulationIssue[] = [];
+  const path = alarmService.getBackendFor(alarm).id;
+
+  if (!alarm.isNativeAlarm && !alarm.notificationIds?.length) {
+    issues.push({ type: 'not-scheduled' });
+  } else if (
+    (path === 'notifications' || path === 'background-audio') &&
+    coverage?.coveredUntil &&
+    ringTime > coverage.coveredUntil
+  ) {
+    issues.push({
+      type: 'beyond-horizon',
+      coveredUntil: coverage.coveredUntil,
+    });
+  }
+
+  if (!isTrackPlayable(alarm.audioTrack)) {
+    issues.push({ type: 'unplayable-track' });
+  }
+  return issues;
+}
+
+/**
+ * Mark rings whose busy window (gentle phase to end of ring) meets another alarm's
+ */
+function flagOverlaps(
+  triggers: SimulatedTrigger[],
+  alarmsById: Map<string, Alarm>
+): void {
+  const rings = triggers.filter(trigger => trigger.kind !== 'gentle-wake');
+  const windowOf = (trigger: SimulatedTrigger) => {
+    const minutesBefore =
+      trigger.kind === 'alarm'
+        ? (alarmsById.get(trigger.alarmId)?.gentleWake?.minutesBefore ?? 0)
+        : 0;
+    return {
+      start: trigger.ringTime.getTime() - minutesBefore * 60000,
+      end: trigger.ringTime.getTime() + RING_WINDOW_MS,
+    };
+  };
+
+  rings.forEach((ring, index) => {
+    const window = windowOf(ring);
+    rings.slice(index + 1).forEach(other => {
+      if (other.alarmId === ring.alarmId) return;
+      const otherWindow = windowOf(other);
+      if (otherWindow.start < window.end && window.start < otherWindow.end) {
+        ring.issues.push({ type: 'overlap', alarmId: other.alarmId });
+        other.issues.push({ type: 'overlap', alarmId: ring.alarmId });
+      }
+    });
+  });
+}
@@ -0,0 +1,142 @@
+import type { AlarmTimeMode, BaseAlarm } from '../../types/alarm';
+
+const MINUTE_MS = 60 * 1000;
+// DST shifts are at most an hour, a few zones shift by 30 minutes
+const DST_SHIFTS_MINUTES = [60, 30];
+const MAX_GAP_SEARCH_MINUTES = 120;
+const TIME_ZONE_CHECK_MS = 60 * 1000;
+
+export const DEFAULT_TIME_MODE: AlarmTimeMode = 'wall-clock';
+
+export function getTimeMode(alarm: Pick<BaseAlarm, 'timeMode'>): AlarmTimeMode {
+  return alarm.timeMode ?? DEFAULT_TIME_MODE;
+}
+
+// Local date and time as one comparable number, minute precision
+function localValue(ms: number): number {
+  const date = new Date(ms);
+  return Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes()
+  );
+}
+
+/**
+ * Instant a local date and time falls on, with DST edge cases pinned down:
+ * a time skipped by the spring jump rings when the gap ends (02:30 -> 03:00),
+ * a time repeated by the autumn fall-back rings at its first occurrence
+ */
+export function resolveLocalTime(
+  year: number,
+  monthIndex: number,
+  day: number,
+  hours: number,
+  minutes: number
+): Date {
+  const target = Date.UTC(year, monthIndex, day, hours, minutes);
+  let time = new Date(year, monthIndex, day, hours, minutes, 0, 0).getTime();
+
+  if (localValue(time) !== target) {
+    // Nonexistent - engines land on either side of the gap, find its end
+    for (let i = 0; i < MAX_GAP_SEARCH_MINUTES; i++) {
+      if (localValue(time) < target) {
+        time += MINUTE_MS;
+      } else if (localValue(time - MINUTE_MS) >= target) {
+        time -= MINUTE_MS;
+      } else {
+        break;
+      }
+    }
+    return new Date(time);
+  }
+
+  // Ambiguous - prefer the earlier of the two instants
+  for (const shift of DST_SHIFTS_MINUTES) {
+    const earlier = time - shift * MINUTE_MS;
+    if (localValue(earlier) === target) return new Date(earlier);
+  }
+  return new Date(time);
+}
+
+/**
+ * Local date and time as YYYY-MM-DDTHH:mm
+ */
+export function toWallClock(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * HH:mm the alarm rings at - wall-clock alarms use their stored wall clock, so
+ * an instant moved by a DST gap doesn't shift later occurrences
+ */
+export function getAlarmTimeOfDay(
+  alarm: Pick<BaseAlarm, 'time' | 'timeMode' | 'wallClockTime'>
+): string {
+  if (getTimeMode(alarm) === 'wall-clock' && alarm.wallClockTime) {
+    return alarm.wallClockTime.split('T')[1];
+  }
+  return toWallClock(new Date(alarm.time)).split('T')[1];
+}
+
+/**
+ * Instant of a YYYY-MM-DDTHH:mm wall-clock time in the current timezone
+ */
+export function fromWallClock(value: string): Date {
+  const [date, time] = value.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return resolveLocalTime(year, month - 1, day, hours, minutes);
+}
+
+/**
+ * Time and wall clock an alarm should carry in the current timezone, null when
+ * both are current. Wall-clock alarms keep their local time, absolute ones their instant
+ */
+export function resolveAlarmTime(
+  alarm: Pick<BaseAlarm, 'time' | 'timeMode' | 'wallClockTime'>
+): { time: Date; wallClockTime: string } | null {
+  const time = new Date(alarm.time);
+
+  // Alarms from before wall clocks were stored were set in this timezone
+  if (getTimeMode(alarm) === 'absolute' || !alarm.wallClockTime) {
+    const wallClockTime = toWallClock(time);
+    return wallClockTime === alarm.wallClockTime
+      ? null
+      : { time, wallClockTime };
+  }
+
+  const resolved = fromWallClock(alarm.wallClockTime);
+  return resolved.getTime() === time.getTime()
+    ? null
+    : { time: resolved, wallClockTime: alarm.wallClockTime };
+}
+
+/**
+ * Identifies the device timezone and its current offset (changes with travel and DST)
+ */
+export function getTimeZoneSignature(date: Date = new Date()): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return `${zone}|${date.getTimezoneOffset()}`;
+}
+
+/**
+ * Poll for timezone changes while the app runs, returns the stop function
+ */
+export function watchTimeZone(
+  onChange: (signature: string) => void,
+  intervalMs: number = TIME_ZONE_CHECK_MS
+): () => void {
+  let signature = getTimeZoneSignature();
+  const timer = setInterval(() => {
+    const current = getTimeZoneSignature();
+    if (current !== signature) {
+      signature = current;
+      onChange(current);
+    }
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
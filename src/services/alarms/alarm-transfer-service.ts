@@ -0,0 +1,160 @@
+import { Platform, Share } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+import type { AudioTrack } from '../audio/types';
+import { SoundLibrary } from '../audio/SoundLibrary';
+import { toDateKey } from './recurrence';
+import { buildAlarmCalendar } from '../calendar/ics-writer';
+import {
+  AlarmExportParseResult,
+  ExportedAudioTrack,
+  buildAlarmExport,
+  parseAlarmExport,
+} from './alarm-transfer';
+
+export interface ResolvedTrack {
+  track: AudioTrack;
+  isFallback: boolean; // Original sound isn't on this device
+}
+
+/**
+ * Alarm backups as JSON files - export/share and import from a picked file
+ * Also shares the .ics alarm calendar and reads calendar files for import
+ */
+export class AlarmTransferService {
+  private static instance: AlarmTransferService;
+
+  static getInstance(): AlarmTransferService {
+    if (!AlarmTransferService.instance) {
+      AlarmTransferService.instance = new AlarmTransferService();
+    }
+    return AlarmTransferService.instance;
+  }
+
+  /**
+   * Write the alarms to a JSON file in the cache directory
+   */
+  async exportToFile(alarms: Alarm[], groups: AlarmGroup[]): Promise<string> {
+    const file = buildAlarmExport(alarms, groups);
+    const uri = `${FileSystem.cacheDirectory}vibewake-alarms-${toDateKey(new Date())}.json`;
+    await FileSystem.writeAsStringAsync(uri, JSON.stringify(file, null, 2));
+    console.log('📤 Exported alarms:', file.alarms.length, uri);
+    return uri;
+  }
+
+  /**
+   * Export and open the share sheet, resolves to the number of alarms shared
+   */
+  async shareExport(alarms: Alarm[], groups: AlarmGroup[]): Promise<number> {
+    const uri = await this.exportToFile(alarms, groups);
+    await this.shareFile(uri, 'VibeWake alarms');
+    return alarms.filter(alarm => !alarm.isNap).length;
+  }
+
+  /**
+   * Regenerate the .ics feed of upcoming alarms and open the share sheet
+   */
+  async shareCalendar(
+    alarms: Alarm[],
+    groups: AlarmGroup[],
+    weeks: number
+  ): Promise<void> {
+    // Same file name every time, so re-importing replaces the old feed
+    const uri = `${FileSystem.cacheDirectory}vibewake-alarms.ics`;
+    await FileSystem.writeAsStringAsync(
+      uri,
+      buildAlarmCalendar(alarms, groups, weeks)
+    );
+    console.log('📅 Exported alarm calendar for weeks:', weeks, uri);
+    await this.shareFile(uri, 'VibeWake alarm calendar');
+  }
+
+  private async shareFile(uri: string, title: string): Promise<void> {
+    // Android's share sheet takes text only - share the content itself
+    if (Platform.OS === 'android') {
+      const content = await FileSystem.readAsStringAsync(uri);
+      await Share.share({ title, message: content });
+    } else {
+      await Share.share({ title, url: uri });
+    }
+  }
+
+  /**
+   * Let the user pick a file and read it as text, null when cancelled
+   */
+  async pickTextFile(): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      // JSON and .ics files often arrive as octet-stream, filter by content instead
+      type: '*/*',
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+
+    if (result.canceled) {
+      console.log('👤 User cancelled import');
+      return null;
+    }
+
+    return FileSystem.readAsStringAsync(result.assets[0].uri);
+  }
+
+  /**
+   * Let the user pick an export file, null when cancelled
+   * Throws when the file can't be read or isn't an alarm export
+   */
+  async pickImportFile(): Promise<AlarmExportParseResult | null> {
+    const content = await this.pickTextFile();
+    if (content === null) return null;
+
+    const parsed = parseAlarmExport(content);
+    console.log(
+      '📥 Parsed alarm export:',
+      parsed.alarms.length,
+      'skipped:',
+      parsed.skipped.length
+    );
+    return parsed;
+  }
+
+  /**
+   * Find the exported sound on this device, or fall back to a predefined sound
+   */
+  async resolveTrack(exported: ExportedAudioTrack): Promise<ResolvedTrack> {
+    try {
+      if (exported.type === 'predefined') {
+        const sound = SoundLibrary.getSoundById(exported.id);
+        if (sound) {
+          return {
+            track: await SoundLibrary.convertToAudioTrack(sound),
+            isFallback: false,
+          };
+        }
+      } else if (exported.uri?.startsWith('http')) {
+        // Streamed tracks (Spotify previews) don't depend on local files
+        return {
+          track: { ...exported, uri: exported.uri },
+          isFallback: false,
+        };
+      } else if (exported.uri) {
+        const info = await FileSystem.getInfoAsync(exported.uri);
+        if (info.exists) {
+          return {
+            track: { ...exported, uri: exported.uri },
+            isFallback: false,
+          };
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to resolve imported sound:', exported.id, error);
+    }
+
+    const fallback = SoundLibrary.getAllSounds()[0];
+    return {
+      track: await SoundLibrary.convertToAudioTrack(fallback),
+      isFallback: true,
+    };
+  }
+}
+
+export const alarmTransferService = AlarmTransferService.getInstance();
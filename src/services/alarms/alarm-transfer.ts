@@ -0,0 +1,489 @@
+import type {
+  Alarm,
+  AlarmCreateData,
+  AlarmException,
+  AlarmGroup,
+  AlarmMissionConfig,
+  AlarmTimeMode,
+  AwakeCheckConfig,
+  EscalationConfig,
+  GentleWakeConfig,
+  RecurrenceRule,
+  SnoozePolicy,
+  VolumeRamp,
+} from '../../types/alarm';
+import type { AudioTrack } from '../audio/types';
+import { VOLUME_CURVES } from '../audio/volume-ramp';
+import {
+  MISSION_DIFFICULTIES,
+  MISSION_TYPES,
+  MOTION_MISSION_TYPES,
+} from '../missions/mission-registry';
+import { getRecurrenceRule, parseDateKey, toDateKey } from './recurrence';
+
+export const ALARM_EXPORT_FORMAT = 'vibewake-alarms';
+export const ALARM_EXPORT_VERSION = 1;
+
+/**
+ * Track reference - predefined sounds are resolved by ID on the importing device,
+ * uploaded files and Spotify tracks by URI
+ */
+export interface ExportedAudioTrack {
+  id: string;
+  name: string;
+  type: AudioTrack['type'];
+  uri?: string;
+  artist?: string;
+  duration?: number;
+}
+
+/**
+ * Device-independent alarm - wall-clock time, no scheduling state
+ */
+export interface ExportedAlarm {
+  title: string;
+  time: string; // HH:mm
+  date?: string; // YYYY-MM-DD, one-time alarms only
+  isActive: boolean;
+  audioTrack: ExportedAudioTrack;
+  repeatDays?: number[];
+  recurrence?: RecurrenceRule;
+  exceptions?: AlarmException[];
+  snoozePolicy?: SnoozePolicy;
+  mission?: AlarmMissionConfig;
+  volumeRamp?: VolumeRamp;
+  gentleWake?: GentleWakeConfig;
+  escalation?: EscalationConfig;
+  awakeCheck?: AwakeCheckConfig;
+  timeMode?: AlarmTimeMode;
+  group?: string; // Group name, matched by name on import
+}
+
+export interface AlarmExportFile {
+  format: typeof ALARM_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO
+  alarms: ExportedAlarm[];
+}
+
+export interface AlarmExportParseResult {
+  alarms: ExportedAlarm[];
+  skipped: string[]; // Why entries were left out
+}
+
+/**
+ * Import candidate shown in the preview
+ */
+export interface AlarmImportItem {
+  alarm: ExportedAlarm;
+  duplicateOf?: Alarm; // Existing alarm with the same title, time and schedule
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TRACK_TYPES: AudioTrack['type'][] = ['predefined', 'uploaded', 'spotify'];
+const RECURRENCE_TYPES: RecurrenceRule['type'][] = [
+  'weekly',
+  'daily',
+  'dates',
+  'monthly',
+];
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes()
+  ).padStart(2, '0')}`;
+}
+
+function toExportedTrack(track: AudioTrack): ExportedAudioTrack {
+  return {
+    id: track.id,
+    name: track.name,
+    type: track.type,
+    // Predefined asset URIs are device-specific
+    uri: track.type === 'predefined' ? undefined : track.uri,
+    artist: track.artist,
+    duration: track.duration,
+  };
+}
+
+export function toExportedAlarm(
+  alarm: Alarm,
+  groups: AlarmGroup[]
+): ExportedAlarm {
+  const time = new Date(alarm.time);
+  const repeating = getRecurrenceRule(alarm) !== null;
+
+  return {
+    title: alarm.title,
+    time: toTimeString(time),
+    date: repeating ? undefined : toDateKey(time),
+    isActive: alarm.isActive,
+    audioTrack: toExportedTrack(alarm.audioTrack),
+    repeatDays: alarm.repeatDays,
+    recurrence: alarm.recurrence,
+    exceptions: alarm.exceptions,
+    snoozePolicy: alarm.snoozePolicy,
+    mission: alarm.mission,
+    volumeRamp: alarm.volumeRamp,
+    gentleWake: alarm.gentleWake,
+    escalation: alarm.escalation,
+    awakeCheck: alarm.awakeCheck,
+    timeMode: alarm.timeMode,
+    group: groups.find(group => group.id === alarm.groupId)?.name,
+  };
+}
+
+/**
+ * Export file for the given alarms - naps are left out
+ */
+export function buildAlarmExport(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  now: Date = new Date()
+): AlarmExportFile {
+  return {
+    format: ALARM_EXPORT_FORMAT,
+    version: ALARM_EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    alarms: alarms
+      .filter(alarm => !alarm.isNap)
+      .map(alarm => toExportedAlarm(alarm, groups)),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWeekdayList(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+  );
+}
+
+function isDateKeyList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every(date => typeof date === 'string' && DATE_PATTERN.test(date))
+  );
+}
+
+function validateRecurrence(rule: unknown): string | null {
+  if (!isObject(rule) || !RECURRENCE_TYPES.includes(rule.type)) {
+    return 'unknown repeat rule';
+  }
+  if (rule.startDate !== undefined && !DATE_PATTERN.test(rule.startDate)) {
+    return 'invalid repeat start date';
+  }
+  if (rule.endDate !== undefined && !DATE_PATTERN.test(rule.endDate)) {
+    return 'invalid repeat end date';
+  }
+  if (
+    rule.count !== undefined &&
+    !(Number.isInteger(rule.count) && rule.count > 0)
+  ) {
+    return 'invalid repeat count';
+  }
+
+  switch (rule.type) {
+    case 'weekly':
+      return isWeekdayList(rule.weekdays) && rule.weekdays.length > 0
+        ? null
+        : 'weekly rule without weekdays';
+    case 'daily':
+      return Number.isInteger(rule.intervalDays) && rule.intervalDays > 0
+        ? null
+        : 'invalid daily interval';
+    case 'dates':
+      return isDateKeyList(rule.dates) && rule.dates.length > 0
+        ? null
+        : 'date rule without dates';
+    case 'monthly':
+      return rule.dayOfMonth !== undefined || rule.weekday !== undefined
+        ? null
+        : 'monthly rule without a day';
+  }
+  return null;
+}
+
+function validateExceptions(exceptions: unknown): string | null {
+  if (!Array.isArray(exceptions)) return 'invalid exceptions';
+  const valid = exceptions.every(
+    exception =>
+      isObject(exception) &&
+      DATE_PATTERN.test(exception.date) &&
+      (exception.type === 'skip' ||
+        (exception.type === 'move' && TIME_PATTERN.test(exception.time)))
+  );
+  return valid ? null : 'invalid exceptions';
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function isVolume(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isValidSnoozePolicy(policy: unknown): boolean {
+  return (
+    isObject(policy) &&
+    typeof policy.enabled === 'boolean' &&
+    isPositiveNumber(policy.durationMinutes) &&
+    Number.isInteger(policy.maxSnoozes) &&
+    policy.maxSnoozes >= 0 &&
+    (policy.followUpMinutes === undefined ||
+      (Array.isArray(policy.followUpMinutes) &&
+        policy.followUpMinutes.every(isPositiveNumber)))
+  );
+}
+
+// The ringing screen can't be dismissed without a mission it can run
+function isValidMission(mission: unknown): boolean {
+  return (
+    isObject(mission) &&
+    [...MISSION_TYPES, ...MOTION_MISSION_TYPES].includes(mission.type) &&
+    MISSION_DIFFICULTIES.includes(mission.difficulty) &&
+    Number.isInteger(mission.rounds) &&
+    mission.rounds >= 1 &&
+    (mission.target === undefined ||
+      (Number.isInteger(mission.target) && mission.target >= 1)) &&
+    (mission.threshold === undefined || isPositiveNumber(mission.threshold))
+  );
+}
+
+function isValidVolumeRamp(ramp: unknown): boolean {
+  return (
+    isObject(ramp) &&
+    isVolume(ramp.startVolume) &&
+    isVolume(ramp.targetVolume) &&
+    (ramp.durationSeconds === 0 || isPositiveNumber(ramp.durationSeconds)) &&
+    VOLUME_CURVES.includes(ramp.curve)
+  );
+}
+
+function isValidGentleWake(config: unknown): boolean {
+  return (
+    isObject(config) &&
+    isPositiveNumber(config.minutesBefore) &&
+    typeof config.soundId === 'string' &&
+    isVolume(config.volume)
+  );
+}
+
+function isValidEscalation(config: unknown): boolean {
+  return (
+    isObject(config) &&
+    typeof config.enabled === 'boolean' &&
+    isPositiveNumber(config.afterMinutes) &&
+    typeof config.backupSoundId === 'string' &&
+    typeof config.vibrate === 'boolean'
+  );
+}
+
+function isValidAwakeCheck(config: unknown): boolean {
+  return (
+    isObject(config) &&
+    isPositiveNumber(config.minutesAfter) &&
+    isPositiveNumber(config.responseMinutes)
+  );
+}
+
+/**
+ * Why an exported alarm can't be imported, null when it's valid
+ */
+export function validateExportedAlarm(alarm: unknown): string | null {
+  if (!isObject(alarm)) return 'not an alarm';
+  if (typeof alarm.title !== 'string') return 'missing title';
+  if (typeof alarm.time !== 'string' || !TIME_PATTERN.test(alarm.time)) {
+    return 'invalid time';
+  }
+  if (alarm.date !== undefined && !DATE_PATTERN.test(alarm.date)) {
+    return 'invalid date';
+  }
+  if (typeof alarm.isActive !== 'boolean') return 'missing on/off state';
+
+  const track = alarm.audioTrack;
+  if (
+    !isObject(track) ||
+    typeof track.id !== 'string' ||
+    typeof track.name !== 'string' ||
+    !TRACK_TYPES.includes(track.type)
+  ) {
+    return 'invalid sound';
+  }
+
+  if (alarm.repeatDays !== undefined && !isWeekdayList(alarm.repeatDays)) {
+    return 'invalid repeat days';
+  }
+  if (alarm.recurrence !== undefined) {
+    const error = validateRecurrence(alarm.recurrence);
+    if (error) return error;
+  }
+  if (alarm.exceptions !== undefined) {
+    const error = validateExceptions(alarm.exceptions);
+    if (error) return error;
+  }
+  if (
+    alarm.snoozePolicy !== undefined &&
+    !isValidSnoozePolicy(alarm.snoozePolicy)
+  ) {
+    return 'invalid snooze settings';
+  }
+  if (alarm.mission !== undefined && !isValidMission(alarm.mission)) {
+    return 'invalid mission';
+  }
+  if (alarm.volumeRamp !== undefined && !isValidVolumeRamp(alarm.volumeRamp)) {
+    return 'invalid volume ramp';
+  }
+  if (alarm.gentleWake !== undefined && !isValidGentleWake(alarm.gentleWake)) {
+    return 'invalid gentle wake';
+  }
+  if (alarm.escalation !== undefined && !isValidEscalation(alarm.escalation)) {
+    return 'invalid escalation';
+  }
+  if (alarm.awakeCheck !== undefined && !isValidAwakeCheck(alarm.awakeCheck)) {
+    return 'invalid awake check';
+  }
+  if (
+    alarm.timeMode !== undefined &&
+    alarm.timeMode !== 'wall-clock' &&
+    alarm.timeMode !== 'absolute'
+  ) {
+    return 'invalid time mode';
+  }
+  if (alarm.group !== undefined && typeof alarm.group !== 'string') {
+    return 'invalid group';
+  }
+  return null;
+}
+
+/**
+ * Parse and validate an export file
+ * Throws when the file as a whole is unusable, skips invalid alarms
+ */
+export function parseAlarmExport(text: string): AlarmExportParseResult {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!isObject(file) || file.format !== ALARM_EXPORT_FORMAT) {
+    throw new Error('This file is not a VibeWake alarm export');
+  }
+  if (!Number.isInteger(file.version) || file.version < 1) {
+    throw new Error('This export has an unknown version');
+  }
+  if (file.version > ALARM_EXPORT_VERSION) {
+    throw new Error(
+      'This export was made by a newer version of VibeWake - update the app to import it'
+    );
+  }
+  if (!Array.isArray(file.alarms)) {
+    throw new Error('This export contains no alarms');
+  }
+
+  const alarms: ExportedAlarm[] = [];
+  const skipped: string[] = [];
+  file.alarms.forEach((alarm: unknown, index: number) => {
+    const error = validateExportedAlarm(alarm);
+    if (error) {
+      const title =
+        isObject(alarm) && typeof alarm.title === 'string' && alarm.title
+          ? `"${alarm.title}"`
+          : `Alarm ${index + 1}`;
+      skipped.push(`${title}: ${error}`);
+    } else {
+      alarms.push(alarm as ExportedAlarm);
+    }
+  });
+
+  return { alarms, skipped };
+}
+
+function duplicateKey(alarm: ExportedAlarm): string {
+  const rule = getRecurrenceRule({
+    time: new Date(),
+    repeatDays: alarm.repeatDays,
+    recurrence: alarm.recurrence,
+  });
+  return [
+    alarm.title.trim().toLowerCase(),
+    alarm.time,
+    rule ? JSON.stringify(rule) : 'once',
+  ].join('|');
+}
+
+/**
+ * Pair every imported alarm with the existing alarm it duplicates, if any
+ */
+export function planAlarmImport(
+  alarms: ExportedAlarm[],
+  existing: Alarm[],
+  groups: AlarmGroup[]
+): AlarmImportItem[] {
+  const existingByKey = new Map(
+    existing
+      .filter(alarm => !alarm.isNap)
+      .map(alarm => [duplicateKey(toExportedAlarm(alarm, groups)), alarm])
+  );
+
+  return alarms.map(alarm => ({
+    alarm,
+    duplicateOf: existingByKey.get(duplicateKey(alarm)),
+  }));
+}
+
+/**
+ * Next time the imported alarm should ring - kept on its date when that is
+ * still ahead, otherwise the next occurrence of its wall-clock time
+ */
+export function resolveImportedTime(
+  alarm: ExportedAlarm,
+  now: Date = new Date()
+): Date {
+  const [hours, minutes] = alarm.time.split(':').map(Number);
+
+  if (alarm.date) {
+    const onDate = parseDateKey(alarm.date);
+    onDate.setHours(hours, minutes, 0, 0);
+    if (onDate > now) return onDate;
+  }
+
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next;
+}
+
+/**
+ * Alarm creation data for an imported alarm with its track already resolved
+ * The group is assigned by name on import, see importAlarms
+ */
+export function toAlarmCreateData(
+  alarm: ExportedAlarm,
+  audioTrack: AudioTrack,
+  now: Date = new Date()
+): AlarmCreateData {
+  return {
+    title: alarm.title,
+    time: resolveImportedTime(alarm, now),
+    isActive: alarm.isActive,
+    audioTrack,
+    repeatDays: alarm.repeatDays,
+    recurrence: alarm.recurrence,
+    exceptions: alarm.exceptions,
+    snoozePolicy: alarm.snoozePolicy,
+    mission: alarm.mission,
+    volumeRamp: alarm.volumeRamp,
+    gentleWake: alarm.gentleWake,
+    escalation: alarm.escalation,
+    awakeCheck: alarm.awakeCheck,
+    timeMode: alarm.timeMode,
+  };
+}
@@ -0,0 +1,32 @@
+import type { AwakeCheckConfig } from '../../types/alarm';
+
+export const DEFAULT_AWAKE_CHECK: AwakeCheckConfig = {
+  minutesAfter: 5,
+  responseMinutes: 2,
+};
+
+export const AWAKE_CHECK_MINUTES_OPTIONS = [3, 5, 10, 15];
+export const AWAKE_CHECK_RESPONSE_OPTIONS = [1, 2, 5];
+
+/**
+ * When the check appears, and by when it must be acknowledged
+ */
+export function getAwakeCheckTimes(
+  config: AwakeCheckConfig,
+  dismissedAt: Date = new Date()
+): { checkAt: Date; deadline: Date } {
+  const checkAt = new Date(
+    dismissedAt.getTime() + Math.max(1, config.minutesAfter) * 60 * 1000
+  );
+  const deadline = new Date(
+    checkAt.getTime() + Math.max(1, config.responseMinutes) * 60 * 1000
+  );
+  return { checkAt, deadline };
+}
+
+/**
+ * Short human description, e.g. "Check 5 min after dismissal, 2 min to answer"
+ */
+export function describeAwakeCheck(config: AwakeCheckConfig): string {
+  return `Check ${config.minutesAfter} min after dismissal, ${config.responseMinutes} min to answer`;
+}
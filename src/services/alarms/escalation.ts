@@ -0,0 +1,93 @@
+import type {
+  BaseAlarm,
+  EscalationConfig,
+  EscalationStep,
+  VolumeRamp,
+} from '../../types/alarm';
+import { PredefinedSound, SoundLibrary } from '../audio/SoundLibrary';
+
+// Opt-in per alarm - existing alarms keep ringing as before
+export const DEFAULT_ESCALATION: EscalationConfig = {
+  enabled: false,
+  afterMinutes: 3,
+  backupSoundId: 'energetic',
+  vibrate: false,
+};
+
+export const ESCALATION_MINUTES_OPTIONS = [1, 2, 3, 5, 10];
+
+// Notifications keep coming back this many times before the ladder ends
+export const MAX_RENOTIFY_STEPS = 5;
+
+// Escalated sounds play at full volume straight away
+export const ESCALATED_VOLUME_RAMP: VolumeRamp = {
+  startVolume: 1,
+  targetVolume: 1,
+  durationSeconds: 0,
+  curve: 'linear',
+};
+
+export const ESCALATION_STEP_LABELS: Record<EscalationStep, string> = {
+  volume: 'Full volume',
+  'backup-sound': 'Backup sound',
+  renotify: 'Notification again',
+  vibrate: 'Vibration',
+};
+
+export interface EscalationRung {
+  step: EscalationStep;
+  afterMs: number; // Ringing time before the step runs
+  level: number; // 1-based position on the ladder
+}
+
+/**
+ * Resolve the effective escalation of an alarm
+ */
+export function getEscalation(
+  alarm: Pick<BaseAlarm, 'escalation'>
+): EscalationConfig {
+  return alarm.escalation ?? DEFAULT_ESCALATION;
+}
+
+/**
+ * Loud sounds suitable as the backup
+ */
+export function getBackupSounds(): PredefinedSound[] {
+  return [
+    ...SoundLibrary.getSoundsByCategory('energetic'),
+    ...SoundLibrary.getSoundsByCategory('classic'),
+  ];
+}
+
+/**
+ * Steps in the order they run - vibration stacks onto the first one
+ */
+export function getEscalationLadder(
+  config: EscalationConfig
+): EscalationRung[] {
+  if (!config.enabled || config.afterMinutes <= 0) return [];
+
+  const stepMs = config.afterMinutes * 60 * 1000;
+  const steps: EscalationStep[] = [
+    'volume',
+    ...(config.vibrate ? (['vibrate'] as const) : []),
+    'backup-sound',
+    ...Array<EscalationStep>(MAX_RENOTIFY_STEPS).fill('renotify'),
+  ];
+
+  let level = 0;
+  return steps.map(step => {
+    // Vibration shares the volume step's slot
+    if (step !== 'vibrate') level++;
+    return { step, afterMs: level * stepMs, level };
+  });
+}
+
+/**
+ * Short human description, e.g. "Every 3 min: louder, backup sound, notifications"
+ */
+export function describeEscalation(config: EscalationConfig): string {
+  if (!config.enabled) return 'Off';
+  const vibration = config.vibrate ? ', vibration' : '';
+  return `Every ${config.afterMinutes} min: louder${vibration}, backup sound, notifications`;
+}
@@ -0,0 +1,33 @@
+import type { BaseAlarm, GentleWakeConfig } from '../../types/alarm';
+import { PredefinedSound, SoundLibrary } from '../audio/SoundLibrary';
+
+export const DEFAULT_GENTLE_WAKE: GentleWakeConfig = {
+  minutesBefore: 10,
+  soundId: 'nature',
+  volume: 0.15,
+};
+
+export const GENTLE_WAKE_MINUTES_OPTIONS = [5, 10, 15, 20, 30];
+
+/**
+ * Calm sounds suitable for the gentle wake phase
+ */
+export function getGentleWakeSounds(): PredefinedSound[] {
+  return [
+    ...SoundLibrary.getSoundsByCategory('nature'),
+    ...SoundLibrary.getSoundsByCategory('gentle'),
+  ];
+}
+
+/**
+ * When the gentle phase of an occurrence starts, null if the alarm has none
+ */
+export function getGentleWakeStart(
+  alarm: Pick<BaseAlarm, 'gentleWake'>,
+  occurrence: Date
+): Date | null {
+  if (!alarm.gentleWake || alarm.gentleWake.minutesBefore <= 0) return null;
+  return new Date(
+    occurrence.getTime() - alarm.gentleWake.minutesBefore * 60 * 1000
+  );
+}
@@ -0,0 +1,187 @@
+import type { Alarm, AlarmGroup, AlarmHistoryEvent } from '../../types/alarm';
+import { isAlarmEffectivelyActive } from './alarm-groups';
+import { isRepeating, occurrencesUntil } from './recurrence';
+
+// Occurrences this recent may still be on their way
+export const DELIVERY_GRACE_MS = 2 * 60 * 1000;
+// Events this far from an occurrence belong to another one
+const MATCH_BEFORE_MS = 2 * 60 * 1000;
+const MATCH_AFTER_MS = 3 * 60 * 60 * 1000;
+
+export type MissedAlarmCause =
+  'permissions-revoked' | 'not-delivered' | 'app-force-quit';
+
+export const MISSED_ALARM_CAUSE_INFO: Record<
+  MissedAlarmCause,
+  { label: string; steps: string[] }
+> = {
+  'permissions-revoked': {
+    label: 'Notifications are turned off for VibeWake',
+    steps: [
+      'Open Settings and allow notifications for VibeWake',
+      'Turn on sounds and time-sensitive alerts',
+    ],
+  },
+  'not-delivered': {
+    label: 'The alarm notification never arrived',
+    steps: [
+      'Keep the phone on and charged overnight',
+      'Let VibeWake alarms through Focus and Do Not Disturb',
+    ],
+  },
+  'app-force-quit': {
+    label: 'VibeWake was closed when the alarm was due',
+    steps: [
+      `Don't swipe VibeWake away from the app switcher at night`,
+      'Open VibeWake once after restarting the phone',
+    ],
+  },
+};
+
+export interface MissedAlarm {
+  id: string;
+  alarmId: string;
+  title: string;
+  scheduledTime: Date;
+  cause: MissedAlarmCause;
+}
+
+/**
+ * Alarm notification the OS delivered, still in the notification center
+ */
+export interface DeliveredAlarm {
+  alarmId: string;
+  scheduledTime: Date;
+}
+
+export interface MissedAlarmContext {
+  from: Date; // Occurrences after this are checked
+  until: Date; // ...up to and including this
+  permissionsGranted: boolean;
+  launchedAt: Date; // When the app process started
+  // On iOS a ring delivered in the background never reaches JS unless tapped
+  delivered: DeliveredAlarm[];
+}
+
+// Any of these shows the alarm went off, or was already flagged
+const HANDLED_EVENT_TYPES = new Set<AlarmHistoryEvent['type']>([
+  'triggered',
+  'ringing_shown',
+  'snoozed',
+  'dismissed',
+  'missed',
+]);
+
+/**
+ * Occurrences of an alarm that were due in the (from, until] window
+ * Edits restart the window, earlier occurrences were set up differently
+ */
+export function getDueOccurrences(
+  alarm: Alarm,
+  from: Date,
+  until: Date
+): Date[] {
+  const updatedAt = new Date(alarm.updatedAt);
+  const start = updatedAt > from ? updatedAt : from;
+  if (start >= until) return [];
+
+  if (!isRepeating(alarm)) {
+    const time = new Date(alarm.time);
+    return time > start && time <= until ? [time] : [];
+  }
+  return occurrencesUntil(alarm, start, until);
+}
+
+/**
+ * Whether the log shows the occurrence went off
+ * A dismissal during the gentle phase comes before the ring time
+ */
+export function wasOccurrenceHandled(
+  alarm: Pick<Alarm, 'id' | 'gentleWake'>,
+  scheduledTime: Date,
+  events: AlarmHistoryEvent[]
+): boolean {
+  const time = scheduledTime.getTime();
+  const leadMs = (alarm.gentleWake?.minutesBefore ?? 0) * 60 * 1000;
+  return events.some(event => {
+    if (event.alarmId !== alarm.id || !HANDLED_EVENT_TYPES.has(event.type)) {
+      return false;
+    }
+    const eventTime = (event.scheduledTime ?? event.timestamp).getTime();
+    return (
+      eventTime >= time - leadMs - MATCH_BEFORE_MS &&
+      eventTime <= time + MATCH_AFTER_MS
+    );
+  });
+}
+
+/**
+ * Whether the OS delivered the occurrence's notification
+ */
+export function wasOccurrenceDelivered(
+  alarm: Pick<Alarm, 'id'>,
+  scheduledTime: Date,
+  delivered: DeliveredAlarm[]
+): boolean {
+  // Payloads carry the occurrence time itself, gentle wake included
+  return delivered.some(
+    notification =>
+      notification.alarmId === alarm.id &&
+      Math.abs(
+        notification.scheduledTime.getTime() - scheduledTime.getTime()
+      ) <= MATCH_BEFORE_MS
+  );
+}
+
+/**
+ * Most likely reason nothing was recorded for an occurrence
+ * AlarmKit rings without the app or notification permission
+ */
+export function inferMissedCause(
+  alarm: Alarm,
+  scheduledTime: Date,
+  { permissionsGranted, launchedAt }: MissedAlarmContext
+): MissedAlarmCause {
+  if (alarm.isNativeAlarm) return 'not-delivered';
+  if (!permissionsGranted) return 'permissions-revoked';
+  // Notifications only ring in the app - it wasn't running when it was due
+  if (scheduledTime < launchedAt) return 'app-force-quit';
+  return 'not-delivered';
+}
+
+/**
+ * Occurrences in the window with no trigger, dismissal or earlier flag in the
+ * log, and no delivered notification
+ */
+export function findMissedAlarms(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  events: AlarmHistoryEvent[],
+  context: MissedAlarmContext
+): MissedAlarm[] {
+  const missed: MissedAlarm[] = [];
+
+  alarms.forEach(alarm => {
+    if (!isAlarmEffectivelyActive(alarm, groups)) return;
+
+    getDueOccurrences(alarm, context.from, context.until).forEach(time => {
+      if (
+        wasOccurrenceHandled(alarm, time, events) ||
+        wasOccurrenceDelivered(alarm, time, context.delivered)
+      ) {
+        return;
+      }
+      missed.push({
+        id: `${alarm.id}:${time.getTime()}`,
+        alarmId: alarm.id,
+        title: alarm.title || 'Alarm',
+        scheduledTime: time,
+        cause: inferMissedCause(alarm, time, context),
+      });
+    });
+  });
+
+  return missed.sort(
+    (a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime()
+  );
+}
@@ -0,0 +1,62 @@
+import type { Alarm } from '../../types/alarm';
+
+export const NAP_PRESETS = [10, 20, 25, 30, 45, 60, 90];
+export const DEFAULT_NAP_MINUTES = 25;
+export const NAP_DURATION_RANGE = { min: 1, max: 180 };
+// A nap still undismissed this long after it rang was stopped outside the app
+const NAP_RING_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Ring time of a nap started at `from`, to the second
+ */
+export function getNapEndTime(minutes: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Whether a nap rang and was stopped without the ringing screen (AlarmKit,
+ * a swiped notification) - its ring and any snooze lie past the ring window
+ */
+export function isNapOver(
+  alarm: Pick<Alarm, 'isNap' | 'time' | 'snoozeState'>,
+  now: Date = new Date()
+): boolean {
+  if (!alarm.isNap) return false;
+  const lastRing = Math.max(
+    new Date(alarm.time).getTime(),
+    alarm.snoozeState ? new Date(alarm.snoozeState.snoozedUntil).getTime() : 0
+  );
+  return now.getTime() - lastRing > NAP_RING_WINDOW_MS;
+}
+
+export function clampNapMinutes(minutes: number): number {
+  return Math.max(
+    NAP_DURATION_RANGE.min,
+    Math.min(NAP_DURATION_RANGE.max, Math.round(minutes))
+  );
+}
+
+/**
+ * Nap length as e.g. "25 min" or "1h 30m"
+ */
+export function describeNap(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return rest === 0
+    ? `${minutes / 60}h`
+    : `${Math.floor(minutes / 60)}h ${rest}m`;
+}
+
+/**
+ * Remaining time as M:SS or H:MM:SS, 0:00 once elapsed
+ */
+export function formatCountdown(remainingMs: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
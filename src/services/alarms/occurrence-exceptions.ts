@@ -0,0 +1,79 @@
+import type { AlarmException } from '../../types/alarm';
+import {
+  RecurringAlarm,
+  getException,
+  getNextOccurrence,
+  parseDateKey,
+  toDateKey,
+} from './recurrence';
+
+/**
+ * Add or replace the exception for its date
+ */
+export function upsertException(
+  exceptions: AlarmException[] | undefined,
+  exception: AlarmException
+): AlarmException[] {
+  return [
+    ...(exceptions || []).filter(existing => existing.date !== exception.date),
+    exception,
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function removeExceptionForDate(
+  exceptions: AlarmException[] | undefined,
+  dateKey: string
+): AlarmException[] {
+  return (exceptions || []).filter(exception => exception.date !== dateKey);
+}
+
+/**
+ * Drop exceptions for days that are already over
+ */
+export function pruneExceptions(
+  exceptions: AlarmException[] | undefined,
+  now: Date = new Date()
+): AlarmException[] | undefined {
+  const todayKey = toDateKey(now);
+  const remaining = (exceptions || []).filter(
+    exception => exception.date >= todayKey
+  );
+  return remaining.length > 0 ? remaining : undefined;
+}
+
+/**
+ * Exception affecting the next regular occurrence, used for "skipped tomorrow" style hints
+ */
+export function getUpcomingException(
+  alarm: RecurringAlarm,
+  now: Date = new Date()
+): AlarmException | undefined {
+  if (!alarm.exceptions?.length) return undefined;
+
+  const regular = getNextOccurrence({ ...alarm, exceptions: undefined }, now);
+  return regular ? getException(alarm, toDateKey(regular)) : undefined;
+}
+
+/**
+ * "today", "tomorrow" or a short date for an occurrence day
+ */
+export function describeOccurrenceDay(
+  dateKey: string,
+  now: Date = new Date()
+): string {
+  const todayKey = toDateKey(now);
+  const tomorrow = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + 1
+  );
+
+  if (dateKey === todayKey) return 'today';
+  if (dateKey === toDateKey(tomorrow)) return 'tomorrow';
+
+  return parseDateKey(dateKey).toLocaleDateString([], {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'numeric',
+  });
+}
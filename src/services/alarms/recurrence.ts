@@ -0,0 +1,326 @@
+import type {
+  AlarmException,
+  BaseAlarm,
+  RecurrenceRule,
+} from '../../types/alarm';
+import {
+  getAlarmTimeOfDay,
+  resolveLocalTime,
+  toWallClock,
+} from './alarm-timezone';
+
+/**
+ * Alarm fields the recurrence engine needs (works for Alarm and AlarmNotification)
+ */
+export type RecurringAlarm = Pick<
+  BaseAlarm,
+  | 'time'
+  | 'repeatDays'
+  | 'recurrence'
+  | 'exceptions'
+  | 'timeMode'
+  | 'wallClockTime'
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound for day-by-day scans (covers sparse monthly rules and date lists)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse YYYY-MM-DD into local midnight
+ */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Calendar day difference, immune to DST shifts
+function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / DAY_MS);
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+}
+
+/**
+ * Resolve the recurrence rule of an alarm, mapping legacy repeatDays to a weekly rule
+ */
+export function getRecurrenceRule(
+  alarm: RecurringAlarm
+): RecurrenceRule | null {
+  if (alarm.recurrence) return alarm.recurrence;
+  if (alarm.repeatDays?.length) {
+    return { type: 'weekly', weekdays: alarm.repeatDays };
+  }
+  return null;
+}
+
+export function isRepeating(alarm: RecurringAlarm): boolean {
+  return getRecurrenceRule(alarm) !== null;
+}
+
+/**
+ * True for rules expressible as a plain weekday list (native repeat support)
+ */
+export function isSimpleWeeklyRule(rule: RecurrenceRule): boolean {
+  return (
+    rule.type === 'weekly' &&
+    (rule.intervalWeeks ?? 1) === 1 &&
+    !rule.startDate &&
+    !rule.endDate &&
+    !rule.count
+  );
+}
+
+/**
+ * Whether a calendar day matches the rule pattern (bounds are checked separately)
+ */
+export function matchesRecurrenceDay(
+  rule: RecurrenceRule,
+  day: Date,
+  anchor: Date
+): boolean {
+  switch (rule.type) {
+    case 'weekly': {
+      if (!rule.weekdays.includes(day.getDay())) return false;
+      const interval = Math.max(1, rule.intervalWeeks ?? 1);
+      if (interval === 1) return true;
+      // Compare Sunday-based weeks so every weekday of a week shares the same parity
+      const anchorWeekStart = addDays(anchor, -anchor.getDay());
+      const dayWeekStart = addDays(day, -day.getDay());
+      const weeks = Math.round(daysBetween(anchorWeekStart, dayWeekStart) / 7);
+      return ((weeks % interval) + interval) % interval === 0;
+    }
+    case 'daily': {
+      const interval = Math.max(1, rule.intervalDays);
+      const diff = daysBetween(anchor, day);
+      return diff >= 0 && diff % interval === 0;
+    }
+    case 'dates':
+      return rule.dates.includes(toDateKey(day));
+    case 'monthly': {
+      if (rule.dayOfMonth !== undefined) {
+        return day.getDate() === Math.min(rule.dayOfMonth, daysInMonth(day));
+      }
+      if (rule.weekday === undefined || rule.weekOfMonth === undefined) {
+        return false;
+      }
+      if (day.getDay() !== rule.weekday) return false;
+      if (rule.weekOfMonth < 0) {
+        return day.getDate() + 7 > daysInMonth(day);
+      }
+      return Math.ceil(day.getDate() / 7) === rule.weekOfMonth;
+    }
+    default:
+      return false;
+  }
+}
+
+// DST gaps and repeats resolve like any other wall-clock time
+function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return resolveLocalTime(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    hours,
+    minutes
+  );
+}
+
+/**
+ * Exception registered for the occurrence on the given date, if any
+ */
+export function getException(
+  alarm: RecurringAlarm,
+  dateKey: string
+): AlarmException | undefined {
+  return alarm.exceptions?.find(exception => exception.date === dateKey);
+}
+
+// Day the rule is anchored to - start of intervals and of the occurrence count
+function getAnchorDay(alarm: RecurringAlarm, rule: RecurrenceRule): Date {
+  if (rule.startDate) return parseDateKey(rule.startDate);
+  if (rule.type === 'dates' && rule.dates.length > 0) {
+    return parseDateKey([...rule.dates].sort()[0]);
+  }
+  return startOfDay(new Date(alarm.time));
+}
+
+/**
+ * Next `count` trigger dates strictly after `from`, with exceptions applied
+ * One-time alarms yield their time, or the next wall-clock match once it passed
+ */
+export function nextOccurrences(
+  alarm: RecurringAlarm,
+  from: Date,
+  count: number
+): Date[] {
+  const time = new Date(alarm.time);
+  const timeOfDay = getAlarmTimeOfDay(alarm);
+  const rule = getRecurrenceRule(alarm);
+
+  if (!rule) {
+    if (count <= 0) return [];
+    if (time > from) return [time];
+    const today = atTimeOfDay(startOfDay(from), timeOfDay);
+    return [today > from ? today : atTimeOfDay(addDays(from, 1), timeOfDay)];
+  }
+
+  const anchor = getAnchorDay(alarm, rule);
+  const endDay = rule.endDate ? parseDateKey(rule.endDate) : null;
+  // Counted rules must be walked from the anchor so earlier occurrences use up the count
+  const fromDay = startOfDay(from);
+  let day = rule.count || fromDay < anchor ? anchor : fromDay;
+
+  const results: Date[] = [];
+  let matched = 0;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS && results.length < count; i++) {
+    if (endDay && day > endDay) break;
+
+    if (matchesRecurrenceDay(rule, day, anchor)) {
+      // Skipped occurrences still use up the count
+      matched++;
+      if (rule.count && matched > rule.count) break;
+
+      const exception = getException(alarm, toDateKey(day));
+      if (exception?.type !== 'skip') {
+        const occurrence =
+          exception?.type === 'move'
+            ? atTimeOfDay(day, exception.time)
+            : atTimeOfDay(day, timeOfDay);
+        if (occurrence > from) results.push(occurrence);
+      }
+    }
+
+    day = addDays(day, 1);
+  }
+
+  return results;
+}
+
+/**
+ * Next trigger date after `from`, or null when the rule has run out
+ */
+export function getNextOccurrence(
+  alarm: RecurringAlarm,
+  from: Date = new Date()
+): Date | null {
+  return nextOccurrences(alarm, from, 1)[0] ?? null;
+}
+
+/**
+ * One-time alarm whose time has passed - it rang or was missed, and must not
+ * roll over to the next day until it is switched on again
+ */
+export function isPastOneTime(
+  alarm: RecurringAlarm,
+  now: Date = new Date()
+): boolean {
+  return !isRepeating(alarm) && new Date(alarm.time) <= now;
+}
+
+/**
+ * One-time alarm moved to the next time its wall clock comes around - a time
+ * of day that already passed rings tomorrow. Repeating alarms are returned as is
+ */
+export function withUpcomingTime<T extends RecurringAlarm>(
+  alarm: T,
+  now: Date = new Date()
+): T {
+  if (!isPastOneTime(alarm, now)) return alarm;
+  const next = getNextOccurrence(alarm, now)!;
+  return { ...alarm, time: next, wallClockTime: toWallClock(next) };
+}
+
+/**
+ * All trigger dates in the (from, until] window
+ */
+export function occurrencesUntil(
+  alarm: RecurringAlarm,
+  from: Date,
+  until: Date,
+  limit: number = 64
+): Date[] {
+  return nextOccurrences(alarm, from, limit).filter(date => date <= until);
+}
+
+function formatWeekdays(weekdays: number[]): string {
+  const days = [...weekdays].sort((a, b) => a - b);
+  if (days.length === 7) return 'Every day';
+  if (days.length === 5 && days.every(day => day >= 1 && day <= 5)) {
+    return 'Mon-Fri';
+  }
+  if (days.length === 2 && days.includes(0) && days.includes(6)) {
+    return 'Weekend';
+  }
+  return days.map(day => DAY_NAMES[day]).join(', ');
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last';
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  const suffix = n >= 11 && n <= 13 ? 'th' : suffixes[n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks: Mon, Tue" or "Monthly on the 15th"
+ */
+export function describeRecurrence(alarm: RecurringAlarm): string {
+  const rule = getRecurrenceRule(alarm);
+  if (!rule) return 'Once';
+
+  let text: string;
+  switch (rule.type) {
+    case 'weekly': {
+      const interval = rule.intervalWeeks ?? 1;
+      const days = formatWeekdays(rule.weekdays);
+      text = interval > 1 ? `Every ${interval} weeks: ${days}` : days;
+      break;
+    }
+    case 'daily':
+      text =
+        rule.intervalDays > 1 ? `Every ${rule.intervalDays} days` : 'Every day';
+      break;
+    case 'dates':
+      text = `${rule.dates.length} date${rule.dates.length === 1 ? '' : 's'}`;
+      break;
+    case 'monthly':
+      text =
+        rule.dayOfMonth !== undefined
+          ? `Monthly on the ${ordinal(rule.dayOfMonth)}`
+          : `Monthly on the ${ordinal(rule.weekOfMonth ?? 1)} ${DAY_NAMES[rule.weekday ?? 0]}`;
+      break;
+    default:
+      text = 'Repeating';
+  }
+
+  if (rule.count) text += ` (${rule.count}×)`;
+  else if (rule.endDate) text += ` until ${rule.endDate}`;
+
+  return text;
+}
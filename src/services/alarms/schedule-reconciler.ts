@@ -0,0 +1,488 @@
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+import { notificationService } from '../notifications/notification-service';
+import { alarmKitService } from '../alarmkit/alarmkit-service';
+import { backgroundAlarmService } from '../background/background-alarm-service';
+import { SCHEDULE_GRACE_MS } from '../notifications/notification-budget';
+import {
+  NotificationCoverage,
+  notificationBudgetService,
+} from '../notifications/notification-budget-service';
+import { alarmService } from './alarm-service';
+import { isAlarmEffectivelyActive } from './alarm-groups';
+import { getNextOccurrence, isPastOneTime } from './recurrence';
+
+/**
+ * Schedule IDs to keep on an alarm, undefined fields are cleared
+ */
+export interface ScheduledAlarmIds {
+  notificationIds?: string[];
+  nativeAlarmId?: string;
+  isNativeAlarm?: boolean;
+  backgroundAudioEnabled?: boolean;
+}
+
+/**
+ * What the OS has scheduled for alarms right now
+ */
+export interface ScheduleSnapshot {
+  notifications: {
+    identifier: string;
+    alarmId?: string;
+    isSnooze: boolean;
+    createdAt?: number; // ms, missing on old notifications
+  }[];
+  nativeAlarms: { id: string; firstSeenAt: number }[];
+  silentLoopActive: boolean;
+  ringingAlarmId?: string;
+  notificationCutoff?: Date | null; // Coverage of the last budget top-up
+}
+
+export interface ReconcilePlan {
+  keep: Record<string, ScheduledAlarmIds>;
+  schedule: string[];
+  defer: string[]; // Next ring is past the notification budget
+  clear: string[]; // Alarms with stale IDs and nothing to keep
+  expire: string[]; // One-time alarms that already rang, to switch off
+  cancelNotifications: string[];
+  cancelNativeAlarms: string[];
+  stopSilentLoop: boolean;
+}
+
+export interface ReconcileReport {
+  kept: string[];
+  scheduled: string[];
+  deferred: string[];
+  expired: string[];
+  cancelledNotifications: string[];
+  cancelledNativeAlarms: string[];
+  stoppedSilentLoop: boolean;
+  failed: { alarmId: string; error: string }[];
+  updates: Record<string, ScheduledAlarmIds>; // IDs to store on the alarms
+  coverage: NotificationCoverage | null;
+}
+
+function hasPendingSnooze(alarm: Alarm, now: Date): boolean {
+  return (
+    !!alarm.snoozeState &&
+    new Date(alarm.snoozeState.snoozedUntil).getTime() > now.getTime()
+  );
+}
+
+function getStoredNotificationIds(alarm: Alarm): string[] {
+  return [
+    ...(alarm.notificationIds || []),
+    ...(alarm.notificationId ? alarm.notificationId.split(',') : []),
+  ];
+}
+
+// One-time alarm past its ring that no ring or snooze keeps alive
+function hasRungOut(
+  alarm: Alarm,
+  snapshot: ScheduleSnapshot,
+  now: Date
+): boolean {
+  return (
+    isPastOneTime(alarm, new Date(now.getTime() - SCHEDULE_GRACE_MS)) &&
+    snapshot.ringingAlarmId !== alarm.id &&
+    !hasPendingSnooze(alarm, now)
+  );
+}
+
+export function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+}
+
+/**
+ * Diff the alarms against what the OS has scheduled
+ * Active alarms keep what the OS has for them (AlarmKit wins over duplicate
+ * notifications when the alarm uses it), or get scheduled when nothing is
+ * there; everything else is an orphan unless it is too recent to judge
+ */
+export function planReconciliation(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  snapshot: ScheduleSnapshot,
+  now: Date = new Date()
+): ReconcilePlan {
+  const plan: ReconcilePlan = {
+    keep: {},
+    schedule: [],
+    defer: [],
+    clear: [],
+    expire: [],
+    cancelNotifications: [],
+    cancelNativeAlarms: [],
+    stopSilentLoop: false,
+  };
+  const graceStart = now.getTime() - SCHEDULE_GRACE_MS;
+  const byId = new Map(alarms.map(alarm => [alarm.id, alarm]));
+  const active = alarms.filter(alarm =>
+    isAlarmEffectivelyActive(alarm, groups)
+  );
+  plan.expire = active
+    .filter(alarm => hasRungOut(alarm, snapshot, now))
+    .map(alarm => alarm.id);
+  const desired = new Set(
+    active
+      .filter(alarm => !plan.expire.includes(alarm.id))
+      .map(alarm => alarm.id)
+  );
+
+  const cancelNotification = (identifier: string, createdAt?: number) => {
+    if (createdAt === undefined || createdAt <= graceStart) {
+      plan.cancelNotifications.push(identifier);
+    }
+  };
+  const cancelNative = (id: string, firstSeenAt: number) => {
+    if (firstSeenAt <= graceStart) plan.cancelNativeAlarms.push(id);
+  };
+
+  // Notifications of active alarms, by alarm
+  const found = new Map<string, { identifier: string; createdAt?: number }[]>();
+  snapshot.notifications.forEach(notification => {
+    const alarm = notification.alarmId
+      ? byId.get(notification.alarmId)
+      : undefined;
+    const isWanted = !!alarm && desired.has(alarm.id);
+
+    if (notification.isSnooze) {
+      if (!isWanted || !hasPendingSnooze(alarm!, now)) {
+        cancelNotification(notification.identifier, notification.createdAt);
+      }
+    } else if (isWanted) {
+      found.set(alarm!.id, [...(found.get(alarm!.id) || []), notification]);
+    } else {
+      cancelNotification(notification.identifier, notification.createdAt);
+    }
+  });
+
+  // AlarmKit alarms of active alarms, by alarm
+  const foundNative = new Map<string, { id: string; firstSeenAt: number }[]>();
+  snapshot.nativeAlarms.forEach(native => {
+    const owner = alarms.find(
+      alarm =>
+        alarm.nativeAlarmId === native.id ||
+        alarm.id === native.id ||
+        alarm.snoozeState?.nativeAlarmId === native.id ||
+        `${alarm.id}_snooze` === native.id
+    );
+    if (!owner || !desired.has(owner.id)) {
+      cancelNative(native.id, native.firstSeenAt);
+    } else if (
+      owner.snoozeState?.nativeAlarmId === native.id ||
+      `${owner.id}_snooze` === native.id
+    ) {
+      if (!hasPendingSnooze(owner, now)) {
+        cancelNative(native.id, native.firstSeenAt);
+      }
+    } else {
+      foundNative.set(owner.id, [...(foundNative.get(owner.id) || []), native]);
+    }
+  });
+
+  alarms.forEach(alarm => {
+    const stored = getStoredNotificationIds(alarm);
+
+    if (!desired.has(alarm.id)) {
+      if (stored.length > 0 || alarm.nativeAlarmId) plan.clear.push(alarm.id);
+      return;
+    }
+
+    const notifications = found.get(alarm.id) || [];
+    const natives = foundNative.get(alarm.id) || [];
+
+    if (natives.length > 0 && (alarm.isNativeAlarm || !notifications.length)) {
+      const [kept, ...duplicates] = natives;
+      duplicates.forEach(native => cancelNative(native.id, native.firstSeenAt));
+      notifications.forEach(notification =>
+        cancelNotification(notification.identifier, notification.createdAt)
+      );
+      if (
+        alarm.nativeAlarmId !== kept.id ||
+        !alarm.isNativeAlarm ||
+        stored.length > 0
+      ) {
+        plan.keep[alarm.id] = {
+          nativeAlarmId: kept.id,
+          isNativeAlarm: true,
+        };
+      }
+      return;
+    }
+
+    if (notifications.length > 0) {
+      natives.forEach(native => cancelNative(native.id, native.firstSeenAt));
+      const identifiers = notifications.map(
+        notification => notification.identifier
+      );
+      if (
+        !sameIds(identifiers, stored) ||
+        alarm.isNativeAlarm ||
+        alarm.nativeAlarmId
+      ) {
+        plan.keep[alarm.id] = {
+          notificationIds: identifiers,
+          isNativeAlarm: false,
+        };
+      }
+      return;
+    }
+
+    // Ringing or snoozed alarms are rearmed by dismiss, not here
+    if (snapshot.ringingAlarmId === alarm.id || hasPendingSnooze(alarm, now)) {
+      return;
+    }
+    // The budget top-up schedules it once it fits
+    const cutoff = snapshot.notificationCutoff;
+    const nextRing = getNextOccurrence(alarm, now);
+    if (!alarm.isNativeAlarm && cutoff && nextRing && nextRing >= cutoff) {
+      plan.defer.push(alarm.id);
+      return;
+    }
+    plan.schedule.push(alarm.id);
+  });
+
+  // The silent loop only exists to keep background-audio alarms alive
+  plan.stopSilentLoop =
+    snapshot.silentLoopActive &&
+    !snapshot.ringingAlarmId &&
+    !alarms.some(
+      alarm => desired.has(alarm.id) && alarm.backgroundAudioEnabled
+    );
+
+  return plan;
+}
+
+/**
+ * Repairs drift between the alarm store and the OS schedules - notifications,
+ * AlarmKit alarms and the background audio loop
+ */
+export class ScheduleReconciler {
+  private static instance: ScheduleReconciler;
+  private inFlight: Promise<ReconcileReport> | null = null;
+  private rerunRequested = false;
+  private nativeFirstSeen = new Map<string, number>();
+
+  static getInstance(): ScheduleReconciler {
+    if (!ScheduleReconciler.instance) {
+      ScheduleReconciler.instance = new ScheduleReconciler();
+    }
+    return ScheduleReconciler.instance;
+  }
+
+  /**
+   * Reconcile the current alarms, read via `getState` once the OS state is known
+   * Calls while a pass runs share it and trigger one more pass afterwards
+   */
+  reconcile(
+    getState: () => { alarms: Alarm[]; groups: AlarmGroup[] }
+  ): Promise<ReconcileReport> {
+    if (this.inFlight) {
+      this.rerunRequested = true;
+      return this.inFlight;
+    }
+
+    this.inFlight = (async () => {
+      try {
+        let report = await this.runPass(getState);
+        while (this.rerunRequested) {
+          this.rerunRequested = false;
+          report = await this.runPass(getState);
+        }
+        return report;
+      } finally {
+        this.inFlight = null;
+      }
+    })();
+    return this.inFlight;
+  }
+
+  private async takeSnapshot(): Promise<ScheduleSnapshot> {
+    const [notifications, nativeAlarms] = await Promise.all([
+      notificationService.getAllScheduledAlarms(),
+      alarmKitService.getScheduledNativeAlarms(),
+    ]);
+
+    // AlarmKit alarms carry no creation time - remember when they showed up
+    const now = Date.now();
+    const nativeIds = new Set(nativeAlarms.map(native => native.id));
+    this.nativeFirstSeen.forEach((_, id) => {
+      if (!nativeIds.has(id)) this.nativeFirstSeen.delete(id);
+    });
+    nativeIds.forEach(id => {
+      if (!this.nativeFirstSeen.has(id)) this.nativeFirstSeen.set(id, now);
+    });
+
+    return {
+      // Awake-check re-rings belong to the alarm service until acknowledged
+      notifications: notifications
+        .filter(
+          notification =>
+            notification.content.data?.alarmType !== 'awake-check-missed'
+        )
+        .map(notification => {
+          const data = notification.content.data || {};
+          const createdAt = data.createdAt
+            ? new Date(data.createdAt as string).getTime()
+            : NaN;
+          return {
+            identifier: notification.identifier,
+            alarmId: data.alarmId as string | undefined,
+            isSnooze: data.alarmType === 'snooze',
+            createdAt: Number.isNaN(createdAt) ? undefined : createdAt,
+          };
+        }),
+      nativeAlarms: [...nativeIds].map(id => ({
+        id,
+        firstSeenAt: this.nativeFirstSeen.get(id)!,
+      })),
+      silentLoopActive: backgroundAlarmService.isSilentLoopActive(),
+      ringingAlarmId: alarmService.getCurrentRingingAlarm()?.alarmId,
+      notificationCutoff: notificationBudgetService.getCoverage()?.coveredUntil,
+    };
+  }
+
+  private async runPass(
+    getState: () => { alarms: Alarm[]; groups: AlarmGroup[] }
+  ): Promise<ReconcileReport> {
+    const snapshot = await this.takeSnapshot();
+    const { alarms, groups } = getState();
+    const plan = planReconciliation(alarms, groups, snapshot);
+
+    const report: ReconcileReport = {
+      kept: alarms
+        .filter(
+          alarm =>
+            isAlarmEffectivelyActive(alarm, groups) &&
+            !plan.schedule.includes(alarm.id) &&
+            !plan.defer.includes(alarm.id) &&
+            !plan.expire.includes(alarm.id)
+        )
+        .map(alarm => alarm.id),
+      scheduled: [],
+      deferred: plan.defer,
+      expired: plan.expire,
+      cancelledNotifications: [],
+      cancelledNativeAlarms: [],
+      stoppedSilentLoop: false,
+      failed: [],
+      updates: { ...plan.keep },
+      coverage: null,
+    };
+
+    plan.clear.forEach(id => {
+      report.updates[id] = {};
+    });
+
+    for (const identifier of plan.cancelNotifications) {
+      try {
+        await notificationService.cancelAlarm(identifier);
+        report.cancelledNotifications.push(identifier);
+      } catch (error) {
+        console.warn(
+          '⚠️ Failed to cancel orphan notification:',
+          identifier,
+          error
+        );
+      }
+    }
+
+    for (const id of plan.cancelNativeAlarms) {
+      try {
+        await alarmKitService.cancelNativeAlarm(id);
+        this.nativeFirstSeen.delete(id);
+        report.cancelledNativeAlarms.push(id);
+      } catch (error) {
+        console.warn('⚠️ Failed to cancel orphan native alarm:', id, error);
+      }
+    }
+
+    for (const id of plan.schedule) {
+      const alarm = alarms.find(a => a.id === id)!;
+      // scheduleAlarm records the IDs on the copy it is given
+      const scheduled: Alarm = {
+        ...alarm,
+        notificationId: undefined,
+        notificationIds: undefined,
+        nativeAlarmId: undefined,
+      };
+
+      try {
+        await alarmService.scheduleAlarm(scheduled);
+        report.scheduled.push(id);
+        report.updates[id] = {
+          notificationIds: scheduled.notificationIds,
+          nativeAlarmId: scheduled.nativeAlarmId,
+          isNativeAlarm: scheduled.isNativeAlarm,
+          backgroundAudioEnabled: scheduled.backgroundAudioEnabled,
+        };
+      } catch (error) {
+        report.failed.push({
+          alarmId: id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    await this.topUpNotifications(alarms, groups, report);
+
+    if (plan.stopSilentLoop) {
+      try {
+        await backgroundAlarmService.stopSilentLoop();
+        report.stoppedSilentLoop = true;
+      } catch (error) {
+        console.warn('⚠️ Failed to stop unused silent loop:', error);
+      }
+    }
+
+    console.log(
+      `🔁 Reconciled schedules: ${report.kept.length} kept, ${report.scheduled.length} scheduled,`,
+      `${report.cancelledNotifications.length + report.cancelledNativeAlarms.length} orphans cancelled,`,
+      `${report.deferred.length} deferred, ${report.expired.length} expired, ${report.failed.length} failed`
+    );
+    return report;
+  }
+
+  /**
+   * Spread the notification budget over the alarms as they are after this pass
+   * and store the occurrence IDs it leaves scheduled
+   */
+  private async topUpNotifications(
+    alarms: Alarm[],
+    groups: AlarmGroup[],
+    report: ReconcileReport
+  ): Promise<void> {
+    const current = alarms.map(alarm => ({
+      ...alarm,
+      ...report.updates[alarm.id],
+    }));
+
+    try {
+      const budget = await notificationBudgetService.topUp(current, groups);
+      if (!budget) return;
+
+      report.coverage = {
+        coveredUntil: budget.coveredUntil,
+        isShort: budget.isShort,
+      };
+      current
+        .filter(
+          alarm =>
+            isAlarmEffectivelyActive(alarm, groups) && !alarm.isNativeAlarm
+        )
+        .forEach(alarm => {
+          const identifiers = budget.notificationIds[alarm.id] || [];
+          if (sameIds(identifiers, alarm.notificationIds || [])) return;
+          report.updates[alarm.id] = {
+            ...report.updates[alarm.id],
+            notificationIds: identifiers.length > 0 ? identifiers : undefined,
+            isNativeAlarm: false,
+          };
+        });
+    } catch (error) {
+      console.error('❌ Failed to top up alarm notifications:', error);
+    }
+  }
+}
+
+export const scheduleReconciler = ScheduleReconciler.getInstance();
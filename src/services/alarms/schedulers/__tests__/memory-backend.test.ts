@@ -0,0 +1,154 @@
+import type { Alarm } from '../../../../types/alarm';
+import { MemorySchedulerBackend, VirtualClock } from '../memory-backend';
+import type { SchedulerTriggerEvent } from '../types';
+
+// Runs in Europe/Berlin (jest.config.js)
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function makeAlarm(overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id: 'alarm_1',
+    title: 'Alarm',
+    time: new Date(2025, 0, 6, 7, 0),
+    isActive: true,
+    audioTrack: {
+      id: 'gentle',
+      name: 'Gentle',
+      uri: 'gentle.mp3',
+      type: 'predefined',
+    },
+    createdAt: new Date(2025, 0, 1),
+    updatedAt: new Date(2025, 0, 1),
+    ...overrides,
+  };
+}
+
+function setup(start: Date = new Date(2025, 0, 6, 0, 0)) {
+  const clock = new VirtualClock(start);
+  const backend = new MemorySchedulerBackend(clock);
+  const fired: SchedulerTriggerEvent[] = [];
+  backend.onTrigger(event => fired.push(event));
+  return { clock, backend, fired };
+}
+
+const describeFired = (fired: SchedulerTriggerEvent[]) =>
+  fired.map(event => [event.kind, event.scheduledTime]);
+
+describe('MemorySchedulerBackend', () => {
+  it('rings a one-time alarm once', async () => {
+    const { clock, backend, fired } = setup();
+    await backend.schedule(makeAlarm());
+
+    clock.advance(2 * DAY_MS);
+
+    expect(describeFired(fired)).toEqual([
+      ['alarm', new Date(2025, 0, 6, 7, 0)],
+    ]);
+    expect(await backend.list()).toEqual([]);
+  });
+
+  it('refills the horizon of a repeating alarm as it rings', async () => {
+    const { clock, backend, fired } = setup();
+    await backend.schedule(makeAlarm({ repeatDays: [0, 1, 2, 3, 4, 5, 6] }));
+
+    const before = await backend.list();
+    expect(before).toHaveLength(14);
+    expect(before[13].fireAt).toEqual(new Date(2025, 0, 19, 7, 0));
+
+    clock.advance(3 * DAY_MS);
+
+    expect(describeFired(fired)).toEqual([
+      ['alarm', new Date(2025, 0, 6, 7, 0)],
+      ['alarm', new Date(2025, 0, 7, 7, 0)],
+      ['alarm', new Date(2025, 0, 8, 7, 0)],
+    ]);
+    const after = await backend.list();
+    expect(after).toHaveLength(14);
+    expect(after[13].fireAt).toEqual(new Date(2025, 0, 22, 7, 0));
+  });
+
+  it('fires the gentle wake trigger before the main ring', async () => {
+    const { clock, backend, fired } = setup();
+    await backend.schedule(
+      makeAlarm({
+        gentleWake: { minutesBefore: 10, soundId: 'nature', volume: 0.15 },
+      })
+    );
+
+    clock.set(new Date(2025, 0, 6, 6, 55));
+    expect(fired.map(event => event.kind)).toEqual(['gentle-wake']);
+    expect(fired[0].data.alarmType).toBe('gentle-wake');
+
+    clock.set(new Date(2025, 0, 6, 7, 0));
+    expect(fired.map(event => event.kind)).toEqual(['gentle-wake', 'alarm']);
+    expect(fired[1].scheduledTime).toEqual(new Date(2025, 0, 6, 7, 0));
+  });
+
+  it('rings a snooze once at its own time next to the recurring schedule', async () => {
+    const { clock, backend, fired } = setup(new Date(2025, 0, 6, 7, 0));
+    const alarm = makeAlarm({ repeatDays: [1] });
+    await backend.schedule(alarm);
+
+    const snoozedUntil = new Date(clock.now().getTime() + 9 * MINUTE_MS);
+    const handle = await backend.schedule(
+      { ...alarm, time: snoozedUntil },
+      { isSnooze: true }
+    );
+    expect(handle.notificationIds).toHaveLength(1);
+
+    clock.advance(10 * MINUTE_MS);
+    expect(describeFired(fired)).toEqual([
+      ['snooze', new Date(2025, 0, 6, 7, 9)],
+    ]);
+
+    clock.advance(DAY_MS);
+    expect(fired).toHaveLength(1);
+    expect((await backend.list()).map(trigger => trigger.kind)).toEqual([
+      'alarm',
+      'alarm',
+    ]);
+  });
+
+  it('cancels the refills scheduled after the handle was handed out', async () => {
+    const { clock, backend, fired } = setup();
+    const handle = await backend.schedule(
+      makeAlarm({ repeatDays: [0, 1, 2, 3, 4, 5, 6] })
+    );
+
+    clock.advance(3 * DAY_MS);
+    expect(fired).toHaveLength(3);
+
+    await backend.cancel(handle);
+    clock.advance(30 * DAY_MS);
+
+    expect(fired).toHaveLength(3);
+    expect(await backend.list()).toEqual([]);
+  });
+
+  it('only cancels the schedule it is given', async () => {
+    const { backend } = setup();
+    const first = await backend.schedule(makeAlarm({ repeatDays: [1] }));
+    await backend.schedule(makeAlarm({ id: 'alarm_2', repeatDays: [2] }));
+
+    await backend.cancel(first);
+
+    const alarmIds = new Set(
+      (await backend.list()).map(trigger => trigger.alarmId)
+    );
+    expect([...alarmIds]).toEqual(['alarm_2']);
+  });
+
+  it('rejects alarms without an upcoming occurrence', async () => {
+    const { backend } = setup();
+
+    await expect(
+      backend.schedule(
+        makeAlarm({
+          recurrence: { type: 'dates', dates: ['2025-01-01'] },
+        })
+      )
+    ).rejects.toThrow('Alarm alarm_1 has no upcoming occurrence');
+  });
+});
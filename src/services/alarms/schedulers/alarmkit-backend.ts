@@ -0,0 +1,78 @@
+import { Platform } from 'react-native';
+import type { Alarm } from '../../../types/alarm';
+import {
+  NATIVE_SNOOZE_SUFFIX,
+  alarmKitService,
+  toAppAlarmId,
+} from '../../alarmkit/alarmkit-service';
+import type {
+  AlarmSchedulerBackend,
+  ScheduleHandle,
+  ScheduleOptions,
+  ScheduledTrigger,
+  SchedulerTriggerListener,
+} from './types';
+
+/**
+ * Native iOS alarms through AlarmKit - the system rings them, the app only hears about it
+ */
+export class AlarmKitSchedulerBackend implements AlarmSchedulerBackend {
+  readonly id = 'alarmkit' as const;
+
+  async isAvailable(): Promise<boolean> {
+    if (Platform.OS !== 'ios') {
+      return false;
+    }
+    return await alarmKitService.canUseAlarmKit();
+  }
+
+  async schedule(
+    alarm: Alarm,
+    options: ScheduleOptions = {}
+  ): Promise<ScheduleHandle> {
+    // A snooze gets its own native alarm next to the recurring one
+    const nativeAlarmId = await alarmKitService.scheduleNativeAlarm(
+      options.isSnooze
+        ? { ...alarm, id: `${alarm.id}${NATIVE_SNOOZE_SUFFIX}` }
+        : alarm
+    );
+    return { nativeAlarmId };
+  }
+
+  async cancel(handle: ScheduleHandle): Promise<void> {
+    if (handle.nativeAlarmId) {
+      await alarmKitService.cancelNativeAlarm(handle.nativeAlarmId);
+    }
+  }
+
+  async list(): Promise<ScheduledTrigger[]> {
+    const nativeAlarms = await alarmKitService.getScheduledNativeAlarms();
+    return nativeAlarms.map(nativeAlarm => {
+      const isSnooze = nativeAlarm.id.endsWith(NATIVE_SNOOZE_SUFFIX);
+      return {
+        id: nativeAlarm.id,
+        alarmId: toAppAlarmId(nativeAlarm.id),
+        fireAt: new Date(nativeAlarm.date),
+        kind: isSnooze ? 'snooze' : 'alarm',
+        backend: this.id,
+      };
+    });
+  }
+
+  onTrigger(listener: SchedulerTriggerListener): () => void {
+    return alarmKitService.onAlarmEvent((eventType, alarmId) => {
+      if (eventType !== 'alarm_triggered') return;
+      const isSnooze = alarmId.endsWith(NATIVE_SNOOZE_SUFFIX);
+      listener({
+        alarmId: toAppAlarmId(alarmId),
+        kind: isSnooze ? 'snooze' : 'alarm',
+        source: 'alarmkit',
+        useBackgroundAudio: false,
+        isUserAction: false,
+        data: { alarmId },
+      });
+    });
+  }
+}
+
+export const alarmKitSchedulerBackend = new AlarmKitSchedulerBackend();
@@ -0,0 +1,76 @@
+import { AppState, Platform } from 'react-native';
+import type { Alarm } from '../../../types/alarm';
+import { backgroundAlarmService } from '../../background/background-alarm-service';
+import { getNextOccurrence } from '../recurrence';
+import { NotificationSchedulerBackend } from './notification-backend';
+import type { ScheduleHandle, ScheduleOptions } from './types';
+
+const PRE_START_WINDOW_MS = 10 * 60 * 1000; // 10 minutes before
+
+/**
+ * Notifications as triggers, with the silent loop keeping the iOS audio session
+ * alive so the alarm can play its full track in the background
+ */
+export class BackgroundAudioSchedulerBackend extends NotificationSchedulerBackend {
+  readonly id = 'background-audio' as const;
+  protected readonly useBackgroundAudio = true;
+  private enabled = true;
+
+  /**
+   * Turned off when the silent loop can't be set up
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.enabled && Platform.OS === 'ios';
+  }
+
+  async schedule(
+    alarm: Alarm,
+    options: ScheduleOptions = {}
+  ): Promise<ScheduleHandle> {
+    const handle = await super.schedule(alarm, options);
+
+    if (options.isSnooze) {
+      // Keep the audio session alive until the snooze rings again
+      await backgroundAlarmService.switchBackToSilentLoop();
+    } else {
+      await this.preStartSilentLoop(alarm);
+    }
+    return handle;
+  }
+
+  /**
+   * Pre-start silent loop if app is in foreground and alarm is soon
+   */
+  private async preStartSilentLoop(alarm: Alarm): Promise<void> {
+    if (AppState.currentState !== 'active') return;
+
+    const nextTrigger = getNextOccurrence(alarm);
+    const timeUntilAlarm = nextTrigger
+      ? nextTrigger.getTime() - Date.now()
+      : -1;
+
+    if (timeUntilAlarm <= PRE_START_WINDOW_MS && timeUntilAlarm > 0) {
+      console.log(
+        `🔇 Pre-starting silent loop for imminent alarm: ${alarm.id}`
+      );
+      try {
+        await backgroundAlarmService.startSilentLoop();
+        console.log('✅ Silent loop pre-started for alarm reliability');
+      } catch (error) {
+        console.warn('⚠️ Failed to pre-start silent loop:', error);
+        // Continue without pre-start - alarm will still work
+      }
+    }
+  }
+}
+
+export const backgroundAudioSchedulerBackend =
+  new BackgroundAudioSchedulerBackend();
@@ -0,0 +1,293 @@
+import type { Alarm } from '../../../types/alarm';
+import { getGentleWakeStart } from '../gentle-wake';
+import { isRepeating, nextOccurrences, occurrencesUntil } from '../recurrence';
+import type {
+  AlarmSchedulerBackend,
+  ScheduleHandle,
+  ScheduleOptions,
+  ScheduledTrigger,
+  SchedulerTriggerKind,
+  SchedulerTriggerListener,
+} from './types';
+
+const HORIZON_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Clock the in-memory backend runs on - moved by hand in tests and the
+ * simulator, or kept in step with the real clock on web
+ */
+export class VirtualClock {
+  private current: number;
+  private listeners = new Set<(now: Date) => void>();
+
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date): void {
+    this.current = date.getTime();
+    const now = this.now();
+    this.listeners.forEach(listener => listener(now));
+  }
+
+  advance(ms: number): void {
+    this.set(new Date(this.current + ms));
+  }
+
+  /**
+   * Subscribe to clock changes, returns the unsubscribe function
+   */
+  onChange(listener: (now: Date) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+interface MemoryTrigger extends ScheduledTrigger {
+  scheduleId: string;
+  occurrence: Date; // Main ring time the trigger belongs to
+}
+
+interface MemorySchedule {
+  alarm: Alarm;
+  isSnooze: boolean;
+  lastOccurrence: Date | null;
+}
+
+/**
+ * Scheduler without native modules - triggers live in memory and fire as the
+ * virtual clock passes them. Handles carry one ID per schedule, so the rolling
+ * refill of repeating alarms stays cancellable
+ */
+export class MemorySchedulerBackend implements AlarmSchedulerBackend {
+  readonly id = 'memory' as const;
+  private schedules = new Map<string, MemorySchedule>();
+  private triggers: MemoryTrigger[] = [];
+  private listeners = new Set<SchedulerTriggerListener>();
+  private nextScheduleId = 1;
+  private realTimeTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(readonly clock: VirtualClock = new VirtualClock()) {
+    clock.onChange(now => this.fireDue(now));
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async schedule(
+    alarm: Alarm,
+    options: ScheduleOptions = {}
+  ): Promise<ScheduleHandle> {
+    const scheduleId = `memory-${this.nextScheduleId++}`;
+    const schedule: MemorySchedule = {
+      alarm: { ...alarm },
+      isSnooze: !!options.isSnooze,
+      lastOccurrence: null,
+    };
+    this.schedules.set(scheduleId, schedule);
+    this.fill(scheduleId, schedule);
+
+    if (!this.triggers.some(trigger => trigger.scheduleId === scheduleId)) {
+      this.schedules.delete(scheduleId);
+      throw new Error(`Alarm ${alarm.id} has no upcoming occurrence`);
+    }
+    return { notificationIds: [scheduleId] };
+  }
+
+  async cancel(handle: ScheduleHandle): Promise<void> {
+    const scheduleIds = new Set(handle.notificationIds || []);
+    scheduleIds.forEach(scheduleId => this.schedules.delete(scheduleId));
+    this.triggers = this.triggers.filter(
+      trigger => !scheduleIds.has(trigger.scheduleId)
+    );
+  }
+
+  async list(): Promise<ScheduledTrigger[]> {
+    return this.triggers.map(({ id, alarmId, fireAt, kind, backend }) => ({
+      id,
+      alarmId,
+      fireAt,
+      kind,
+      backend,
+    }));
+  }
+
+  onTrigger(listener: SchedulerTriggerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fire a pending trigger now, regardless of the clock
+   */
+  fire(triggerId: string): boolean {
+    const trigger = this.triggers.find(({ id }) => id === triggerId);
+    if (!trigger) return false;
+    this.emit(trigger);
+    return true;
+  }
+
+  /**
+   * Follow the real clock, for running the app on web
+   */
+  startRealTime(intervalMs: number = 1000): void {
+    this.stopRealTime();
+    this.clock.set(new Date());
+    this.realTimeTimer = setInterval(
+      () => this.clock.set(new Date()),
+      intervalMs
+    );
+  }
+
+  stopRealTime(): void {
+    if (this.realTimeTimer) {
+      clearInterval(this.realTimeTimer);
+      this.realTimeTimer = null;
+    }
+  }
+
+  /**
+   * Add triggers up to the horizon, like the notification backend does
+   */
+  private fill(scheduleId: string, schedule: MemorySchedule): void {
+    const now = this.clock.now();
+    const from = schedule.lastOccurrence ?? now;
+    const horizon = new Date(now.getTime() + HORIZON_DAYS * DAY_MS);
+    const { alarm } = schedule;
+
+    let occurrences: Date[];
+    if (schedule.isSnooze || !isRepeating(alarm)) {
+      // One-shots ring once - a snooze at its exact time
+      occurrences = schedule.lastOccurrence
+        ? []
+        : schedule.isSnooze
+          ? [new Date(alarm.time)]
+          : nextOccurrences(alarm, now, 1);
+    } else {
+      occurrences = occurrencesUntil(alarm, from, horizon);
+      // Sparse rules still get their next occurrence
+      if (occurrences.length === 0 && !schedule.lastOccurrence) {
+        occurrences = nextOccurrences(alarm, from, 1);
+      }
+    }
+
+    for (const occurrence of occurrences) {
+      this.addTrigger(
+        scheduleId,
+        alarm.id,
+        occurrence,
+        schedule.isSnooze ? 'snooze' : 'alarm',
+        occurrence
+      );
+
+      const gentleWakeStart = schedule.isSnooze
+        ? null
+        : getGentleWakeStart(alarm, occurrence);
+      if (gentleWakeStart && gentleWakeStart > now) {
+        this.addTrigger(
+          scheduleId,
+          alarm.id,
+          occurrence,
+          'gentle-wake',
+          gentleWakeStart
+        );
+      }
+      schedule.lastOccurrence = occurrence;
+    }
+  }
+
+  private addTrigger(
+    scheduleId: string,
+    alarmId: string,
+    occurrence: Date,
+    kind: SchedulerTriggerKind,
+    fireAt: Date
+  ): void {
+    this.triggers.push({
+      id: `${scheduleId}:${kind}:${occurrence.getTime()}`,
+      scheduleId,
+      alarmId,
+      occurrence,
+      fireAt,
+      kind,
+      backend: this.id,
+    });
+    this.triggers.sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  }
+
+  private fireDue(now: Date): void {
+    // Listeners may schedule (snooze) or cancel while we go - re-check each time
+    let due = this.triggers[0];
+    while (due && due.fireAt <= now) {
+      this.emit(due);
+      due = this.triggers[0];
+    }
+  }
+
+  private emit(trigger: MemoryTrigger): void {
+    this.triggers = this.triggers.filter(({ id }) => id !== trigger.id);
+
+    const schedule = this.schedules.get(trigger.scheduleId);
+    if (!schedule) return;
+
+    // Keep the horizon rolling, and forget schedules that ran out
+    if (trigger.kind !== 'gentle-wake') {
+      this.fill(trigger.scheduleId, schedule);
+    }
+    if (
+      !this.triggers.some(({ scheduleId }) => scheduleId === trigger.scheduleId)
+    ) {
+      this.schedules.delete(trigger.scheduleId);
+    }
+
+    const { alarm } = schedule;
+    // The ringing flow times the gentle hand-over on the real clock
+    const scheduledTime =
+      trigger.kind === 'gentle-wake'
+        ? new Date(
+            Date.now() +
+              trigger.occurrence.getTime() -
+              this.clock.now().getTime()
+          )
+        : trigger.occurrence;
+    const data = {
+      alarmId: alarm.id,
+      audioTrack: alarm.audioTrack,
+      type: 'alarm',
+      scheduledTime: scheduledTime.toISOString(),
+      triggerTimestamp: scheduledTime.getTime(),
+      alarmType: trigger.kind === 'alarm' ? 'standard' : trigger.kind,
+      gentleWake: alarm.gentleWake,
+      useBackgroundAudio: false,
+    };
+
+    this.listeners.forEach(listener => {
+      try {
+        listener({
+          alarmId: alarm.id,
+          kind: trigger.kind,
+          source: 'simulated',
+          audioTrack: alarm.audioTrack,
+          scheduledTime,
+          useBackgroundAudio: false,
+          isUserAction: false,
+          data,
+        });
+      } catch (error) {
+        console.error('❌ Memory scheduler listener failed:', error);
+      }
+    });
+  }
+}
+
+export const memorySchedulerBackend = new MemorySchedulerBackend();
@@ -0,0 +1,149 @@
+import type * as Notifications from 'expo-notifications';
+import type { Alarm, AlarmNotification } from '../../../types/alarm';
+import { notificationService } from '../../notifications/notification-service';
+import type {
+  AlarmSchedulerBackend,
+  ScheduleHandle,
+  ScheduleOptions,
+  ScheduledTrigger,
+  SchedulerBackendId,
+  SchedulerTriggerEvent,
+  SchedulerTriggerKind,
+  SchedulerTriggerListener,
+} from './types';
+
+/**
+ * Build notification payload for an alarm
+ */
+export function toAlarmNotification(
+  alarm: Alarm,
+  useBackgroundAudio: boolean
+): AlarmNotification {
+  return {
+    id: alarm.id,
+    title: alarm.title || 'Alarm',
+    time: alarm.time,
+    isActive: alarm.isActive,
+    audioTrack: alarm.audioTrack,
+    repeatDays: alarm.repeatDays,
+    recurrence: alarm.recurrence,
+    exceptions: alarm.exceptions,
+    timeMode: alarm.timeMode,
+    wallClockTime: alarm.wallClockTime,
+    gentleWake: alarm.gentleWake,
+    isNap: alarm.isNap,
+    useBackgroundAudio, // Flag for background audio handling
+  };
+}
+
+export function getTriggerKind(
+  data: Record<string, any>
+): SchedulerTriggerKind {
+  if (data?.alarmType === 'gentle-wake') return 'gentle-wake';
+  if (data?.alarmType === 'snooze') return 'snooze';
+  if (data?.alarmType === 'awake-check') return 'awake-check';
+  if (data?.alarmType === 'awake-check-missed') return 'awake-check-missed';
+  return 'alarm';
+}
+
+/**
+ * Alarms as local notifications, one DATE trigger per occurrence
+ */
+export class NotificationSchedulerBackend implements AlarmSchedulerBackend {
+  readonly id: SchedulerBackendId = 'notifications';
+  protected readonly useBackgroundAudio: boolean = false;
+
+  async isAvailable(): Promise<boolean> {
+    // Permissions are requested when scheduling
+    return true;
+  }
+
+  async schedule(
+    alarm: Alarm,
+    options: ScheduleOptions = {}
+  ): Promise<ScheduleHandle> {
+    const identifiers = await notificationService.scheduleAlarm({
+      ...toAlarmNotification(alarm, this.useBackgroundAudio),
+      isSnooze: options.isSnooze,
+    });
+    return { notificationIds: identifiers.split(',') };
+  }
+
+  async cancel(handle: ScheduleHandle): Promise<void> {
+    for (const notificationId of handle.notificationIds || []) {
+      await notificationService.cancelAlarm(notificationId);
+    }
+  }
+
+  async list(): Promise<ScheduledTrigger[]> {
+    const scheduled = await notificationService.getAllScheduledAlarms();
+    return scheduled
+      .filter(notification => this.owns(notification.content.data))
+      .map(notification => {
+        const data = notification.content.data;
+        const kind = getTriggerKind(data);
+        return {
+          id: notification.identifier,
+          alarmId: String(data.alarmId),
+          fireAt: new Date(
+            (kind === 'gentle-wake'
+              ? data.gentleWakeStart
+              : data.scheduledTime) as string
+          ),
+          kind,
+          backend: this.id,
+        };
+      });
+  }
+
+  onTrigger(listener: SchedulerTriggerListener): () => void {
+    const emit = (
+      notification: Notifications.Notification,
+      isUserAction: boolean
+    ) => {
+      const data = notification.request.content.data;
+      // Bedtime reminders share the notification pipe but never ring
+      if (data?.type === 'bedtime' || !this.owns(data)) return;
+      listener(this.toTriggerEvent(data, isUserAction));
+    };
+
+    // Received only fires reliably in the foreground, taps always do
+    const received = notificationService.addNotificationReceivedListener(
+      notification => emit(notification, false)
+    );
+    const response =
+      notificationService.addNotificationResponseReceivedListener(response =>
+        emit(response.notification, true)
+      );
+
+    return () => {
+      received.remove();
+      response.remove();
+    };
+  }
+
+  // Both notification backends share the pipe - the payload flag tells them apart
+  private owns(data: Record<string, any> | undefined): boolean {
+    return !!data?.useBackgroundAudio === this.useBackgroundAudio;
+  }
+
+  private toTriggerEvent(
+    data: Record<string, any>,
+    isUserAction: boolean
+  ): SchedulerTriggerEvent {
+    return {
+      alarmId: data?.alarmId ? String(data.alarmId) : '',
+      kind: getTriggerKind(data),
+      source: isUserAction ? 'notification_tap' : 'notification',
+      audioTrack: data?.audioTrack,
+      scheduledTime: data?.scheduledTime
+        ? new Date(data.scheduledTime)
+        : undefined,
+      useBackgroundAudio: this.useBackgroundAudio,
+      isUserAction,
+      data,
+    };
+  }
+}
+
+export const notificationSchedulerBackend = new NotificationSchedulerBackend();
@@ -0,0 +1,67 @@
+import type { Alarm, AlarmTriggerSource } from '../../../types/alarm';
+import type { AudioTrack } from '../../audio/types';
+
+export type SchedulerBackendId =
+  'background-audio' | 'alarmkit' | 'notifications' | 'memory';
+
+export type SchedulerTriggerKind =
+  | 'alarm'
+  | 'gentle-wake'
+  | 'snooze'
+  | 'awake-check' // Check notification - tapping it acknowledges
+  | 'awake-check-missed'; // No acknowledgement in time, rings again
+
+/**
+ * What a backend hands back for a scheduled alarm - stored on the alarm
+ * (or its snooze state) so it can be cancelled later
+ */
+export interface ScheduleHandle {
+  notificationIds?: string[];
+  nativeAlarmId?: string;
+}
+
+export interface ScheduleOptions {
+  isSnooze?: boolean; // One-shot re-ring of a snoozed alarm
+}
+
+/**
+ * A pending trigger as reported by a backend
+ */
+export interface ScheduledTrigger {
+  id: string;
+  alarmId: string;
+  fireAt: Date;
+  kind: SchedulerTriggerKind;
+  backend: SchedulerBackendId;
+}
+
+/**
+ * A trigger firing (or being tapped) - data is the notification-style payload
+ * with alarmId, audioTrack, scheduledTime and gentle wake settings
+ */
+export interface SchedulerTriggerEvent {
+  alarmId: string;
+  kind: SchedulerTriggerKind;
+  source: AlarmTriggerSource;
+  audioTrack?: AudioTrack;
+  scheduledTime?: Date;
+  useBackgroundAudio: boolean;
+  isUserAction: boolean; // Tapped by the user rather than fired
+  data: Record<string, any>;
+}
+
+export type SchedulerTriggerListener = (event: SchedulerTriggerEvent) => void;
+
+/**
+ * Where alarms are scheduled - OS notifications, AlarmKit or a virtual clock
+ */
+export interface AlarmSchedulerBackend {
+  readonly id: SchedulerBackendId;
+  isAvailable(): Promise<boolean>;
+  schedule(alarm: Alarm, options?: ScheduleOptions): Promise<ScheduleHandle>;
+  /** Cancel what the handle points to, ignoring IDs of other backends */
+  cancel(handle: ScheduleHandle): Promise<void>;
+  list(): Promise<ScheduledTrigger[]>;
+  /** Subscribe to triggers of this backend, returns the unsubscribe function */
+  onTrigger(listener: SchedulerTriggerListener): () => void;
+}
@@ -0,0 +1,67 @@
+import type { BaseAlarm, SnoozePolicy } from '../../types/alarm';
+
+/**
+ * Policy used for alarms created before snooze became configurable
+ */
+export const DEFAULT_SNOOZE_POLICY: SnoozePolicy = {
+  enabled: true,
+  durationMinutes: 5,
+  maxSnoozes: 3,
+};
+
+export const SNOOZE_DURATION_OPTIONS = [5, 10, 15];
+
+/**
+ * Resolve the effective snooze policy of an alarm
+ */
+export function getSnoozePolicy(alarm: Pick<BaseAlarm, 'snoozePolicy'>) {
+  return alarm.snoozePolicy ?? DEFAULT_SNOOZE_POLICY;
+}
+
+/**
+ * Duration of the next snooze, given how many snoozes were already taken
+ */
+export function getSnoozeDurationMinutes(
+  policy: SnoozePolicy,
+  snoozeCount: number
+): number {
+  if (snoozeCount > 0 && policy.followUpMinutes?.length) {
+    const index = Math.min(snoozeCount - 1, policy.followUpMinutes.length - 1);
+    return Math.max(1, policy.followUpMinutes[index]);
+  }
+
+  return Math.max(1, policy.durationMinutes);
+}
+
+/**
+ * Number of snoozes still available for the current ring
+ */
+export function getRemainingSnoozes(
+  policy: SnoozePolicy,
+  snoozeCount: number
+): number {
+  if (!policy.enabled) return 0;
+  return Math.max(0, policy.maxSnoozes - snoozeCount);
+}
+
+export function canSnooze(policy: SnoozePolicy, snoozeCount: number) {
+  return getRemainingSnoozes(policy, snoozeCount) > 0;
+}
+
+/**
+ * Build progressively shorter follow-up durations (e.g. 10 → 6 → 4 → 2)
+ */
+export function buildShorteningIntervals(
+  durationMinutes: number,
+  maxSnoozes: number
+): number[] {
+  const intervals: number[] = [];
+  let previous = durationMinutes;
+
+  for (let i = 1; i < maxSnoozes; i++) {
+    previous = Math.max(1, Math.round(previous * 0.6));
+    intervals.push(previous);
+  }
+
+  return intervals;
+}
@@ -0,0 +1,273 @@
+import type { AlarmHistoryEvent } from '../../types/alarm';
+import { parseDateKey, toDateKey } from './recurrence';
+
+// A wake counts as on time when dismissed without snoozing within this window
+export const ON_TIME_WINDOW_MINUTES = 5;
+// Triggers further apart than this belong to separate wake-ups
+const SESSION_GAP_MS = 3 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One wake-up: first trigger through snoozes until dismissal
+ */
+export interface WakeSession {
+  alarmId: string;
+  title: string;
+  dateKey: string; // Day of the first trigger
+  triggeredAt: Date;
+  scheduledTime: Date;
+  dismissedAt?: Date;
+  snoozeCount: number;
+  timeToDismissMs?: number;
+  wasMissed: boolean;
+}
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface DayTypeStats {
+  wakeCount: number;
+  averageWakeMinutes: number | null; // Minutes after midnight
+  averageSnoozes: number;
+  averageDismissMinutes: number | null;
+}
+
+export interface WakeStatistics {
+  sessionCount: number;
+  averageWakeMinutes: number | null;
+  averageSnoozesPerWeek: number;
+  snoozesPerWeek: ChartPoint[];
+  dismissTrend: ChartPoint[];
+  weekday: DayTypeStats;
+  weekend: DayTypeStats;
+  longestOnTimeStreak: number;
+  currentOnTimeStreak: number;
+}
+
+/**
+ * Fold the event log into wake sessions, oldest first
+ */
+export function buildWakeSessions(events: AlarmHistoryEvent[]): WakeSession[] {
+  const sessions: WakeSession[] = [];
+  const open = new Map<string, WakeSession>();
+
+  [...events]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(event => {
+      let session = open.get(event.alarmId);
+      if (
+        session &&
+        event.timestamp.getTime() - session.triggeredAt.getTime() >
+          SESSION_GAP_MS
+      ) {
+        open.delete(event.alarmId);
+        session = undefined;
+      }
+
+      switch (event.type) {
+        case 'missed':
+        case 'triggered':
+          if (!session) {
+            session = {
+              alarmId: event.alarmId,
+              title: event.alarm?.title || 'Alarm',
+              dateKey: toDateKey(event.timestamp),
+              triggeredAt: event.timestamp,
+              scheduledTime: event.scheduledTime || event.timestamp,
+              snoozeCount: 0,
+              wasMissed: false,
+            };
+            sessions.push(session);
+            open.set(event.alarmId, session);
+          }
+          if (event.type === 'missed') session.wasMissed = true;
+          break;
+        case 'snoozed':
+          if (session) session.snoozeCount++;
+          break;
+        case 'dismissed':
+          if (session) {
+            session.dismissedAt = event.timestamp;
+            session.timeToDismissMs =
+              event.timestamp.getTime() - session.triggeredAt.getTime();
+            open.delete(event.alarmId);
+          }
+          break;
+      }
+    });
+
+  return sessions;
+}
+
+export function isOnTime(session: WakeSession): boolean {
+  if (!session.dismissedAt || session.wasMissed || session.snoozeCount > 0) {
+    return false;
+  }
+  const lateMs =
+    session.dismissedAt.getTime() - session.scheduledTime.getTime();
+  return lateMs <= ON_TIME_WINDOW_MINUTES * 60 * 1000;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function minutesOfDay(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+function isWeekend(dateKey: string): boolean {
+  const day = parseDateKey(dateKey).getDay();
+  return day === 0 || day === 6;
+}
+
+function startOfWeek(date: Date): Date {
+  // Weeks start on Monday
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+function weeksBetween(from: Date, to: Date): number {
+  const fromWeek = startOfWeek(from);
+  return Math.round((to.getTime() - fromWeek.getTime()) / (7 * DAY_MS));
+}
+
+function getDayTypeStats(sessions: WakeSession[]): DayTypeStats {
+  const dismissed = sessions.filter(session => session.dismissedAt);
+  return {
+    wakeCount: sessions.length,
+    averageWakeMinutes: average(
+      dismissed.map(session => minutesOfDay(session.dismissedAt!))
+    ),
+    averageSnoozes: average(sessions.map(session => session.snoozeCount)) ?? 0,
+    averageDismissMinutes: average(
+      dismissed.map(session => session.timeToDismissMs! / 60000)
+    ),
+  };
+}
+
+/**
+ * Longest and current run of consecutive days on which every wake was on time
+ * Days without any wake-up neither break nor extend a streak
+ */
+function getOnTimeStreaks(sessions: WakeSession[]): {
+  longest: number;
+  current: number;
+} {
+  const days = new Map<string, boolean>();
+  sessions.forEach(session => {
+    const onTime = days.get(session.dateKey) ?? true;
+    days.set(session.dateKey, onTime && isOnTime(session));
+  });
+
+  let longest = 0;
+  let current = 0;
+  Array.from(days.keys())
+    .sort()
+    .forEach(dateKey => {
+      current = days.get(dateKey) ? current + 1 : 0;
+      longest = Math.max(longest, current);
+    });
+
+  return { longest, current };
+}
+
+/**
+ * Aggregate wake statistics over the recorded sessions
+ */
+export function calculateWakeStatistics(
+  sessions: WakeSession[],
+  now: Date = new Date(),
+  weeks: number = 6,
+  trendDays: number = 14
+): WakeStatistics {
+  const dismissed = sessions.filter(session => session.dismissedAt);
+
+  const thisWeek = startOfWeek(now);
+  const snoozesPerWeek: ChartPoint[] = Array.from(
+    { length: weeks },
+    (_, index) => {
+      const weekStart = new Date(
+        thisWeek.getFullYear(),
+        thisWeek.getMonth(),
+        thisWeek.getDate() - (weeks - 1 - index) * 7
+      );
+      const weekEnd = weekStart.getTime() + 7 * DAY_MS;
+      const value = sessions
+        .filter(
+          session =>
+            session.triggeredAt.getTime() >= weekStart.getTime() &&
+            session.triggeredAt.getTime() < weekEnd
+        )
+        .reduce((sum, session) => sum + session.snoozeCount, 0);
+      return {
+        label: weekStart.toLocaleDateString([], {
+          month: 'short',
+          day: 'numeric',
+        }),
+        value,
+      };
+    }
+  );
+
+  // Average over weeks since the first recorded wake, at most the chart range
+  const firstSession = sessions[0];
+  const activeWeeks = firstSession
+    ? snoozesPerWeek.filter(
+        (_, index) =>
+          index >= weeks - 1 - weeksBetween(firstSession.triggeredAt, thisWeek)
+      )
+    : [];
+
+  const dismissTrend: ChartPoint[] = Array.from(
+    { length: trendDays },
+    (_, index) => {
+      const day = new Date(
+        now.getFullYear(),
+        now.getMonth(),
+        now.getDate() - (trendDays - 1 - index)
+      );
+      const dateKey = toDateKey(day);
+      const minutes = average(
+        dismissed
+          .filter(session => session.dateKey === dateKey)
+          .map(session => session.timeToDismissMs! / 60000)
+      );
+      return { label: `${day.getDate()}`, value: minutes ?? 0 };
+    }
+  );
+
+  const streaks = getOnTimeStreaks(sessions);
+
+  return {
+    sessionCount: sessions.length,
+    averageWakeMinutes: average(
+      dismissed.map(session => minutesOfDay(session.dismissedAt!))
+    ),
+    averageSnoozesPerWeek: average(activeWeeks.map(point => point.value)) ?? 0,
+    snoozesPerWeek,
+    dismissTrend,
+    weekday: getDayTypeStats(
+      sessions.filter(session => !isWeekend(session.dateKey))
+    ),
+    weekend: getDayTypeStats(
+      sessions.filter(session => isWeekend(session.dateKey))
+    ),
+    longestOnTimeStreak: streaks.longest,
+    currentOnTimeStreak: streaks.current,
+  };
+}
+
+/**
+ * Minutes after midnight as HH:MM
+ */
+export function formatMinutesOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60) % 24;
+  return `${hours.toString().padStart(2, '0')}:${(rounded % 60)
+    .toString()
+    .padStart(2, '0')}`;
+}
@@ -1,6 +1,8 @@
 import { createAudioPlayer, setAudioModeAsync, AudioPlayer } from 'expo-audio';
 import { AudioTrack } from './types';
 import { SoundLibrary } from './SoundLibrary';
+import type { VolumeRamp } from '../../types/alarm';
+import { startVolumeRamp } from './volume-ramp';
 
 export interface PlaybackState {
   isLoaded: boolean;
@@ -16,12 +18,14 @@ export interface AlarmPlaybackOptions {
   fallbackSoundId?: string;
   onSpotifyPlayerNeeded?: (track: AudioTrack) => void;
   onPlaybackFailed?: (error: Error, fallbackUsed: boolean) => void;
+  volumeRamp?: VolumeRamp;
 }
 
 class AudioManagerClass {
   private player: AudioPlayer | null = null;
   private isInitialized: boolean = false;
   private playbackStatusListeners: ((status: PlaybackState) => void)[] = [];
+  private stopVolumeRamp: (() => void) | null = null;
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
@@ -96,6 +100,35 @@ class AudioManagerClass {
     }
   }
 
+  /**
+   * Play the loaded audio, rising along the given volume ramp
+   */
+  private async playWithRamp(ramp?: VolumeRamp): Promise<void> {
+    this.cancelVolumeRamp();
+    if (ramp && this.player) {
+      this.player.volume = ramp.startVolume;
+    }
+
+    await this.playAsync();
+
+    if (ramp && this.player) {
+      this.stopVolumeRamp = startVolumeRamp(this.player, ramp);
+    }
+  }
+
+  /**
+   * Play a track the way an alarm would start, following the volume ramp
+   */
+  async playWithVolumeRamp(track: AudioTrack, ramp: VolumeRamp): Promise<void> {
+    await this.loadAudio(track);
+    await this.playWithRamp(ramp);
+  }
+
+  private cancelVolumeRamp(): void {
+    this.stopVolumeRamp?.();
+    this.stopVolumeRamp = null;
+  }
+
   async pauseAsync(): Promise<void> {
     if (!this.player) {
       throw new Error('No audio loaded');
@@ -116,6 +149,7 @@ class AudioManagerClass {
     }
 
     try {
+      this.cancelVolumeRamp();
       console.log('⏹️ Stopping audio');
       await this.player.pause();
       this.player.seekTo(0); // Reset to beginning
@@ -131,6 +165,8 @@ class AudioManagerClass {
     }
 
     try {
+      // An explicit volume wins over a running ramp
+      this.cancelVolumeRamp();
       const clampedVolume = Math.max(0, Math.min(1, volume));
       this.player.volume = clampedVolume;
     } catch (error) {
@@ -170,6 +206,7 @@ class AudioManagerClass {
   }
 
   async unloadAudio(): Promise<void> {
+    this.cancelVolumeRamp();
     if (this.player) {
       try {
         console.log('🗑️ Unloading audio');
@@ -252,6 +289,7 @@ class AudioManagerClass {
       fallbackSoundId,
       onSpotifyPlayerNeeded,
       onPlaybackFailed,
+      volumeRamp,
     } = options;
 
     console.log('🚨 Starting alarm playback for:', preferredTrack.name);
@@ -272,7 +310,10 @@ class AudioManagerClass {
       );
 
       // Play fallback sound immediately for reliable alarm
-      const fallbackResult = await this.playFallbackSound(fallbackSoundId);
+      const fallbackResult = await this.playFallbackSound(
+        fallbackSoundId,
+        volumeRamp
+      );
 
       // Notify that Spotify player is needed for full track
       if (onSpotifyPlayerNeeded) {
@@ -289,7 +330,7 @@ class AudioManagerClass {
     // Strategy 2: Try to play the preferred track directly
     try {
       await this.loadAudio(preferredTrack);
-      await this.playAsync();
+      await this.playWithRamp(volumeRamp);
 
       console.log('✅ Successfully playing preferred track');
       return {
@@ -304,7 +345,10 @@ class AudioManagerClass {
       );
 
       // Strategy 3: Fallback to reliable local sound
-      const fallbackResult = await this.playFallbackSound(fallbackSoundId);
+      const fallbackResult = await this.playFallbackSound(
+        fallbackSoundId,
+        volumeRamp
+      );
 
       if (onPlaybackFailed) {
         onPlaybackFailed(error as Error, true);
@@ -327,7 +371,10 @@ class AudioManagerClass {
   /**
    * Play a reliable fallback sound for alarms
    */
-  async playFallbackSound(fallbackSoundId?: string): Promise<boolean> {
+  async playFallbackSound(
+    fallbackSoundId?: string,
+    volumeRamp?: VolumeRamp
+  ): Promise<boolean> {
     try {
       console.log('🔄 Playing fallback alarm sound');
 
@@ -349,7 +396,7 @@ class AudioManagerClass {
         await SoundLibrary.convertToAudioTrack(fallbackSound);
       await this.loadAudio(fallbackTrack);
       // Note: Looping is now handled via longer audio files instead of JS timers
-      await this.playAsync();
+      await this.playWithRamp(volumeRamp);
 
       console.log('✅ Fallback sound playing:', fallbackSound.name);
       return true;
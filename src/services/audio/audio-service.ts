@@ -1,5 +1,7 @@
 import { createAudioPlayer, setAudioModeAsync, AudioPlayer } from 'expo-audio';
 import { Platform } from 'react-native';
+import type { VolumeRamp } from '../../types/alarm';
+import { DEFAULT_VOLUME_RAMP, startVolumeRamp } from './volume-ramp';
 
 export interface AlarmAudioOptions {
   volume?: number;
@@ -11,6 +13,7 @@ export class AudioService {
   private static instance: AudioService;
   private isConfigured = false;
   private currentAlarmPlayer: AudioPlayer | null = null;
+  private stopCurrentRamp: (() => void) | null = null;
 
   static getInstance(): AudioService {
     if (!AudioService.instance) {
@@ -177,31 +180,20 @@ export class AudioService {
   // instead of JS timer-based looping to avoid background timer issues
 
   /**
-   * Play alarm sound with fade-in effect
+   * Play alarm sound following the alarm's volume ramp
    * Note: Looping is now handled via longer audio files instead of JS timers
    */
   async playAlarmSoundWithFadeIn(
     player: AudioPlayer,
-    fadeInMs: number = 2000
+    ramp: VolumeRamp = DEFAULT_VOLUME_RAMP
   ): Promise<void> {
     try {
-      // Start at low volume
-      player.volume = 0.1;
+      player.volume = ramp.startVolume;
       await player.play();
-
-      // Gradually increase volume over fadeInMs
-      const steps = 20;
-      const stepDuration = fadeInMs / steps;
-      const volumeStep = 0.9 / steps; // From 0.1 to 1.0
-
-      for (let i = 0; i < steps; i++) {
-        const volume = 0.1 + volumeStep * (i + 1);
-        player.volume = Math.min(volume, 1.0);
-        await new Promise(resolve => setTimeout(resolve, stepDuration));
-      }
+      this.startRamp(player, ramp);
 
       console.log(
-        `✅ Alarm sound started with ${fadeInMs}ms fade-in (looping via long audio files)`
+        `✅ Alarm sound started with ${ramp.durationSeconds}s ${ramp.curve} ramp (looping via long audio files)`
       );
     } catch (error) {
       console.error('❌ Failed to play alarm sound with fade-in:', error);
@@ -209,11 +201,29 @@ export class AudioService {
     }
   }
 
+  /**
+   * Ramp the volume of an already playing alarm player
+   * Replaces any ramp still running for a previous player
+   */
+  startRamp(player: AudioPlayer, ramp: VolumeRamp): void {
+    this.stopRamp();
+    this.stopCurrentRamp = startVolumeRamp(player, ramp);
+  }
+
+  /**
+   * Stop the running volume ramp (volume stays where it is)
+   */
+  stopRamp(): void {
+    this.stopCurrentRamp?.();
+    this.stopCurrentRamp = null;
+  }
+
   /**
    * Stop alarm sound
    */
   async stopAlarmSound(player: AudioPlayer): Promise<void> {
     try {
+      this.stopRamp();
       await player.pause();
 
       // Clear current alarm player reference
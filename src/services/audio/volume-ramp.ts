@@ -0,0 +1,114 @@
+import type { VolumeCurve, VolumeRamp } from '../../types/alarm';
+
+/**
+ * Ramp used for alarms created before the crescendo became configurable
+ */
+export const DEFAULT_VOLUME_RAMP: VolumeRamp = {
+  startVolume: 0.1,
+  targetVolume: 1,
+  durationSeconds: 2,
+  curve: 'linear',
+};
+
+export const VOLUME_CURVES: VolumeCurve[] = [
+  'linear',
+  'exponential',
+  'stepped',
+];
+
+export const RAMP_DURATION_OPTIONS = [0, 15, 30, 60, 120, 300];
+
+const STEPPED_LEVELS = 5;
+const RAMP_TICK_MS = 250;
+
+/**
+ * Resolve the effective volume ramp of an alarm
+ */
+export function getVolumeRamp(alarm: { volumeRamp?: VolumeRamp }) {
+  return alarm.volumeRamp ?? DEFAULT_VOLUME_RAMP;
+}
+
+const clampVolume = (volume: number) => Math.max(0, Math.min(1, volume));
+
+/**
+ * Shape of the curve at progress t in [0, 1]
+ */
+function applyCurve(curve: VolumeCurve, t: number): number {
+  switch (curve) {
+    case 'exponential':
+      // Slow start, fast finish - perceived loudness grows evenly
+      return (Math.pow(2, 6 * t) - 1) / (Math.pow(2, 6) - 1);
+    case 'stepped':
+      return Math.min(1, Math.floor(t * STEPPED_LEVELS) / (STEPPED_LEVELS - 1));
+    case 'linear':
+    default:
+      return t;
+  }
+}
+
+/**
+ * Volume of the ramp after elapsedMs of ringing
+ */
+export function getRampVolume(ramp: VolumeRamp, elapsedMs: number): number {
+  const start = clampVolume(ramp.startVolume);
+  const target = clampVolume(ramp.targetVolume);
+  const durationMs = Math.max(0, ramp.durationSeconds) * 1000;
+
+  if (durationMs === 0 || elapsedMs >= durationMs) return target;
+  if (elapsedMs <= 0) return start;
+
+  return (
+    start + (target - start) * applyCurve(ramp.curve, elapsedMs / durationMs)
+  );
+}
+
+/**
+ * Anything with a settable volume - an expo-audio player in practice
+ */
+export interface VolumeTarget {
+  volume: number;
+}
+
+/**
+ * Drive target.volume along the ramp; returns a function that stops the ramp
+ */
+export function startVolumeRamp(
+  target: VolumeTarget,
+  ramp: VolumeRamp,
+  onTick?: (volume: number, progress: number) => void
+): () => void {
+  const startedAt = Date.now();
+  const durationMs = Math.max(0, ramp.durationSeconds) * 1000;
+
+  const tick = () => {
+    const elapsed = Date.now() - startedAt;
+    const volume = getRampVolume(ramp, elapsed);
+    target.volume = volume;
+    onTick?.(volume, durationMs === 0 ? 1 : Math.min(1, elapsed / durationMs));
+    return elapsed >= durationMs;
+  };
+
+  if (tick()) return () => {};
+
+  const interval = setInterval(() => {
+    if (tick()) clearInterval(interval);
+  }, RAMP_TICK_MS);
+
+  return () => clearInterval(interval);
+}
+
+/**
+ * Short human description, e.g. "10% → 100% over 30s, exponential"
+ */
+export function describeVolumeRamp(ramp: VolumeRamp): string {
+  const start = Math.round(clampVolume(ramp.startVolume) * 100);
+  const target = Math.round(clampVolume(ramp.targetVolume) * 100);
+
+  if (ramp.durationSeconds <= 0) return `${target}% immediately`;
+
+  const duration =
+    ramp.durationSeconds >= 60 && ramp.durationSeconds % 60 === 0
+      ? `${ramp.durationSeconds / 60} min`
+      : `${ramp.durationSeconds}s`;
+  return `${start}% → ${target}% over ${duration}, ${ramp.curve}`;
+}
@@ -1,6 +1,8 @@
 import { createAudioPlayer, AudioPlayer } from 'expo-audio';
 import { Platform } from 'react-native';
 import { audioService } from '../audio/audio-service';
+import type { VolumeRamp } from '../../types/alarm';
+import { DEFAULT_VOLUME_RAMP } from '../audio/volume-ramp';
 
 export interface BackgroundAlarmConfig {
   enableSilentLoop: boolean;
@@ -138,12 +140,17 @@ export class BackgroundAlarmService {
    * Switch from silent loop to alarm playbook
    * This ensures seamless transition without dropping audio session
    */
-  async switchToAlarmSound(alarmPlayer: AudioPlayer): Promise<void> {
+  async switchToAlarmSound(
+    alarmPlayer: AudioPlayer,
+    ramp: VolumeRamp = DEFAULT_VOLUME_RAMP
+  ): Promise<void> {
     try {
       console.log('🔄 Switching from silent loop to alarm sound...');
 
       // First, start the alarm player while silent loop is still running
+      alarmPlayer.volume = ramp.startVolume;
       await alarmPlayer.play();
+      audioService.startRamp(alarmPlayer, ramp);
 
       // Small delay to ensure alarm audio starts playing
       await new Promise(resolve => setTimeout(resolve, 100));
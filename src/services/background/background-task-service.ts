@@ -3,6 +3,8 @@ import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 import { alarmService } from '../alarms/alarm-service';
 import { audioService } from '../audio/audio-service';
+import { alarmHistoryService } from '../alarms/alarm-history-service';
+import { notificationBudgetService } from '../notifications/notification-budget-service';
 
 // Background task names
 const BACKGROUND_NOTIFICATION_TASK = 'BACKGROUND_NOTIFICATION_TASK';
@@ -86,6 +88,24 @@ export class BackgroundTaskService {
               // Configure audio for background playback
               await audioService.configureAudio();
 
+              if (notificationData.alarmType === 'gentle-wake') {
+                await alarmService.handleGentleWakeTrigger(notificationData);
+                console.log('🌅 Background gentle wake started:', alarmId);
+                return;
+              }
+
+              if (notificationData.alarmType === 'awake-check-missed') {
+                this.handleAwakeCheckMissed(notificationData);
+                return;
+              }
+
+              await alarmHistoryService.record('triggered', alarmId, {
+                source: 'background_task',
+                scheduledTime: notificationData.scheduledTime
+                  ? new Date(notificationData.scheduledTime)
+                  : undefined,
+              });
+
               // Start alarm ringing in background
               await alarmService.startRingingAlarm(alarmId, audioTrack);
 
@@ -152,7 +172,27 @@ export class BackgroundTaskService {
           const alarmData = alarm.content.data;
 
           if (alarmData?.alarmId && alarmData?.audioTrack) {
+            if (alarmData.alarmType === 'gentle-wake') {
+              console.log(
+                '🌅 Starting background gentle wake:',
+                alarmData.alarmId
+              );
+              await alarmService.handleGentleWakeTrigger(alarmData);
+              continue;
+            }
+
+            if (alarmData.alarmType === 'awake-check-missed') {
+              this.handleAwakeCheckMissed(alarmData);
+              continue;
+            }
+
             console.log('🔔 Triggering background alarm:', alarmData.alarmId);
+            await alarmHistoryService.record('triggered', alarmData.alarmId, {
+              source: 'background_task',
+              scheduledTime: alarmData.scheduledTime
+                ? new Date(alarmData.scheduledTime)
+                : undefined,
+            });
 
             // Start ringing alarm
             await alarmService.startRingingAlarm(
@@ -167,6 +207,24 @@ export class BackgroundTaskService {
     }
   }
 
+  /**
+   * Unanswered awake check - the alarm service clears the check and rings again
+   */
+  private handleAwakeCheckMissed(data: Record<string, any>): void {
+    alarmService.handleSchedulerTrigger({
+      alarmId: String(data.alarmId),
+      kind: 'awake-check-missed',
+      source: 'background_task',
+      audioTrack: data.audioTrack,
+      scheduledTime: data.scheduledTime
+        ? new Date(data.scheduledTime)
+        : undefined,
+      useBackgroundAudio: !!data.useBackgroundAudio,
+      isUserAction: false,
+      data,
+    });
+  }
+
   /**
    * Check if alarm should trigger based on its trigger conditions
    */
@@ -294,6 +352,22 @@ export class BackgroundTaskService {
                 );
 
                 if (alarmData.alarmId && alarmData.audioTrack) {
+                  // The notification path did not ring it - log the miss, then recover
+                  await alarmHistoryService.record(
+                    'missed',
+                    alarmData.alarmId,
+                    {
+                      source: 'background_fetch',
+                      scheduledTime,
+                      details: { lateByMs: timeDiff },
+                    }
+                  );
+                  await alarmHistoryService.record(
+                    'triggered',
+                    alarmData.alarmId,
+                    { source: 'background_fetch', scheduledTime }
+                  );
+
                   // Trigger missed alarm
                   await alarmService.startRingingAlarm(
                     alarmData.alarmId,
@@ -305,6 +379,15 @@ export class BackgroundTaskService {
           }
         }
 
+        // Replace fired occurrences so the notification horizon keeps rolling
+        const budget = await notificationBudgetService.topUp();
+        if (budget?.isShort) {
+          console.warn(
+            '⚠️ Notification horizon is short:',
+            budget.coveredUntil?.toISOString()
+          );
+        }
+
         console.log('✅ Background fetch completed');
         return 'newData'; // BackgroundFetch.BackgroundFetchResult.NewData equivalent
       } catch (error) {
@@ -0,0 +1,365 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { ExportedAudioTrack } from '../../alarms/alarm-transfer';
+import { mapRecurrence, planCalendarImport } from '../ics-import';
+import { parseIcs, parseRecurrence } from '../ics-parser';
+
+// Runs in Europe/Berlin (jest.config.js), like the fixture's TZID values
+
+const teamCalendar = readFileSync(
+  join(__dirname, 'fixtures', 'team.ics'),
+  'utf8'
+);
+
+const audioTrack: ExportedAudioTrack = {
+  id: 'gentle',
+  name: 'Gentle',
+  type: 'predefined',
+};
+
+describe('parseIcs', () => {
+  const calendar = parseIcs(teamCalendar);
+  const byUid = (uid: string) =>
+    calendar.events.filter(event => event.uid === uid);
+
+  it('reads the calendar name and every VEVENT', () => {
+    expect(calendar.name).toBe('Team');
+    expect(calendar.events).toHaveLength(10);
+  });
+
+  it('unfolds continuation lines and unescapes text', () => {
+    expect(byUid('review@example.com')[0].summary).toBe(
+      'Quarterly review with a title long enough to be folded onto a continuation line'
+    );
+    expect(byUid('standup@example.com')[0].summary).toBe(
+      'Daily stand-up, team room'
+    );
+  });
+
+  it('keeps TZID times as written with their zone and converts UTC times to local', () => {
+    expect(byUid('standup@example.com')[0].start).toEqual({
+      date: '2025-01-06',
+      time: '09:30',
+      timeZone: 'Europe/Berlin',
+    });
+    expect(byUid('review@example.com')[0].start).toEqual({
+      date: '2025-01-15',
+      time: '09:00',
+    });
+    expect(byUid('offsite@example.com')[0].start).toEqual({
+      date: '2025-01-20',
+    });
+  });
+
+  it('reads RRULE, EXDATE and RECURRENCE-ID', () => {
+    const [series, moved] = byUid('standup@example.com');
+
+    expect(series.rrule).toMatchObject({
+      freq: 'WEEKLY',
+      interval: 1,
+      byDay: [1, 2, 3, 4, 5].map(weekday => ({ weekday })),
+    });
+    expect(series.exdates).toEqual([
+      { date: '2025-01-08', time: '09:30', timeZone: 'Europe/Berlin' },
+    ]);
+    expect(moved.recurrenceId).toMatchObject({
+      date: '2025-01-10',
+      time: '09:30',
+    });
+    expect(moved.start).toMatchObject({ date: '2025-01-10', time: '11:00' });
+  });
+
+  it('reads STATUS and ignores properties of nested components', () => {
+    expect(byUid('sync@example.com')[0].cancelled).toBe(true);
+    expect(byUid('dentist@example.com')[0]).toMatchObject({
+      summary: 'Dentist',
+      cancelled: false,
+    });
+  });
+
+  it('rejects text that is not a calendar', () => {
+    expect(() => parseIcs('BEGIN:VCARD\r\nEND:VCARD')).toThrow(
+      'This file is not an iCalendar (.ics) file'
+    );
+  });
+
+  it('unfolds tab continuations too', () => {
+    const { events } = parseIcs(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:folded',
+        'SUMMARY:Early',
+        '\tflight',
+        'DTSTART:20250301T060000',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+    );
+    expect(events[0].summary).toBe('Earlyflight');
+  });
+});
+
+describe('parseRecurrence', () => {
+  it('reads ordinals, counts and UNTIL', () => {
+    expect(
+      parseRecurrence('FREQ=MONTHLY;BYDAY=-1TU;COUNT=6;UNTIL=20251231')
+    ).toMatchObject({
+      freq: 'MONTHLY',
+      byDay: [{ weekday: 2, ordinal: -1 }],
+      count: 6,
+      until: { date: '2025-12-31' },
+    });
+  });
+
+  it('leaves missing number lists empty', () => {
+    expect(parseRecurrence('FREQ=MONTHLY')).toMatchObject({
+      byMonthDay: [],
+      bySetPos: [],
+      byMonth: [],
+    });
+  });
+
+  it('rejects rules without a known frequency', () => {
+    expect(parseRecurrence('BYDAY=MO')).toBeNull();
+    expect(parseRecurrence('FREQ=FORTNIGHTLY')).toBeNull();
+  });
+});
+
+describe('mapRecurrence', () => {
+  const monday = { date: '2025-01-06', time: '09:00' };
+  const map = (rule: string, dayShift = 0) =>
+    mapRecurrence(parseRecurrence(rule)!, monday, dayShift);
+
+  it('maps weekly rules, defaulting to the start weekday', () => {
+    expect(map('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toEqual({
+      rule: { type: 'weekly', weekdays: [1, 4], intervalWeeks: 2 },
+    });
+    expect(map('FREQ=WEEKLY')).toEqual({
+      rule: { type: 'weekly', weekdays: [1], intervalWeeks: undefined },
+    });
+  });
+
+  it('shifts weekdays back when the alarm falls on the day before', () => {
+    expect(map('FREQ=WEEKLY;BYDAY=SU,MO', -1)).toEqual({
+      rule: { type: 'weekly', weekdays: [0, 6], intervalWeeks: undefined },
+    });
+    expect(map('FREQ=DAILY;BYDAY=MO,WE', -1)).toEqual({
+      rule: { type: 'weekly', weekdays: [0, 2] },
+    });
+  });
+
+  it('maps daily rules with an interval', () => {
+    expect(map('FREQ=DAILY;INTERVAL=3', -1)).toEqual({
+      rule: { type: 'daily', intervalDays: 3 },
+    });
+  });
+
+  it('maps monthly rules by day of month or nth weekday', () => {
+    expect(map('FREQ=MONTHLY')).toEqual({
+      rule: { type: 'monthly', dayOfMonth: 6 },
+    });
+    expect(map('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toEqual({
+      rule: { type: 'monthly', weekday: 2, weekOfMonth: 2 },
+    });
+    expect(map('FREQ=MONTHLY;BYDAY=-1FR')).toEqual({
+      rule: { type: 'monthly', weekday: 5, weekOfMonth: -1 },
+    });
+  });
+
+  it.each([
+    ['FREQ=WEEKLY;BYDAY=1MO', 0, 'This weekly repeat pattern is not supported'],
+    [
+      'FREQ=DAILY;INTERVAL=2;BYDAY=MO',
+      0,
+      'This daily repeat pattern is not supported',
+    ],
+    [
+      'FREQ=MONTHLY;INTERVAL=3',
+      0,
+      'Monthly repeats with an interval are not supported',
+    ],
+    [
+      'FREQ=MONTHLY;BYMONTHDAY=15',
+      -1,
+      'The alarm would fall on the day before a monthly event',
+    ],
+    [
+      'FREQ=MONTHLY;BYMONTHDAY=1,15',
+      0,
+      'Monthly repeats on several days are not supported',
+    ],
+    [
+      'FREQ=MONTHLY;BYDAY=5MO',
+      0,
+      'This monthly repeat pattern is not supported',
+    ],
+    ['FREQ=YEARLY', 0, 'Yearly repeats are not supported'],
+    ['FREQ=HOURLY', 0, 'Hourly repeats are not supported'],
+  ])('rejects %s (shift %i)', (rule, dayShift, error) => {
+    expect(map(rule, dayShift)).toEqual({ error });
+  });
+});
+
+describe('planCalendarImport', () => {
+  const now = new Date(2025, 0, 6, 0, 0);
+  const candidates = planCalendarImport(
+    parseIcs(teamCalendar),
+    60,
+    audioTrack,
+    now
+  );
+  const byId = (id: string) =>
+    candidates.find(candidate => candidate.id === id);
+
+  it('orders by first ring, unsupported events last, and leaves out cancelled and past ones', () => {
+    expect(candidates.map(candidate => candidate.id)).toEqual([
+      'standup@example.com',
+      'gym@example.com',
+      'standup@example.com@2025-01-10',
+      'dentist@example.com',
+      'review@example.com',
+      'board@example.com',
+      'hydrate@example.com',
+      'offsite@example.com',
+    ]);
+  });
+
+  it('turns a weekly series into repeat days, skipping EXDATEs and moved instances', () => {
+    expect(byId('standup@example.com')!.alarm).toEqual({
+      title: 'Daily stand-up, team room',
+      time: '08:30',
+      isActive: true,
+      audioTrack,
+      group: 'Team',
+      repeatDays: [1, 2, 3, 4, 5],
+      exceptions: [
+        { date: '2025-01-08', type: 'skip' },
+        { date: '2025-01-10', type: 'skip' },
+      ],
+    });
+  });
+
+  it('turns a moved instance into its own one-time alarm', () => {
+    expect(byId('standup@example.com@2025-01-10')).toMatchObject({
+      alarm: {
+        title: 'Daily stand-up (moved)',
+        date: '2025-01-10',
+        time: '10:00',
+      },
+      firstRing: new Date(2025, 0, 10, 10, 0),
+    });
+  });
+
+  it('moves the repeat days and end date back when the offset crosses midnight', () => {
+    expect(byId('gym@example.com')).toMatchObject({
+      alarm: {
+        time: '23:30',
+        recurrence: { type: 'weekly', weekdays: [1, 3], endDate: '2025-01-30' },
+      },
+      firstRing: new Date(2025, 0, 6, 23, 30),
+    });
+  });
+
+  it('anchors counted monthly rules at their first ring', () => {
+    expect(byId('board@example.com')!.alarm!.recurrence).toEqual({
+      type: 'monthly',
+      weekday: 2,
+      weekOfMonth: -1,
+      startDate: '2025-01-28',
+      count: 6,
+    });
+  });
+
+  it('explains why events cannot become alarms', () => {
+    expect(byId('hydrate@example.com')).toMatchObject({
+      unsupportedReason: 'Hourly repeats are not supported',
+    });
+    expect(byId('offsite@example.com')).toMatchObject({
+      unsupportedReason: 'All-day events have no start time',
+    });
+    expect(byId('hydrate@example.com')!.alarm).toBeUndefined();
+  });
+
+  it('converts UTC event times before applying the offset', () => {
+    expect(byId('review@example.com')!.alarm).toMatchObject({
+      date: '2025-01-15',
+      time: '08:00',
+    });
+  });
+
+  it('imports events of the device zone without a note', () => {
+    expect(byId('standup@example.com')!.timeZoneNote).toBeUndefined();
+  });
+});
+
+describe('planCalendarImport across timezones', () => {
+  const now = new Date(2025, 0, 6, 0, 0);
+  const plan = (lines: string[]) =>
+    planCalendarImport(
+      parseIcs(
+        [
+          'BEGIN:VCALENDAR',
+          'BEGIN:VEVENT',
+          ...lines,
+          'END:VEVENT',
+          'END:VCALENDAR',
+        ].join('\r\n')
+      ),
+      0,
+      audioTrack,
+      now
+    );
+
+  it('converts TZID times of another zone to device time', () => {
+    const [candidate] = plan([
+      'UID:call',
+      'SUMMARY:Client call',
+      'DTSTART;TZID=America/New_York:20250108T090000',
+    ]);
+
+    expect(candidate).toMatchObject({
+      alarm: { date: '2025-01-08', time: '15:00' },
+      firstRing: new Date(2025, 0, 8, 15, 0),
+      timeZoneNote: 'Converted from America/New_York time',
+    });
+  });
+
+  it('uses the offset in effect on the event date', () => {
+    // New York is already on summer time, Berlin is not yet
+    const [candidate] = plan([
+      'UID:call',
+      'SUMMARY:Client call',
+      'DTSTART;TZID=America/New_York:20250312T090000',
+    ]);
+
+    expect(candidate.firstRing).toEqual(new Date(2025, 2, 12, 14, 0));
+  });
+
+  it('moves repeat days when the conversion crosses midnight', () => {
+    const [candidate] = plan([
+      'UID:late',
+      'SUMMARY:Late sync',
+      'DTSTART;TZID=America/Los_Angeles:20250106T200000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+    ]);
+
+    expect(candidate.alarm).toMatchObject({
+      time: '05:00',
+      recurrence: { type: 'weekly', weekdays: [2, 4], startDate: '2025-01-07' },
+    });
+  });
+
+  it('keeps times of unknown zones as written and says so', () => {
+    const [candidate] = plan([
+      'UID:outlook',
+      'SUMMARY:Planning',
+      'DTSTART;TZID=Not/A_Zone:20250108T090000',
+    ]);
+
+    expect(candidate).toMatchObject({
+      alarm: { date: '2025-01-08', time: '09:00' },
+      timeZoneNote: 'Unknown timezone Not/A_Zone - times kept as written',
+    });
+  });
+});
@@ -0,0 +1,323 @@
+import type { AlarmException, RecurrenceRule } from '../../types/alarm';
+import type {
+  ExportedAlarm,
+  ExportedAudioTrack,
+} from '../alarms/alarm-transfer';
+import {
+  getNextOccurrence,
+  isSimpleWeeklyRule,
+  parseDateKey,
+  toDateKey,
+} from '../alarms/recurrence';
+import type {
+  IcsCalendar,
+  IcsDate,
+  IcsEvent,
+  IcsRecurrence,
+} from './ics-parser';
+
+export const CALENDAR_OFFSET_OPTIONS = [0, 15, 30, 60, 90, 120];
+export const DEFAULT_CALENDAR_OFFSET_MINUTES = 60;
+
+/**
+ * Calendar event (or series) offered for import
+ */
+export interface CalendarImportCandidate {
+  id: string;
+  event: IcsEvent;
+  alarm?: ExportedAlarm; // Missing when the event can't become an alarm
+  firstRing?: Date;
+  unsupportedReason?: string;
+  timeZoneNote?: string; // Event is written in another timezone
+}
+
+type MappedRule = { rule: RecurrenceRule } | { error: string };
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+function shiftWeekdays(weekdays: number[], days: number): number[] {
+  return [...new Set(weekdays.map(day => (((day + days) % 7) + 7) % 7))].sort(
+    (a, b) => a - b
+  );
+}
+
+function toLocalDate(value: IcsDate): Date {
+  const date = parseDateKey(value.date);
+  if (value.time) {
+    const [hours, minutes] = value.time.split(':').map(Number);
+    date.setHours(hours, minutes, 0, 0);
+  }
+  return date;
+}
+
+// Offset of a timezone from UTC at an instant - throws for unknown zones
+function getZoneOffsetMs(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value);
+
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour') % 24, // Some engines write midnight as 24
+    part('minute')
+  );
+  return wallClock - Math.floor(instant / 60000) * 60000;
+}
+
+/**
+ * Instant of an event start written in another timezone
+ * Falls back to the device zone (with a note) when the zone is unknown
+ */
+function resolveEventStart(value: IcsDate): { start: Date; note?: string } {
+  const deviceZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!value.timeZone || !value.time || value.timeZone === deviceZone) {
+    return { start: toLocalDate(value) };
+  }
+
+  const [year, month, day] = value.date.split('-').map(Number);
+  const [hours, minutes] = value.time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  try {
+    // Second pass corrects the offset when the first guess crossed a DST switch
+    let instant = wallClock - getZoneOffsetMs(wallClock, value.timeZone);
+    instant = wallClock - getZoneOffsetMs(instant, value.timeZone);
+    return {
+      start: new Date(instant),
+      note: `Converted from ${value.timeZone} time`,
+    };
+  } catch {
+    return {
+      start: toLocalDate(value),
+      note: `Unknown timezone ${value.timeZone} - times kept as written`,
+    };
+  }
+}
+
+/**
+ * Map an RRULE onto the alarm repeat model
+ * dayShift moves the pattern when the offset pulls the alarm onto an earlier day
+ */
+export function mapRecurrence(
+  rrule: IcsRecurrence,
+  start: IcsDate,
+  dayShift: number
+): MappedRule {
+  const startDay = parseDateKey(start.date);
+  const plainDays = rrule.byDay.filter(day => day.ordinal === undefined);
+
+  switch (rrule.freq) {
+    case 'DAILY':
+      if (rrule.byDay.length > 0) {
+        if (rrule.interval > 1 || plainDays.length !== rrule.byDay.length) {
+          return { error: 'This daily repeat pattern is not supported' };
+        }
+        return {
+          rule: {
+            type: 'weekly',
+            weekdays: shiftWeekdays(
+              plainDays.map(day => day.weekday),
+              dayShift
+            ),
+          },
+        };
+      }
+      return { rule: { type: 'daily', intervalDays: rrule.interval } };
+
+    case 'WEEKLY': {
+      if (plainDays.length !== rrule.byDay.length) {
+        return { error: 'This weekly repeat pattern is not supported' };
+      }
+      const weekdays =
+        plainDays.length > 0
+          ? plainDays.map(day => day.weekday)
+          : [startDay.getDay()];
+      return {
+        rule: {
+          type: 'weekly',
+          weekdays: shiftWeekdays(weekdays, dayShift),
+          intervalWeeks: rrule.interval > 1 ? rrule.interval : undefined,
+        },
+      };
+    }
+
+    case 'MONTHLY': {
+      if (rrule.interval > 1) {
+        return { error: 'Monthly repeats with an interval are not supported' };
+      }
+      if (dayShift !== 0) {
+        return {
+          error: 'The alarm would fall on the day before a monthly event',
+        };
+      }
+      if (rrule.byMonthDay.length > 1 || rrule.byDay.length > 1) {
+        return { error: 'Monthly repeats on several days are not supported' };
+      }
+      if (rrule.byDay.length === 1) {
+        const [day] = rrule.byDay;
+        const weekOfMonth = day.ordinal ?? rrule.bySetPos[0];
+        if (!weekOfMonth || (weekOfMonth !== -1 && weekOfMonth > 4)) {
+          return { error: 'This monthly repeat pattern is not supported' };
+        }
+        return {
+          rule: { type: 'monthly', weekday: day.weekday, weekOfMonth },
+        };
+      }
+      return {
+        rule: {
+          type: 'monthly',
+          dayOfMonth: rrule.byMonthDay[0] ?? startDay.getDate(),
+        },
+      };
+    }
+
+    default:
+      return {
+        error: `${rrule.freq.charAt(0)}${rrule.freq.slice(1).toLowerCase()} repeats are not supported`,
+      };
+  }
+}
+
+function toTimeString(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes()
+  ).padStart(2, '0')}`;
+}
+
+function planEvent(
+  event: IcsEvent,
+  offsetMinutes: number,
+  audioTrack: ExportedAudioTrack,
+  groupName: string | undefined,
+  now: Date
+): CalendarImportCandidate | null {
+  const id = event.recurrenceId
+    ? `${event.uid}@${event.recurrenceId.date}`
+    : event.uid;
+  const title = event.summary || 'Calendar event';
+
+  if (!event.start.time) {
+    const lastDay = event.rrule?.until?.date ?? event.start.date;
+    if (!event.rrule && lastDay < toDateKey(now)) return null;
+    return {
+      id,
+      event,
+      unsupportedReason: 'All-day events have no start time',
+    };
+  }
+
+  const { start: eventStart, note: timeZoneNote } = resolveEventStart(
+    event.start
+  );
+  const ring = new Date(eventStart.getTime() - offsetMinutes * 60 * 1000);
+  const dayShift = Math.round(
+    (parseDateKey(toDateKey(ring)).getTime() -
+      parseDateKey(event.start.date).getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+
+  const base: ExportedAlarm = {
+    title,
+    time: toTimeString(ring),
+    isActive: true,
+    audioTrack,
+    group: groupName,
+  };
+
+  if (!event.rrule) {
+    if (ring <= now) return null;
+    const alarm = { ...base, date: toDateKey(ring) };
+    return { id, event, alarm, firstRing: ring, timeZoneNote };
+  }
+
+  const mapped = mapRecurrence(event.rrule, event.start, dayShift);
+  if ('error' in mapped) {
+    return { id, event, unsupportedReason: mapped.error, timeZoneNote };
+  }
+
+  const startDate = toDateKey(ring);
+  const endDate = event.rrule.until
+    ? shiftDateKey(event.rrule.until.date, dayShift)
+    : undefined;
+  const needsAnchor =
+    startDate > toDateKey(now) ||
+    event.rrule.count !== undefined ||
+    (mapped.rule.type === 'weekly' && (mapped.rule.intervalWeeks ?? 1) > 1) ||
+    (mapped.rule.type === 'daily' && mapped.rule.intervalDays > 1);
+  const rule: RecurrenceRule = {
+    ...mapped.rule,
+    startDate: needsAnchor ? startDate : undefined,
+    endDate,
+    count: event.rrule.count,
+  };
+
+  const exceptions: AlarmException[] = event.exdates.map(exdate => ({
+    date: shiftDateKey(exdate.date, dayShift),
+    type: 'skip',
+  }));
+
+  const alarm: ExportedAlarm = {
+    ...base,
+    ...(isSimpleWeeklyRule(rule) && rule.type === 'weekly'
+      ? { repeatDays: rule.weekdays }
+      : { recurrence: rule }),
+    exceptions: exceptions.length > 0 ? exceptions : undefined,
+  };
+
+  const firstRing = getNextOccurrence({ ...alarm, time: ring }, now);
+  // Series that already ended
+  if (!firstRing) return null;
+
+  return { id, event, alarm, firstRing, timeZoneNote };
+}
+
+/**
+ * Turn calendar events into alarms ringing offsetMinutes before each event
+ * Changed instances of a series become their own one-time alarms and are
+ * skipped in the series; cancelled and past events are left out
+ */
+export function planCalendarImport(
+  calendar: IcsCalendar,
+  offsetMinutes: number,
+  audioTrack: ExportedAudioTrack,
+  now: Date = new Date()
+): CalendarImportCandidate[] {
+  const overrides = calendar.events.filter(event => event.recurrenceId);
+
+  const events = calendar.events.map(event => {
+    if (!event.rrule || event.recurrenceId) return event;
+    const moved = overrides
+      .filter(override => override.uid === event.uid)
+      .map(override => override.recurrenceId!);
+    return moved.length > 0
+      ? { ...event, exdates: [...event.exdates, ...moved] }
+      : event;
+  });
+
+  return events
+    .filter(event => !event.cancelled)
+    .map(event =>
+      planEvent(event, offsetMinutes, audioTrack, calendar.name, now)
+    )
+    .filter(
+      (candidate): candidate is CalendarImportCandidate => candidate !== null
+    )
+    .sort(
+      (a, b) =>
+        (a.firstRing?.getTime() ?? Infinity) -
+        (b.firstRing?.getTime() ?? Infinity)
+    );
+}
@@ -0,0 +1,283 @@
+/**
+ * Minimal offline iCalendar (RFC 5545) reader - just what alarm import needs
+ * VEVENTs with their start, RRULE, EXDATE and RECURRENCE-ID; everything else is ignored
+ */
+
+/**
+ * Wall-clock date of an event - time is missing for all-day events
+ * UTC values are converted to the device zone; TZID values are kept as written
+ * with their zone, floating values belong to the device zone
+ */
+export interface IcsDate {
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:mm
+  timeZone?: string; // TZID the date and time are written in
+}
+
+export type IcsFrequency =
+  | 'SECONDLY'
+  | 'MINUTELY'
+  | 'HOURLY'
+  | 'DAILY'
+  | 'WEEKLY'
+  | 'MONTHLY'
+  | 'YEARLY';
+
+export interface IcsWeekday {
+  weekday: number; // 0 = Sunday
+  ordinal?: number; // 2MO = 2, -1FR = -1
+}
+
+export interface IcsRecurrence {
+  freq: IcsFrequency;
+  interval: number;
+  byDay: IcsWeekday[];
+  byMonthDay: number[];
+  bySetPos: number[];
+  byMonth: number[];
+  count?: number;
+  until?: IcsDate;
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: IcsDate;
+  rrule?: IcsRecurrence;
+  exdates: IcsDate[];
+  recurrenceId?: IcsDate; // Set on a changed instance of a series
+  cancelled: boolean;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  events: IcsEvent[];
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: IcsFrequency[] = [
+  'SECONDLY',
+  'MINUTELY',
+  'HOURLY',
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Long lines are folded onto continuation lines starting with a space or tab
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts at the first colon outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const [key, ...rest] = part.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+/**
+ * Parse a DATE or DATE-TIME value (20261019, 20261019T090000, 20261019T090000Z)
+ */
+export function parseIcsDate(
+  value: string,
+  params: Record<string, string> = {}
+): IcsDate | null {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (params.VALUE === 'DATE' || hours === undefined) {
+    return { date: `${year}-${month}-${day}` };
+  }
+
+  if (utc) {
+    const local = new Date(
+      Date.UTC(+year, +month - 1, +day, +hours, +minutes, 0)
+    );
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+    };
+  }
+
+  return {
+    date: `${year}-${month}-${day}`,
+    time: `${hours}:${minutes}`,
+    timeZone: params.TZID || undefined,
+  };
+}
+
+function parseWeekday(value: string): IcsWeekday | null {
+  const match = value.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i);
+  if (!match) return null;
+  return {
+    weekday: WEEKDAY_CODES.indexOf(match[2].toUpperCase()),
+    ordinal: match[1] ? Number(match[1]) : undefined,
+  };
+}
+
+function parseNumberList(value: string): number[] {
+  return value
+    .split(',')
+    .filter(part => part.trim().length > 0)
+    .map(Number)
+    .filter(number => Number.isInteger(number));
+}
+
+/**
+ * Parse an RRULE value, null when it has no usable frequency
+ */
+export function parseRecurrence(value: string): IcsRecurrence | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, ...rest] = part.split('=');
+    if (key) parts[key.trim().toUpperCase()] = rest.join('=').trim();
+  });
+
+  const freq = parts.FREQ?.toUpperCase() as IcsFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const interval = Number(parts.INTERVAL ?? 1);
+  const count = parts.COUNT !== undefined ? Number(parts.COUNT) : undefined;
+
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    byDay: (parts.BYDAY ?? '')
+      .split(',')
+      .map(parseWeekday)
+      .filter((day): day is IcsWeekday => day !== null),
+    byMonthDay: parseNumberList(parts.BYMONTHDAY ?? ''),
+    bySetPos: parseNumberList(parts.BYSETPOS ?? ''),
+    byMonth: parseNumberList(parts.BYMONTH ?? ''),
+    count: count && Number.isInteger(count) && count > 0 ? count : undefined,
+    until: parts.UNTIL ? (parseIcsDate(parts.UNTIL) ?? undefined) : undefined,
+  };
+}
+
+/**
+ * Parse the events of an .ics file
+ * Throws when the text isn't an iCalendar file
+ */
+export function parseIcs(text: string): IcsCalendar {
+  const lines = unfoldLines(text);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This file is not an iCalendar (.ics) file');
+  }
+
+  const calendar: IcsCalendar = { events: [] };
+  // Open components, innermost last - only direct VEVENT properties count
+  const stack: string[] = [];
+  let event: Partial<IcsEvent> | null = null;
+
+  lines.forEach(raw => {
+    const line = parseContentLine(raw.trim());
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      const component = line.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === 'VEVENT' && stack.length === 2) {
+        event = { exdates: [], cancelled: false };
+      }
+      return;
+    }
+
+    if (line.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT' && event) {
+        if (event.start) {
+          calendar.events.push({
+            uid: event.uid ?? `event-${calendar.events.length + 1}`,
+            summary: event.summary ?? '',
+            start: event.start,
+            rrule: event.rrule,
+            exdates: event.exdates ?? [],
+            recurrenceId: event.recurrenceId,
+            cancelled: event.cancelled ?? false,
+          });
+        }
+        event = null;
+      }
+      return;
+    }
+
+    const current = stack[stack.length - 1];
+    if (current === 'VCALENDAR' && line.name === 'X-WR-CALNAME') {
+      calendar.name = unescapeText(line.value);
+      return;
+    }
+    if (current !== 'VEVENT' || !event) return;
+
+    switch (line.name) {
+      case 'UID':
+        event.uid = line.value.trim();
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeText(line.value);
+        break;
+      case 'DTSTART':
+        event.start = parseIcsDate(line.value, line.params) ?? undefined;
+        break;
+      case 'RRULE':
+        event.rrule = parseRecurrence(line.value) ?? undefined;
+        break;
+      case 'EXDATE':
+        line.value.split(',').forEach(value => {
+          const date = parseIcsDate(value, line.params);
+          if (date) event!.exdates!.push(date);
+        });
+        break;
+      case 'RECURRENCE-ID':
+        event.recurrenceId = parseIcsDate(line.value, line.params) ?? undefined;
+        break;
+      case 'STATUS':
+        event.cancelled = line.value.trim().toUpperCase() === 'CANCELLED';
+        break;
+    }
+  });
+
+  return calendar;
+}
@@ -0,0 +1,239 @@
+import type { Alarm, AlarmGroup, RecurrenceRule } from '../../types/alarm';
+import { isAlarmEffectivelyActive } from '../alarms/alarm-groups';
+import {
+  getException,
+  getRecurrenceRule,
+  occurrencesUntil,
+  toDateKey,
+} from '../alarms/recurrence';
+
+export const CALENDAR_EXPORT_WEEK_OPTIONS = [2, 4, 8, 12];
+export const DEFAULT_CALENDAR_EXPORT_WEEKS = 4;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const EVENT_DURATION = 'PT5M';
+const MAX_LINE_LENGTH = 74;
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Floating local date-time - calendars show it at the same wall-clock time
+ * in any zone, which is how the alarm rings
+ */
+function formatLocal(date: Date): string {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+// Lines longer than 75 octets continue on lines starting with a space
+function foldLine(line: string): string[] {
+  const chars = Array.from(line);
+  if (chars.length <= MAX_LINE_LENGTH) return [line];
+
+  const lines: string[] = [];
+  for (let i = 0; i < chars.length; i += MAX_LINE_LENGTH - 1) {
+    const chunk = chars.slice(i, i + MAX_LINE_LENGTH - 1).join('');
+    lines.push(i === 0 ? chunk : ` ${chunk}`);
+  }
+  return lines;
+}
+
+/**
+ * RRULE body for a recurrence rule, null when it has no RRULE equivalent
+ * Weeks start on Sunday like the app's alternating-week rules
+ */
+export function toRRule(rule: RecurrenceRule, until: Date): string | null {
+  const parts: string[] = [];
+
+  switch (rule.type) {
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      if ((rule.intervalWeeks ?? 1) > 1) {
+        parts.push(`INTERVAL=${rule.intervalWeeks}`);
+      }
+      parts.push(
+        `BYDAY=${[...rule.weekdays]
+          .sort((a, b) => a - b)
+          .map(day => WEEKDAY_CODES[day])
+          .join(',')}`
+      );
+      parts.push('WKST=SU');
+      break;
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      if (rule.intervalDays > 1) parts.push(`INTERVAL=${rule.intervalDays}`);
+      break;
+    case 'monthly':
+      parts.push('FREQ=MONTHLY');
+      if (rule.dayOfMonth !== undefined) {
+        if (rule.dayOfMonth <= 28) {
+          parts.push(`BYMONTHDAY=${rule.dayOfMonth}`);
+        } else {
+          // Clamped to short months - the latest existing day of 28..dayOfMonth
+          const days = [];
+          for (let day = 28; day <= rule.dayOfMonth; day++) days.push(day);
+          parts.push(`BYMONTHDAY=${days.join(',')}`, 'BYSETPOS=-1');
+        }
+      } else if (rule.weekday !== undefined && rule.weekOfMonth !== undefined) {
+        parts.push(`BYDAY=${rule.weekOfMonth}${WEEKDAY_CODES[rule.weekday]}`);
+      } else {
+        return null;
+      }
+      break;
+    default:
+      return null;
+  }
+
+  parts.push(`UNTIL=${formatLocal(until)}`);
+  return parts.join(';');
+}
+
+function buildEvent(
+  uid: string,
+  alarm: Alarm,
+  start: Date,
+  stamp: Date,
+  extra: string[] = []
+): string[] {
+  const title = alarm.title || 'Alarm';
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatUtc(stamp)}`,
+    `DTSTART:${formatLocal(start)}`,
+    `DURATION:${EVENT_DURATION}`,
+    `SUMMARY:${escapeText(`⏰ ${title}`)}`,
+    `DESCRIPTION:${escapeText(`Sound: ${alarm.audioTrack.name}`)}`,
+    'TRANSP:TRANSPARENT',
+    ...extra,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:PT0M',
+    `DESCRIPTION:${escapeText(title)}`,
+    'END:VALARM',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * VEVENTs for the occurrences of one alarm in the (now, until] window
+ * Repeating alarms become one series - skipped days are EXDATEs and moved
+ * days RECURRENCE-ID overrides; rules without an RRULE equivalent are
+ * written as single events
+ */
+function buildAlarmEvents(
+  alarm: Alarm,
+  now: Date,
+  until: Date,
+  limit: number
+): string[] {
+  const uid = `${alarm.id}@vibewake`;
+  const rule = getRecurrenceRule(alarm);
+  // Pattern without exceptions, so skipped and moved days stay visible here
+  const pattern = occurrencesUntil(
+    { ...alarm, exceptions: undefined },
+    now,
+    until,
+    limit
+  );
+  if (pattern.length === 0) return [];
+
+  if (!rule) {
+    return buildEvent(uid, alarm, pattern[0], now);
+  }
+
+  const rrule = toRRule(rule, pattern[pattern.length - 1]);
+  if (!rrule) {
+    return occurrencesUntil(alarm, now, until, limit).flatMap(occurrence =>
+      buildEvent(
+        `${alarm.id}-${toDateKey(occurrence)}@vibewake`,
+        alarm,
+        occurrence,
+        now
+      )
+    );
+  }
+
+  const exdates: string[] = [];
+  const overrides: string[] = [];
+  pattern.forEach(occurrence => {
+    const exception = getException(alarm, toDateKey(occurrence));
+    if (exception?.type === 'skip') {
+      exdates.push(formatLocal(occurrence));
+    } else if (exception?.type === 'move') {
+      const [hours, minutes] = exception.time.split(':').map(Number);
+      const moved = new Date(occurrence);
+      moved.setHours(hours, minutes, 0, 0);
+      overrides.push(
+        ...buildEvent(uid, alarm, moved, now, [
+          `RECURRENCE-ID:${formatLocal(occurrence)}`,
+        ])
+      );
+    }
+  });
+
+  return [
+    ...buildEvent(uid, alarm, pattern[0], now, [
+      `RRULE:${rrule}`,
+      ...(exdates.length > 0 ? [`EXDATE:${exdates.join(',')}`] : []),
+    ]),
+    ...overrides,
+  ];
+}
+
+/**
+ * Alarms that appear in the calendar - disabled alarms (or groups) and naps don't
+ */
+export function getCalendarAlarms(
+  alarms: Alarm[],
+  groups: AlarmGroup[]
+): Alarm[] {
+  return alarms.filter(
+    alarm => !alarm.isNap && isAlarmEffectivelyActive(alarm, groups)
+  );
+}
+
+/**
+ * iCalendar feed of the upcoming alarm occurrences for the next `weeks` weeks
+ */
+export function buildAlarmCalendar(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  weeks: number = DEFAULT_CALENDAR_EXPORT_WEEKS,
+  now: Date = new Date()
+): string {
+  const until = new Date(now);
+  until.setDate(until.getDate() + weeks * 7);
+  // Enough for an every-day alarm over the whole window
+  const limit = weeks * 7 + 1;
+
+  const events = getCalendarAlarms(alarms, groups).flatMap(alarm =>
+    buildAlarmEvents(alarm, now, until, limit)
+  );
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VibeWake//Alarms//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:VibeWake alarms',
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .flatMap(foldLine)
+    .join('\r\n')
+    .concat('\r\n');
+}
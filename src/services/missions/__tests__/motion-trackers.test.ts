@@ -0,0 +1,113 @@
+import type { MotionMissionType } from '../../../types/alarm';
+import { getMotionMission } from '../mission-registry';
+import { getMotionSettings } from '../motion-missions';
+import {
+  AccelerometerSample,
+  MotionTrace,
+  PedometerSample,
+  createTraceMotionSource,
+} from '../motion-source';
+import {
+  MotionTracker,
+  createFlipTracker,
+  createShakeTracker,
+  createStepTracker,
+} from '../motion-trackers';
+import flipTrace from './fixtures/flip-trace.json';
+import shakeTrace from './fixtures/shake-trace.json';
+import stepsTrace from './fixtures/steps-trace.json';
+
+jest.mock('expo-sensors', () => ({ Accelerometer: {}, Pedometer: {} }));
+
+// Recorded at 50 ms intervals - see fixtures/
+//   shake: 5 hard shakes (~2 g), 5 gentle ones (~1 g), a rebound inside the cooldown
+//   steps: resubscribed mid-walk at 12 steps, with one out-of-order reading
+//   flip: a held flip, a face-down too brief to count, a flip via a tilted phone
+
+function replay<TSample>(
+  tracker: MotionTracker<TSample>,
+  samples: TSample[]
+): number {
+  samples.forEach(sample => tracker.push(sample));
+  return tracker.getProgress();
+}
+
+describe('createShakeTracker', () => {
+  const samples: AccelerometerSample[] = shakeTrace.accelerometer;
+
+  it.each([
+    [0.4, 11],
+    [0.8, 11],
+    [1.2, 6],
+    [2.5, 0],
+  ])('counts the trace at %s g as %i shakes', (threshold, expected) => {
+    expect(replay(createShakeTracker({ threshold }), samples)).toBe(expected);
+  });
+
+  it('counts the rebound once the cooldown is shorter than it', () => {
+    expect(
+      replay(createShakeTracker({ threshold: 1.2, cooldownMs: 0 }), samples)
+    ).toBe(7);
+  });
+
+  it('ignores a phone lying still', () => {
+    const still = samples.slice(0, 40);
+    expect(replay(createShakeTracker({ threshold: 0.4 }), still)).toBe(0);
+  });
+});
+
+describe('createStepTracker', () => {
+  const samples: PedometerSample[] = stepsTrace.pedometer;
+
+  it('counts from the first reading and never goes backwards', () => {
+    const tracker = createStepTracker();
+    expect(samples.map(sample => tracker.push(sample))).toEqual([
+      0, 1, 3, 3, 3, 6, 8, 14, 21,
+    ]);
+  });
+});
+
+describe('createFlipTracker', () => {
+  const samples: AccelerometerSample[] = flipTrace.accelerometer;
+
+  it('counts held face-down to face-up flips only', () => {
+    expect(replay(createFlipTracker({ threshold: 0.8 }), samples)).toBe(2);
+  });
+
+  it('counts the brief face-down too once the hold is short enough', () => {
+    expect(
+      replay(createFlipTracker({ threshold: 0.8, holdMs: 200 }), samples)
+    ).toBe(3);
+  });
+
+  it('needs the phone flatter than the threshold', () => {
+    expect(replay(createFlipTracker({ threshold: 0.97 }), samples)).toBe(0);
+  });
+});
+
+describe('motion missions on a trace source', () => {
+  it.each<[MotionMissionType, MotionTrace, number]>([
+    ['shake', shakeTrace, 11],
+    ['steps', stepsTrace, 21],
+    ['flip', flipTrace, 2],
+  ])(
+    'replays the %s trace through the mission tracker',
+    async (type, trace, expected) => {
+      const mission = getMotionMission(type);
+      const source = createTraceMotionSource(trace);
+      const tracker = mission.createTracker(
+        getMotionSettings(mission, { type, difficulty: 'easy', rounds: 1 })
+      );
+
+      expect(await source.isAvailable(mission.sensor)).toBe(true);
+      const unsubscribe =
+        mission.sensor === 'pedometer'
+          ? source.subscribePedometer(sample => tracker.push(sample))
+          : source.subscribeAccelerometer(sample => tracker.push(sample));
+      source.play();
+      unsubscribe();
+
+      expect(tracker.getProgress()).toBe(expected);
+    }
+  );
+});
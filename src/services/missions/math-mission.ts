@@ -0,0 +1,48 @@
+import { Mission, randomInt } from './types';
+
+export interface MathChallenge {
+  expression: string;
+  answer: number;
+}
+
+/**
+ * Arithmetic problems - addition when easy, mixed multiplication when harder
+ */
+export const mathMission: Mission<MathChallenge, string> = {
+  type: 'math',
+  name: 'Math',
+  description: 'Solve arithmetic problems',
+  icon: 'calculator-outline',
+
+  generate: (difficulty, random = Math.random) => {
+    switch (difficulty) {
+      case 'easy': {
+        const a = randomInt(random, 2, 20);
+        const b = randomInt(random, 2, 20);
+        return { expression: `${a} + ${b}`, answer: a + b };
+      }
+      case 'medium': {
+        const a = randomInt(random, 3, 12);
+        const b = randomInt(random, 3, 12);
+        const c = randomInt(random, 10, 50);
+        return { expression: `${a} × ${b} + ${c}`, answer: a * b + c };
+      }
+      case 'hard':
+      default: {
+        const a = randomInt(random, 11, 25);
+        const b = randomInt(random, 3, 9);
+        const c = randomInt(random, 20, 99);
+        const d = randomInt(random, 2, 9);
+        return {
+          expression: `${a} × ${b} − ${c} + ${d}`,
+          answer: a * b - c + d,
+        };
+      }
+    }
+  },
+
+  validate: (challenge, answer) => {
+    const value = Number(answer.trim());
+    return answer.trim() !== '' && value === challenge.answer;
+  },
+};
@@ -0,0 +1,55 @@
+import { Mission, MissionDifficulty, randomInt } from './types';
+
+export interface MemoryChallenge {
+  gridSize: number; // Tiles per row/column
+  sequence: number[]; // Tile indexes to repeat in order
+}
+
+const MEMORY_SETTINGS: Record<
+  MissionDifficulty,
+  { gridSize: number; length: number }
+> = {
+  easy: { gridSize: 3, length: 4 },
+  medium: { gridSize: 3, length: 6 },
+  hard: { gridSize: 4, length: 8 },
+};
+
+/**
+ * Memorize a highlighted tile sequence and tap it back
+ */
+export const memoryMission: Mission<MemoryChallenge, number[]> = {
+  type: 'memory',
+  name: 'Memory',
+  description: 'Repeat a tile sequence',
+  icon: 'grid-outline',
+
+  generate: (difficulty, random = Math.random) => {
+    const { gridSize, length } = MEMORY_SETTINGS[difficulty];
+    const tileCount = gridSize * gridSize;
+    const sequence: number[] = [];
+
+    while (sequence.length < length) {
+      const tile = randomInt(random, 0, tileCount - 1);
+      // Avoid the same tile twice in a row - it is invisible when replayed
+      if (tile !== sequence[sequence.length - 1]) {
+        sequence.push(tile);
+      }
+    }
+
+    return { gridSize, sequence };
+  },
+
+  validate: (challenge, answer) =>
+    answer.length === challenge.sequence.length &&
+    answer.every((tile, index) => tile === challenge.sequence[index]),
+};
+
+/**
+ * Whether a partial answer still matches the beginning of the sequence
+ */
+export function isMemoryPrefixCorrect(
+  challenge: MemoryChallenge,
+  answer: number[]
+): boolean {
+  return answer.every((tile, index) => tile === challenge.sequence[index]);
+}
@@ -0,0 +1,75 @@
+import type { AlarmMissionConfig } from '../../types/alarm';
+import {
+  CognitiveMissionType,
+  Mission,
+  MissionDifficulty,
+  MissionInfo,
+  MissionType,
+  MotionMissionType,
+} from './types';
+import { mathMission } from './math-mission';
+import { memoryMission } from './memory-mission';
+import { typingMission } from './typing-mission';
+import {
+  MotionMission,
+  flipMission,
+  shakeMission,
+  stepsMission,
+} from './motion-missions';
+
+/**
+ * Cognitive missions - register new challenge types here
+ */
+export const MISSIONS: Record<CognitiveMissionType, Mission<any, any>> = {
+  math: mathMission,
+  memory: memoryMission,
+  typing: typingMission,
+};
+
+/**
+ * Sensor-driven missions - register new motion types here
+ */
+export const MOTION_MISSIONS: Record<MotionMissionType, MotionMission> = {
+  shake: shakeMission,
+  steps: stepsMission,
+  flip: flipMission,
+};
+
+export const MISSION_TYPES = Object.keys(MISSIONS) as CognitiveMissionType[];
+
+export const MOTION_MISSION_TYPES = Object.keys(
+  MOTION_MISSIONS
+) as MotionMissionType[];
+
+export const MISSION_DIFFICULTIES: MissionDifficulty[] = [
+  'easy',
+  'medium',
+  'hard',
+];
+
+export const DEFAULT_MISSION_CONFIG: AlarmMissionConfig = {
+  type: 'math',
+  difficulty: 'medium',
+  rounds: 3,
+};
+
+export function isMotionMissionType(
+  type: MissionType
+): type is MotionMissionType {
+  return type in MOTION_MISSIONS;
+}
+
+export function getMission(type: CognitiveMissionType): Mission<any, any> {
+  return MISSIONS[type];
+}
+
+export function getMotionMission(type: MotionMissionType): MotionMission {
+  return MOTION_MISSIONS[type];
+}
+
+/**
+ * Name, icon and description of any mission type
+ */
+export function getMissionInfo(type: MissionType): MissionInfo {
+  return isMotionMissionType(type) ? MOTION_MISSIONS[type] : MISSIONS[type];
+}
@@ -0,0 +1,91 @@
+import type { AlarmMissionConfig } from '../../types/alarm';
+import { MissionDifficulty, MissionInfo, MotionMissionType } from './types';
+import type { MotionSensor } from './motion-source';
+import {
+  MotionTracker,
+  createFlipTracker,
+  createShakeTracker,
+  createStepTracker,
+} from './motion-trackers';
+
+export interface MotionMissionSettings {
+  target: number;
+  threshold: number; // g - unused by the step mission
+}
+
+/**
+ * Sensor-driven mission - progress comes from a tracker instead of an answer
+ */
+export interface MotionMission extends MissionInfo {
+  type: MotionMissionType;
+  sensor: MotionSensor;
+  unit: string;
+  targetStep: number; // Stepper increment in the alarm editor
+  thresholdRange?: { min: number; max: number; step: number };
+  defaults: Record<MissionDifficulty, MotionMissionSettings>;
+  createTracker: (settings: MotionMissionSettings) => MotionTracker<any>;
+}
+
+export const shakeMission: MotionMission = {
+  type: 'shake',
+  name: 'Shake',
+  description: 'Shake the phone',
+  icon: 'phone-portrait-outline',
+  sensor: 'accelerometer',
+  unit: 'shakes',
+  targetStep: 5,
+  thresholdRange: { min: 0.4, max: 3, step: 0.2 },
+  defaults: {
+    easy: { target: 15, threshold: 0.8 },
+    medium: { target: 30, threshold: 1.2 },
+    hard: { target: 60, threshold: 1.6 },
+  },
+  createTracker: ({ threshold }) => createShakeTracker({ threshold }),
+};
+
+export const stepsMission: MotionMission = {
+  type: 'steps',
+  name: 'Steps',
+  description: 'Walk around',
+  icon: 'walk-outline',
+  sensor: 'pedometer',
+  unit: 'steps',
+  targetStep: 10,
+  defaults: {
+    easy: { target: 20, threshold: 0 },
+    medium: { target: 50, threshold: 0 },
+    hard: { target: 100, threshold: 0 },
+  },
+  createTracker: () => createStepTracker(),
+};
+
+export const flipMission: MotionMission = {
+  type: 'flip',
+  name: 'Flip',
+  description: 'Flip the phone face down, then face up',
+  icon: 'sync-outline',
+  sensor: 'accelerometer',
+  unit: 'flips',
+  targetStep: 1,
+  thresholdRange: { min: 0.5, max: 0.95, step: 0.05 },
+  defaults: {
+    easy: { target: 2, threshold: 0.7 },
+    medium: { target: 4, threshold: 0.8 },
+    hard: { target: 8, threshold: 0.9 },
+  },
+  createTracker: ({ threshold }) => createFlipTracker({ threshold }),
+};
+
+/**
+ * Per-alarm target/threshold, falling back to the difficulty defaults
+ */
+export function getMotionSettings(
+  mission: MotionMission,
+  config: AlarmMissionConfig
+): MotionMissionSettings {
+  const defaults = mission.defaults[config.difficulty];
+  return {
+    target: Math.max(1, config.target ?? defaults.target),
+    threshold: config.threshold ?? defaults.threshold,
+  };
+}
@@ -0,0 +1,113 @@
+import { Accelerometer, Pedometer } from 'expo-sensors';
+
+/**
+ * Accelerometer reading in g (z ≈ -1 lying face up, +1 face down)
+ */
+export interface AccelerometerSample {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number; // ms
+}
+
+/**
+ * Pedometer reading - steps counted since the subscription started
+ */
+export interface PedometerSample {
+  steps: number;
+  timestamp: number; // ms
+}
+
+export type MotionSample = AccelerometerSample | PedometerSample;
+
+export type MotionSensor = 'accelerometer' | 'pedometer';
+
+/**
+ * Sensor input used by motion missions - swap for a trace source in tests or simulators
+ */
+export interface MotionSource {
+  isAvailable: (sensor: MotionSensor) => Promise<boolean>;
+  subscribeAccelerometer: (
+    listener: (sample: AccelerometerSample) => void,
+    intervalMs?: number
+  ) => () => void;
+  subscribePedometer: (
+    listener: (sample: PedometerSample) => void
+  ) => () => void;
+}
+
+/**
+ * Device sensors through expo-sensors
+ */
+export const expoMotionSource: MotionSource = {
+  isAvailable: async sensor => {
+    try {
+      if (sensor === 'accelerometer') {
+        return await Accelerometer.isAvailableAsync();
+      }
+
+      if (!(await Pedometer.isAvailableAsync())) return false;
+      const permission = await Pedometer.requestPermissionsAsync();
+      return permission.granted;
+    } catch (error) {
+      console.warn(`⚠️ Motion sensor ${sensor} unavailable:`, error);
+      return false;
+    }
+  },
+
+  subscribeAccelerometer: (listener, intervalMs = 50) => {
+    Accelerometer.setUpdateInterval(intervalMs);
+    const subscription = Accelerometer.addListener(({ x, y, z }) =>
+      listener({ x, y, z, timestamp: Date.now() })
+    );
+    return () => subscription.remove();
+  },
+
+  subscribePedometer: listener => {
+    const subscription = Pedometer.watchStepCount(({ steps }) =>
+      listener({ steps, timestamp: Date.now() })
+    );
+    return () => subscription.remove();
+  },
+};
+
+export interface MotionTrace {
+  accelerometer?: AccelerometerSample[];
+  pedometer?: PedometerSample[];
+}
+
+/**
+ * Motion source replaying a recorded trace - call play() to deliver all samples
+ */
+export function createTraceMotionSource(
+  trace: MotionTrace
+): MotionSource & { play: () => void } {
+  const accelerometerListeners = new Set<
+    (sample: AccelerometerSample) => void
+  >();
+  const pedometerListeners = new Set<(sample: PedometerSample) => void>();
+
+  return {
+    isAvailable: async sensor =>
+      sensor === 'accelerometer' ? !!trace.accelerometer : !!trace.pedometer,
+
+    subscribeAccelerometer: listener => {
+      accelerometerListeners.add(listener);
+      return () => accelerometerListeners.delete(listener);
+    },
+
+    subscribePedometer: listener => {
+      pedometerListeners.add(listener);
+      return () => pedometerListeners.delete(listener);
+    },
+
+    play: () => {
+      trace.accelerometer?.forEach(sample =>
+        accelerometerListeners.forEach(listener => listener(sample))
+      );
+      trace.pedometer?.forEach(sample =>
+        pedometerListeners.forEach(listener => listener(sample))
+      );
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { AccelerometerSample, PedometerSample } from './motion-source';
+
+/**
+ * Pure progress tracker fed with sensor samples
+ */
+export interface MotionTracker<TSample> {
+  push: (sample: TSample) => number; // Returns progress so far
+  getProgress: () => number;
+}
+
+export interface ShakeTrackerOptions {
+  threshold: number; // Extra g-force above gravity that counts as a shake
+  cooldownMs?: number; // Ignore samples right after a counted shake
+}
+
+/**
+ * Counts shakes as acceleration spikes beyond gravity
+ */
+export function createShakeTracker({
+  threshold,
+  cooldownMs = 250,
+}: ShakeTrackerOptions): MotionTracker<AccelerometerSample> {
+  let shakes = 0;
+  let lastShakeAt = -Infinity;
+
+  return {
+    push: ({ x, y, z, timestamp }) => {
+      const force = Math.abs(Math.sqrt(x * x + y * y + z * z) - 1);
+      if (force >= threshold && timestamp - lastShakeAt >= cooldownMs) {
+        shakes++;
+        lastShakeAt = timestamp;
+      }
+      return shakes;
+    },
+    getProgress: () => shakes,
+  };
+}
+
+/**
+ * Counts steps from the pedometer, relative to the first reading
+ */
+export function createStepTracker(): MotionTracker<PedometerSample> {
+  let baseline: number | null = null;
+  let steps = 0;
+
+  return {
+    push: sample => {
+      if (baseline === null) baseline = sample.steps;
+      steps = Math.max(steps, sample.steps - baseline);
+      return steps;
+    },
+    getProgress: () => steps,
+  };
+}
+
+export interface FlipTrackerOptions {
+  threshold: number; // |z| in g needed to count as lying flat
+  holdMs?: number; // How long the phone must stay face down
+}
+
+/**
+ * Counts face-down → face-up flips
+ */
+export function createFlipTracker({
+  threshold,
+  holdMs = 500,
+}: FlipTrackerOptions): MotionTracker<AccelerometerSample> {
+  let flips = 0;
+  let faceDownSince: number | null = null;
+  let wasFaceDown = false;
+
+  return {
+    push: ({ z, timestamp }) => {
+      if (z >= threshold) {
+        faceDownSince ??= timestamp;
+        if (timestamp - faceDownSince >= holdMs) wasFaceDown = true;
+      } else {
+        faceDownSince = null;
+        if (wasFaceDown && z <= -threshold) {
+          flips++;
+          wasFaceDown = false;
+        }
+      }
+      return flips;
+    },
+    getProgress: () => flips,
+  };
+}
@@ -0,0 +1,47 @@
+import type { Ionicons } from '@expo/vector-icons';
+import type {
+  CognitiveMissionType,
+  MissionDifficulty,
+  MissionType,
+} from '../../types/alarm';
+
+export type {
+  CognitiveMissionType,
+  MissionDifficulty,
+  MissionType,
+  MotionMissionType,
+} from '../../types/alarm';
+
+/**
+ * Source of randomness - injectable so challenges can be reproduced
+ */
+export type RandomSource = () => number;
+
+/**
+ * Display metadata shared by all mission families
+ */
+export interface MissionInfo {
+  type: MissionType;
+  name: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}
+
+/**
+ * Common interface implemented by every cognitive wake-up mission
+ */
+export interface Mission<TChallenge, TAnswer> extends MissionInfo {
+  type: CognitiveMissionType;
+  generate: (
+    difficulty: MissionDifficulty,
+    random?: RandomSource
+  ) => TChallenge;
+  validate: (challenge: TChallenge, answer: TAnswer) => boolean;
+}
+
+/**
+ * Random integer in [min, max]
+ */
+export function randomInt(random: RandomSource, min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1));
+}
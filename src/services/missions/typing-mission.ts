@@ -0,0 +1,54 @@
+import { Mission, MissionDifficulty, randomInt } from './types';
+
+export interface TypingChallenge {
+  phrase: string;
+  caseSensitive: boolean;
+}
+
+const PHRASES: Record<MissionDifficulty, string[]> = {
+  easy: [
+    'good morning',
+    'time to wake up',
+    'rise and shine',
+    'new day new start',
+  ],
+  medium: [
+    'I am awake and ready for the day',
+    'Today I will drink a glass of water first',
+    'Every morning is a fresh beginning',
+    'Small steps every day lead to big results',
+  ],
+  hard: [
+    'The quick brown fox jumps over the lazy dog at 6:45 AM.',
+    'Discipline is choosing what you want most over what you want now!',
+    'Pack my box with five dozen liquor jugs, then go for a 3km run.',
+    'Success = (consistency × patience) + a good night of sleep.',
+  ],
+};
+
+const normalize = (text: string, caseSensitive: boolean) => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+/**
+ * Type a displayed phrase exactly (hard mode is case sensitive)
+ */
+export const typingMission: Mission<TypingChallenge, string> = {
+  type: 'typing',
+  name: 'Typing',
+  description: 'Type a displayed phrase',
+  icon: 'text-outline',
+
+  generate: (difficulty, random = Math.random) => {
+    const phrases = PHRASES[difficulty];
+    return {
+      phrase: phrases[randomInt(random, 0, phrases.length - 1)],
+      caseSensitive: difficulty === 'hard',
+    };
+  },
+
+  validate: (challenge, answer) =>
+    normalize(answer, challenge.caseSensitive) ===
+    normalize(challenge.phrase, challenge.caseSensitive),
+};
@@ -0,0 +1,232 @@
+import { Platform } from 'react-native';
+import type { Alarm, AlarmGroup, AlarmNotification } from '../../types/alarm';
+import { notificationService } from './notification-service';
+import { alarmService } from '../alarms/alarm-service';
+import { isAlarmEffectivelyActive } from '../alarms/alarm-groups';
+import { isPastOneTime } from '../alarms/recurrence';
+import {
+  BudgetCandidate,
+  IOS_PENDING_NOTIFICATION_LIMIT,
+  SCHEDULE_GRACE_MS,
+  allocateNotificationBudget,
+  getAlarmBudget,
+  isHorizonShort,
+  toBudgetCandidates,
+} from './notification-budget';
+
+export interface NotificationCoverage {
+  coveredUntil: Date | null; // null when every occurrence in the horizon fits
+  isShort: boolean;
+}
+
+export interface BudgetTopUpReport extends NotificationCoverage {
+  scheduled: number;
+  cancelled: number;
+  notificationIds: Record<string, string[]>; // Per alarm, after the top-up
+}
+
+export type BudgetAlarmSource = () => { alarms: Alarm[]; groups: AlarmGroup[] };
+
+export type BudgetTopUpListener = (report: BudgetTopUpReport) => void;
+
+const occurrenceKey = (alarmId: string, time: number) => `${alarmId}|${time}`;
+
+/**
+ * Spreads the pending-notification limit across notification-based alarms
+ * and keeps the rolling horizon topped up as occurrences fire
+ */
+export class NotificationBudgetService {
+  private static instance: NotificationBudgetService;
+  private alarmSource: BudgetAlarmSource | null = null;
+  private topUpListener: BudgetTopUpListener | null = null;
+  private topUpQueue: Promise<unknown> = Promise.resolve();
+  private coverage: NotificationCoverage | null = null;
+
+  static getInstance(): NotificationBudgetService {
+    if (!NotificationBudgetService.instance) {
+      NotificationBudgetService.instance = new NotificationBudgetService();
+    }
+    return NotificationBudgetService.instance;
+  }
+
+  /**
+   * Where background top-ups read the alarms from
+   */
+  setAlarmSource(source: BudgetAlarmSource): void {
+    this.alarmSource = source;
+  }
+
+  /**
+   * Told the notification IDs a top-up of the registered alarms left scheduled
+   */
+  setTopUpListener(listener: BudgetTopUpListener): void {
+    this.topUpListener = listener;
+  }
+
+  /**
+   * Coverage of the last top-up, null before the first one
+   */
+  getCoverage(): NotificationCoverage | null {
+    return this.coverage;
+  }
+
+  /**
+   * Reschedule occurrences so the soonest ones across all alarms fit the limit
+   * Without arguments the registered alarm source is used, and the listener
+   * gets the result; top-ups never interleave
+   */
+  topUp(
+    alarms?: Alarm[],
+    groups?: AlarmGroup[]
+  ): Promise<BudgetTopUpReport | null> {
+    const run = this.topUpQueue.then(async () => {
+      if (alarms && groups) return this.runTopUp(alarms, groups);
+
+      const state = this.alarmSource?.();
+      if (!state) return null;
+      const report = await this.runTopUp(state.alarms, state.groups);
+      this.topUpListener?.(report);
+      return report;
+    });
+    this.topUpQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async runTopUp(
+    alarms: Alarm[],
+    groups: AlarmGroup[]
+  ): Promise<BudgetTopUpReport> {
+    const now = new Date();
+    // AlarmKit alarms don't use notifications, one-time alarms that rang are done
+    const payloads = new Map<string, AlarmNotification>(
+      alarms
+        .filter(
+          alarm =>
+            isAlarmEffectivelyActive(alarm, groups) &&
+            !alarm.isNativeAlarm &&
+            !isPastOneTime(alarm, now)
+        )
+        .map(alarm => [
+          alarm.id,
+          alarmService.toAlarmNotification(
+            alarm,
+            !!alarm.backgroundAudioEnabled
+          ),
+        ])
+    );
+
+    const [scheduled, pendingCount] = await Promise.all([
+      notificationService.getAllScheduledAlarms(),
+      notificationService.getPendingCount(),
+    ]);
+    const managed = scheduled.filter(
+      notification =>
+        payloads.has(notification.content.data?.alarmId as string) &&
+        notification.content.data?.alarmType !== 'snooze' &&
+        notification.content.data?.alarmType !== 'awake-check-missed' &&
+        notification.content.data?.scheduledTime
+    );
+
+    const limit =
+      Platform.OS === 'ios' ? IOS_PENDING_NOTIFICATION_LIMIT : Infinity;
+    const budget = getAlarmBudget(limit, pendingCount - managed.length);
+    const candidates = [...payloads.values()].flatMap(payload =>
+      toBudgetCandidates(
+        payload,
+        notificationService.getOccurrencesToSchedule(payload),
+        now
+      )
+    );
+    const allocation = allocateNotificationBudget(candidates, budget);
+    const wanted = new Map<string, BudgetCandidate>(
+      allocation.allocated.map(candidate => [
+        occurrenceKey(candidate.alarmId, candidate.occurrence.getTime()),
+        candidate,
+      ])
+    );
+
+    const report: BudgetTopUpReport = {
+      coveredUntil: allocation.coveredUntil,
+      isShort: isHorizonShort(allocation.coveredUntil, now),
+      scheduled: 0,
+      cancelled: 0,
+      notificationIds: {},
+    };
+    const keep = (alarmId: string, identifier: string) => {
+      report.notificationIds[alarmId] = [
+        ...(report.notificationIds[alarmId] || []),
+        identifier,
+      ];
+    };
+    const cancel = async (identifier: string) => {
+      await notificationService.cancelAlarm(identifier);
+      report.cancelled++;
+    };
+
+    // Main ring and gentle wake trigger of an occurrence share its key
+    const existing = new Set<string>();
+    const seenTriggers = new Set<string>();
+    for (const notification of managed) {
+      const data = notification.content.data;
+      const alarmId = data.alarmId as string;
+      const key = occurrenceKey(
+        alarmId,
+        new Date(data.scheduledTime as string).getTime()
+      );
+      const trigger = `${key}|${data.alarmType}`;
+      const createdAt = data.createdAt
+        ? new Date(data.createdAt as string).getTime()
+        : 0;
+
+      if (seenTriggers.has(trigger)) {
+        // Scheduled twice - one is enough
+        await cancel(notification.identifier);
+      } else if (
+        wanted.has(key) ||
+        now.getTime() - createdAt < SCHEDULE_GRACE_MS
+      ) {
+        seenTriggers.add(trigger);
+        existing.add(key);
+        keep(alarmId, notification.identifier);
+      } else {
+        await cancel(notification.identifier);
+      }
+    }
+
+    for (const [key, candidate] of wanted) {
+      if (existing.has(key)) continue;
+      try {
+        const identifiers = await notificationService.scheduleOccurrence(
+          payloads.get(candidate.alarmId)!,
+          candidate.occurrence
+        );
+        identifiers
+          .split(',')
+          .forEach(identifier => keep(candidate.alarmId, identifier));
+        report.scheduled++;
+      } catch (error) {
+        console.error(
+          '❌ Failed to top up occurrence:',
+          candidate.alarmId,
+          candidate.occurrence.toISOString(),
+          error
+        );
+      }
+    }
+
+    this.coverage = {
+      coveredUntil: report.coveredUntil,
+      isShort: report.isShort,
+    };
+    console.log(
+      `📬 Notification budget ${budget}: ${report.scheduled} scheduled, ${report.cancelled} cancelled,`,
+      report.coveredUntil
+        ? `covered until ${report.coveredUntil.toISOString()}`
+        : 'full horizon'
+    );
+    return report;
+  }
+}
+
+export const notificationBudgetService =
+  NotificationBudgetService.getInstance();
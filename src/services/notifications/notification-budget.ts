@@ -0,0 +1,93 @@
+import type { AlarmNotification } from '../../types/alarm';
+import { getGentleWakeStart } from '../alarms/gentle-wake';
+
+// iOS keeps only the 64 soonest pending local notifications per app
+export const IOS_PENDING_NOTIFICATION_LIMIT = 64;
+// Free slots for snoozes scheduled between top-ups
+const SNOOZE_HEADROOM = 2;
+
+// Schedules younger than this may belong to a store mutation still in flight
+export const SCHEDULE_GRACE_MS = 30 * 1000;
+
+// Below this, a few days without opening the app can leave alarms unscheduled
+export const MIN_SAFE_HORIZON_HOURS = 72;
+
+/**
+ * One occurrence competing for notification slots
+ */
+export interface BudgetCandidate {
+  alarmId: string;
+  occurrence: Date;
+  slots: number; // 2 with a gentle wake pre-trigger
+}
+
+export interface BudgetAllocation {
+  allocated: BudgetCandidate[];
+  coveredUntil: Date | null; // First occurrence left out, null when all fit
+}
+
+/**
+ * Slots alarms may use, after notifications the budget doesn't manage
+ * (bedtime reminders, pending snoozes)
+ */
+export function getAlarmBudget(limit: number, otherPending: number): number {
+  return Math.max(0, limit - otherPending - SNOOZE_HEADROOM);
+}
+
+/**
+ * Occurrences of an alarm as budget candidates
+ */
+export function toBudgetCandidates(
+  alarm: AlarmNotification,
+  occurrences: Date[],
+  now: Date = new Date()
+): BudgetCandidate[] {
+  return occurrences.map(occurrence => {
+    const gentleWakeStart = getGentleWakeStart(alarm, occurrence);
+    return {
+      alarmId: alarm.id,
+      occurrence,
+      slots: gentleWakeStart && gentleWakeStart > now ? 2 : 1,
+    };
+  });
+}
+
+/**
+ * Fill the budget with the soonest occurrences across all alarms
+ * Stops at the first occurrence that doesn't fit, so everything before
+ * coveredUntil is scheduled and nothing after it is
+ */
+export function allocateNotificationBudget(
+  candidates: BudgetCandidate[],
+  budget: number
+): BudgetAllocation {
+  const sorted = [...candidates].sort(
+    (a, b) => a.occurrence.getTime() - b.occurrence.getTime()
+  );
+
+  const allocated: BudgetCandidate[] = [];
+  let used = 0;
+  for (const candidate of sorted) {
+    if (used + candidate.slots > budget) {
+      return { allocated, coveredUntil: candidate.occurrence };
+    }
+    allocated.push(candidate);
+    used += candidate.slots;
+  }
+
+  return { allocated, coveredUntil: null };
+}
+
+/**
+ * Whether the scheduled horizon is too short to rely on
+ */
+export function isHorizonShort(
+  coveredUntil: Date | null,
+  now: Date = new Date()
+): boolean {
+  return (
+    !!coveredUntil &&
+    coveredUntil.getTime() - now.getTime() <
+      MIN_SAFE_HORIZON_HOURS * 60 * 60 * 1000
+  );
+}
@@ -2,9 +2,21 @@ import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import { AlarmNotification } from '../../types/alarm';
+import { BedtimeReminder } from '../../types/sleep';
 import { AudioTrack } from '../audio/types';
 import { audioService } from '../audio/audio-service';
 import { safeNavigate } from '../../utils/navigation-utils';
+import {
+  getNextOccurrence,
+  isRepeating,
+  nextOccurrences,
+  toDateKey,
+} from '../alarms/recurrence';
+import { getGentleWakeStart } from '../alarms/gentle-wake';
+
+// How far ahead repeating alarms are materialised as DATE triggers
+const SCHEDULE_HORIZON_DAYS = 14;
+const MAX_OCCURRENCES_PER_ALARM = 14;
 
 export interface NotificationPermissionStatus {
   granted: boolean;
@@ -12,6 +24,19 @@ export interface NotificationPermissionStatus {
   status: string;
 }
 
+/**
+ * Whether an alarm notification starts the ring by itself when it arrives
+ * Gentle wake pre-alarms and awake-check re-rings only go through the alarm
+ * service's trigger routing
+ */
+export function isRingingAlarmData(data?: Record<string, any>): boolean {
+  return (
+    data?.type === 'alarm' &&
+    data.alarmType !== 'gentle-wake' &&
+    data.alarmType !== 'awake-check-missed'
+  );
+}
+
 class NotificationService {
   private initialized = false;
 
@@ -55,12 +80,34 @@ class NotificationService {
         sound: 'default',
         description: 'Notifications for scheduled alarms',
       });
+      await Notifications.setNotificationChannelAsync('bedtime', {
+        name: 'Bedtime Reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+        lightColor: '#66F0FF',
+        description: 'Reminders to wind down before your alarms',
+      });
     }
 
     this.initialized = true;
     console.log('⏰ NotificationService initialized');
   }
 
+  /**
+   * Current permission status without prompting the user
+   */
+  async getPermissionStatus(): Promise<NotificationPermissionStatus> {
+    if (!Device.isDevice) {
+      return {
+        granted: false,
+        canAskAgain: false,
+        status: 'simulator_not_supported',
+      };
+    }
+
+    const { status, canAskAgain } = await Notifications.getPermissionsAsync();
+    return { granted: status === 'granted', canAskAgain, status };
+  }
+
   async requestPermissions(): Promise<NotificationPermissionStatus> {
     if (!Device.isDevice) {
       return {
@@ -103,17 +150,16 @@ class NotificationService {
     };
   }
 
-  async scheduleAlarm(alarm: AlarmNotification): Promise<string> {
-    await this.initialize();
-
-    const permissions = await this.requestPermissions();
-    if (!permissions.granted) {
-      throw new Error('Notification permissions not granted');
-    }
-
-    const content: Notifications.NotificationContentInput = {
+  private buildAlarmContent(
+    alarm: AlarmNotification
+  ): Notifications.NotificationContentInput {
+    return {
       title: alarm.title || 'Alarm',
-      body: `Wake up! Your alarm is ringing 🔔`,
+      body: alarm.isSnooze
+        ? `Snooze is over! Your alarm is ringing again 🔔`
+        : alarm.isNap
+          ? `Nap is over! Time to get up 🔔`
+          : `Wake up! Your alarm is ringing 🔔`,
       sound: Platform.OS === 'android' ? 'default' : true, // iOS: max 30 seconds for notification sound
       priority: Notifications.AndroidNotificationPriority.MAX,
       // iOS-specific high priority configuration
@@ -131,41 +177,141 @@ class NotificationService {
         // Additional backup data for reliable detection
         triggerTimestamp: alarm.time.getTime(),
         createdAt: new Date().toISOString(),
-        alarmType: 'standard',
+        alarmType: alarm.isSnooze ? 'snooze' : 'standard',
+        useBackgroundAudio: !!alarm.useBackgroundAudio,
       },
     };
+  }
 
-    // For one-time alarms
-    if (!alarm.repeatDays || alarm.repeatDays.length === 0) {
-      try {
-        // Auto-schedule for next day if time is in the past
-        const now = new Date();
-        let scheduleTime = new Date(alarm.time);
+  /**
+   * Schedule a single occurrence as a DATE trigger
+   * With gentle wake, a quiet pre-alarm trigger is scheduled as well (IDs comma-separated)
+   */
+  private async scheduleOccurrenceNotification(
+    alarm: AlarmNotification,
+    content: Notifications.NotificationContentInput,
+    occurrence: Date
+  ): Promise<string> {
+    const identifier = await this.scheduleMainNotification(
+      alarm,
+      content,
+      occurrence
+    );
 
-        if (scheduleTime <= now) {
-          // Add time to ensure it's definitely in the future
-          scheduleTime = new Date(now.getTime() + 60 * 1000); // 1 minute from now
-          console.log(
-            '⏰ Alarm time was in past, rescheduled to:',
-            scheduleTime.toISOString(),
-            `(${Math.round((scheduleTime.getTime() - now.getTime()) / 1000)}s from now)`
-          );
+    const gentleWakeStart = alarm.isSnooze
+      ? null
+      : getGentleWakeStart(alarm, occurrence);
+    if (!gentleWakeStart || gentleWakeStart.getTime() <= Date.now()) {
+      return identifier;
+    }
+
+    try {
+      const gentleIdentifier = await this.scheduleGentleWakeNotification(
+        alarm,
+        content,
+        occurrence,
+        gentleWakeStart
+      );
+      return `${identifier},${gentleIdentifier}`;
+    } catch (error) {
+      // The main ring is what matters - keep it even without the gentle phase
+      console.error('❌ Failed to schedule gentle wake:', error);
+      return identifier;
+    }
+  }
+
+  private async scheduleMainNotification(
+    alarm: AlarmNotification,
+    content: Notifications.NotificationContentInput,
+    occurrence: Date
+  ): Promise<string> {
+    return this.scheduleNotificationWithRetry({
+      content: {
+        ...content,
+        title: isRepeating(alarm)
+          ? `${alarm.title} (${this.getDayName(occurrence.getDay())})`
+          : content.title,
+        data: {
+          ...content.data,
+          scheduledTime: occurrence.toISOString(), // Backup for time detection
+          triggerTimestamp: occurrence.getTime(),
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: occurrence,
+        channelId: Platform.OS === 'android' ? 'alarms' : undefined,
+      },
+    });
+  }
+
+  /**
+   * Quiet trigger that starts the gentle wake phase of an occurrence
+   * scheduledTime stays the main ring time, so the pair is cancelled together
+   */
+  private async scheduleGentleWakeNotification(
+    alarm: AlarmNotification,
+    content: Notifications.NotificationContentInput,
+    occurrence: Date,
+    startTime: Date
+  ): Promise<string> {
+    const ringTime = occurrence.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    return this.scheduleNotificationWithRetry({
+      content: {
+        title: `🌅 ${alarm.title || 'Alarm'}`,
+        body: `Gentle wake - your alarm rings at ${ringTime}`,
+        sound: false,
+        data: {
+          ...content.data,
+          scheduledTime: occurrence.toISOString(),
+          triggerTimestamp: occurrence.getTime(),
+          alarmType: 'gentle-wake',
+          gentleWakeStart: startTime.toISOString(),
+          gentleWake: alarm.gentleWake,
+          useBackgroundAudio: !!alarm.useBackgroundAudio,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: startTime,
+        channelId: Platform.OS === 'android' ? 'alarms' : undefined,
+      },
+    });
+  }
+
+  async scheduleAlarm(alarm: AlarmNotification): Promise<string> {
+    await this.initialize();
+
+    const permissions = await this.requestPermissions();
+    if (!permissions.granted) {
+      throw new Error('Notification permissions not granted');
+    }
+
+    const content = this.buildAlarmContent(alarm);
+
+    // One-time alarms resolve to a single occurrence
+    if (!isRepeating(alarm)) {
+      try {
+        const scheduleTime = getNextOccurrence(alarm);
+        if (!scheduleTime) {
+          throw new Error('Alarm has no upcoming occurrence');
         }
 
-        const identifier = await this.scheduleNotificationWithRetry({
+        const identifier = await this.scheduleOccurrenceNotification(
+          alarm,
           content,
-          trigger: {
-            type: Notifications.SchedulableTriggerInputTypes.DATE,
-            date: scheduleTime,
-            channelId: Platform.OS === 'android' ? 'alarms' : undefined,
-          },
-        });
+          scheduleTime
+        );
 
         console.log(
           '⏰ Scheduled one-time alarm:',
           identifier,
           'for',
-          alarm.time
+          scheduleTime.toISOString()
         );
         return identifier;
       } catch (error) {
@@ -174,87 +320,39 @@ class NotificationService {
       }
     }
 
-    // For repeating alarms, calculate next occurrences and schedule as individual DATE triggers
+    // Repeating alarms - schedule each occurrence in the horizon as its own DATE trigger
     const identifiers: string[] = [];
 
     try {
-      // Calculate next 7 days for each repeat day to create specific date triggers
-      const now = new Date();
-      const oneWeekInMs = 7 * 24 * 60 * 60 * 1000;
-
-      for (const weekday of alarm.repeatDays) {
-        // Find the next occurrence of this weekday
-        const nextOccurrence = this.getNextOccurrenceForWeekday(
-          alarm.time,
-          weekday
-        );
+      const occurrences = this.getOccurrencesToSchedule(alarm);
 
-        if (nextOccurrence && nextOccurrence > now) {
-          try {
-            const identifier = await this.scheduleNotificationWithRetry({
-              content: {
-                ...content,
-                title: `${alarm.title} (${this.getDayName(weekday)})`,
-                data: {
-                  ...content.data,
-                  scheduledTime: nextOccurrence.toISOString(), // Backup for time detection
-                  triggerTimestamp: nextOccurrence.getTime(),
-                },
-              },
-              trigger: {
-                type: Notifications.SchedulableTriggerInputTypes.DATE,
-                date: nextOccurrence,
-                channelId: Platform.OS === 'android' ? 'alarms' : undefined,
-              },
-            });
-
-            identifiers.push(identifier);
-            console.log(
-              '⏰ Scheduled date alarm:',
-              identifier,
-              'for',
-              this.getDayName(weekday),
-              'at',
-              nextOccurrence.toISOString()
-            );
-
-            // Schedule for the following week too (to maintain recurring behavior)
-            const nextWeek = new Date(nextOccurrence.getTime() + oneWeekInMs);
-            const weekIdentifier = await this.scheduleNotificationWithRetry({
-              content: {
-                ...content,
-                title: `${alarm.title} (${this.getDayName(weekday)})`,
-                data: {
-                  ...content.data,
-                  scheduledTime: nextWeek.toISOString(), // Backup for time detection
-                  triggerTimestamp: nextWeek.getTime(),
-                },
-              },
-              trigger: {
-                type: Notifications.SchedulableTriggerInputTypes.DATE,
-                date: nextWeek,
-                channelId: Platform.OS === 'android' ? 'alarms' : undefined,
-              },
-            });
-
-            identifiers.push(weekIdentifier);
-            console.log(
-              '⏰ Scheduled weekly alarm:',
-              weekIdentifier,
-              'for',
-              this.getDayName(weekday),
-              'at',
-              nextWeek.toISOString()
-            );
-          } catch (error) {
-            console.error(
-              '❌ Failed to schedule repeating alarm for',
-              this.getDayName(weekday),
-              ':',
-              error
-            );
-            // Continue with other days even if one fails
-          }
+      for (const occurrence of occurrences) {
+        const dayName = this.getDayName(occurrence.getDay());
+
+        try {
+          const identifier = await this.scheduleOccurrenceNotification(
+            alarm,
+            content,
+            occurrence
+          );
+
+          identifiers.push(identifier);
+          console.log(
+            '⏰ Scheduled repeating alarm:',
+            identifier,
+            'for',
+            dayName,
+            'at',
+            occurrence.toISOString()
+          );
+        } catch (error) {
+          console.error(
+            '❌ Failed to schedule repeating alarm for',
+            occurrence.toISOString(),
+            ':',
+            error
+          );
+          // Continue with other occurrences even if one fails
         }
       }
 
@@ -269,6 +367,213 @@ class NotificationService {
     }
   }
 
+  /**
+   * Occurrences inside the scheduling horizon (at least the next one for sparse rules)
+   */
+  getOccurrencesToSchedule(alarm: AlarmNotification): Date[] {
+    const now = new Date();
+    const horizon = new Date(
+      now.getTime() + SCHEDULE_HORIZON_DAYS * 24 * 60 * 60 * 1000
+    );
+    const upcoming = nextOccurrences(alarm, now, MAX_OCCURRENCES_PER_ALARM);
+    const inHorizon = upcoming.filter(date => date <= horizon);
+
+    return inHorizon.length > 0 ? inHorizon : upcoming.slice(0, 1);
+  }
+
+  /**
+   * Schedule one extra occurrence of an alarm (moved or restored occurrence)
+   */
+  async scheduleOccurrence(
+    alarm: AlarmNotification,
+    occurrence: Date
+  ): Promise<string> {
+    await this.initialize();
+
+    const identifier = await this.scheduleOccurrenceNotification(
+      alarm,
+      this.buildAlarmContent(alarm),
+      occurrence
+    );
+    console.log(
+      '⏰ Scheduled occurrence:',
+      identifier,
+      'for',
+      occurrence.toISOString()
+    );
+    return identifier;
+  }
+
+  /**
+   * Scheduled regular (non-snooze) notifications of an alarm, keyed by occurrence date
+   * Gentle wake triggers share the date key of their main ring
+   */
+  async getScheduledOccurrences(
+    alarmId: string
+  ): Promise<{ identifier: string; dateKey: string }[]> {
+    const scheduled = await this.getAllScheduledAlarms();
+
+    return scheduled
+      .filter(
+        notification =>
+          notification.content.data?.alarmId === alarmId &&
+          notification.content.data?.alarmType !== 'snooze' &&
+          notification.content.data?.alarmType !== 'awake-check-missed' &&
+          notification.content.data?.scheduledTime
+      )
+      .map(notification => ({
+        identifier: notification.identifier,
+        dateKey: toDateKey(
+          new Date(notification.content.data.scheduledTime as string)
+        ),
+      }));
+  }
+
+  /**
+   * Cancel only the notifications of one occurrence, returns cancelled IDs
+   */
+  async cancelOccurrence(alarmId: string, dateKey: string): Promise<string[]> {
+    const occurrences = await this.getScheduledOccurrences(alarmId);
+    const cancelled: string[] = [];
+
+    for (const occurrence of occurrences) {
+      if (occurrence.dateKey !== dateKey) continue;
+      await Notifications.cancelScheduledNotificationAsync(
+        occurrence.identifier
+      );
+      cancelled.push(occurrence.identifier);
+    }
+
+    console.log('⏰ Cancelled occurrence:', alarmId, dateKey, cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Present the alarm notification again right away, for a ring nobody dismissed
+   * Its sound still plays when the app's own audio was cut off
+   */
+  async presentAlarmReminder(
+    alarmId: string,
+    title: string,
+    audioTrack: AudioTrack,
+    useBackgroundAudio: boolean
+  ): Promise<string> {
+    const now = new Date();
+    return this.scheduleNotificationWithRetry({
+      content: {
+        title: `⏰ ${title || 'Alarm'}`,
+        body: `Still ringing! Time to get up 🔔`,
+        sound: Platform.OS === 'android' ? 'default' : true,
+        priority: Notifications.AndroidNotificationPriority.MAX,
+        data: {
+          alarmId,
+          audioTrack,
+          type: 'alarm',
+          scheduledTime: now.toISOString(),
+          triggerTimestamp: now.getTime(),
+          alarmType: 'escalation',
+          useBackgroundAudio,
+        },
+      },
+      trigger: Platform.OS === 'android' ? { channelId: 'alarms' } : null,
+    });
+  }
+
+  /**
+   * Schedule an awake check: the check at checkAt, and the re-ring at deadline
+   * The check carries no audio track, so only the re-ring can start a ring
+   */
+  async scheduleAwakeCheck(
+    alarm: AlarmNotification,
+    checkAt: Date,
+    deadline: Date
+  ): Promise<string[]> {
+    const minutesToAnswer = Math.round(
+      (deadline.getTime() - checkAt.getTime()) / 60000
+    );
+    const reRingIdentifier = await this.scheduleNotificationWithRetry({
+      content: {
+        title: `⏰ ${alarm.title || 'Alarm'}`,
+        body: `No answer - your alarm is ringing again 🔔`,
+        sound: Platform.OS === 'android' ? 'default' : true,
+        priority: Notifications.AndroidNotificationPriority.MAX,
+        data: {
+          alarmId: alarm.id,
+          audioTrack: alarm.audioTrack,
+          type: 'alarm',
+          scheduledTime: deadline.toISOString(),
+          triggerTimestamp: deadline.getTime(),
+          createdAt: new Date().toISOString(),
+          alarmType: 'awake-check-missed',
+          useBackgroundAudio: !!alarm.useBackgroundAudio,
+        },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: deadline,
+        channelId: Platform.OS === 'android' ? 'alarms' : undefined,
+      },
+    });
+
+    try {
+      const checkIdentifier = await this.scheduleNotificationWithRetry({
+        content: {
+          title: '☀️ Are you awake?',
+          body: `Tap within ${minutesToAnswer} min or ${alarm.title || 'your alarm'} rings again`,
+          sound: Platform.OS === 'android' ? 'default' : true,
+          priority: Notifications.AndroidNotificationPriority.MAX,
+          data: {
+            alarmId: alarm.id,
+            type: 'awake-check',
+            scheduledTime: deadline.toISOString(),
+            alarmType: 'awake-check',
+            useBackgroundAudio: !!alarm.useBackgroundAudio,
+          },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: checkAt,
+          channelId: Platform.OS === 'android' ? 'alarms' : undefined,
+        },
+      });
+      return [checkIdentifier, reRingIdentifier];
+    } catch (error) {
+      // A re-ring without its check could never be acknowledged
+      await this.cancelAlarm(reRingIdentifier);
+      throw error;
+    }
+  }
+
+  /**
+   * Alarm rings still in the notification center, by occurrence
+   */
+  async getPresentedAlarms(): Promise<
+    { alarmId: string; scheduledTime: Date }[]
+  > {
+    const presented = await Notifications.getPresentedNotificationsAsync();
+    return presented
+      .map(notification => notification.request.content.data)
+      .filter(data => data?.type === 'alarm' && data.alarmId)
+      .map(data => ({
+        alarmId: String(data.alarmId),
+        scheduledTime: new Date(data.scheduledTime as string),
+      }))
+      .filter(({ scheduledTime }) => !Number.isNaN(scheduledTime.getTime()));
+  }
+
+  /**
+   * Remove presented notifications from the notification center
+   */
+  async dismissPresented(identifiers: string[]): Promise<void> {
+    await Promise.all(
+      identifiers.map(identifier =>
+        Notifications.dismissNotificationAsync(identifier).catch(error =>
+          console.warn('⚠️ Failed to dismiss notification:', identifier, error)
+        )
+      )
+    );
+  }
+
   async cancelAlarm(identifier: string): Promise<void> {
     const identifiers = identifier.split(',');
 
@@ -290,42 +595,84 @@ class NotificationService {
     );
   }
 
-  async getNextTriggerDate(
-    time: Date,
-    repeatDays?: number[]
-  ): Promise<Date | null> {
-    if (!repeatDays || repeatDays.length === 0) {
-      // One-time alarm
-      return time > new Date() ? time : null;
-    }
+  /**
+   * All pending notifications of the app, alarms or not
+   */
+  async getPendingCount(): Promise<number> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    return scheduled.length;
+  }
 
-    // Find next occurrence for repeating alarm
-    const now = new Date();
-    const currentDay = now.getDay();
-    const currentTime = now.getHours() * 60 + now.getMinutes();
-    const alarmTime = time.getHours() * 60 + time.getMinutes();
+  /**
+   * Replace all scheduled bedtime reminders, returns the new IDs
+   * Reminders use their own low-priority channel and are not alarms
+   */
+  async replaceBedtimeReminders(
+    reminders: BedtimeReminder[]
+  ): Promise<string[]> {
+    await this.initialize();
+    await this.cancelBedtimeReminders();
 
-    // Sort repeat days
-    const sortedDays = [...repeatDays].sort((a, b) => a - b);
+    const identifiers: string[] = [];
+    for (const reminder of reminders) {
+      const wakeTime = reminder.wakeTime.toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+      const bedtime = reminder.bedtime.toLocaleTimeString([], {
+        hour: '2-digit',
+        minute: '2-digit',
+      });
 
-    // Find next occurrence
-    for (let i = 0; i < 7; i++) {
-      const checkDay = (currentDay + i) % 7;
+      try {
+        const identifier = await Notifications.scheduleNotificationAsync({
+          content: {
+            title: '🌙 Time to wind down',
+            body: `Go to bed by ${bedtime} to be rested for ${reminder.alarmTitle || 'your alarm'} at ${wakeTime}`,
+            sound: false,
+            data: {
+              type: 'bedtime',
+              alarmId: reminder.alarmId,
+              wakeTime: reminder.wakeTime.toISOString(),
+            },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: reminder.remindAt,
+            channelId: Platform.OS === 'android' ? 'bedtime' : undefined,
+          },
+        });
+        identifiers.push(identifier);
+      } catch (error) {
+        // A missing reminder must never block the others
+        console.error('❌ Failed to schedule bedtime reminder:', error);
+      }
+    }
 
-      if (sortedDays.includes(checkDay)) {
-        // If it's today, check if alarm time hasn't passed
-        if (i === 0 && alarmTime <= currentTime) {
-          continue; // Skip today, alarm time has passed
-        }
+    console.log('🌙 Scheduled bedtime reminders:', identifiers.length);
+    return identifiers;
+  }
 
-        const nextDate = new Date(now);
-        nextDate.setDate(now.getDate() + i);
-        nextDate.setHours(time.getHours(), time.getMinutes(), 0, 0);
-        return nextDate;
-      }
+  async cancelBedtimeReminders(): Promise<void> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const notification of scheduled) {
+      if (notification.content.data?.type !== 'bedtime') continue;
+      await Notifications.cancelScheduledNotificationAsync(
+        notification.identifier
+      );
+    }
+  }
+
+  async getNextTriggerDate(
+    alarm: Pick<AlarmNotification, 'time' | 'repeatDays' | 'recurrence'>
+  ): Promise<Date | null> {
+    const now = new Date();
+    if (!isRepeating(alarm)) {
+      // One-time alarm
+      return alarm.time > now ? alarm.time : null;
     }
 
-    return null;
+    return getNextOccurrence(alarm, now);
   }
 
   private getDayName(weekday: number): string {
@@ -341,49 +688,14 @@ class NotificationService {
     return days[weekday] || 'Unknown';
   }
 
-  private getNextOccurrenceForWeekday(
-    alarmTime: Date,
-    weekday: number
-  ): Date | null {
-    const now = new Date();
-    const currentDay = now.getDay();
-
-    // Calculate days until the target weekday
-    let daysUntilTarget = weekday - currentDay;
-    if (daysUntilTarget < 0) {
-      daysUntilTarget += 7; // Next week
-    } else if (daysUntilTarget === 0) {
-      // Same day - check if alarm time has passed
-      const todayAlarmTime = new Date(now);
-      todayAlarmTime.setHours(
-        alarmTime.getHours(),
-        alarmTime.getMinutes(),
-        0,
-        0
-      );
-
-      if (todayAlarmTime <= now) {
-        daysUntilTarget = 7; // Next week
-      }
-    }
-
-    // Create the next occurrence
-    const nextOccurrence = new Date(now);
-    nextOccurrence.setDate(now.getDate() + daysUntilTarget);
-    nextOccurrence.setHours(alarmTime.getHours(), alarmTime.getMinutes(), 0, 0);
-
-    return nextOccurrence;
-  }
-
   // Setup notification listeners for alarm triggering
   setupAlarmListeners() {
     // Listen for notification responses (when user taps notification)
     Notifications.addNotificationResponseReceivedListener(response => {
       const data = response.notification.request.content.data;
       const alarmId = data?.alarmId;
-      const type = data?.type;
 
-      if (type === 'alarm' && alarmId) {
+      if (isRingingAlarmData(data) && alarmId) {
         console.log(
           '⏰ Alarm notification tapped, navigating to ringing screen:',
           alarmId
@@ -396,9 +708,8 @@ class NotificationService {
     Notifications.addNotificationReceivedListener(notification => {
       const data = notification.request.content.data;
       const alarmId = data?.alarmId;
-      const type = data?.type;
 
-      if (type === 'alarm' && alarmId) {
+      if (isRingingAlarmData(data) && alarmId) {
         console.log(
           '⏰ Alarm triggered in foreground, navigating to ringing screen:',
           alarmId
@@ -0,0 +1,137 @@
+import { toDateKey } from '../../alarms/recurrence';
+import {
+  SLEEP_CYCLE_MINUTES,
+  nextTimeOfDay,
+  suggestBedtimes,
+  suggestWakeTimes,
+} from '../sleep-cycles';
+
+// Runs in Europe/Berlin (jest.config.js) - DST starts 2025-03-30
+
+const MINUTE_MS = 60 * 1000;
+
+function wallClock(date: Date): string {
+  return `${toDateKey(date)}T${date.toTimeString().slice(0, 5)}`;
+}
+
+describe('suggestWakeTimes', () => {
+  it('adds the time to fall asleep before counting cycles', () => {
+    const bedtime = new Date(2025, 0, 6, 23, 0);
+
+    const [longest] = suggestWakeTimes(bedtime, { fallAsleepMinutes: 20 });
+
+    expect(longest.cycles).toBe(6);
+    expect(longest.sleepMinutes).toBe(6 * SLEEP_CYCLE_MINUTES);
+    expect(wallClock(longest.time)).toBe('2025-01-07T08:20');
+  });
+
+  it('lists the cycle range from most to fewest cycles', () => {
+    const bedtime = new Date(2025, 0, 6, 23, 0);
+
+    const suggestions = suggestWakeTimes(bedtime, {
+      fallAsleepMinutes: 0,
+      minCycles: 2,
+      maxCycles: 4,
+    });
+
+    expect(suggestions.map(s => s.cycles)).toEqual([4, 3, 2]);
+    expect(suggestions.map(s => wallClock(s.time))).toEqual([
+      '2025-01-07T05:00',
+      '2025-01-07T03:30',
+      '2025-01-07T02:00',
+    ]);
+  });
+
+  it('recommends only 5 and 6 cycles', () => {
+    const suggestions = suggestWakeTimes(new Date(2025, 0, 6, 23, 0));
+
+    expect(suggestions.map(s => s.cycles)).toEqual([6, 5, 4, 3]);
+    expect(suggestions.map(s => s.isRecommended)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it('ignores seconds of the bedtime', () => {
+    const bedtime = new Date(2025, 0, 6, 23, 0, 45);
+
+    const [longest] = suggestWakeTimes(bedtime, { fallAsleepMinutes: 0 });
+
+    expect(longest.time.getSeconds()).toBe(0);
+    expect(wallClock(longest.time)).toBe('2025-01-07T08:00');
+  });
+
+  it('counts real sleep across the spring DST jump', () => {
+    const bedtime = new Date(2025, 2, 29, 23, 0);
+
+    const [longest] = suggestWakeTimes(bedtime, { fallAsleepMinutes: 15 });
+
+    // 9h15m of sleep, but the clock skips an hour overnight
+    expect(longest.time.getTime() - bedtime.getTime()).toBe(555 * MINUTE_MS);
+    expect(wallClock(longest.time)).toBe('2025-03-30T09:15');
+  });
+});
+
+describe('suggestBedtimes', () => {
+  it('works back from the wake time over midnight', () => {
+    const wakeTime = new Date(2025, 0, 7, 7, 0);
+
+    const suggestions = suggestBedtimes(wakeTime, { fallAsleepMinutes: 15 });
+
+    expect(suggestions.map(s => wallClock(s.time))).toEqual([
+      '2025-01-06T21:45',
+      '2025-01-06T23:15',
+      '2025-01-07T00:45',
+      '2025-01-07T02:15',
+    ]);
+    expect(suggestions.filter(s => s.isRecommended).map(s => s.cycles)).toEqual(
+      [6, 5]
+    );
+  });
+
+  it('matches the wake times it was derived from', () => {
+    const wakeTime = new Date(2025, 0, 7, 6, 30);
+
+    const [bedtime] = suggestBedtimes(wakeTime, { fallAsleepMinutes: 10 });
+    const [wake] = suggestWakeTimes(bedtime.time, { fallAsleepMinutes: 10 });
+
+    expect(wake.time).toEqual(wakeTime);
+  });
+});
+
+describe('nextTimeOfDay', () => {
+  it('keeps a time still ahead today', () => {
+    const from = new Date(2025, 0, 6, 6, 0);
+
+    expect(wallClock(nextTimeOfDay(new Date(2000, 0, 1, 7, 30), from))).toBe(
+      '2025-01-06T07:30'
+    );
+  });
+
+  it('moves a passed time to the next day', () => {
+    const from = new Date(2025, 0, 6, 23, 30);
+
+    expect(wallClock(nextTimeOfDay(new Date(2000, 0, 1, 7, 0), from))).toBe(
+      '2025-01-07T07:00'
+    );
+  });
+
+  it('moves the current minute to the next day', () => {
+    const from = new Date(2025, 0, 6, 7, 0);
+
+    expect(wallClock(nextTimeOfDay(new Date(2000, 0, 1, 7, 0), from))).toBe(
+      '2025-01-07T07:00'
+    );
+  });
+
+  it('keeps the wall clock across the spring DST jump', () => {
+    const from = new Date(2025, 2, 29, 22, 0);
+
+    const next = nextTimeOfDay(new Date(2000, 0, 1, 7, 0), from);
+
+    expect(wallClock(next)).toBe('2025-03-30T07:00');
+    expect(next.getTime() - from.getTime()).toBe(8 * 60 * MINUTE_MS);
+  });
+});
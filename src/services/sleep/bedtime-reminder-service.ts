@@ -0,0 +1,67 @@
+import { supabase } from '../supabase/client';
+import { notificationService } from '../notifications/notification-service';
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+import type { QuietHours, SleepSettings } from '../../types/sleep';
+import { getBedtimeReminders } from './bedtime';
+
+/**
+ * Keeps bedtime reminder notifications in line with alarms and sleep settings
+ */
+export class BedtimeReminderService {
+  private static instance: BedtimeReminderService;
+  private syncQueue: Promise<void> = Promise.resolve();
+
+  static getInstance(): BedtimeReminderService {
+    if (!BedtimeReminderService.instance) {
+      BedtimeReminderService.instance = new BedtimeReminderService();
+    }
+    return BedtimeReminderService.instance;
+  }
+
+  /**
+   * Reschedule all reminders - syncs run one after another, never interleaved
+   */
+  sync(
+    alarms: Alarm[],
+    groups: AlarmGroup[],
+    settings: SleepSettings
+  ): Promise<void> {
+    this.syncQueue = this.syncQueue.then(async () => {
+      try {
+        const reminders = getBedtimeReminders(alarms, groups, settings);
+        await notificationService.replaceBedtimeReminders(reminders);
+      } catch (error) {
+        console.error('❌ Failed to sync bedtime reminders:', error);
+      }
+    });
+    return this.syncQueue;
+  }
+
+  /**
+   * Quiet hours saved in the user's notification_preferences row, if any
+   */
+  async fetchQuietHours(userId: string): Promise<QuietHours | null> {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('quiet_hours_enabled, quiet_hours_start, quiet_hours_end')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      // TIME columns come back as HH:MM:SS
+      return {
+        enabled: !!data.quiet_hours_enabled,
+        start: String(data.quiet_hours_start).slice(0, 5),
+        end: String(data.quiet_hours_end).slice(0, 5),
+      };
+    } catch (error) {
+      console.warn('⚠️ Failed to load quiet hours from profile:', error);
+      return null;
+    }
+  }
+}
+
+export const bedtimeReminderService = BedtimeReminderService.getInstance();
@@ -0,0 +1,105 @@
+import type { Alarm, AlarmGroup } from '../../types/alarm';
+import type {
+  BedtimeReminder,
+  QuietHours,
+  SleepSettings,
+} from '../../types/sleep';
+import { isAlarmEffectivelyActive } from '../alarms/alarm-groups';
+import { nextOccurrences, toDateKey } from '../alarms/recurrence';
+import { DEFAULT_FALL_ASLEEP_MINUTES } from './sleep-cycles';
+
+// Reminders are planned as far ahead as the alarms themselves
+const REMINDER_HORIZON_DAYS = 14;
+const MAX_OCCURRENCES_PER_ALARM = 14;
+
+export const DEFAULT_SLEEP_SETTINGS: SleepSettings = {
+  bedtimeRemindersEnabled: false,
+  sleepGoalMinutes: 8 * 60,
+  windDownMinutes: 30,
+  fallAsleepMinutes: DEFAULT_FALL_ASLEEP_MINUTES,
+  // Same defaults as notification_preferences
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+};
+
+export const SLEEP_GOAL_RANGE = { min: 4 * 60, max: 12 * 60, step: 15 };
+export const WIND_DOWN_OPTIONS = [0, 15, 30, 45, 60];
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Client-side port of public.is_quiet_hours() for a given moment
+ * Inclusive bounds, and start > end means the window spans midnight
+ */
+export function isQuietHours(date: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled) return false;
+
+  const current = date.getHours() * 60 + date.getMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+
+  if (start <= end) {
+    return current >= start && current <= end;
+  }
+  return current >= start || current <= end;
+}
+
+/**
+ * Bedtime reminders for the upcoming occurrences of active alarms
+ * One reminder per evening - for the earliest alarm it has to cover
+ */
+export function getBedtimeReminders(
+  alarms: Alarm[],
+  groups: AlarmGroup[],
+  settings: SleepSettings,
+  now: Date = new Date()
+): BedtimeReminder[] {
+  if (!settings.bedtimeRemindersEnabled) return [];
+
+  const horizon = new Date(
+    now.getTime() + REMINDER_HORIZON_DAYS * 24 * 60 * 60 * 1000
+  );
+  const leadMs =
+    (settings.sleepGoalMinutes + settings.windDownMinutes) * 60 * 1000;
+  const byEvening = new Map<string, BedtimeReminder>();
+
+  alarms
+    .filter(alarm => !alarm.isNap && isAlarmEffectivelyActive(alarm, groups))
+    .forEach(alarm => {
+      nextOccurrences(alarm, now, MAX_OCCURRENCES_PER_ALARM)
+        .filter(wakeTime => wakeTime <= horizon)
+        .forEach(wakeTime => {
+          const remindAt = new Date(wakeTime.getTime() - leadMs);
+          if (remindAt <= now) return;
+
+          const evening = toDateKey(remindAt);
+          const existing = byEvening.get(evening);
+          if (existing && existing.remindAt <= remindAt) return;
+
+          byEvening.set(evening, {
+            alarmId: alarm.id,
+            alarmTitle: alarm.title,
+            wakeTime,
+            bedtime: new Date(
+              wakeTime.getTime() - settings.sleepGoalMinutes * 60 * 1000
+            ),
+            remindAt,
+          });
+        });
+    });
+
+  return Array.from(byEvening.values())
+    .filter(reminder => !isQuietHours(reminder.remindAt, settings.quietHours))
+    .sort((a, b) => a.remindAt.getTime() - b.remindAt.getTime());
+}
+
+/**
+ * Minutes as e.g. "7h 30m"
+ */
+export function formatSleepDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
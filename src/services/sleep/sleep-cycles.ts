@@ -0,0 +1,100 @@
+// Average length of one sleep cycle - waking between cycles feels easiest
+export const SLEEP_CYCLE_MINUTES = 90;
+export const FALL_ASLEEP_OPTIONS = [5, 10, 15, 20, 30];
+export const DEFAULT_FALL_ASLEEP_MINUTES = 15;
+
+// 5-6 full cycles is 7.5-9 hours of sleep
+const RECOMMENDED_CYCLES = [5, 6];
+
+export interface SleepCycleOptions {
+  fallAsleepMinutes?: number;
+  minCycles?: number;
+  maxCycles?: number;
+}
+
+export interface SleepCycleSuggestion {
+  time: Date;
+  cycles: number;
+  sleepMinutes: number;
+  isRecommended: boolean;
+}
+
+function getCycleCounts({
+  minCycles = 3,
+  maxCycles = 6,
+}: SleepCycleOptions): number[] {
+  const counts: number[] = [];
+  for (let cycles = maxCycles; cycles >= minCycles; cycles--) {
+    counts.push(cycles);
+  }
+  return counts;
+}
+
+function toSuggestion(time: Date, cycles: number): SleepCycleSuggestion {
+  return {
+    time,
+    cycles,
+    sleepMinutes: cycles * SLEEP_CYCLE_MINUTES,
+    isRecommended: RECOMMENDED_CYCLES.includes(cycles),
+  };
+}
+
+function truncateToMinute(date: Date): Date {
+  const result = new Date(date);
+  result.setSeconds(0, 0);
+  return result;
+}
+
+/**
+ * Wake times that end a full cycle when going to bed at `bedtime`
+ * Most cycles first
+ */
+export function suggestWakeTimes(
+  bedtime: Date,
+  options: SleepCycleOptions = {}
+): SleepCycleSuggestion[] {
+  const { fallAsleepMinutes = DEFAULT_FALL_ASLEEP_MINUTES } = options;
+  const asleepAt =
+    truncateToMinute(bedtime).getTime() + fallAsleepMinutes * 60 * 1000;
+
+  return getCycleCounts(options).map(cycles =>
+    toSuggestion(
+      new Date(asleepAt + cycles * SLEEP_CYCLE_MINUTES * 60 * 1000),
+      cycles
+    )
+  );
+}
+
+/**
+ * Bedtimes that let a full number of cycles finish by `wakeTime`
+ * Most cycles (earliest bedtime) first
+ */
+export function suggestBedtimes(
+  wakeTime: Date,
+  options: SleepCycleOptions = {}
+): SleepCycleSuggestion[] {
+  const { fallAsleepMinutes = DEFAULT_FALL_ASLEEP_MINUTES } = options;
+  const wakeAt = truncateToMinute(wakeTime).getTime();
+
+  return getCycleCounts(options).map(cycles =>
+    toSuggestion(
+      new Date(
+        wakeAt -
+          cycles * SLEEP_CYCLE_MINUTES * 60 * 1000 -
+          fallAsleepMinutes * 60 * 1000
+      ),
+      cycles
+    )
+  );
+}
+
+/**
+ * Next occurrence of the wall-clock time of `time` after `from`
+ * The create screen keeps only the time of day, bedtime math needs real dates
+ */
+export function nextTimeOfDay(time: Date, from: Date = new Date()): Date {
+  const result = new Date(from);
+  result.setHours(time.getHours(), time.getMinutes(), 0, 0);
+  if (result <= from) result.setDate(result.getDate() + 1);
+  return result;
+}
@@ -0,0 +1,193 @@
+import type { Alarm } from '../../../types/alarm';
+import {
+  AlarmSyncPayload,
+  fromSyncPayload,
+  mergeAlarm,
+  toSyncPayload,
+} from '../alarm-sync-merge';
+
+const EARLIER = new Date('2025-01-06T08:00:00Z');
+const LATER = new Date('2025-01-06T09:00:00Z');
+
+function makeAlarm(overrides: Partial<Alarm> = {}): Alarm {
+  return {
+    id: 'alarm_1',
+    title: 'Work',
+    time: new Date('2025-01-07T06:00:00Z'),
+    isActive: true,
+    audioTrack: {
+      id: 'gentle',
+      name: 'Gentle',
+      uri: 'gentle.mp3',
+      type: 'predefined',
+    },
+    repeatDays: [1, 2, 3, 4, 5],
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: EARLIER,
+    ...overrides,
+  };
+}
+
+function payloadOf(overrides: Partial<Alarm> = {}): AlarmSyncPayload {
+  return toSyncPayload(makeAlarm(overrides));
+}
+
+describe('mergeAlarm', () => {
+  const base = payloadOf();
+
+  it('takes fields changed on different sides from each side', () => {
+    const result = mergeAlarm(
+      base,
+      { payload: payloadOf({ title: 'Gym' }), updatedAt: LATER },
+      { payload: payloadOf({ repeatDays: [6, 0] }), updatedAt: EARLIER }
+    );
+
+    expect(result.payload?.title).toBe('Gym');
+    expect(result.payload?.repeatDays).toEqual([6, 0]);
+    expect(result.updatedAt).toEqual(LATER);
+  });
+
+  it('gives a field changed on both sides to the newer side', () => {
+    const local = payloadOf({ title: 'Local' });
+    const remote = payloadOf({ title: 'Remote' });
+
+    expect(
+      mergeAlarm(
+        base,
+        { payload: local, updatedAt: EARLIER },
+        { payload: remote, updatedAt: LATER }
+      ).payload?.title
+    ).toBe('Remote');
+    expect(
+      mergeAlarm(
+        base,
+        { payload: local, updatedAt: LATER },
+        { payload: remote, updatedAt: EARLIER }
+      ).payload?.title
+    ).toBe('Local');
+  });
+
+  it('keeps a field cleared on one side cleared', () => {
+    const result = mergeAlarm(
+      payloadOf({ groupId: 'group_1' }),
+      { payload: payloadOf({ groupId: 'group_1' }), updatedAt: LATER },
+      { payload: payloadOf(), updatedAt: EARLIER }
+    );
+
+    expect(result.payload).not.toHaveProperty('groupId');
+  });
+
+  it('lets the newer side win every differing field without a base', () => {
+    const result = mergeAlarm(
+      undefined,
+      {
+        payload: payloadOf({ title: 'Local', isActive: false }),
+        updatedAt: EARLIER,
+      },
+      { payload: payloadOf({ title: 'Remote' }), updatedAt: LATER }
+    );
+
+    expect(result.payload?.title).toBe('Remote');
+    expect(result.payload?.isActive).toBe(true);
+  });
+
+  describe('deletions', () => {
+    it('deletes when the other side did not edit the alarm', () => {
+      const result = mergeAlarm(
+        base,
+        { payload: base, updatedAt: LATER },
+        { updatedAt: EARLIER }
+      );
+
+      expect(result.payload).toBeUndefined();
+    });
+
+    it('deletes when the edit is older than the deletion', () => {
+      const result = mergeAlarm(
+        base,
+        { payload: payloadOf({ title: 'Gym' }), updatedAt: EARLIER },
+        { updatedAt: LATER }
+      );
+
+      expect(result.payload).toBeUndefined();
+      expect(result.updatedAt).toEqual(LATER);
+    });
+
+    it('resurrects the alarm when it was edited after the deletion', () => {
+      const edited = payloadOf({ title: 'Gym' });
+      const result = mergeAlarm(
+        base,
+        { updatedAt: EARLIER },
+        { payload: edited, updatedAt: LATER }
+      );
+
+      expect(result.payload).toEqual(edited);
+    });
+
+    it('stays deleted when both sides deleted it', () => {
+      const result = mergeAlarm(
+        base,
+        { updatedAt: EARLIER },
+        { updatedAt: LATER }
+      );
+
+      expect(result).toEqual({ updatedAt: LATER });
+    });
+  });
+});
+
+describe('toSyncPayload / fromSyncPayload', () => {
+  it('round-trips synced fields and keeps device-local state', () => {
+    const existing = makeAlarm({
+      title: 'Old',
+      notificationIds: ['n1', 'n2'],
+      isNativeAlarm: false,
+    });
+    const payload = payloadOf({ title: 'New' });
+
+    const alarm = fromSyncPayload('alarm_1', payload, LATER, existing);
+
+    expect(alarm.title).toBe('New');
+    expect(alarm.time).toEqual(new Date('2025-01-07T06:00:00Z'));
+    expect(alarm.createdAt).toEqual(new Date('2025-01-01T00:00:00Z'));
+    expect(alarm.updatedAt).toEqual(LATER);
+    expect(alarm.notificationIds).toEqual(['n1', 'n2']);
+  });
+
+  it('drops fields the other device cleared', () => {
+    const existing = makeAlarm({ groupId: 'group_1' });
+
+    const alarm = fromSyncPayload('alarm_1', payloadOf(), LATER, existing);
+
+    expect(alarm).not.toHaveProperty('groupId');
+  });
+
+  it('takes the wall-clock time from a synced time', () => {
+    const existing = makeAlarm({
+      timeMode: 'absolute',
+      wallClockTime: '2025-01-07T07:00',
+    });
+    const payload = payloadOf({
+      time: new Date(2025, 0, 7, 8, 30),
+      timeMode: 'wall-clock',
+    });
+
+    const alarm = fromSyncPayload('alarm_1', payload, LATER, existing);
+
+    expect(alarm.timeMode).toBe('wall-clock');
+    expect(alarm.wallClockTime).toBe('2025-01-07T08:30');
+  });
+
+  it('leaves device-local state out of the payload', () => {
+    const payload = payloadOf({
+      notificationIds: ['n1'],
+      nativeAlarmId: 'native_1',
+      wallClockTime: '2025-01-07T07:00',
+    });
+
+    expect(payload).not.toHaveProperty('notificationIds');
+    expect(payload).not.toHaveProperty('nativeAlarmId');
+    expect(payload).not.toHaveProperty('wallClockTime');
+    expect(payload).not.toHaveProperty('id');
+  });
+});
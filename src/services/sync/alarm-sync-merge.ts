@@ -0,0 +1,155 @@
+import type { Alarm } from '../../types/alarm';
+import { toWallClock } from '../alarms/alarm-timezone';
+
+/**
+ * Alarm fields shared between devices
+ * Scheduling state (notification IDs, AlarmKit IDs, snoozes) stays per device,
+ * and so does the wall-clock time - each device derives it from `time`
+ */
+export const SYNCED_ALARM_FIELDS = [
+  'title',
+  'time',
+  'timeMode',
+  'isActive',
+  'audioTrack',
+  'repeatDays',
+  'recurrence',
+  'exceptions',
+  'snoozePolicy',
+  'mission',
+  'volumeRamp',
+  'gentleWake',
+  'escalation',
+  'awakeCheck',
+  'groupId',
+  'createdAt',
+] as const;
+
+export type SyncedAlarmField = (typeof SYNCED_ALARM_FIELDS)[number];
+
+// JSON form of the synced fields - dates as ISO strings
+export type AlarmSyncPayload = Partial<Record<SyncedAlarmField, unknown>>;
+
+/**
+ * A side of the merge - undefined payload means the alarm is deleted there
+ */
+export interface AlarmSyncVersion {
+  payload?: AlarmSyncPayload;
+  updatedAt: Date;
+}
+
+export interface AlarmMergeResult {
+  payload?: AlarmSyncPayload; // undefined - alarm is deleted
+  updatedAt: Date;
+}
+
+/**
+ * Naps are transient and never leave the device
+ */
+export function isSyncableAlarm(alarm: Alarm): boolean {
+  return !alarm.isNap;
+}
+
+export function toSyncPayload(alarm: Alarm): AlarmSyncPayload {
+  const payload: AlarmSyncPayload = {};
+  SYNCED_ALARM_FIELDS.forEach(field => {
+    if (alarm[field] !== undefined) payload[field] = alarm[field];
+  });
+  // Round-trip through JSON so dates compare like the stored version
+  return JSON.parse(JSON.stringify(payload));
+}
+
+/**
+ * Build a local alarm from a payload, keeping device-local state of `existing`
+ */
+export function fromSyncPayload(
+  id: string,
+  payload: AlarmSyncPayload,
+  updatedAt: Date,
+  existing?: Alarm
+): Alarm {
+  // Fields cleared on the other device arrive missing, not as undefined
+  const local: Partial<Alarm> = { ...existing };
+  SYNCED_ALARM_FIELDS.forEach(field => {
+    delete local[field];
+  });
+
+  const time = new Date(payload.time as string);
+  const alarm = {
+    ...local,
+    ...payload,
+    id,
+    time,
+    // Without this a stale wall-clock time would move the alarm back
+    wallClockTime: toWallClock(time),
+    createdAt: payload.createdAt
+      ? new Date(payload.createdAt as string)
+      : (existing?.createdAt ?? updatedAt),
+    updatedAt,
+  } as Alarm;
+  return alarm;
+}
+
+export function payloadsEqual(
+  a?: AlarmSyncPayload,
+  b?: AlarmSyncPayload
+): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function fieldValue(payload: AlarmSyncPayload | undefined, field: string) {
+  return JSON.stringify(payload?.[field as SyncedAlarmField] ?? null);
+}
+
+/**
+ * Three-way merge of one alarm
+ * Fields changed on one side only are taken from that side; fields changed on
+ * both sides (or without a common base) go to the side with the newer updatedAt.
+ * A deletion wins unless the other side edited the alarm after it.
+ */
+export function mergeAlarm(
+  base: AlarmSyncPayload | undefined,
+  local: AlarmSyncVersion,
+  remote: AlarmSyncVersion
+): AlarmMergeResult {
+  const localIsNewer = local.updatedAt.getTime() >= remote.updatedAt.getTime();
+  const newer = localIsNewer ? local : remote;
+  const updatedAt = newer.updatedAt;
+
+  if (!local.payload || !remote.payload) {
+    // Deleted on one side - an edit made after the deletion resurrects it
+    const edited = local.payload ? local : remote;
+    if (!edited.payload) return { updatedAt };
+    const editedAfterBase = !payloadsEqual(base, edited.payload);
+    return edited === newer && editedAfterBase
+      ? { payload: edited.payload, updatedAt }
+      : { updatedAt };
+  }
+
+  const fields = new Set([
+    ...Object.keys(local.payload),
+    ...Object.keys(remote.payload),
+  ]);
+  const merged: AlarmSyncPayload = {};
+
+  fields.forEach(field => {
+    const key = field as SyncedAlarmField;
+    const localValue = fieldValue(local.payload, field);
+    const remoteValue = fieldValue(remote.payload, field);
+
+    let source: AlarmSyncPayload;
+    if (localValue === remoteValue) {
+      source = local.payload!;
+    } else if (base && fieldValue(base, field) === localValue) {
+      source = remote.payload!; // Only changed remotely
+    } else if (base && fieldValue(base, field) === remoteValue) {
+      source = local.payload!; // Only changed locally
+    } else {
+      source = newer.payload!; // Changed on both sides
+    }
+
+    if (source[key] !== undefined) merged[key] = source[key];
+  });
+
+  return { payload: merged, updatedAt };
+}
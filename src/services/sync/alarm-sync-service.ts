@@ -0,0 +1,326 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../supabase/client';
+import type { Alarm } from '../../types/alarm';
+import {
+  AlarmSyncPayload,
+  AlarmSyncVersion,
+  fromSyncPayload,
+  isSyncableAlarm,
+  mergeAlarm,
+  payloadsEqual,
+  toSyncPayload,
+} from './alarm-sync-merge';
+
+interface AlarmSyncState {
+  deviceId: string;
+  userId: string | null;
+  cursor: string | null; // Newest server updated_at already pulled
+  bases: Record<string, AlarmSyncPayload>; // Last version both sides agreed on
+  queue: Record<string, string>; // Alarm ID -> ISO time of the local change
+}
+
+interface AlarmRow {
+  id: string;
+  data: AlarmSyncPayload;
+  client_updated_at: string;
+  deleted: boolean;
+  updated_at: string;
+}
+
+export interface AlarmSyncResult {
+  pulled: number;
+  pushed: number;
+  merged: number;
+  pending: number;
+}
+
+export type ApplyRemoteAlarms = (
+  upserts: Alarm[],
+  deletedIds: string[]
+) => Promise<void>;
+
+/**
+ * Two-way sync of alarms with Supabase
+ * Local changes are queued (and survive restarts) until a push succeeds
+ */
+export class AlarmSyncService {
+  private static instance: AlarmSyncService;
+  private readonly STORAGE_KEY = 'alarm_sync_state';
+  private state: AlarmSyncState | null = null;
+  private isApplyingRemote = false;
+  private currentSync: Promise<AlarmSyncResult> | null = null;
+
+  static getInstance(): AlarmSyncService {
+    if (!AlarmSyncService.instance) {
+      AlarmSyncService.instance = new AlarmSyncService();
+    }
+    return AlarmSyncService.instance;
+  }
+
+  private async loadState(): Promise<AlarmSyncState> {
+    if (this.state) return this.state;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      if (stored) {
+        this.state = JSON.parse(stored) as AlarmSyncState;
+        return this.state;
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to load sync state, starting fresh:', error);
+    }
+
+    this.state = {
+      deviceId: `device_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      userId: null,
+      cursor: null,
+      bases: {},
+      queue: {},
+    };
+    return this.state;
+  }
+
+  private async saveState(): Promise<void> {
+    if (!this.state) return;
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.state));
+  }
+
+  async getPendingCount(): Promise<number> {
+    const state = await this.loadState();
+    return Object.keys(state.queue).length;
+  }
+
+  /**
+   * Queue alarms whose synced fields changed between two store snapshots
+   * Resolves to whether anything was queued
+   */
+  async trackLocalChanges(
+    current: Alarm[],
+    previous: Alarm[]
+  ): Promise<boolean> {
+    if (this.isApplyingRemote) return false;
+
+    const state = await this.loadState();
+    const now = new Date().toISOString();
+    const previousById = new Map(previous.map(alarm => [alarm.id, alarm]));
+    let changed = false;
+
+    current.filter(isSyncableAlarm).forEach(alarm => {
+      if (previousById.get(alarm.id) === alarm) return;
+      if (payloadsEqual(toSyncPayload(alarm), state.bases[alarm.id])) return;
+      state.queue[alarm.id] = now;
+      changed = true;
+    });
+
+    const currentIds = new Set(current.map(alarm => alarm.id));
+    previous.filter(isSyncableAlarm).forEach(alarm => {
+      if (currentIds.has(alarm.id)) return;
+      state.queue[alarm.id] = now;
+      changed = true;
+    });
+
+    if (changed) await this.saveState();
+    return changed;
+  }
+
+  /**
+   * Pull remote changes, merge them in, then push the local queue
+   * Concurrent calls share the sync that is already running
+   */
+  sync(
+    userId: string,
+    localAlarms: () => Alarm[],
+    applyRemote: ApplyRemoteAlarms
+  ): Promise<AlarmSyncResult> {
+    if (!this.currentSync) {
+      this.currentSync = this.runSync(userId, localAlarms, applyRemote).finally(
+        () => {
+          this.currentSync = null;
+        }
+      );
+    }
+    return this.currentSync;
+  }
+
+  private async runSync(
+    userId: string,
+    localAlarms: () => Alarm[],
+    applyRemote: ApplyRemoteAlarms
+  ): Promise<AlarmSyncResult> {
+    const state = await this.loadState();
+
+    if (state.userId !== userId) {
+      // New account on this device - everything local is new to the server
+      const now = new Date().toISOString();
+      state.userId = userId;
+      state.cursor = null;
+      state.bases = {};
+      state.queue = {};
+      localAlarms()
+        .filter(isSyncableAlarm)
+        .forEach(alarm => {
+          state.queue[alarm.id] = now;
+        });
+    }
+
+    try {
+      const { pulled, merged } = await this.pull(
+        state,
+        localAlarms,
+        applyRemote
+      );
+      const pushed = await this.push(state, localAlarms());
+
+      const result = {
+        pulled,
+        pushed,
+        merged,
+        pending: Object.keys(state.queue).length,
+      };
+      console.log('☁️ Alarm sync finished:', result);
+      return result;
+    } catch (error) {
+      console.error('❌ Alarm sync failed, changes stay queued:', error);
+      throw error;
+    } finally {
+      await this.saveState();
+    }
+  }
+
+  private async pull(
+    state: AlarmSyncState,
+    localAlarms: () => Alarm[],
+    applyRemote: ApplyRemoteAlarms
+  ): Promise<{ pulled: number; merged: number }> {
+    let query = supabase
+      .from('alarms')
+      .select('id, data, client_updated_at, deleted, updated_at')
+      .eq('user_id', state.userId)
+      .order('updated_at', { ascending: true });
+    if (state.cursor) query = query.gt('updated_at', state.cursor);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data || []) as AlarmRow[];
+    const locals = new Map(localAlarms().map(alarm => [alarm.id, alarm]));
+    const upserts: Alarm[] = [];
+    const deletedIds: string[] = [];
+    let merged = 0;
+
+    rows.forEach(row => {
+      const remote: AlarmSyncVersion = {
+        payload: row.deleted ? undefined : row.data,
+        updatedAt: new Date(row.client_updated_at),
+      };
+      const localAlarm = locals.get(row.id);
+      const queuedAt = state.queue[row.id];
+
+      let result = remote;
+      if (queuedAt) {
+        // Changed on both sides since the last sync
+        result = mergeAlarm(
+          state.bases[row.id],
+          {
+            payload: localAlarm ? toSyncPayload(localAlarm) : undefined,
+            updatedAt: localAlarm?.updatedAt
+              ? new Date(localAlarm.updatedAt)
+              : new Date(queuedAt),
+          },
+          remote
+        );
+        merged++;
+        if (payloadsEqual(result.payload, remote.payload)) {
+          delete state.queue[row.id];
+        }
+      }
+
+      const localPayload = localAlarm ? toSyncPayload(localAlarm) : undefined;
+      if (!payloadsEqual(result.payload, localPayload)) {
+        if (result.payload) {
+          upserts.push(
+            fromSyncPayload(
+              row.id,
+              result.payload,
+              result.updatedAt,
+              localAlarm
+            )
+          );
+        } else if (localAlarm) {
+          deletedIds.push(row.id);
+        }
+      }
+
+      if (remote.payload) {
+        state.bases[row.id] = remote.payload;
+      } else {
+        delete state.bases[row.id];
+      }
+      state.cursor = row.updated_at;
+    });
+
+    if (upserts.length > 0 || deletedIds.length > 0) {
+      this.isApplyingRemote = true;
+      try {
+        await applyRemote(upserts, deletedIds);
+      } finally {
+        this.isApplyingRemote = false;
+      }
+    }
+
+    return { pulled: rows.length, merged };
+  }
+
+  private async push(state: AlarmSyncState, alarms: Alarm[]): Promise<number> {
+    const queuedAtStart = { ...state.queue };
+    const entries = Object.entries(queuedAtStart);
+    if (entries.length === 0) return 0;
+
+    const locals = new Map(
+      alarms.filter(isSyncableAlarm).map(alarm => [alarm.id, alarm])
+    );
+    const rows = entries
+      .map(([id, queuedAt]) => {
+        const alarm = locals.get(id);
+        if (!alarm && !state.bases[id]) {
+          // Created and deleted before it ever reached the server
+          delete state.queue[id];
+          return null;
+        }
+        return {
+          id,
+          user_id: state.userId,
+          data: alarm ? toSyncPayload(alarm) : state.bases[id],
+          client_updated_at: alarm?.updatedAt
+            ? new Date(alarm.updatedAt).toISOString()
+            : queuedAt,
+          deleted: !alarm,
+          device_id: state.deviceId,
+        };
+      })
+      .filter(row => row !== null);
+
+    if (rows.length === 0) return 0;
+
+    const { error } = await supabase
+      .from('alarms')
+      .upsert(rows, { onConflict: 'user_id,id' });
+    if (error) throw error;
+
+    rows.forEach(row => {
+      if (row.deleted) {
+        delete state.bases[row.id];
+      } else {
+        state.bases[row.id] = row.data;
+      }
+      // A change queued while pushing must go out with the next sync
+      if (state.queue[row.id] === queuedAtStart[row.id]) {
+        delete state.queue[row.id];
+      }
+    });
+
+    return rows.length;
+  }
+}
+
+export const alarmSyncService = AlarmSyncService.getInstance();
@@ -1,53 +1,154 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Alarm, AlarmCreateData, AlarmUpdateData } from '../types/alarm';
+import { AppState } from 'react-native';
+import {
+  Alarm,
+  AlarmCreateData,
+  AlarmException,
+  AlarmGroup,
+  AlarmSnoozeState,
+  AlarmUpdateData,
+} from '../types/alarm';
 
 // Re-export Alarm for backward compatibility
 export type { Alarm } from '../types/alarm';
 import { notificationService } from '../services/notifications/notification-service';
 import { AudioTrack } from '../services/audio/types';
-import { alarmService } from '../services/alarms/alarm-service';
+import {
+  alarmService,
+  BatchScheduleResult,
+} from '../services/alarms/alarm-service';
+import {
+  isAlarmEffectivelyActive,
+  isGroupEnabled,
+  reorderGroup,
+  sortGroups,
+} from '../services/alarms/alarm-groups';
+import {
+  getNextOccurrence,
+  isRepeating,
+  toDateKey,
+  withUpcomingTime,
+} from '../services/alarms/recurrence';
+import {
+  pruneExceptions,
+  removeExceptionForDate,
+  upsertException,
+} from '../services/alarms/occurrence-exceptions';
 import { backgroundTaskService } from '../services/background/background-task-service';
+import { alarmHistoryService } from '../services/alarms/alarm-history-service';
+import {
+  ReconcileReport,
+  sameIds,
+  scheduleReconciler,
+} from '../services/alarms/schedule-reconciler';
+import {
+  NotificationCoverage,
+  notificationBudgetService,
+} from '../services/notifications/notification-budget-service';
+import {
+  resolveAlarmTime,
+  toWallClock,
+  watchTimeZone,
+} from '../services/alarms/alarm-timezone';
+import type { MissedAlarm } from '../services/alarms/missed-alarms';
+import {
+  clampNapMinutes,
+  isNapOver,
+  describeNap,
+  getNapEndTime,
+} from '../services/alarms/naps';
+
+export type NapOptions = Pick<
+  AlarmCreateData,
+  'audioTrack' | 'mission' | 'volumeRamp' | 'snoozePolicy' | 'escalation'
+>;
+
+/**
+ * Alarm to import - the group is matched (or created) by name
+ */
+export interface AlarmImport {
+  alarm: AlarmCreateData;
+  groupName?: string;
+}
 
 interface AlarmState {
   alarms: Alarm[];
+  groups: AlarmGroup[];
   permissionsGranted: boolean;
   isLoading: boolean;
+  notificationCoverage: NotificationCoverage | null; // From the last reconcile
+  missedAlarms: MissedAlarm[]; // Shown on the dashboard until dismissed
 
   // Actions
   createAlarm: (alarm: AlarmCreateData) => Promise<string>;
+  startNap: (minutes: number, options: NapOptions) => Promise<string>;
+  importAlarms: (imports: AlarmImport[]) => Promise<number>;
   updateAlarm: (id: string, updates: AlarmUpdateData) => Promise<void>;
   deleteAlarm: (id: string) => Promise<void>;
   toggleAlarm: (id: string) => Promise<void>;
+  snoozeAlarm: (id: string) => Promise<AlarmSnoozeState>;
+  dismissAlarm: (id: string) => Promise<void>;
+  skipNextOccurrence: (id: string) => Promise<string>;
+  skipOccurrence: (id: string, date: string) => Promise<void>;
+  moveOccurrence: (id: string, date: string, time: string) => Promise<void>;
+  removeException: (id: string, date: string) => Promise<void>;
+  setOccurrenceException: (
+    id: string,
+    date: string,
+    exception: AlarmException | null
+  ) => Promise<void>;
+  createGroup: (name: string) => string;
+  renameGroup: (id: string, name: string) => void;
+  deleteGroup: (id: string) => Promise<BatchScheduleResult>;
+  moveGroup: (id: string, direction: -1 | 1) => void;
+  setGroupCollapsed: (id: string, isCollapsed: boolean) => void;
+  toggleGroup: (id: string) => Promise<BatchScheduleResult>;
   checkPermissions: () => Promise<boolean>;
   requestPermissions: () => Promise<boolean>;
   loadAlarms: () => Promise<void>;
-  syncScheduledAlarms: () => Promise<void>;
+  clearFinishedNaps: () => Promise<number>;
+  reconcileSchedules: () => Promise<ReconcileReport | null>;
+  applyTimeZoneChange: () => Promise<number>;
+  checkMissedAlarms: () => Promise<MissedAlarm[]>;
+  dismissMissedAlarms: () => void;
+  applyRemoteChanges: (upserts: Alarm[], deletedIds: string[]) => Promise<void>;
 }
 
+// Set while reconcile results are stored, so they don't start another pass
+let isApplyingReconcile = false;
+// Reconcile only once loadAlarms has initialized the alarm services
+let schedulesLoaded = false;
+
 export const useAlarmStore = create<AlarmState>()(
   persist(
     (set, get) => ({
       alarms: [],
+      groups: [],
       permissionsGranted: false,
       isLoading: false,
+      notificationCoverage: null,
+      missedAlarms: [],
 
       createAlarm: async alarmData => {
         const id = `alarm_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-        const alarm: Alarm = {
+        // A time of day already passed today means tomorrow
+        const alarm: Alarm = withUpcomingTime({
           ...alarmData,
+          wallClockTime:
+            alarmData.wallClockTime ?? toWallClock(new Date(alarmData.time)),
           id,
           createdAt: new Date(),
           updatedAt: new Date(),
-        };
+        });
 
         set({ isLoading: true });
 
         try {
           // Schedule the alarm if active (uses AlarmKit or notifications)
-          if (alarm.isActive) {
+          if (isAlarmEffectivelyActive(alarm, get().groups)) {
             await alarmService.scheduleAlarm(alarm);
             console.log('⏰ Created and scheduled alarm:', id);
           }
@@ -65,6 +166,50 @@ export const useAlarmStore = create<AlarmState>()(
         }
       },
 
+      startNap: async (minutes, options) => {
+        const napMinutes = clampNapMinutes(minutes);
+
+        // A plain one-shot alarm, so it gets the full scheduling pipeline
+        const id = await get().createAlarm({
+          ...options,
+          title: `Nap · ${describeNap(napMinutes)}`,
+          time: getNapEndTime(napMinutes),
+          timeMode: 'absolute', // A countdown, not a time of day
+          isActive: true,
+          isNap: true,
+          napMinutes,
+        });
+
+        console.log('😴 Started nap:', id, napMinutes, 'min');
+        return id;
+      },
+
+      importAlarms: async imports => {
+        let imported = 0;
+
+        for (const { alarm, groupName } of imports) {
+          let groupId: string | undefined;
+          if (groupName) {
+            const name = groupName.trim();
+            groupId =
+              get().groups.find(
+                group => group.name.toLowerCase() === name.toLowerCase()
+              )?.id ?? get().createGroup(name);
+          }
+
+          try {
+            // Schedules the alarm like any newly created one
+            await get().createAlarm({ ...alarm, groupId });
+            imported++;
+          } catch (error) {
+            console.error('⏰ Failed to import alarm:', alarm.title, error);
+          }
+        }
+
+        console.log('⏰ Imported alarms:', imported, 'of', imports.length);
+        return imported;
+      },
+
       updateAlarm: async (id, updates) => {
         set({ isLoading: true });
 
@@ -74,20 +219,26 @@ export const useAlarmStore = create<AlarmState>()(
             throw new Error('Alarm not found');
           }
 
-          // Cancel existing notification if it exists
-          if (alarm.notificationId) {
-            await notificationService.cancelAlarm(alarm.notificationId);
-          }
+          // Cancel existing notifications and pending snooze
+          await alarmService.cancelAlarm(alarm);
 
-          const updatedAlarm: Alarm = {
+          const edited: Alarm = {
             ...alarm,
             ...updates,
+            ...(updates.time &&
+              !updates.wallClockTime && {
+                wallClockTime: toWallClock(new Date(updates.time)),
+              }),
             updatedAt: new Date(),
             notificationId: undefined, // Reset notification ID
+            snoozeState: undefined,
           };
+          const updatedAlarm = edited.isActive
+            ? withUpcomingTime(edited)
+            : edited;
 
-          // Only schedule new alarm if alarm is being activated
-          if (updatedAlarm.isActive) {
+          // Only schedule new alarm if alarm (and its group) is active
+          if (isAlarmEffectivelyActive(updatedAlarm, get().groups)) {
             try {
               await alarmService.scheduleAlarm(updatedAlarm);
               console.log('⏰ Updated and rescheduled alarm:', id);
@@ -121,8 +272,10 @@ export const useAlarmStore = create<AlarmState>()(
 
         try {
           const alarm = get().alarms.find(a => a.id === id);
-          if (alarm?.notificationId) {
-            await notificationService.cancelAlarm(alarm.notificationId);
+          if (alarm) {
+            // Also cancels a pending snooze re-ring
+            await alarmService.cancelAlarm(alarm);
+            await alarmService.cancelAwakeCheck(alarm.id);
           }
 
           set(state => ({
@@ -144,27 +297,44 @@ export const useAlarmStore = create<AlarmState>()(
 
         // Optimistic update - update UI immediately
         const newActiveState = !alarm.isActive;
+        // A one-time alarm switched back on rings at its next wall-clock match
+        const { time, wallClockTime } = newActiveState
+          ? withUpcomingTime(alarm)
+          : alarm;
         set(state => ({
           alarms: state.alarms.map(a =>
             a.id === id
-              ? { ...a, isActive: newActiveState, updatedAt: new Date() }
+              ? {
+                  ...a,
+                  time,
+                  wallClockTime,
+                  isActive: newActiveState,
+                  snoozeState: undefined,
+                  updatedAt: new Date(),
+                }
               : a
           ),
         }));
 
         try {
-          // Handle notification scheduling in background
-          if (alarm.notificationId) {
-            await notificationService.cancelAlarm(alarm.notificationId);
-          }
+          // Handle notification scheduling in background (incl. pending snooze)
+          await alarmService.cancelAlarm(alarm);
+
+          // Scheduling records the new IDs on this copy
+          const toggled: Alarm = {
+            ...alarm,
+            time,
+            wallClockTime,
+            isActive: newActiveState,
+            notificationId: undefined,
+            notificationIds: undefined,
+            nativeAlarmId: undefined,
+          };
 
-          // Only schedule if activating the alarm
-          if (newActiveState) {
+          // Only schedule if activating the alarm inside an enabled group
+          if (newActiveState && isGroupEnabled(alarm.groupId, get().groups)) {
             try {
-              await alarmService.scheduleAlarm({
-                ...alarm,
-                isActive: newActiveState,
-              });
+              await alarmService.scheduleAlarm(toggled);
               console.log('⏰ Toggled and scheduled alarm:', id);
             } catch (scheduleError) {
               console.error(
@@ -180,7 +350,17 @@ export const useAlarmStore = create<AlarmState>()(
           // Update alarm state
           set(state => ({
             alarms: state.alarms.map(a =>
-              a.id === id ? { ...a, updatedAt: new Date() } : a
+              a.id === id
+                ? {
+                    ...a,
+                    notificationId: undefined,
+                    notificationIds: toggled.notificationIds,
+                    nativeAlarmId: toggled.nativeAlarmId,
+                    isNativeAlarm: toggled.isNativeAlarm,
+                    backgroundAudioEnabled: toggled.backgroundAudioEnabled,
+                    updatedAt: new Date(),
+                  }
+                : a
             ),
           }));
         } catch (error) {
@@ -197,6 +377,242 @@ export const useAlarmStore = create<AlarmState>()(
         }
       },
 
+      snoozeAlarm: async id => {
+        const alarm = get().alarms.find(a => a.id === id);
+        if (!alarm) {
+          throw new Error('Alarm not found');
+        }
+
+        const snoozeState = await alarmService.snoozeAlarm(alarm);
+
+        set(state => ({
+          alarms: state.alarms.map(a =>
+            a.id === id ? { ...a, snoozeState, updatedAt: new Date() } : a
+          ),
+        }));
+
+        console.log('⏰ Snoozed alarm:', id, 'until', snoozeState.snoozedUntil);
+        return snoozeState;
+      },
+
+      dismissAlarm: async id => {
+        const stored = get().alarms.find(a => a.id === id);
+        // Copy - cancelling the main ring updates its schedule IDs
+        const alarm = stored && { ...stored };
+
+        // Dismissed during the gentle phase - the main ring must not follow
+        const isGentlePhase = alarmService.getGentleWake()?.alarmId === id;
+        if (isGentlePhase) {
+          await alarmService.stopGentleWake(alarm);
+        }
+        await alarmService.stopRingingAlarm();
+
+        if (!alarm) return;
+
+        await alarmHistoryService.record('dismissed', alarm, {
+          details: { duringGentleWake: isGentlePhase },
+        });
+
+        await alarmService.cancelSnooze(alarm);
+
+        if (alarm.isNap) {
+          // Naps are transient - nothing to keep once the user is up
+          await get().deleteAlarm(id);
+        } else if (!isRepeating(alarm)) {
+          // Deactivate one-time alarms instead of deleting them
+          await get().updateAlarm(id, { isActive: false });
+        } else {
+          set(state => ({
+            alarms: state.alarms.map(a =>
+              a.id === id ? { ...alarm, snoozeState: undefined } : a
+            ),
+          }));
+        }
+
+        // Follow up in case the user falls back asleep - naps are deleted by now
+        if (!alarm.isNap) {
+          await alarmService.startAwakeCheck(alarm);
+        }
+
+        console.log('⏰ Dismissed alarm:', id);
+      },
+
+      skipNextOccurrence: async id => {
+        const alarm = get().alarms.find(a => a.id === id);
+        if (!alarm) {
+          throw new Error('Alarm not found');
+        }
+
+        const next = getNextOccurrence(alarm);
+        if (!next) {
+          throw new Error('Alarm has no upcoming occurrence');
+        }
+
+        const date = toDateKey(next);
+        await get().skipOccurrence(id, date);
+        return date;
+      },
+
+      skipOccurrence: async (id, date) => {
+        await get().setOccurrenceException(id, date, { date, type: 'skip' });
+      },
+
+      moveOccurrence: async (id, date, time) => {
+        await get().setOccurrenceException(id, date, {
+          date,
+          type: 'move',
+          time,
+        });
+      },
+
+      removeException: async (id, date) => {
+        await get().setOccurrenceException(id, date, null);
+      },
+
+      setOccurrenceException: async (id, date, exception) => {
+        const alarm = get().alarms.find(a => a.id === id);
+        if (!alarm) {
+          throw new Error('Alarm not found');
+        }
+        if (!isRepeating(alarm)) {
+          throw new Error('Only repeating alarms can skip or move occurrences');
+        }
+
+        const exceptions = exception
+          ? upsertException(alarm.exceptions, exception)
+          : removeExceptionForDate(alarm.exceptions, date);
+
+        const updatedAlarm: Alarm = {
+          ...alarm,
+          exceptions: pruneExceptions(exceptions),
+          updatedAt: new Date(),
+        };
+
+        if (isAlarmEffectivelyActive(updatedAlarm, get().groups)) {
+          try {
+            // Replaces only the notifications of the affected day
+            await alarmService.rescheduleOccurrence(updatedAlarm, date);
+          } catch (scheduleError) {
+            console.error(
+              '⏰ Failed to reschedule occurrence, exception saved:',
+              scheduleError
+            );
+          }
+        }
+
+        set(state => ({
+          alarms: state.alarms.map(a => (a.id === id ? updatedAlarm : a)),
+        }));
+
+        console.log('⏰ Updated occurrence exception:', id, date, exception);
+      },
+
+      createGroup: name => {
+        const id = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+        set(state => ({
+          groups: [
+            ...state.groups,
+            { id, name, isEnabled: true, order: state.groups.length },
+          ],
+        }));
+
+        console.log('⏰ Created alarm group:', id, name);
+        return id;
+      },
+
+      renameGroup: (id, name) => {
+        set(state => ({
+          groups: state.groups.map(g => (g.id === id ? { ...g, name } : g)),
+        }));
+      },
+
+      deleteGroup: async id => {
+        const group = get().groups.find(g => g.id === id);
+        if (!group) {
+          throw new Error('Group not found');
+        }
+
+        // Alarms of a disabled group start ringing again once ungrouped
+        const members = get().alarms.filter(a => a.groupId === id);
+        const toSchedule = group.isEnabled
+          ? []
+          : members
+              .filter(a => a.isActive)
+              .map(a => withUpcomingTime({ ...a }));
+        const result = await alarmService.scheduleAlarms(toSchedule);
+
+        set(state => ({
+          groups: sortGroups(state.groups.filter(g => g.id !== id)).map(
+            (g, order) => ({ ...g, order })
+          ),
+          alarms: state.alarms.map(a => {
+            if (a.groupId !== id) return a;
+            const scheduled = toSchedule.find(s => s.id === a.id);
+            return { ...(scheduled || a), groupId: undefined };
+          }),
+        }));
+
+        console.log('⏰ Deleted alarm group:', id);
+        return result;
+      },
+
+      moveGroup: (id, direction) => {
+        set(state => ({ groups: reorderGroup(state.groups, id, direction) }));
+      },
+
+      setGroupCollapsed: (id, isCollapsed) => {
+        set(state => ({
+          groups: state.groups.map(g =>
+            g.id === id ? { ...g, isCollapsed } : g
+          ),
+        }));
+      },
+
+      toggleGroup: async id => {
+        const group = get().groups.find(g => g.id === id);
+        if (!group) {
+          throw new Error('Group not found');
+        }
+
+        const isEnabled = !group.isEnabled;
+        set(state => ({
+          groups: state.groups.map(g =>
+            g.id === id ? { ...g, isEnabled } : g
+          ),
+        }));
+
+        // Only alarms switched on individually are affected by the group switch
+        const members = get()
+          .alarms.filter(a => a.groupId === id && a.isActive)
+          .map(a => (isEnabled ? withUpcomingTime({ ...a }) : { ...a }));
+
+        const result = isEnabled
+          ? await alarmService.scheduleAlarms(members)
+          : await alarmService.cancelAlarms(members);
+
+        set(state => ({
+          alarms: state.alarms.map(a => {
+            const member = members.find(m => m.id === a.id);
+            if (!member || !result.succeeded.includes(a.id)) return a;
+            return isEnabled
+              ? { ...member, updatedAt: new Date() }
+              : {
+                  ...a,
+                  notificationIds: undefined,
+                  snoozeState: undefined,
+                  updatedAt: new Date(),
+                };
+          }),
+        }));
+
+        console.log(
+          `⏰ Group ${id} ${isEnabled ? 'enabled' : 'disabled'}:`,
+          `${result.succeeded.length} ok, ${result.failed.length} failed`
+        );
+        return result;
+      },
+
       checkPermissions: async () => {
         const permissions = await notificationService.requestPermissions();
         set({ permissionsGranted: permissions.granted });
@@ -220,10 +636,21 @@ export const useAlarmStore = create<AlarmState>()(
           // Check permissions
           await get().checkPermissions();
 
-          // Sync any desynced alarms
-          await get().syncScheduledAlarms();
-
           set({ isLoading: false });
+
+          // Occurrences that passed while the app was closed, before anything reschedules
+          await get().checkMissedAlarms();
+
+          // Naps stopped outside the app while it was closed
+          await get().clearFinishedNaps();
+
+          // The device may have changed timezone while the app was closed
+          await get().applyTimeZoneChange();
+
+          // Repair schedules that drifted while the app was closed
+          schedulesLoaded = true;
+          await get().reconcileSchedules();
+
           console.log(
             '⏰ Loaded alarms with background support:',
             get().alarms.length
@@ -234,45 +661,198 @@ export const useAlarmStore = create<AlarmState>()(
         }
       },
 
-      syncScheduledAlarms: async () => {
+      clearFinishedNaps: async () => {
+        const ringingId = alarmService.getCurrentRingingAlarm()?.alarmId;
+        const finished = get().alarms.filter(
+          alarm => alarm.id !== ringingId && isNapOver(alarm)
+        );
+
+        for (const nap of finished) {
+          try {
+            await get().deleteAlarm(nap.id);
+          } catch (error) {
+            console.error('😴 Failed to clear finished nap:', nap.id, error);
+          }
+        }
+
+        if (finished.length > 0) {
+          console.log('😴 Cleared finished naps:', finished.length);
+        }
+        return finished.length;
+      },
+
+      reconcileSchedules: async () => {
+        // A create/update is still scheduling - its change brings us back here
+        if (get().isLoading) return null;
+        // Nothing on the OS side to drift from the virtual clock
+        if (alarmService.usesMemoryScheduler()) return null;
+
         try {
-          const scheduledNotifications =
-            await notificationService.getAllScheduledAlarms();
-          const alarms = get().alarms;
-
-          // Find alarms that are marked as active but don't have scheduled notifications
-          const desyncedAlarms = alarms.filter(
-            alarm =>
-              alarm.isActive &&
-              !scheduledNotifications.find(
-                notif => notif.content.data?.alarmId === alarm.id
-              )
-          );
+          const report = await scheduleReconciler.reconcile(() => get());
+          set({ notificationCoverage: report.coverage });
 
-          // Reschedule desynced alarms
-          for (const alarm of desyncedAlarms) {
+          const updates = report.updates;
+          if (Object.keys(updates).length > 0) {
+            // Device-local fields only - not an edit to sync or reconcile again
+            isApplyingReconcile = true;
             try {
-              await alarmService.scheduleAlarm(alarm);
-
               set(state => ({
                 alarms: state.alarms.map(a =>
-                  a.id === alarm.id ? { ...a, updatedAt: new Date() } : a
+                  updates[a.id]
+                    ? {
+                        ...a,
+                        notificationId: undefined,
+                        notificationIds: undefined,
+                        nativeAlarmId: undefined,
+                        isNativeAlarm: undefined,
+                        ...updates[a.id],
+                      }
+                    : a
                 ),
               }));
-
-              console.log('⏰ Resynced alarm:', alarm.id);
-            } catch (error) {
-              console.error('⏰ Failed to resync alarm:', alarm.id, error);
+            } finally {
+              isApplyingReconcile = false;
             }
           }
 
-          console.log(
-            '⏰ Synced scheduled alarms, resynced:',
-            desyncedAlarms.length
-          );
+          // One-time alarms that rang without being dismissed in the app
+          if (report.expired.length > 0) {
+            set(state => ({
+              alarms: state.alarms.map(a =>
+                report.expired.includes(a.id)
+                  ? { ...a, isActive: false, updatedAt: new Date() }
+                  : a
+              ),
+            }));
+            console.log(
+              '⏰ Switched off one-time alarms that rang:',
+              report.expired
+            );
+          }
+
+          return report;
         } catch (error) {
-          console.error('⏰ Failed to sync scheduled alarms:', error);
+          console.error('⏰ Failed to reconcile scheduled alarms:', error);
+          return null;
+        }
+      },
+
+      applyTimeZoneChange: async () => {
+        // A create/update is still scheduling - the next check picks it up
+        if (get().isLoading) return 0;
+
+        const changes = get().alarms.flatMap(alarm => {
+          const resolved = resolveAlarmTime(alarm);
+          return resolved ? [{ alarm, ...resolved }] : [];
+        });
+        if (changes.length === 0) return 0;
+
+        const updated = new Map<string, Alarm>();
+        let moved = 0;
+        for (const { alarm, time, wallClockTime } of changes) {
+          const next: Alarm = { ...alarm, time, wallClockTime };
+          updated.set(alarm.id, next);
+          if (time.getTime() === new Date(alarm.time).getTime()) continue;
+
+          moved++;
+          if (!isAlarmEffectivelyActive(alarm, get().groups)) continue;
+          try {
+            // Records the new IDs on the copy
+            await alarmService.rescheduleAlarm(next);
+          } catch (error) {
+            console.error(
+              '⏰ Failed to reschedule alarm after timezone change:',
+              alarm.id,
+              error
+            );
+          }
+        }
+
+        set(state => ({
+          alarms: state.alarms.map(a => updated.get(a.id) ?? a),
+        }));
+
+        if (moved > 0) {
+          console.log('🌍 Timezone changed - moved alarms:', moved);
+        }
+        return moved;
+      },
+
+      checkMissedAlarms: async () => {
+        const { alarms, groups } = get();
+        const missed = await alarmService.detectMissedAlarms(alarms, groups);
+        if (missed.length > 0) {
+          set(state => ({
+            missedAlarms: [
+              ...state.missedAlarms.filter(
+                known => !missed.some(m => m.id === known.id)
+              ),
+              ...missed,
+            ],
+          }));
         }
+        return missed;
+      },
+
+      dismissMissedAlarms: () => {
+        set({ missedAlarms: [] });
+      },
+
+      applyRemoteChanges: async (upserts, deletedIds) => {
+        const current = get().alarms;
+        const changedIds = new Set([
+          ...upserts.map(alarm => alarm.id),
+          ...deletedIds,
+        ]);
+
+        // Drop this device's schedules before replacing the alarms
+        for (const alarm of current.filter(a => changedIds.has(a.id))) {
+          try {
+            await alarmService.cancelAlarm(alarm);
+          } catch (error) {
+            console.error('⏰ Failed to cancel synced alarm:', alarm.id, error);
+          }
+        }
+
+        const incoming: Alarm[] = upserts.map(alarm => ({
+          ...alarm,
+          notificationId: undefined,
+          notificationIds: undefined,
+          nativeAlarmId: undefined,
+          snoozeState: undefined,
+        }));
+
+        for (const alarm of incoming) {
+          if (!isAlarmEffectivelyActive(alarm, get().groups)) continue;
+          try {
+            await alarmService.scheduleAlarm(alarm);
+          } catch (error) {
+            console.error(
+              '⏰ Failed to schedule synced alarm:',
+              alarm.id,
+              error
+            );
+          }
+        }
+
+        const incomingById = new Map(incoming.map(alarm => [alarm.id, alarm]));
+        set(state => ({
+          alarms: [
+            ...state.alarms
+              .filter(a => !deletedIds.includes(a.id))
+              .map(a => incomingById.get(a.id) ?? a),
+            ...incoming.filter(
+              alarm => !state.alarms.some(a => a.id === alarm.id)
+            ),
+          ],
+        }));
+
+        console.log(
+          '⏰ Applied synced alarms, updated:',
+          upserts.length,
+          'deleted:',
+          deletedIds.length
+        );
       },
     }),
     {
@@ -280,7 +860,9 @@ export const useAlarmStore = create<AlarmState>()(
       storage: createJSONStorage(() => AsyncStorage),
       partialize: state => ({
         alarms: state.alarms,
+        groups: state.groups,
         permissionsGranted: state.permissionsGranted,
+        missedAlarms: state.missedAlarms,
       }),
       onRehydrateStorage: () => state => {
         if (state?.alarms) {
@@ -299,9 +881,111 @@ export const useAlarmStore = create<AlarmState>()(
               typeof alarm.updatedAt === 'string'
                 ? new Date(alarm.updatedAt)
                 : alarm.updatedAt,
+            snoozeState: alarm.snoozeState && {
+              ...alarm.snoozeState,
+              snoozedUntil: new Date(alarm.snoozeState.snoozedUntil),
+            },
+          }));
+        }
+        if (state?.missedAlarms) {
+          state.missedAlarms = state.missedAlarms.map(missed => ({
+            ...missed,
+            scheduledTime: new Date(missed.scheduledTime),
           }));
         }
       },
     }
   )
 );
+
+// Let the alarm service resolve per-alarm settings (volume ramp) while ringing
+alarmService.setAlarmLookup(alarmId =>
+  useAlarmStore.getState().alarms.find(alarm => alarm.id === alarmId)
+);
+
+// Background fetch tops up the notification horizon from the current alarms
+notificationBudgetService.setAlarmSource(() => useAlarmStore.getState());
+
+// ...and the occurrences it replaced must stay cancellable from the alarms
+notificationBudgetService.setTopUpListener(report => {
+  const { alarms, groups } = useAlarmStore.getState();
+  const updates: Record<string, string[]> = {};
+  alarms
+    .filter(
+      alarm => isAlarmEffectivelyActive(alarm, groups) && !alarm.isNativeAlarm
+    )
+    .forEach(alarm => {
+      const identifiers = report.notificationIds[alarm.id] || [];
+      if (!sameIds(identifiers, alarm.notificationIds || [])) {
+        updates[alarm.id] = identifiers;
+      }
+    });
+
+  // Device-local fields only - not an edit to sync or reconcile again
+  isApplyingReconcile = true;
+  try {
+    useAlarmStore.setState(state => ({
+      notificationCoverage: {
+        coveredUntil: report.coveredUntil,
+        isShort: report.isShort,
+      },
+      alarms: state.alarms.map(a =>
+        updates[a.id]
+          ? {
+              ...a,
+              notificationId: undefined,
+              notificationIds:
+                updates[a.id].length > 0 ? updates[a.id] : undefined,
+            }
+          : a
+      ),
+    }));
+  } finally {
+    isApplyingReconcile = false;
+  }
+});
+
+// History snapshots - AlarmKit events carry the native alarm ID
+alarmHistoryService.setAlarmLookup(alarmId =>
+  useAlarmStore
+    .getState()
+    .alarms.find(
+      alarm => alarm.id === alarmId || alarm.nativeAlarmId === alarmId
+    )
+);
+
+// Repair schedules shortly after the last change to alarms or groups
+const RECONCILE_DELAY_MS = 1000;
+let reconcileTimeout: ReturnType<typeof setTimeout> | null = null;
+
+useAlarmStore.subscribe((state, previous) => {
+  if (!schedulesLoaded || isApplyingReconcile) return;
+  if (state.alarms === previous.alarms && state.groups === previous.groups) {
+    return;
+  }
+
+  if (reconcileTimeout) clearTimeout(reconcileTimeout);
+  reconcileTimeout = setTimeout(() => {
+    reconcileTimeout = null;
+    useAlarmStore.getState().reconcileSchedules();
+  }, RECONCILE_DELAY_MS);
+});
+
+// Schedules may have fired or been cleared while the app was in background,
+// naps may have been stopped from the lock screen, and the device may have
+// crossed timezones
+AppState.addEventListener('change', async nextState => {
+  if (nextState === 'active' && schedulesLoaded) {
+    await useAlarmStore.getState().checkMissedAlarms();
+    await useAlarmStore.getState().clearFinishedNaps();
+    await useAlarmStore.getState().applyTimeZoneChange();
+    useAlarmStore.getState().reconcileSchedules();
+  }
+});
+
+// Travel or a DST switch while the app is open
+watchTimeZone(signature => {
+  if (!schedulesLoaded) return;
+  console.log('🌍 Timezone changed:', signature);
+  useAlarmStore.getState().applyTimeZoneChange();
+});
@@ -0,0 +1,85 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QuietHours, SleepSettings } from '../types/sleep';
+import { DEFAULT_SLEEP_SETTINGS } from '../services/sleep/bedtime';
+import { bedtimeReminderService } from '../services/sleep/bedtime-reminder-service';
+import { useAlarmStore } from './alarm-store';
+import { useAuthStore } from './auth-store';
+
+interface SleepSettingsState {
+  settings: SleepSettings;
+
+  // Actions
+  updateSettings: (updates: Partial<SleepSettings>) => Promise<void>;
+  updateQuietHours: (updates: Partial<QuietHours>) => Promise<void>;
+  loadQuietHoursFromProfile: () => Promise<void>;
+  syncBedtimeReminders: () => Promise<void>;
+}
+
+export const useSleepSettingsStore = create<SleepSettingsState>()(
+  persist(
+    (set, get) => ({
+      settings: DEFAULT_SLEEP_SETTINGS,
+
+      updateSettings: async updates => {
+        set(state => ({ settings: { ...state.settings, ...updates } }));
+        await get().syncBedtimeReminders();
+      },
+
+      updateQuietHours: async updates => {
+        const { quietHours } = get().settings;
+        await get().updateSettings({
+          quietHours: { ...quietHours, ...updates },
+        });
+      },
+
+      loadQuietHoursFromProfile: async () => {
+        const user = useAuthStore.getState().user;
+        if (!user) return;
+
+        const quietHours = await bedtimeReminderService.fetchQuietHours(
+          user.id
+        );
+        if (quietHours) {
+          // Callers resync afterwards, see TabLayout
+          set(state => ({ settings: { ...state.settings, quietHours } }));
+          console.log('🌙 Loaded quiet hours from profile:', quietHours);
+        }
+      },
+
+      syncBedtimeReminders: async () => {
+        const { alarms, groups } = useAlarmStore.getState();
+        await bedtimeReminderService.sync(alarms, groups, get().settings);
+      },
+    }),
+    {
+      name: 'sleep-settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({ settings: state.settings }),
+      merge: (persisted, current) => ({
+        ...current,
+        settings: {
+          ...DEFAULT_SLEEP_SETTINGS,
+          ...(persisted as Partial<SleepSettingsState>)?.settings,
+        },
+      }),
+    }
+  )
+);
+
+// Alarm create/edit/toggle/skip/delete all replace alarms or groups - follow along
+// Debounced so batch changes (group toggles, resyncs) reschedule only once
+const RESYNC_DELAY_MS = 500;
+let resyncTimeout: ReturnType<typeof setTimeout> | null = null;
+
+useAlarmStore.subscribe((state, previous) => {
+  if (state.alarms === previous.alarms && state.groups === previous.groups) {
+    return;
+  }
+  if (resyncTimeout) clearTimeout(resyncTimeout);
+  resyncTimeout = setTimeout(() => {
+    resyncTimeout = null;
+    useSleepSettingsStore.getState().syncBedtimeReminders();
+  }, RESYNC_DELAY_MS);
+});
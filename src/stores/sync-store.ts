@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState } from 'react-native';
+import { alarmSyncService } from '../services/sync/alarm-sync-service';
+import { useAlarmStore } from './alarm-store';
+import { useAuthStore } from './auth-store';
+
+interface SyncState {
+  isSyncing: boolean;
+  lastSyncedAt: string | null; // ISO
+  pendingCount: number;
+  error: string | null;
+
+  // Actions
+  syncNow: () => Promise<void>;
+  refreshPendingCount: () => Promise<void>;
+}
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set, get) => ({
+      isSyncing: false,
+      lastSyncedAt: null,
+      pendingCount: 0,
+      error: null,
+
+      syncNow: async () => {
+        const user = useAuthStore.getState().user;
+        if (!user) return;
+
+        set({ isSyncing: true, error: null });
+
+        try {
+          const result = await alarmSyncService.sync(
+            user.id,
+            () => useAlarmStore.getState().alarms,
+            (upserts, deletedIds) =>
+              useAlarmStore.getState().applyRemoteChanges(upserts, deletedIds)
+          );
+          set({
+            isSyncing: false,
+            lastSyncedAt: new Date().toISOString(),
+            pendingCount: result.pending,
+          });
+        } catch (error) {
+          // Offline or server error - the queue is kept for the next attempt
+          set({
+            isSyncing: false,
+            error: error instanceof Error ? error.message : 'Sync failed',
+          });
+          await get().refreshPendingCount();
+        }
+      },
+
+      refreshPendingCount: async () => {
+        set({ pendingCount: await alarmSyncService.getPendingCount() });
+      },
+    }),
+    {
+      name: 'sync-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({ lastSyncedAt: state.lastSyncedAt }),
+    }
+  )
+);
+
+// Queue local alarm edits and push them shortly after the last change
+const PUSH_DELAY_MS = 2000;
+let pushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+useAlarmStore.subscribe((state, previous) => {
+  if (state.alarms === previous.alarms) return;
+
+  alarmSyncService
+    .trackLocalChanges(state.alarms, previous.alarms)
+    .then(queued => {
+      if (!queued) return;
+      useSyncStore.getState().refreshPendingCount();
+
+      if (pushTimeout) clearTimeout(pushTimeout);
+      pushTimeout = setTimeout(() => {
+        pushTimeout = null;
+        useSyncStore.getState().syncNow();
+      }, PUSH_DELAY_MS);
+    })
+    .catch(error => console.error('❌ Failed to queue alarm changes:', error));
+});
+
+// Pick up edits made on other devices when coming back to the app
+AppState.addEventListener('change', nextState => {
+  if (nextState === 'active') {
+    useSyncStore.getState().syncNow();
+  }
+});
@@ -10,27 +10,201 @@ export interface BaseAlarm {
   isActive: boolean;
   audioTrack: AudioTrack;
   repeatDays?: number[]; // 0 = Sunday, 1 = Monday, etc.
+  recurrence?: RecurrenceRule; // Takes precedence over repeatDays when set
+  exceptions?: AlarmException[]; // Per-occurrence skips/moves of repeating alarms
   isNativeAlarm?: boolean; // True if using AlarmKit
   nativeAlarmId?: string; // AlarmKit alarm ID
   backgroundAudioEnabled?: boolean; // True if using background audio (silent loop)
+  snoozePolicy?: SnoozePolicy; // Falls back to DEFAULT_SNOOZE_POLICY when missing
+  mission?: AlarmMissionConfig; // Challenge required before the alarm can be dismissed
+  volumeRamp?: VolumeRamp; // Falls back to DEFAULT_VOLUME_RAMP when missing
+  gentleWake?: GentleWakeConfig; // Quiet pre-alarm phase, off when missing
+  escalation?: EscalationConfig; // Off when missing (DEFAULT_ESCALATION)
+  awakeCheck?: AwakeCheckConfig; // Follow-up after dismissal, off when missing
+  isNap?: boolean; // Transient one-shot countdown alarm, deleted once dismissed
+  napMinutes?: number; // Nap length the countdown was started with
+  timeMode?: AlarmTimeMode; // Falls back to 'wall-clock'
+  wallClockTime?: string; // YYYY-MM-DDTHH:mm local time the alarm was set for
+}
+
+/**
+ * How an alarm follows timezone changes - keep its local time (07:00 stays
+ * 07:00 after a flight) or keep its instant (rings at the same moment everywhere)
+ */
+export type AlarmTimeMode = 'wall-clock' | 'absolute';
+
+export type CognitiveMissionType = 'math' | 'memory' | 'typing';
+
+export type MotionMissionType = 'shake' | 'steps' | 'flip';
+
+export type MissionType = CognitiveMissionType | MotionMissionType;
+
+export type MissionDifficulty = 'easy' | 'medium' | 'hard';
+
+/**
+ * Wake-up mission configured per alarm
+ */
+export interface AlarmMissionConfig {
+  type: MissionType;
+  difficulty: MissionDifficulty;
+  rounds: number; // Challenges to solve in a row
+  target?: number; // Shakes / steps / flips for motion missions
+  threshold?: number; // Motion sensitivity in g, lower is easier
+}
+
+/**
+ * Limits shared by all recurrence rules
+ */
+export interface RecurrenceBounds {
+  startDate?: string; // YYYY-MM-DD, first day the rule applies (also the interval anchor)
+  endDate?: string; // YYYY-MM-DD, last day the rule applies (inclusive)
+  count?: number; // Stop after N occurrences counted from startDate
+}
+
+/**
+ * Weekly rule - intervalWeeks of 2 gives alternating weeks (shift work)
+ */
+export interface WeeklyRecurrence extends RecurrenceBounds {
+  type: 'weekly';
+  weekdays: number[]; // 0 = Sunday, 1 = Monday, etc.
+  intervalWeeks?: number;
+}
+
+/**
+ * Every N days rule
+ */
+export interface DailyRecurrence extends RecurrenceBounds {
+  type: 'daily';
+  intervalDays: number;
+}
+
+/**
+ * Specific calendar dates
+ */
+export interface DatesRecurrence extends RecurrenceBounds {
+  type: 'dates';
+  dates: string[]; // YYYY-MM-DD
+}
+
+/**
+ * Monthly rule - either a day of month (clamped to short months)
+ * or an nth weekday of the month (weekOfMonth -1 = last)
+ */
+export interface MonthlyRecurrence extends RecurrenceBounds {
+  type: 'monthly';
+  dayOfMonth?: number;
+  weekday?: number;
+  weekOfMonth?: number;
+}
+
+export type RecurrenceRule =
+  WeeklyRecurrence | DailyRecurrence | DatesRecurrence | MonthlyRecurrence;
+
+/**
+ * One-off change of a single occurrence, keyed by its calendar date
+ */
+export type AlarmException =
+  | { date: string; type: 'skip' } // YYYY-MM-DD
+  | { date: string; type: 'move'; time: string }; // time as HH:mm
+
+export type VolumeCurve = 'linear' | 'exponential' | 'stepped';
+
+/**
+ * Wake intensity - how the alarm volume rises after it starts ringing
+ */
+export interface VolumeRamp {
+  startVolume: number; // 0-1
+  targetVolume: number; // 0-1
+  durationSeconds: number; // 0 = jump straight to the target volume
+  curve: VolumeCurve;
+}
+
+/**
+ * Quiet ambient sound played before the main alarm rings
+ */
+export interface GentleWakeConfig {
+  minutesBefore: number;
+  soundId: string; // SoundLibrary sound
+  volume: number; // 0-1, kept low
+}
+
+/**
+ * What happens when a ringing alarm is not dismissed - every afterMinutes the
+ * next step kicks in: full volume, the backup sound, then repeated notifications
+ */
+export interface EscalationConfig {
+  enabled: boolean;
+  afterMinutes: number; // Ringing time before each step
+  backupSoundId: string; // SoundLibrary sound, meant to be loud
+  vibrate: boolean; // Stack vibration from the first step on
+}
+
+/**
+ * "Are you awake?" follow-up - a check notification minutesAfter the dismissal
+ * that must be tapped within responseMinutes, or the alarm rings again
+ */
+export interface AwakeCheckConfig {
+  minutesAfter: number;
+  responseMinutes: number;
+}
+
+export type EscalationStep = 'volume' | 'backup-sound' | 'renotify' | 'vibrate';
+
+/**
+ * Snooze behaviour configured per alarm
+ */
+export interface SnoozePolicy {
+  enabled: boolean;
+  durationMinutes: number;
+  maxSnoozes: number;
+  followUpMinutes?: number[]; // Optional shorter durations for the 2nd, 3rd, ... snooze
+}
+
+/**
+ * Pending snooze of an alarm (re-ring scheduled through the alarm's own path)
+ */
+export interface AlarmSnoozeState {
+  count: number; // Snoozes taken since the alarm last rang on schedule
+  snoozedUntil: Date;
+  notificationIds?: string[];
+  nativeAlarmId?: string;
 }
 
 /**
  * Full alarm interface with metadata
  */
 export interface Alarm extends BaseAlarm {
+  groupId?: string; // Owning AlarmGroup, ungrouped when missing
   notificationId?: string;
   notificationIds?: string[]; // For multiple notification IDs (repeating alarms)
+  snoozeState?: AlarmSnoozeState;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Named set of alarms (e.g. weekdays, weekend, travel) toggled as a unit
+ * An alarm rings only when both the alarm and its group are enabled
+ */
+export interface AlarmGroup {
+  id: string;
+  name: string;
+  isEnabled: boolean;
+  order: number;
+  isCollapsed?: boolean; // Dashboard UI state
+}
+
 /**
  * Alarm creation/update data
  */
 export type AlarmCreateData = Omit<
   Alarm,
-  'id' | 'createdAt' | 'updatedAt' | 'notificationId' | 'notificationIds'
+  | 'id'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'notificationId'
+  | 'notificationIds'
+  | 'snoozeState'
 >;
 
 /**
@@ -45,4 +219,53 @@ export type AlarmUpdateData = Partial<
  */
 export interface AlarmNotification extends BaseAlarm {
   useBackgroundAudio?: boolean; // Flag for notification service to use background audio
+  isSnooze?: boolean; // Re-ring of a snoozed alarm
+}
+
+export type AlarmEventType =
+  | 'scheduled'
+  | 'triggered'
+  | 'ringing_shown'
+  | 'snoozed'
+  | 'dismissed'
+  | 'missed'
+  | 'escalated';
+
+export type AlarmTriggerSource =
+  | 'notification'
+  | 'notification_tap'
+  | 'background_task'
+  | 'background_fetch'
+  | 'alarmkit'
+  | 'gentle_wake'
+  | 'awake_check'
+  | 'simulated';
+
+/**
+ * Alarm settings at the time of an event - survives later edits or deletion
+ */
+export interface AlarmSnapshot {
+  id: string;
+  title: string;
+  time: Date;
+  isActive: boolean;
+  repeatDays?: number[];
+  recurrence?: RecurrenceRule;
+  audioTrackName: string;
+  groupId?: string;
+  missionType?: MissionType;
+}
+
+/**
+ * Entry of the append-only alarm event log
+ */
+export interface AlarmHistoryEvent {
+  id: string;
+  type: AlarmEventType;
+  alarmId: string;
+  timestamp: Date; // When the event was recorded
+  scheduledTime?: Date; // Occurrence the event belongs to, when known
+  source?: AlarmTriggerSource;
+  details?: Record<string, string | number | boolean>;
+  alarm?: AlarmSnapshot; // Missing when the alarm could not be resolved
 }
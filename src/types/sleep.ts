@@ -0,0 +1,24 @@
+/**
+ * Mirrors the quiet hours columns of notification_preferences
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface SleepSettings {
+  bedtimeRemindersEnabled: boolean;
+  sleepGoalMinutes: number; // Target time asleep, e.g. 450 for 7h30
+  windDownMinutes: number; // How long before bedtime to remind
+  fallAsleepMinutes: number; // Sleep-cycle latency used by the cycle calculator
+  quietHours: QuietHours;
+}
+
+export interface BedtimeReminder {
+  alarmId: string;
+  alarmTitle: string;
+  wakeTime: Date;
+  bedtime: Date;
+  remindAt: Date;
+}
@@ -0,0 +1,54 @@
+-- ALARM SYNC
+-- Alarms mirrored between a user's devices
+
+-- ================================
+-- ALARMS - one row per alarm, keyed by the client-generated alarm ID
+-- ================================
+CREATE TABLE public.alarms (
+  id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+
+  -- Synced alarm fields as JSON (device-local scheduling state is never stored)
+  data JSONB NOT NULL DEFAULT '{}',
+
+  -- Client edit time - used for conflict resolution between devices
+  client_updated_at TIMESTAMPTZ NOT NULL,
+  -- Tombstone so deletions reach devices that were offline
+  deleted BOOLEAN NOT NULL DEFAULT false,
+  -- Device that wrote the row last
+  device_id TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Server write time - pull cursor, maintained by trigger
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (user_id, id)
+);
+
+-- ================================
+-- INDEXES
+-- ================================
+
+-- Incremental pulls: rows of a user changed since the last cursor
+CREATE INDEX idx_alarms_user_updated ON public.alarms(user_id, updated_at);
+
+-- ================================
+-- TRIGGERS
+-- ================================
+
+-- Auto-update updated_at (upserts go through BEFORE UPDATE on conflict)
+CREATE TRIGGER alarms_updated_at BEFORE UPDATE ON public.alarms
+  FOR EACH ROW EXECUTE FUNCTION public.handle_updated_at();
+
+-- ================================
+-- RLS POLICIES
+-- ================================
+
+ALTER TABLE public.alarms ENABLE ROW LEVEL SECURITY;
+
+-- ALARMS - users only ever see and write their own alarms
+CREATE POLICY "alarms_all" ON public.alarms FOR ALL USING (
+  user_id = auth.uid()
+) WITH CHECK (
+  user_id = auth.uid()
+);